@@ -8,8 +8,12 @@ import {
   VariableType, 
   generateEvaluationFunction, 
   executeEvaluationFunction,
-  FunctionGenerationResult
+  FunctionGenerationResult,
+  invalidateCachedFunction
 } from './api/LLMFunctionGenerator';
+import { FunctionCacheStore } from './api/FunctionCache';
+import { FunctionGenerationProvider } from './api/FunctionGenerationProvider';
+import { SandboxTimeoutError } from './computation/Sandbox';
 
 /**
  * Options for creating an interactive formula
@@ -24,14 +28,20 @@ export interface InteractiveFormulaOptions {
   /** OpenAI model to use (defaults to gpt-3.5-turbo) */
   model?: string;
   
+  /** Backend generating the evaluation code (defaults to OpenAI) */
+  provider?: FunctionGenerationProvider;
+  
+  /** Store for previously generated code. Nothing is cached if omitted. */
+  cache?: FunctionCacheStore;
+  
   /** Callback for when variables change */
   onVariableChange?: (variables: VariableDefinition[]) => void;
   
   /** Callback for when the formula updates */
   onFormulaUpdate?: (formula: string) => void;
   
-  /** Callback for when the code is generated */
-  onCodeGeneration?: (code: string) => void;
+  /** Callback for when the code is generated or loaded from the cache */
+  onCodeGeneration?: (code: string, fromCache: boolean) => void;
   
   /** Callback for errors */
   onError?: (error: Error) => void;
@@ -56,6 +66,9 @@ export class InteractiveFormula {
   /** Flag to indicate if the formula is being updated */
   private _isUpdating = false;
   
+  /** Incremented on each update so that stale evaluation results are dropped */
+  private _evaluationCount = 0;
+  
   /**
    * Create a new interactive formula
    * @param options Configuration options
@@ -257,20 +270,25 @@ export class InteractiveFormula {
   /**
    * Update all output variables using the evaluation function
    */
-  private updateOutputVariables(): void {
+  private async updateOutputVariables(): Promise<void> {
     if (!this._functionResult || !this._functionResult.evaluationFunction) {
       return;
     }
     
+    const evaluation = ++this._evaluationCount;
     try {
-      this._isUpdating = true;
-      
       // Execute the evaluation function
-      const results = executeEvaluationFunction(
+      const results = await executeEvaluationFunction(
         this._functionResult.evaluationFunction, 
         this._variables
       );
       
+      // A newer update started while this one was running
+      if (evaluation !== this._evaluationCount) {
+        return;
+      }
+      this._isUpdating = true;
+      
       // Update output variables with results
       let hasChanges = false;
       
@@ -295,6 +313,9 @@ export class InteractiveFormula {
         this._options.onVariableChange(this._variables);
       }
     } catch (error) {
+      if (evaluation !== this._evaluationCount) {
+        return;
+      }
       console.error("Error updating output variables:", error);
       
       // Mark output variables with an error
@@ -302,7 +323,7 @@ export class InteractiveFormula {
         if (variable.type === 'output') {
           this._variables[index] = {
             ...variable,
-            error: "Evaluation error"
+            error: error instanceof SandboxTimeoutError ? "Evaluation timed out" : "Evaluation error"
           };
         }
       });
@@ -316,6 +337,16 @@ export class InteractiveFormula {
     }
   }
   
+  /**
+   * Discard any cached code for the formula and generate it again
+   */
+  async regenerateFunction(): Promise<void> {
+    if (this._options.cache) {
+      await invalidateCachedFunction(this._formula, this._variables, this._options.cache);
+    }
+    await this.generateFunction();
+  }
+  
   /**
    * Generate the evaluation function for the formula
    */
@@ -325,17 +356,21 @@ export class InteractiveFormula {
       console.log(`Generating evaluation function for formula: ${this._formula}`);
       
       // Generate the evaluation function
-      this._functionResult = await generateEvaluationFunction(
+      const functionResult = await generateEvaluationFunction(
         this._formula,
         this._variables,
         {
-          model: this._options.model
+          model: this._options.model,
+          provider: this._options.provider,
+          cache: this._options.cache
         }
       );
+      this._functionResult?.dispose();
+      this._functionResult = functionResult;
       
       // Notify code generation listeners
       if (this._options.onCodeGeneration && this._functionResult.code) {
-        this._options.onCodeGeneration(this._functionResult.code);
+        this._options.onCodeGeneration(this._functionResult.code, this._functionResult.fromCache);
       }
       
       // Update output variables
@@ -0,0 +1,109 @@
+/**
+ * FunctionCache.ts
+ * Pluggable storage for generated evaluation functions, so that formulas seen
+ * before don't need another round trip to the LLM
+ */
+
+/**
+ * Storage backend for cached evaluation code. Methods may return promises so
+ * that asynchronous stores like IndexedDB can be plugged in.
+ */
+export interface FunctionCacheStore {
+  /**
+   * Look up cached code
+   * @param key Cache key from functionCacheKey
+   * @returns The cached code, or undefined on a miss
+   */
+  get(key: string): string | undefined | Promise<string | undefined>;
+
+  /**
+   * Store generated code
+   * @param key Cache key from functionCacheKey
+   * @param code The generated evaluation code
+   */
+  set(key: string, code: string): void | Promise<void>;
+
+  /**
+   * Remove cached code
+   * @param key Cache key from functionCacheKey
+   */
+  delete(key: string): void | Promise<void>;
+}
+
+/**
+ * Build the cache key for a formula. Generated code depends on the formula and
+ * on which variables are inputs and which are computed, so all three are part
+ * of the key.
+ * @param formula The formula in LaTeX format
+ * @param inputVars Symbols of the input variables
+ * @param outputVars Symbols of the output variables
+ * @returns The cache key
+ */
+export function functionCacheKey(formula: string, inputVars: string[], outputVars: string[]): string {
+  return JSON.stringify([
+    formula.replace(/\s+/g, ''),
+    [...inputVars].sort(),
+    [...outputVars].sort()
+  ]);
+}
+
+/**
+ * Cache that lives as long as the page
+ */
+export class MemoryFunctionCacheStore implements FunctionCacheStore {
+  private entries = new Map<string, string>();
+
+  public get(key: string): string | undefined {
+    return this.entries.get(key);
+  }
+
+  public set(key: string, code: string): void {
+    this.entries.set(key, code);
+  }
+
+  public delete(key: string): void {
+    this.entries.delete(key);
+  }
+}
+
+/**
+ * Cache persisted in localStorage under a prefix. localStorage can be
+ * unavailable or full, e.g. in private browsing, in which case the cache
+ * misses and doesn't store anything instead of failing the evaluation.
+ */
+export class LocalStorageFunctionCacheStore implements FunctionCacheStore {
+  private prefix: string;
+
+  /**
+   * Create a localStorage backed cache
+   * @param prefix Prefix for the localStorage keys
+   */
+  constructor(prefix: string = 'interactive-math:function-cache:') {
+    this.prefix = prefix;
+  }
+
+  public get(key: string): string | undefined {
+    try {
+      return localStorage.getItem(this.prefix + key) ?? undefined;
+    } catch (error) {
+      console.warn("⚠️ Couldn't read function cache:", error);
+      return undefined;
+    }
+  }
+
+  public set(key: string, code: string): void {
+    try {
+      localStorage.setItem(this.prefix + key, code);
+    } catch (error) {
+      console.warn("⚠️ Couldn't write function cache:", error);
+    }
+  }
+
+  public delete(key: string): void {
+    try {
+      localStorage.removeItem(this.prefix + key);
+    } catch (error) {
+      console.warn("⚠️ Couldn't write function cache:", error);
+    }
+  }
+}
@@ -0,0 +1,294 @@
+/**
+ * FunctionGenerationProvider.ts
+ * Backends that turn a formula into JavaScript evaluation code
+ */
+
+/**
+ * What a provider is asked to generate code for
+ */
+export interface FunctionGenerationRequest {
+  /** The formula in LaTeX format */
+  formula: string;
+  /** Symbols of the input variables, without dollar signs */
+  inputVars: string[];
+  /** Symbols of the output variables to calculate, without dollar signs */
+  outputVars: string[];
+  /** Model to use, if the provider supports choosing one */
+  model?: string;
+  /** Temperature for generation */
+  temperature?: number;
+  /** A previous attempt that gave wrong results, to be corrected */
+  feedback?: {
+    /** The code of the previous attempt */
+    code: string;
+    /** Inputs it failed for, with the outputs it gave or the error it threw */
+    failures: { inputs: Record<string, number>; outputs: Record<string, number>; error?: string }[];
+  };
+}
+
+/**
+ * A backend that generates the source of an `evaluate(variables)` function
+ */
+export interface FunctionGenerationProvider {
+  /**
+   * Generate evaluation code for a formula
+   * @param request The formula and its variables
+   * @returns Promise resolving to the generated JavaScript source
+   */
+  generateCode(request: FunctionGenerationRequest): Promise<string>;
+}
+
+/**
+ * A chat message in the OpenAI chat completions format
+ */
+export interface ChatMessage {
+  role: 'system' | 'user' | 'assistant';
+  content: string;
+}
+
+/**
+ * Build the prompt asking a chat model for an evaluation function
+ * @param request The formula and its variables
+ * @returns Chat messages to send
+ */
+function buildMessages(request: FunctionGenerationRequest): ChatMessage[] {
+  return [{
+    role: "system",
+    content: `You are a precise JavaScript code generator that creates functions to evaluate mathematical formulas.
+            You MUST include ALL input variables in your calculations.
+            Return ONLY the function code without any explanations or markdown.`
+  }, {
+    role: "user",
+    content: `
+      Create a JavaScript function that evaluates this exact formula: ${request.formula}
+      
+      Input variables: ${request.inputVars.join(', ')}
+      Output variables to calculate: ${request.outputVars.join(', ')}
+      
+      IMPORTANT: 
+      - You MUST use ALL the input variables listed above
+      - Use simple variable names without special characters, accessed with dot notation like variables.a
+      - For Fitts' Law (T = a + b log₂(2D/W)), the correct implementation would be:
+        T = variables.a + variables.b * Math.log2(2 * variables.D / variables.W)
+      
+      Requirements:
+      1. Function must be named 'evaluate'
+      2. Must take a single parameter 'variables' containing input values as properties
+      3. Must use ALL specified input variables with 'variables.symbol' notation
+      4. Must return an object with all output variables as properties: { T: value }
+      5. Include proper error handling for division by zero and invalid operations
+      
+      Here's the exact structure to follow:
+      
+      function evaluate(variables) {
+        try {
+          // Your calculation code here using ALL input variables
+          // Use variables.a, variables.b, etc. for all inputs
+          
+          return {
+            ${request.outputVars.map(v => v.replace(/\$/g, '')).join(': calculatedValue, ')}${request.outputVars.length > 1 ? '' : ': calculatedValue'}
+          };
+        } catch (error) {
+          console.error("Error in formula calculation:", error);
+          return {
+            ${request.outputVars.map(v => v.replace(/\$/g, '')).join(': NaN, ')}${request.outputVars.length > 1 ? '' : ': NaN'}
+          };
+        }
+      }
+    `
+  }];
+}
+
+/**
+ * Messages asking the model to correct a previous attempt
+ * @param feedback The previous attempt and the inputs it failed for
+ * @returns Chat messages to send after the prompt
+ */
+function feedbackMessages({ code, failures }: NonNullable<FunctionGenerationRequest['feedback']>): ChatMessage[] {
+  const describeFailure = ({ inputs, outputs, error }: (typeof failures)[number]) =>
+    `- inputs ${JSON.stringify(inputs)} gave ` +
+    (error ? `an error: ${error}` : `${JSON.stringify(outputs)}`);
+  return [{
+    role: 'assistant',
+    content: code
+  }, {
+    role: 'user',
+    content: `This function is wrong. Substituting its outputs back into the formula doesn't satisfy it for these inputs:
+${failures.map(describeFailure).join('\n')}
+
+Fix the function. Return ONLY the function code.`
+  }];
+}
+
+/**
+ * Options for an OpenAI-compatible endpoint
+ */
+export interface OpenAICompatibleProviderOptions {
+  /** URL of the chat completions endpoint */
+  endpoint: string;
+  /** API key sent as a bearer token, if the server requires one */
+  apiKey?: string;
+  /** Model used when the request doesn't specify one */
+  model: string;
+  /** Temperature used when the request doesn't specify one */
+  temperature?: number;
+  /** Builds the prompt for a request, replacing the default one */
+  buildMessages?: (request: FunctionGenerationRequest) => ChatMessage[];
+}
+
+/**
+ * Provider for any server implementing the OpenAI chat completions API, such
+ * as a local model server
+ */
+export class OpenAICompatibleProvider implements FunctionGenerationProvider {
+  private options: OpenAICompatibleProviderOptions;
+
+  /**
+   * Create a provider for an OpenAI-compatible endpoint
+   * @param options Endpoint, credentials and defaults
+   */
+  constructor(options: OpenAICompatibleProviderOptions) {
+    this.options = options;
+  }
+
+  public async generateCode(request: FunctionGenerationRequest): Promise<string> {
+    const headers: Record<string, string> = {
+      'Content-Type': 'application/json'
+    };
+    const apiKey = this.getApiKey();
+    if (apiKey) {
+      headers['Authorization'] = `Bearer ${apiKey}`;
+    }
+
+    console.log("STARTING API CALL TO", this.options.endpoint);
+    const response = await fetch(this.options.endpoint, {
+      method: 'POST',
+      headers,
+      body: JSON.stringify({
+        model: request.model || this.options.model,
+        messages: [
+          ...(this.options.buildMessages ?? buildMessages)(request),
+          ...(request.feedback ? feedbackMessages(request.feedback) : [])
+        ],
+        temperature: request.temperature ?? this.options.temperature ?? 0.1
+      })
+    });
+
+    console.log("API CALL COMPLETED");
+
+    if (!response.ok) {
+      const errorData = await response.json();
+      console.error("API ERROR:", errorData);
+      throw new Error(`API error: ${errorData.error?.message || 'Unknown error'}`);
+    }
+
+    console.log("PARSING RESPONSE");
+    const result = await response.json();
+    return result.choices[0].message.content.trim();
+  }
+
+  /**
+   * Get the API key to send with requests
+   * @returns The API key, or an empty string to send none
+   */
+  protected getApiKey(): string {
+    return this.options.apiKey || '';
+  }
+}
+
+// Get API key from environment variable or global state
+function getOpenAIApiKey(): string {
+  // Check for browser global
+  if (typeof window !== 'undefined') {
+    // Check for global variables
+    if ((window as any).OPENAI_API_KEY) {
+      return (window as any).OPENAI_API_KEY;
+    }
+    if ((window as any).VITE_OPENAI_API_KEY) {
+      return (window as any).VITE_OPENAI_API_KEY;
+    }
+  }
+  
+  // Check for Node.js environment
+  if (typeof process !== 'undefined' && process.env) {
+    if (process.env.OPENAI_API_KEY) {
+      return process.env.OPENAI_API_KEY;
+    }
+    if (process.env.VITE_OPENAI_API_KEY) {
+      return process.env.VITE_OPENAI_API_KEY;
+    }
+  }
+  
+  return '';
+}
+
+/**
+ * Provider for the OpenAI API. The API key defaults to the OPENAI_API_KEY or
+ * VITE_OPENAI_API_KEY global or environment variable.
+ */
+export class OpenAIProvider extends OpenAICompatibleProvider {
+  /**
+   * Create an OpenAI provider
+   * @param options API key, defaults and prompt
+   */
+  constructor(options: Partial<Omit<OpenAICompatibleProviderOptions, 'endpoint'>> = {}) {
+    super({
+      endpoint: 'https://api.openai.com/v1/chat/completions',
+      model: 'gpt-3.5-turbo',
+      ...options
+    });
+  }
+
+  protected getApiKey(): string {
+    const apiKey = super.getApiKey() || getOpenAIApiKey();
+    if (!apiKey) {
+      throw new Error("OpenAI API key not found. Please set the VITE_OPENAI_API_KEY environment variable.");
+    }
+    return apiKey;
+  }
+}
+
+/**
+ * Canned code for a formula, returned by the mock provider
+ */
+export interface MockFixture {
+  /** The formula in LaTeX format. Whitespace is ignored when matching. */
+  formula: string;
+  /** Output variables the code calculates. Matches any outputs if omitted. */
+  outputVars?: string[];
+  /** The evaluation code to return */
+  code: string;
+}
+
+/**
+ * Deterministic provider serving code from fixtures, for tests and demos that
+ * should run without a network or API key
+ */
+export class MockProvider implements FunctionGenerationProvider {
+  private fixtures: MockFixture[];
+
+  /** Requests received so far, for assertions in tests */
+  public readonly requests: FunctionGenerationRequest[] = [];
+
+  /**
+   * Create a mock provider
+   * @param fixtures Code to return for each formula
+   */
+  constructor(fixtures: MockFixture[]) {
+    this.fixtures = fixtures;
+  }
+
+  public async generateCode(request: FunctionGenerationRequest): Promise<string> {
+    this.requests.push(request);
+    const normalize = (latex: string) => latex.replace(/\s+/g, '');
+    const outputs = [...request.outputVars].sort().join(',');
+    const fixture = this.fixtures.find(fixture =>
+      normalize(fixture.formula) === normalize(request.formula) &&
+      (!fixture.outputVars || [...fixture.outputVars].sort().join(',') === outputs)
+    );
+    if (!fixture) {
+      throw new Error(`No mock fixture for formula ${request.formula} with outputs ${outputs}`);
+    }
+    return fixture.code;
+  }
+}
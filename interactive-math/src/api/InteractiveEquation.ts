@@ -1,6 +1,10 @@
 import { Formula, VariableDefinition, VariableType, VariableValue } from '../core/Formula';
 import { ComputationEngine } from '../computation/ComputationEngine';
 import { FormulaRenderer, RendererFactory, RendererType } from '../rendering/RendererFactory';
+import { FunctionPlot, PlotData } from '../rendering/FunctionPlot';
+import { AnimationOptions, VariableAnimation } from '../core/Animation';
+import { FunctionGenerationProvider } from './FunctionGenerationProvider';
+import { FunctionCacheStore } from './FunctionCache';
 
 /**
  * Options for creating an interactive equation
@@ -14,6 +18,18 @@ export interface EquationOptions {
   
   /** Preferred rendering backend */
   renderer?: RendererType;
+  
+  /** Backend generating the evaluation code (defaults to OpenAI) */
+  provider?: FunctionGenerationProvider;
+  
+  /** Store for previously generated code. Nothing is cached if omitted. */
+  cache?: FunctionCacheStore;
+  
+  /**
+   * Precompiled evaluation code, e.g. exported from the formula editor. It's
+   * used as is, so no code is generated at runtime and no provider is needed.
+   */
+  code?: string;
 }
 
 /**
@@ -32,10 +48,52 @@ export interface VariableConfig {
   /** Number of decimal places to show */
   precision?: number;
   
-  /** Units to display with the value */
+  /**
+   * How much the arrow keys change a slideable/scrubbable value (defaults to
+   * the smallest change shown at the precision)
+   */
+  step?: number;
+  
+  /**
+   * Units of the value, e.g. "kg", "m/s^2" or "kN·m". SI base units, prefixes
+   * and derived units such as N, J and W are understood: inputs are converted
+   * to SI units for evaluation, and units are derived for outputs without any.
+   */
   units?: string;
 }
 
+/**
+ * Options for plotting outputs against an input
+ */
+export interface PlotOptions {
+  /** Input variable on the x axis, which is sampled over its range */
+  x: string;
+  
+  /** Output variables to plot (defaults to every output) */
+  y?: string[];
+  
+  /** Number of points sampled along the x axis (defaults to 101) */
+  samples?: number;
+}
+
+/**
+ * A plot kept up to date with the variables
+ */
+interface PlotState {
+  plot: FunctionPlot;
+  options: PlotOptions;
+  data: PlotData | null;
+  /** Values of the other inputs when the curves were sampled */
+  inputsKey: string | null;
+}
+
+const DEFAULT_PLOT_SAMPLES = 101;
+
+/**
+ * Strip the dollar signs some renderers keep around symbols
+ */
+const bareSymbol = (symbol: string) => symbol.replace(/^\$|\$$/g, '');
+
 /**
  * Main class representing an interactive equation
  */
@@ -45,6 +103,9 @@ export class InteractiveEquation {
   private renderer: FormulaRenderer;
   private container: HTMLElement | null = null;
   private changeListeners: Array<(values: Record<string, VariableValue>) => void> = [];
+  private plots: PlotState[] = [];
+  /** Functions stopping the running animations, by symbol */
+  private animations = new Map<string, () => void>();
   
   /**
    * Create a new interactive equation
@@ -77,6 +138,7 @@ export class InteractiveEquation {
         value: config.value,
         range: config.range,
         precision: config.precision,
+        step: config.step,
         units: config.units
       };
     }
@@ -86,6 +148,15 @@ export class InteractiveEquation {
     
     // Create computation engine
     this.computationEngine = new ComputationEngine();
+    if (options.provider) {
+      this.computationEngine.setFunctionGenerationProvider(options.provider);
+    }
+    if (options.cache) {
+      this.computationEngine.setFunctionCache(options.cache);
+    }
+    if (options.code) {
+      this.computationEngine.setPrecompiledCode(options.code);
+    }
     
     // Register variables with computation engine
     for (const [symbol, definition] of Object.entries(variableDefinitions)) {
@@ -107,6 +178,7 @@ export class InteractiveEquation {
       // Now notify listeners and update the rendering
       this.notifyChangeListeners();
       this.updateRendering();
+      this.updatePlots();
     });
     
     // Set formula in computation engine
@@ -170,6 +242,7 @@ export class InteractiveEquation {
         units?: string;
         range?: [number, number];
         precision?: number;
+        step?: number;
       }> = {};
       
       for (const [symbol, value] of Object.entries(variables)) {
@@ -180,7 +253,8 @@ export class InteractiveEquation {
           type: value.type,
           units: value.units,
           range: definition?.range,
-          precision: definition?.precision
+          precision: definition?.precision,
+          step: definition?.step
         };
       }
       
@@ -312,11 +386,167 @@ export class InteractiveEquation {
   }
   
   /**
-   * Get the current values of all variables
+   * Get the current values of all variables, with their units and, for
+   * outputs, the inputs they depend on
    * @returns Record mapping variable symbols to their values
    */
   public getVariableValues(): Record<string, VariableValue> {
-    return this.formula.getVariableValues();
+    const values = this.formula.getVariableValues();
+    for (const [symbol, value] of Object.entries(values)) {
+      const { units, unitError } = this.computationEngine.getUnits(symbol);
+      value.units = units;
+      if (unitError) {
+        value.unitError = unitError;
+      }
+      const dependencies = this.computationEngine.getDependencies(symbol);
+      if (dependencies) {
+        value.dependencies = dependencies;
+      }
+    }
+    return values;
+  }
+  
+  /**
+   * Sample outputs along an input, with the other inputs at their current values
+   * @param options The input on the x axis, the outputs and the number of samples
+   * @returns The sampled curves
+   */
+  public async samplePlot(options: PlotOptions): Promise<PlotData> {
+    const x = this.formula.getVariable(options.x);
+    if (!x || x.type === 'output') {
+      throw new Error(`Input variable ${options.x} not found`);
+    }
+    if (!x.range) {
+      throw new Error(`Variable ${options.x} has no range to plot over`);
+    }
+    const outputs = options.y ?? Object.entries(this.getVariableValues())
+      .filter(([_, value]) => value.type === 'output')
+      .map(([symbol]) => symbol);
+    
+    const [min, max] = x.range;
+    const count = Math.max(2, options.samples ?? DEFAULT_PLOT_SAMPLES);
+    const xs = Array.from({ length: count }, (_, i) => min + ((max - min) * i) / (count - 1));
+    const results = await Promise.all(xs.map((value) => this.computationEngine.evaluateWith({ [options.x]: value })));
+    
+    const curves: Record<string, number[]> = {};
+    for (const symbol of outputs) {
+      curves[symbol] = results.map((result) => result?.[symbol] ?? NaN);
+    }
+    return { x: options.x, xs, curves };
+  }
+  
+  /**
+   * Plot outputs against an input in a container. The curves are sampled
+   * again when other inputs change, and the current values are marked.
+   * @param container HTML element to draw the plot into
+   * @param options The input on the x axis, the outputs and the number of samples
+   * @returns Function that removes the plot
+   */
+  public async plotTo(container: HTMLElement, options: PlotOptions): Promise<() => void> {
+    const values = this.getVariableValues();
+    const labels = Object.fromEntries(
+      Object.entries(values).map(([symbol, value]) => [symbol, value.units ? `${symbol} (${value.units})` : symbol])
+    );
+    const state: PlotState = { plot: new FunctionPlot(container, labels), options, data: null, inputsKey: null };
+    this.plots.push(state);
+    await this.updatePlot(state);
+    
+    return () => {
+      this.plots = this.plots.filter((plot) => plot !== state);
+      state.plot.clear();
+    };
+  }
+  
+  /**
+   * Redraw the plots with the current values
+   */
+  private updatePlots(): void {
+    this.plots.forEach((state) =>
+      this.updatePlot(state).catch((error) => console.error(`❌ Error updating plot:`, error))
+    );
+  }
+  
+  /**
+   * Redraw a plot, sampling the curves again if inputs other than the one on
+   * the x axis changed
+   * @param state The plot
+   */
+  private async updatePlot(state: PlotState): Promise<void> {
+    const values = this.getVariableValues();
+    const inputsKey = JSON.stringify(
+      Object.entries(values)
+        .filter(([symbol, value]) => symbol !== state.options.x && value.type !== 'output')
+        .map(([_, value]) => value.value)
+    );
+    if (state.data === null || inputsKey !== state.inputsKey) {
+      state.inputsKey = inputsKey;
+      const data = await this.samplePlot(state.options);
+      // Inputs changed again while sampling
+      if (state.inputsKey !== inputsKey) {
+        return;
+      }
+      // Nothing could be evaluated, e.g. because the code isn't generated yet
+      if (Object.values(data.curves).every((ys) => ys.every((y) => !Number.isFinite(y)))) {
+        state.inputsKey = null;
+        return;
+      }
+      state.data = data;
+    }
+    
+    const current = this.getVariableValues();
+    state.plot.render(state.data, {
+      x: current[state.options.x]?.value ?? NaN,
+      y: Object.fromEntries(Object.keys(state.data.curves).map((symbol) => [symbol, current[symbol]?.value ?? NaN])),
+    });
+  }
+  
+  /**
+   * Sweep an input variable through its range, updating the outputs on every
+   * animation frame. Grabbing the variable in the rendered equation, with the
+   * pointer or keyboard, stops the animation.
+   * @param symbol Input variable to animate
+   * @param options Speed, looping, ping-pong and easing
+   * @returns Function that stops the animation
+   */
+  public animate(symbol: string, options: AnimationOptions = {}): () => void {
+    const variable = this.formula.getVariable(symbol);
+    if (!variable || variable.type === 'output') {
+      throw new Error(`Input variable ${symbol} not found`);
+    }
+    if (!variable.range) {
+      throw new Error(`Variable ${symbol} has no range to animate over`);
+    }
+    this.animations.get(symbol)?.();
+    
+    const animation = new VariableAnimation(
+      variable.range,
+      variable.value,
+      options,
+      (value) => this.handleVariableChange(symbol, value),
+      () => stop()
+    );
+    
+    const grabHandler = (e: Event) => {
+      const target = e.target instanceof Element ? e.target.closest<HTMLElement>('[data-variable]') : null;
+      if (target && this.container?.contains(target) && bareSymbol(target.dataset.variable ?? '') === bareSymbol(symbol)) {
+        stop();
+      }
+    };
+    
+    const stop = () => {
+      animation.stop();
+      document.removeEventListener('pointerdown', grabHandler, true);
+      document.removeEventListener('keydown', grabHandler, true);
+      if (this.animations.get(symbol) === stop) {
+        this.animations.delete(symbol);
+      }
+    };
+    
+    document.addEventListener('pointerdown', grabHandler, true);
+    document.addEventListener('keydown', grabHandler, true);
+    this.animations.set(symbol, stop);
+    animation.start();
+    return stop;
   }
   
   /**
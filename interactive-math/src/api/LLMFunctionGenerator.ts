@@ -1,6 +1,6 @@
 /**
  * LLMFunctionGenerator.ts
- * API for automatically generating evaluation functions from mathematical formulas using OpenAI
+ * API for automatically generating evaluation functions from mathematical formulas using an LLM
  */
 
 // Add TypeScript declaration for import.meta.env
@@ -10,6 +10,10 @@ declare global {
   }
 }
 
+import { Sandbox } from '../computation/Sandbox';
+import { FunctionGenerationProvider, OpenAIProvider } from './FunctionGenerationProvider';
+import { FunctionCacheStore, functionCacheKey } from './FunctionCache';
+
 /**
  * Types of variables in a formula
  */
@@ -41,44 +45,26 @@ export interface VariableDefinition {
 export interface FunctionGenerationResult {
   /** The generated function code */
   code: string;
-  /** Compiled evaluation function */
-  evaluationFunction: (variables: Record<string, number>) => Record<string, number>;
+  /** Evaluation function, running the generated code in a sandboxed worker */
+  evaluationFunction: (variables: Record<string, number>) => Promise<Record<string, number>>;
+  /** Terminate the sandbox worker once the function is no longer needed */
+  dispose: () => void;
+  /** Whether the code was served from the cache rather than generated */
+  fromCache: boolean;
 }
 
 /**
  * Options for function generation
  */
 export interface FunctionGenerationOptions {
-  /** OpenAI model to use */
+  /** Model to use, overriding the provider's default */
   model?: string;
   /** Temperature for generation */
   temperature?: number;
-}
-
-// Get API key from environment variable or global state
-function getApiKey(): string {
-  // Check for browser global
-  if (typeof window !== 'undefined') {
-    // Check for global variables
-    if ((window as any).OPENAI_API_KEY) {
-      return (window as any).OPENAI_API_KEY;
-    }
-    if ((window as any).VITE_OPENAI_API_KEY) {
-      return (window as any).VITE_OPENAI_API_KEY;
-    }
-  }
-  
-  // Check for Node.js environment
-  if (typeof process !== 'undefined' && process.env) {
-    if (process.env.OPENAI_API_KEY) {
-      return process.env.OPENAI_API_KEY;
-    }
-    if (process.env.VITE_OPENAI_API_KEY) {
-      return process.env.VITE_OPENAI_API_KEY;
-    }
-  }
-  
-  return '';
+  /** Backend generating the code (defaults to OpenAI) */
+  provider?: FunctionGenerationProvider;
+  /** Store for previously generated code. Nothing is cached if omitted. */
+  cache?: FunctionCacheStore;
 }
 
 /**
@@ -102,14 +88,7 @@ export async function generateEvaluationFunction(
   variables: VariableDefinition[],
   options: FunctionGenerationOptions = {}
 ): Promise<FunctionGenerationResult> {
-  // Set default options
-  const model = options.model || 'gpt-3.5-turbo';
-  const temperature = options.temperature ?? 0.1;
-  const apiKey = getApiKey();
-  
-  if (!apiKey) {
-    throw new Error("OpenAI API key not found. Please set the VITE_OPENAI_API_KEY environment variable.");
-  }
+  const provider = options.provider ?? new OpenAIProvider();
 
   // Separate input and output variables
   const inputVars = variables
@@ -135,75 +114,15 @@ export async function generateEvaluationFunction(
   });
 
   try {
-    console.log("STARTING API CALL TO OPENAI");
-    const response = await fetch('https://api.openai.com/v1/chat/completions', {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-        'Authorization': `Bearer ${apiKey}`
-      },
-      body: JSON.stringify({
-        model,
-        messages: [{
-          role: "system",
-          content: `You are a precise JavaScript code generator that creates functions to evaluate mathematical formulas.
-                  You MUST include ALL input variables in your calculations.
-                  Return ONLY the function code without any explanations or markdown.`
-        }, {
-          role: "user",
-          content: `
-            Create a JavaScript function that evaluates this exact formula: ${formula}
-            
-            Input variables: ${inputVars.join(', ')}
-            Output variables to calculate: ${outputVars.join(', ')}
-            
-            IMPORTANT: 
-            - You MUST use ALL the input variables listed above
-            - Use simple variable names without special characters, accessed with dot notation like variables.a
-            - For Fitts' Law (T = a + b log₂(2D/W)), the correct implementation would be:
-              T = variables.a + variables.b * Math.log2(2 * variables.D / variables.W)
-            
-            Requirements:
-            1. Function must be named 'evaluate'
-            2. Must take a single parameter 'variables' containing input values as properties
-            3. Must use ALL specified input variables with 'variables.symbol' notation
-            4. Must return an object with all output variables as properties: { T: value }
-            5. Include proper error handling for division by zero and invalid operations
-            
-            Here's the exact structure to follow:
-            
-            function evaluate(variables) {
-              try {
-                // Your calculation code here using ALL input variables
-                // Use variables.a, variables.b, etc. for all inputs
-                
-                return {
-                  ${outputVars.map(v => v.replace(/\$/g, '')).join(': calculatedValue, ')}${outputVars.length > 1 ? '' : ': calculatedValue'}
-                };
-              } catch (error) {
-                console.error("Error in formula calculation:", error);
-                return {
-                  ${outputVars.map(v => v.replace(/\$/g, '')).join(': NaN, ')}${outputVars.length > 1 ? '' : ': NaN'}
-                };
-              }
-            }
-          `
-        }],
-        temperature
-      })
+    const cacheKey = functionCacheKey(formula, inputVars.map(cleanSymbol), outputVars.map(cleanSymbol));
+    const cachedCode = await options.cache?.get(cacheKey);
+    const generatedCode = cachedCode ?? await provider.generateCode({
+      formula,
+      inputVars: inputVars.map(cleanSymbol),
+      outputVars: outputVars.map(cleanSymbol),
+      model: options.model,
+      temperature: options.temperature
     });
-
-    console.log("API CALL COMPLETED");
-
-    if (!response.ok) {
-      const errorData = await response.json();
-      console.error("OPENAI API ERROR:", errorData);
-      throw new Error(`API error: ${errorData.error?.message || 'Unknown error'}`);
-    }
-
-    console.log("PARSING RESPONSE");
-    const result = await response.json();
-    const generatedCode = result.choices[0].message.content.trim();
     
     // Simplified logging - no styling or emojis
     console.log("GENERATED FUNCTION CODE:");
@@ -236,7 +155,8 @@ export async function generateEvaluationFunction(
     // Create the actual function from the code
     console.log("COMPILING FUNCTION");
     
-    // Attempt to compile the function to check for syntax errors
+    // Attempt to compile the function to check for syntax errors. This only
+    // parses the code; it never runs outside the sandbox.
     try {
       new Function('variables', `"use strict";\n${generatedCode}\nreturn evaluate(variables);`);
     } catch (compileError: unknown) {
@@ -246,15 +166,18 @@ export async function generateEvaluationFunction(
 
     console.log("FUNCTION GENERATION COMPLETE");
     
-    // Create the actual function from the code
-    const evaluationFunction = new Function(
-      'variables',
-      `"use strict";\n${generatedCode}\nreturn evaluate(variables);`
-    ) as (variables: Record<string, number>) => Record<string, number>;
+    if (cachedCode === undefined) {
+      await options.cache?.set(cacheKey, generatedCode);
+    }
+    
+    // Run the generated code in an isolated worker rather than the page
+    const sandbox = new Sandbox(generatedCode);
     
     return {
       code: generatedCode,
-      evaluationFunction
+      evaluationFunction: (variables) => sandbox.evaluate(variables),
+      dispose: () => sandbox.dispose(),
+      fromCache: cachedCode !== undefined
     };
   } catch (error) {
     console.error("❌ ERROR IN FUNCTION GENERATION:", error);
@@ -262,16 +185,34 @@ export async function generateEvaluationFunction(
   }
 }
 
+/**
+ * Remove the cached code for a formula, so that the next call to
+ * generateEvaluationFunction generates it again
+ * @param formula The formula in LaTeX format
+ * @param variables List of variable definitions
+ * @param cache The store the code was cached in
+ */
+export async function invalidateCachedFunction(
+  formula: string,
+  variables: VariableDefinition[],
+  cache: FunctionCacheStore
+): Promise<void> {
+  const inputVars = variables.filter(v => v.type !== 'output').map(v => cleanSymbol(v.symbol));
+  const outputVars = variables.filter(v => v.type === 'output').map(v => cleanSymbol(v.symbol));
+  await cache.delete(functionCacheKey(formula, inputVars, outputVars));
+}
+
 /**
  * Execute an evaluation function with variable values
  * @param evaluationFunction The function to execute
  * @param variables Variable definitions with values
- * @returns Object with computed output values
+ * @returns Promise resolving to an object with computed output values. Rejects
+ * with a SandboxTimeoutError if the generated code runs too long.
  */
-export function executeEvaluationFunction(
-  evaluationFunction: (variables: Record<string, number>) => Record<string, number>,
+export async function executeEvaluationFunction(
+  evaluationFunction: (variables: Record<string, number>) => Promise<Record<string, number>>,
   variables: VariableDefinition[]
-): Record<string, number> {
+): Promise<Record<string, number>> {
   try {
     // Create a simple object with input variable values
     const values: Record<string, number> = {};
@@ -286,7 +227,7 @@ export function executeEvaluationFunction(
     console.log("Executing function with transformed input values:", values);
     
     // Call the evaluation function
-    const result = evaluationFunction(values);
+    const result = await evaluationFunction(values);
     
     console.log("Raw calculation result:", result);
     
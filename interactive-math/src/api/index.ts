@@ -2,4 +2,6 @@
  * API entry point for the Interactive Math Library
  */
 
-export * from './LLMFunctionGenerator'; 
\ No newline at end of file
+export * from './LLMFunctionGenerator';
+export * from './FunctionGenerationProvider';
+export * from './FunctionCache'; 
\ No newline at end of file
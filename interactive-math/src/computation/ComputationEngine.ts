@@ -1,5 +1,9 @@
 import { VariableDefinition, VariableType } from '../core/Formula';
 import { generateEvaluationFunction as llmGenerateFunction, VariableDefinition as LLMVariableDefinition } from '../api/LLMFunctionGenerator';
+import { FunctionGenerationProvider } from '../api/FunctionGenerationProvider';
+import { FunctionCacheStore } from '../api/FunctionCache';
+import { Sandbox, SandboxTimeoutError } from './Sandbox';
+import { DIMENSIONLESS, Dimension, Unit, deriveOutputDimensions, formatDimension, parseUnits, sameDimension } from '../core/Units';
 
 /**
  * Variable information for computation
@@ -20,17 +24,29 @@ export interface ComputationVariable {
   /** Maximum allowed value (for input variables) */
   max?: number;
   
-  /** Set of variable symbols this variable depends on */
+  /** For outputs, the symbols of the inputs that change the output's value */
   dependencies?: Set<string>;
   
   /** Error message if computation failed */
   error?: string;
+
+  /** Units the variable was defined with */
+  units?: string;
+
+  /** The parsed units, or undefined if there are none or they're invalid */
+  unit?: Unit;
+
+  /** For outputs, units derived from the units of the inputs */
+  derivedUnits?: string;
+
+  /** Problem with the variable's units, e.g. an output whose formula gives different units */
+  unitError?: string;
 }
 
 /**
  * A function that evaluates variable values
  */
-export type EvaluationFunction = (variables: Record<string, number>) => Record<string, number>;
+export type EvaluationFunction = (variables: Record<string, number>) => Promise<Record<string, number>>;
 
 /**
  * Engine for handling computations and variable dependencies
@@ -51,6 +67,12 @@ export class ComputationEngine {
   /** The compiled evaluation function */
   private evaluationFunction: EvaluationFunction | null = null;
   
+  /** Worker running the generated code */
+  private sandbox: Sandbox | null = null;
+  
+  /** Incremented on each update so that stale evaluation results are dropped */
+  private evaluationCount = 0;
+  
   /** Flag to prevent circular updates */
   private isUpdatingDependents = false;
   
@@ -59,6 +81,15 @@ export class ComputationEngine {
   
   /** Callback for when variable values change */
   private onVariableChange: ((variables: Record<string, number>) => void) | null = null;
+  
+  /** Backend generating the evaluation code, or undefined for the default */
+  private provider: FunctionGenerationProvider | undefined;
+  
+  /** Store for previously generated code, if caching is enabled */
+  private cache: FunctionCacheStore | undefined;
+
+  /** Evaluation code given up front, used instead of generating any */
+  private precompiledCode: string | null = null;
 
   /**
    * Helper method to clean variable symbols by removing dollar signs
@@ -69,6 +100,30 @@ export class ComputationEngine {
     return symbol.replace(/\$/g, '');
   }
 
+  /**
+   * Set the backend used to generate evaluation code
+   * @param provider The code generation provider
+   */
+  public setFunctionGenerationProvider(provider: FunctionGenerationProvider): void {
+    this.provider = provider;
+  }
+
+  /**
+   * Set the store used to cache generated code
+   * @param cache The cache store
+   */
+  public setFunctionCache(cache: FunctionCacheStore): void {
+    this.cache = cache;
+  }
+
+  /**
+   * Use precompiled evaluation code instead of generating it
+   * @param code JavaScript code defining an `evaluate(variables)` function
+   */
+  public setPrecompiledCode(code: string): void {
+    this.precompiledCode = code;
+  }
+
   /**
    * Set the callback for when variables change
    * @param callback Function to call when variables change
@@ -109,20 +164,22 @@ export class ComputationEngine {
         console.log("DEBUG - Filtered dependent variables:", dependentVars);
 
         // Generate code for evaluation
-        const functionCode = await this.generateEvaluationFunction(formula, dependentVars);
+        const functionCode = this.precompiledCode ?? await this.generateEvaluationFunction(formula, dependentVars);
         this.lastGeneratedCode = functionCode;
         
         console.log("DEBUG - Generated function code:", functionCode);
         
-        // Create the evaluation function
-        this.evaluationFunction = new Function(
-          'variables',
-          `"use strict";\n${functionCode}\nreturn evaluate(variables);`
-        ) as EvaluationFunction;
+        // Run the evaluation function in an isolated worker
+        this.sandbox?.dispose();
+        const sandbox = new Sandbox(functionCode);
+        this.sandbox = sandbox;
+        this.evaluationFunction = (variables) => sandbox.evaluate(variables);
         
         console.log("DEBUG - Created evaluation function:", !!this.evaluationFunction);
         
         this.formulaError = null;
+        this.analyzeUnits();
+        this.analyzeDependencies();
       } catch (error) {
         console.error("Error setting formula:", error);
         this.formulaError = String(error);
@@ -165,7 +222,10 @@ export class ComputationEngine {
       
       let result;
       try {
-        result = await llmGenerateFunction(formula, variableDefinitions);
+        result = await llmGenerateFunction(formula, variableDefinitions, {
+          provider: this.provider,
+          cache: this.cache
+        });
         console.log("✅ LLM function generation successful");
       } catch (apiError) {
         console.error("❌ LLM API error:", apiError);
@@ -198,8 +258,17 @@ function evaluate(variables) {
       type: definition.type,
       min: definition.range?.[0],
       max: definition.range?.[1],
+      units: definition.units,
     };
     
+    if (definition.units) {
+      try {
+        computationVar.unit = parseUnits(definition.units);
+      } catch (error) {
+        computationVar.unitError = error instanceof Error ? error.message : String(error);
+      }
+    }
+    
     this.variables.set(symbol, computationVar);
     
     // Track dependent variables
@@ -268,7 +337,7 @@ function evaluate(variables) {
   /**
    * Update dependent variables based on current input values
    */
-  private updateDependentVariables(): void {
+  private async updateDependentVariables(): Promise<void> {
     console.log(`🔶 ComputationEngine.updateDependentVariables called`);
     console.log(`🔍 isUpdatingDependents: ${this.isUpdatingDependents}, evaluationFunction exists: ${!!this.evaluationFunction}`);
     
@@ -278,17 +347,18 @@ function evaluate(variables) {
       return;
     }
     
+    const evaluation = ++this.evaluationCount;
     try {
       console.log(`🔍 Starting dependent variable update (${this.dependentVariables.size} dependent variables)`);
-      this.isUpdatingDependents = true;
       
       // Create input values map
       const inputValues: Record<string, number> = {};
       for (const [symbol, variable] of this.variables.entries()) {
         if (variable.type !== 'output') {
-          // Remove dollar signs from variable names to match the function expectations
+          // Remove dollar signs from variable names to match the function expectations.
+          // Values are converted to SI units, and outputs back from them.
           const cleanSymbol = this.cleanSymbol(symbol);
-          inputValues[cleanSymbol] = variable.value;
+          inputValues[cleanSymbol] = variable.value * this.unitScale(variable);
         }
       }
       
@@ -303,9 +373,15 @@ function evaluate(variables) {
       
       // Evaluate the formula
       console.log("🔍 Calling evaluation function");
-      const results = this.evaluationFunction(inputValues);
+      const results = await this.evaluationFunction(inputValues);
       console.log("🔍 Results from evaluation:", results);
       
+      // A newer update started while this one was running
+      if (evaluation !== this.evaluationCount) {
+        return;
+      }
+      this.isUpdatingDependents = true;
+      
       // Update dependent variables
       let updatedCount = 0;
       for (const symbol of this.dependentVariables) {
@@ -317,7 +393,7 @@ function evaluate(variables) {
           const variable = this.variables.get(symbol);
           if (variable && variable.type === 'output') {
             const oldValue = variable.value;
-            const newValue = results[cleanSymbol];
+            const newValue = results[cleanSymbol] / this.unitScale(variable);
             console.log(`🔍 Updating output variable ${symbol} from ${oldValue} to ${newValue} (delta: ${newValue - oldValue})`);
             variable.value = newValue;
             variable.error = undefined;
@@ -337,7 +413,7 @@ function evaluate(variables) {
             const variable = this.variables.get(symbol);
             if (variable && variable.type === 'output') {
               console.log(`🔍 Updating output variable ${symbol} from ${variable.value} to ${results[matchingKey]}`);
-              variable.value = results[matchingKey];
+              variable.value = results[matchingKey] / this.unitScale(variable);
               variable.error = undefined;
               updatedCount++;
             }
@@ -393,25 +469,18 @@ function evaluate(variables) {
       }
       
       // Notify of changes
-      if (this.onVariableChange) {
-        const allValues: Record<string, number> = {};
-        for (const [symbol, variable] of this.variables.entries()) {
-          allValues[symbol] = variable.value;
-        }
-        console.log("Calling onVariableChange with values:", allValues);
-        this.onVariableChange(allValues);
-        console.log("✅ onVariableChange callback completed");
-      } else {
-        console.log("⚠️ No onVariableChange callback registered");
-      }
+      this.notifyVariableChange();
     } catch (error) {
+      if (evaluation !== this.evaluationCount) {
+        return;
+      }
       console.error("❌ Error updating dependent variables:", error);
       
       // Set error on all dependent variables
       for (const symbol of this.dependentVariables) {
         const variable = this.variables.get(symbol);
         if (variable) {
-          variable.error = String(error);
+          variable.error = error instanceof SandboxTimeoutError ? "Evaluation timed out" : String(error);
         }
       }
     } finally {
@@ -420,6 +489,193 @@ function evaluate(variables) {
     }
   }
 
+  /**
+   * Evaluate the outputs with some inputs set to other values, without
+   * changing any state, e.g. to plot the outputs against an input
+   * @param overrides Values replacing the current ones, keyed by symbol
+   * @returns Output values keyed by symbol, or null if there's nothing to evaluate yet
+   */
+  public async evaluateWith(overrides: Record<string, number>): Promise<Record<string, number> | null> {
+    if (!this.evaluationFunction) {
+      return null;
+    }
+    const inputValues: Record<string, number> = {};
+    for (const [symbol, variable] of this.variables.entries()) {
+      if (variable.type !== 'output') {
+        inputValues[this.cleanSymbol(symbol)] = (overrides[symbol] ?? variable.value) * this.unitScale(variable);
+      }
+    }
+    const results = await this.evaluationFunction(inputValues);
+    const outputs: Record<string, number> = {};
+    for (const symbol of this.dependentVariables) {
+      const variable = this.variables.get(symbol);
+      if (variable) {
+        outputs[symbol] = results[this.cleanSymbol(symbol)] / this.unitScale(variable);
+      }
+    }
+    return outputs;
+  }
+
+  /**
+   * Call the variable change callback with the current values
+   */
+  private notifyVariableChange(): void {
+    if (this.onVariableChange) {
+      const allValues: Record<string, number> = {};
+      for (const [symbol, variable] of this.variables.entries()) {
+        allValues[symbol] = variable.value;
+      }
+      console.log("Calling onVariableChange with values:", allValues);
+      this.onVariableChange(allValues);
+      console.log("✅ onVariableChange callback completed");
+    } else {
+      console.log("⚠️ No onVariableChange callback registered");
+    }
+  }
+
+  /**
+   * Factor converting a variable's values to SI units
+   * @param variable The variable
+   * @returns The factor, or 1 if the variable has no valid units
+   */
+  private unitScale(variable: ComputationVariable): number {
+    return variable.unit?.scale ?? 1;
+  }
+
+  /**
+   * Derive units for the outputs from the units of the inputs, and check
+   * them against the units the outputs were defined with
+   */
+  private async analyzeUnits(): Promise<void> {
+    const evaluationFunction = this.evaluationFunction;
+    const variables = Array.from(this.variables.values());
+    if (!evaluationFunction || !variables.some((variable) => variable.unit)) {
+      return;
+    }
+
+    const inputs: Record<string, { value: number; dimension: Dimension }> = {};
+    for (const variable of variables) {
+      if (variable.type !== 'output') {
+        inputs[this.cleanSymbol(variable.symbol)] = {
+          value: variable.value * this.unitScale(variable),
+          dimension: variable.unit?.dimension ?? DIMENSIONLESS,
+        };
+      }
+    }
+
+    try {
+      const { dimensions, inconsistent } = await deriveOutputDimensions(
+        evaluationFunction,
+        inputs,
+        Array.from(this.dependentVariables).map((symbol) => this.cleanSymbol(symbol))
+      );
+      // The formula changed while the units were being derived
+      if (evaluationFunction !== this.evaluationFunction) {
+        return;
+      }
+
+      for (const symbol of this.dependentVariables) {
+        const variable = this.variables.get(symbol);
+        if (!variable || (variable.units && !variable.unit)) {
+          continue;
+        }
+        const cleanSymbol = this.cleanSymbol(symbol);
+        const dimension = dimensions[cleanSymbol];
+        variable.derivedUnits = dimension ? formatDimension(dimension) : undefined;
+        if (inconsistent.includes(cleanSymbol)) {
+          variable.unitError = `The formula for ${cleanSymbol} combines quantities with incompatible units`;
+        } else if (dimension && variable.unit && !sameDimension(dimension, variable.unit.dimension)) {
+          variable.unitError = `${cleanSymbol} is computed in ${variable.derivedUnits || 'no units'}, not ${variable.units}`;
+        } else {
+          variable.unitError = undefined;
+        }
+      }
+      this.notifyVariableChange();
+    } catch (error) {
+      console.error("Error deriving units:", error);
+    }
+  }
+
+  /**
+   * Find which inputs each output depends on by changing the inputs one at a
+   * time and seeing which outputs change. Two different changes are tried, so
+   * that an output is only missed if it happens to take the same value.
+   */
+  private async analyzeDependencies(): Promise<void> {
+    const evaluationFunction = this.evaluationFunction;
+    if (!evaluationFunction) {
+      return;
+    }
+
+    const inputs: Record<string, number> = {};
+    for (const variable of this.variables.values()) {
+      if (variable.type !== 'output') {
+        inputs[this.cleanSymbol(variable.symbol)] = variable.value * this.unitScale(variable);
+      }
+    }
+    const dependencies = new Map<string, Set<string>>(
+      Array.from(this.dependentVariables).map((symbol) => [symbol, new Set<string>()])
+    );
+
+    try {
+      const baseline = await evaluationFunction(inputs);
+      for (const [symbol, variable] of this.variables.entries()) {
+        if (variable.type === 'output') {
+          continue;
+        }
+        const cleanSymbol = this.cleanSymbol(symbol);
+        const value = inputs[cleanSymbol];
+        for (const changed of [value + 1, value * 1.5 + 1]) {
+          const results = await evaluationFunction({ ...inputs, [cleanSymbol]: changed });
+          for (const [output, outputDependencies] of dependencies) {
+            const key = this.cleanSymbol(output);
+            if (!Object.is(results[key], baseline[key])) {
+              outputDependencies.add(symbol);
+            }
+          }
+        }
+      }
+      // The formula changed while the dependencies were being found
+      if (evaluationFunction !== this.evaluationFunction) {
+        return;
+      }
+
+      for (const [symbol, variable] of this.variables.entries()) {
+        variable.dependencies = dependencies.get(symbol);
+      }
+      this.notifyVariableChange();
+    } catch (error) {
+      console.error("Error finding dependencies:", error);
+    }
+  }
+
+  /**
+   * Get the inputs an output depends on
+   * @param symbol The output's symbol
+   * @returns The symbols of the inputs, or undefined for inputs and before they're known
+   */
+  public getDependencies(symbol: string): string[] | undefined {
+    const dependencies = this.variables.get(symbol)?.dependencies;
+    return dependencies ? Array.from(dependencies) : undefined;
+  }
+
+  /**
+   * Get a variable's units: the ones it was defined with or, for outputs
+   * without any, the ones derived from the inputs
+   * @param symbol The variable symbol
+   * @returns The units and any problem with them
+   */
+  public getUnits(symbol: string): { units?: string; unitError?: string } {
+    const variable = this.variables.get(symbol);
+    if (!variable) {
+      return {};
+    }
+    return {
+      units: variable.units || variable.derivedUnits || undefined,
+      unitError: variable.unitError,
+    };
+  }
+
   /**
    * Get the current values of all variables
    * @returns Record mapping variable symbols to values
@@ -0,0 +1,116 @@
+import { afterEach, describe, expect, it } from 'vitest';
+
+import { Sandbox, SandboxTimeoutError } from './Sandbox';
+
+// Long enough for a worker to start on a slow machine
+const TIME_LIMIT = 500;
+
+const HANGS_FOR_NEGATIVE_X = `function evaluate(variables) {
+  while (variables.x < 0) {}
+  return { y: variables.x * 2 };
+}`;
+
+const sandboxes: Sandbox[] = [];
+
+const createSandbox = (code: string) => {
+  const sandbox = new Sandbox(code, TIME_LIMIT);
+  sandboxes.push(sandbox);
+  return sandbox;
+};
+
+afterEach(() => {
+  sandboxes.splice(0).forEach((sandbox) => sandbox.dispose());
+});
+
+describe('Sandbox', () => {
+  it('runs the evaluate function, converting results to numbers', async () => {
+    const sandbox = createSandbox(
+      'function evaluate(variables) { return { y: Math.sqrt(variables.x), z: "2" }; }'
+    );
+    expect(await sandbox.evaluate({ x: 9 })).toEqual({ y: 3, z: 2 });
+    expect(await sandbox.evaluate({ x: 16 })).toEqual({ y: 4, z: 2 });
+  });
+
+  it('hides globals other than Math and the like', async () => {
+    // Results are numbers, so each global's visibility is returned as 0 or 1
+    const sandbox = createSandbox(`function evaluate() {
+      const visible = (value) => (value === undefined ? 0 : 1);
+      return {
+        fetch: visible(fetch),
+        self: visible(self),
+        process: visible(process),
+        Function: visible(Function),
+        Math: visible(Math),
+        parseFloat: visible(parseFloat),
+      };
+    }`);
+    expect(await sandbox.evaluate({})).toEqual({
+      fetch: 0,
+      self: 0,
+      process: 0,
+      Function: 0,
+      Math: 1,
+      parseFloat: 1,
+    });
+  });
+
+  it('blocks network APIs on the recovered global object', async () => {
+    const sandbox = createSandbox(`function evaluate() {
+      const global = (() => {}).constructor('return this')();
+      return {
+        fetch: global.fetch === undefined ? 1 : 0,
+        postMessage: global.postMessage === undefined ? 1 : 0,
+        eval: global.eval === undefined ? 1 : 0,
+      };
+    }`);
+    expect(await sandbox.evaluate({})).toEqual({ fetch: 1, postMessage: 1, eval: 1 });
+  });
+
+  it('rejects calls into code that throws or does not compile', async () => {
+    const throws = createSandbox('function evaluate() { throw new Error("bad input"); }');
+    await expect(throws.evaluate({})).rejects.toThrow('bad input');
+
+    const invalid = createSandbox('function evaluate( {');
+    await expect(invalid.evaluate({})).rejects.toThrow('SyntaxError');
+    await expect(invalid.evaluate({})).rejects.toThrow('SyntaxError');
+  });
+
+  it('times out calls that hang and restarts the worker for the next call', async () => {
+    const sandbox = createSandbox(HANGS_FOR_NEGATIVE_X);
+    const hanging = sandbox.evaluate({ x: -1 });
+    const queued = sandbox.evaluate({ x: 2 });
+
+    await expect(hanging).rejects.toBeInstanceOf(SandboxTimeoutError);
+    expect(await queued).toEqual({ y: 4 });
+    expect(await sandbox.evaluate({ x: 3 })).toEqual({ y: 6 });
+  });
+
+  it('evaluates several sets of inputs in one call', async () => {
+    const sandbox = createSandbox(HANGS_FOR_NEGATIVE_X);
+    expect(await sandbox.evaluateMany([{ x: 1 }, { x: 2 }, { x: 3 }])).toEqual([
+      { y: 2 },
+      { y: 4 },
+      { y: 6 },
+    ]);
+    expect(await sandbox.evaluateMany([])).toEqual([]);
+  });
+
+  it('times out a batch that hangs on any of its inputs as a whole', async () => {
+    const sandbox = createSandbox(HANGS_FOR_NEGATIVE_X);
+    const hanging = sandbox.evaluateMany([{ x: 1 }, { x: -1 }]);
+    const queued = sandbox.evaluate({ x: 2 });
+
+    await expect(hanging).rejects.toBeInstanceOf(SandboxTimeoutError);
+    expect(await queued).toEqual({ y: 4 });
+  });
+
+  it('rejects pending calls when disposed', async () => {
+    const sandbox = createSandbox(HANGS_FOR_NEGATIVE_X);
+    const hanging = sandbox.evaluate({ x: -1 });
+    const queued = sandbox.evaluate({ x: 2 });
+    sandbox.dispose();
+
+    await expect(hanging).rejects.toThrow('Sandbox was disposed');
+    await expect(queued).rejects.toThrow('Sandbox was disposed');
+  });
+});
@@ -0,0 +1,236 @@
+/** Time limit for a single call into generated code, in milliseconds */
+const DEFAULT_TIME_LIMIT = 1000;
+
+/**
+ * Globals generated code is allowed to see. Every other global is shadowed by
+ * an undefined parameter when the code is compiled.
+ */
+const ALLOWED_GLOBALS = [
+  'Math',
+  'Number',
+  'isFinite',
+  'isNaN',
+  'parseFloat',
+  'parseInt',
+  'Infinity',
+  'NaN',
+  'undefined',
+  'Array',
+  'Object',
+  'Boolean',
+  'String',
+  'Error',
+];
+
+/**
+ * APIs deleted from the worker altogether, so code that recovers the global
+ * object (e.g. through the Function constructor) still can't reach them
+ */
+const BLOCKED_APIS = [
+  'fetch',
+  'XMLHttpRequest',
+  'WebSocket',
+  'WebTransport',
+  'EventSource',
+  'importScripts',
+  'indexedDB',
+  'caches',
+  'Worker',
+  'SharedWorker',
+  'BroadcastChannel',
+  'navigator',
+  'location',
+  'postMessage',
+  'close',
+  'eval',
+];
+
+/** Source of the worker that compiles and runs generated code */
+const WORKER_SOURCE = `"use strict";
+const post = self.postMessage.bind(self);
+const allowed = new Set(${JSON.stringify(ALLOWED_GLOBALS)});
+const shadowed = new Set();
+for (let scope = self; scope; scope = Object.getPrototypeOf(scope)) {
+  for (const name of Object.getOwnPropertyNames(scope)) {
+    if (!allowed.has(name) && /^[A-Za-z_$][\\w$]*$/.test(name)) {
+      shadowed.add(name);
+    }
+  }
+}
+shadowed.delete("eval");
+shadowed.delete("arguments");
+
+let evaluate = null;
+let compileError = null;
+self.addEventListener("message", (event) => {
+  if ("code" in event.data) {
+    try {
+      evaluate = new Function(
+        "variables",
+        ...shadowed,
+        '"use strict";\\n' + event.data.code + "\\nreturn evaluate(variables);"
+      );
+    } catch (error) {
+      compileError = String(error);
+    }
+    return;
+  }
+  try {
+    if (compileError !== null) {
+      throw compileError;
+    }
+    post({
+      results: event.data.variables.map((variables) =>
+        Object.fromEntries(
+          Object.entries(evaluate(variables)).map(([symbol, value]) => [
+            symbol,
+            Number(value),
+          ])
+        )
+      ),
+    });
+  } catch (error) {
+    post({ error: String(error) });
+  }
+});
+
+for (const name of ${JSON.stringify(BLOCKED_APIS)}) {
+  for (let scope = self; scope; scope = Object.getPrototypeOf(scope)) {
+    try {
+      delete scope[name];
+    } catch {}
+  }
+}
+`;
+
+/**
+ * Error thrown when generated code runs past its time limit
+ */
+export class SandboxTimeoutError extends Error {
+  constructor(timeLimit: number) {
+    super(`Evaluation took longer than ${timeLimit}ms`);
+    this.name = 'SandboxTimeoutError';
+  }
+}
+
+/**
+ * A call waiting for the worker, evaluating one or more sets of inputs
+ */
+interface PendingCall {
+  variables: Record<string, number>[];
+  resolve: (results: Record<string, number>[]) => void;
+  reject: (error: Error) => void;
+}
+
+/**
+ * Runs generated evaluation code in a Web Worker, where it can only see Math
+ * and the input variables. Calls run one at a time and each has a time limit;
+ * a call that exceeds it terminates the worker, which is restarted for the
+ * next call.
+ */
+export class Sandbox {
+  private worker: Worker | null = null;
+  private queue: PendingCall[] = [];
+  private running: PendingCall | null = null;
+  private timeout: ReturnType<typeof setTimeout> | undefined;
+
+  constructor(
+    private readonly code: string,
+    private readonly timeLimit = DEFAULT_TIME_LIMIT
+  ) {}
+
+  /**
+   * Run the generated `evaluate` function in the worker
+   * @param variables Input variable values
+   * @returns Promise resolving to the computed output values
+   */
+  public async evaluate(variables: Record<string, number>): Promise<Record<string, number>> {
+    const [results] = await this.evaluateMany([variables]);
+    return results;
+  }
+
+  /**
+   * Run the generated `evaluate` function on several sets of inputs in a
+   * single call, so that they share one time limit and don't hold up calls
+   * queued after them one by one, e.g. when sampling a plot
+   * @param variables Input variable values for each evaluation
+   * @returns Promise resolving to the computed output values, in order
+   */
+  public evaluateMany(
+    variables: Record<string, number>[]
+  ): Promise<Record<string, number>[]> {
+    return new Promise<Record<string, number>[]>((resolve, reject) => {
+      this.queue.push({ variables, resolve, reject });
+      this.runNext();
+    });
+  }
+
+  /**
+   * Terminate the worker, rejecting any calls still waiting for it
+   */
+  public dispose(): void {
+    this.stopWorker();
+    const calls = this.running ? [this.running, ...this.queue] : this.queue;
+    this.running = null;
+    this.queue = [];
+    calls.forEach((call) => call.reject(new Error('Sandbox was disposed')));
+  }
+
+  private runNext() {
+    if (this.running || this.queue.length === 0) {
+      return;
+    }
+    const call = this.queue.shift()!;
+    this.running = call;
+    this.timeout = setTimeout(() => {
+      this.stopWorker();
+      this.settle((call) =>
+        call.reject(new SandboxTimeoutError(this.timeLimit))
+      );
+    }, this.timeLimit);
+    this.startWorker().postMessage({ variables: call.variables });
+  }
+
+  private settle(complete: (call: PendingCall) => void) {
+    clearTimeout(this.timeout);
+    const call = this.running;
+    this.running = null;
+    if (call) {
+      complete(call);
+    }
+    this.runNext();
+  }
+
+  private startWorker() {
+    if (this.worker) {
+      return this.worker;
+    }
+    const url = URL.createObjectURL(
+      new Blob([WORKER_SOURCE], { type: 'text/javascript' })
+    );
+    const worker = new Worker(url);
+    URL.revokeObjectURL(url);
+    worker.onmessage = (
+      event: MessageEvent<{ results?: Record<string, number>[]; error?: string }>
+    ) => {
+      const { results, error } = event.data;
+      this.settle((call) =>
+        results ? call.resolve(results) : call.reject(new Error(error))
+      );
+    };
+    worker.onerror = (event) => {
+      event.preventDefault();
+      this.stopWorker();
+      this.settle((call) => call.reject(new Error(event.message)));
+    };
+    worker.postMessage({ code: this.code });
+    this.worker = worker;
+    return worker;
+  }
+
+  private stopWorker() {
+    clearTimeout(this.timeout);
+    this.worker?.terminate();
+    this.worker = null;
+  }
+}
@@ -0,0 +1,172 @@
+/**
+ * Names of the built-in easing curves
+ */
+export type EasingName = 'linear' | 'ease-in' | 'ease-out' | 'ease-in-out';
+
+/**
+ * Maps progress through the range to how far along the value is, both from 0
+ * to 1. Custom easings must only ever increase.
+ */
+export type Easing = EasingName | ((progress: number) => number);
+
+/**
+ * Options for sweeping a variable through its range
+ */
+export interface AnimationOptions {
+  /** Multiple of the default speed, which sweeps the range in 4 seconds (defaults to 1) */
+  speed?: number;
+
+  /** Start again once the end of the range is reached (defaults to false) */
+  loop?: boolean;
+
+  /** Sweep back and forth instead of jumping back to the start (defaults to false) */
+  pingPong?: boolean;
+
+  /** How the value moves through the range (defaults to 'linear') */
+  easing?: Easing;
+}
+
+/**
+ * The built-in easing curves
+ */
+export const EASINGS: Record<EasingName, (progress: number) => number> = {
+  'linear': (t) => t,
+  'ease-in': (t) => t * t * t,
+  'ease-out': (t) => 1 - Math.pow(1 - t, 3),
+  'ease-in-out': (t) => (t < 0.5 ? 4 * t * t * t : 1 - Math.pow(-2 * t + 2, 3) / 2),
+};
+
+const PASS_DURATION = 4000;
+
+/** Longer gaps between frames, e.g. while the tab is hidden, don't make the value jump */
+const MAX_FRAME_TIME = 100;
+
+/**
+ * Progress through the range at which an easing reaches a fraction of it,
+ * found by bisection
+ */
+function invertEasing(ease: (progress: number) => number, fraction: number): number {
+  let low = 0;
+  let high = 1;
+  for (let i = 0; i < 30; i++) {
+    const middle = (low + high) / 2;
+    if (ease(middle) < fraction) {
+      low = middle;
+    } else {
+      high = middle;
+    }
+  }
+  return (low + high) / 2;
+}
+
+/**
+ * Sweeps a value through a range on animation frames. Frames are only
+ * requested while the animation runs.
+ */
+export class VariableAnimation {
+  private readonly ease: (progress: number) => number;
+  private progress: number;
+  private direction: 1 | -1 = 1;
+  private frame: number | null = null;
+  private lastTime: number | null = null;
+
+  /**
+   * Create an animation starting from a value
+   * @param range The [min, max] range to sweep
+   * @param value The value to start from
+   * @param options Speed, looping, ping-pong and easing
+   * @param onFrame Called with the value on every frame
+   * @param onEnd Called when the end of the range is reached without looping
+   */
+  constructor(
+    private readonly range: [number, number],
+    value: number,
+    private readonly options: AnimationOptions,
+    private readonly onFrame: (value: number) => void,
+    private readonly onEnd: () => void = () => {}
+  ) {
+    const easing = options.easing ?? 'linear';
+    this.ease = typeof easing === 'function' ? easing : EASINGS[easing];
+
+    const [min, max] = range;
+    const fraction = max > min ? (value - min) / (max - min) : 0;
+    this.progress = invertEasing(this.ease, Math.max(0, Math.min(1, fraction)));
+    // Starting from the end of the range turns around or starts over
+    if (this.progress >= 1 - 1e-6) {
+      if (options.pingPong) {
+        this.direction = -1;
+      } else {
+        this.progress = 0;
+      }
+    }
+  }
+
+  /**
+   * Whether the animation is running
+   */
+  public get running(): boolean {
+    return this.frame !== null;
+  }
+
+  /**
+   * Start or resume the animation
+   */
+  public start(): void {
+    if (this.frame === null) {
+      this.lastTime = null;
+      this.frame = requestAnimationFrame(this.tick);
+    }
+  }
+
+  /**
+   * Stop the animation where it is
+   */
+  public stop(): void {
+    if (this.frame !== null) {
+      cancelAnimationFrame(this.frame);
+      this.frame = null;
+    }
+  }
+
+  private tick = (time: number): void => {
+    const elapsed = Math.min(time - (this.lastTime ?? time), MAX_FRAME_TIME);
+    this.lastTime = time;
+
+    const finished = this.advance((elapsed * (this.options.speed ?? 1)) / PASS_DURATION);
+    const [min, max] = this.range;
+    this.frame = finished ? null : requestAnimationFrame(this.tick);
+    this.onFrame(min + (max - min) * this.ease(this.progress));
+    if (finished) {
+      this.onEnd();
+    }
+  };
+
+  /**
+   * Move along the range, turning around or starting over at its ends
+   * @param distance Fraction of the range to move
+   * @returns Whether the animation is finished
+   */
+  private advance(distance: number): boolean {
+    this.progress += this.direction * distance;
+    if (this.progress >= 1) {
+      if (this.options.pingPong) {
+        this.progress = 2 - this.progress;
+        this.direction = -1;
+      } else if (this.options.loop) {
+        this.progress -= 1;
+      } else {
+        this.progress = 1;
+        return true;
+      }
+    } else if (this.progress <= 0 && this.direction === -1) {
+      if (this.options.loop) {
+        this.progress = -this.progress;
+        this.direction = 1;
+      } else {
+        this.progress = 0;
+        return true;
+      }
+    }
+    return false;
+  }
+}
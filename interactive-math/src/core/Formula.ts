@@ -224,6 +224,9 @@ export interface VariableDefinition {
   /** Number of decimal places to show */
   precision?: number;
   
+  /** How much a key press changes an input variable */
+  step?: number;
+  
   /** Units to display with the value */
   units?: string;
 }
@@ -235,9 +238,15 @@ export interface VariableValue {
   /** Current numeric value */
   value: number;
   
-  /** Units to display with the value */
+  /** Units to display with the value. For outputs without units of their own, the units derived from the inputs' units. */
   units?: string;
   
+  /** Problem with the units, e.g. invalid units or an output whose formula gives different units */
+  unitError?: string;
+  
+  /** For outputs, the symbols of the inputs that change its value */
+  dependencies?: string[];
+  
   /** Type of the variable */
   type: VariableType;
 } 
\ No newline at end of file
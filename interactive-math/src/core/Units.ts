@@ -0,0 +1,346 @@
+/**
+ * Exponents of the SI base units (kg, m, s, A, K, mol, cd), in that order
+ */
+export type Dimension = number[];
+
+/**
+ * Symbols of the SI base units, in the order used by dimensions
+ */
+export const BASE_UNITS = ['kg', 'm', 's', 'A', 'K', 'mol', 'cd'];
+
+/**
+ * Dimension of a plain number
+ */
+export const DIMENSIONLESS: Dimension = BASE_UNITS.map(() => 0);
+
+/**
+ * A unit as a multiple of a coherent SI unit, e.g. km is 1000 m
+ */
+export interface Unit {
+  /** Factor converting values in this unit to SI units */
+  scale: number;
+
+  /** Exponents of the SI base units */
+  dimension: Dimension;
+}
+
+/**
+ * Error thrown when a units string can't be parsed
+ */
+export class UnitParseError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'UnitParseError';
+  }
+}
+
+const baseDimension = (index: number): Dimension =>
+  DIMENSIONLESS.map((_, i) => (i === index ? 1 : 0));
+
+const [MASS, LENGTH, TIME, CURRENT, TEMPERATURE, AMOUNT, LUMINOSITY] =
+  BASE_UNITS.map((_, i) => baseDimension(i));
+
+const ENERGY: Dimension = [1, 2, -2, 0, 0, 0, 0];
+
+/**
+ * Units that take SI prefixes. The gram rather than the kilogram is listed so
+ * that prefixes apply as usual.
+ */
+const PREFIXABLE_UNITS: Record<string, Unit> = {
+  m: { scale: 1, dimension: LENGTH },
+  g: { scale: 1e-3, dimension: MASS },
+  s: { scale: 1, dimension: TIME },
+  A: { scale: 1, dimension: CURRENT },
+  K: { scale: 1, dimension: TEMPERATURE },
+  mol: { scale: 1, dimension: AMOUNT },
+  cd: { scale: 1, dimension: LUMINOSITY },
+  N: { scale: 1, dimension: [1, 1, -2, 0, 0, 0, 0] },
+  J: { scale: 1, dimension: ENERGY },
+  W: { scale: 1, dimension: [1, 2, -3, 0, 0, 0, 0] },
+  Pa: { scale: 1, dimension: [1, -1, -2, 0, 0, 0, 0] },
+  Hz: { scale: 1, dimension: [0, 0, -1, 0, 0, 0, 0] },
+  C: { scale: 1, dimension: [0, 0, 1, 1, 0, 0, 0] },
+  V: { scale: 1, dimension: [1, 2, -3, -1, 0, 0, 0] },
+  Ω: { scale: 1, dimension: [1, 2, -3, -2, 0, 0, 0] },
+  ohm: { scale: 1, dimension: [1, 2, -3, -2, 0, 0, 0] },
+  L: { scale: 1e-3, dimension: [0, 3, 0, 0, 0, 0, 0] },
+  eV: { scale: 1.602176634e-19, dimension: ENERGY },
+};
+
+/**
+ * Units that don't take prefixes
+ */
+const OTHER_UNITS: Record<string, Unit> = {
+  min: { scale: 60, dimension: TIME },
+  h: { scale: 3600, dimension: TIME },
+  rad: { scale: 1, dimension: DIMENSIONLESS },
+};
+
+const PREFIXES: Record<string, number> = {
+  Y: 1e24,
+  Z: 1e21,
+  E: 1e18,
+  P: 1e15,
+  T: 1e12,
+  G: 1e9,
+  M: 1e6,
+  k: 1e3,
+  h: 1e2,
+  da: 1e1,
+  d: 1e-1,
+  c: 1e-2,
+  m: 1e-3,
+  µ: 1e-6,
+  μ: 1e-6,
+  u: 1e-6,
+  n: 1e-9,
+  p: 1e-12,
+  f: 1e-15,
+  a: 1e-18,
+};
+
+/**
+ * Derived units used for display when a dimension matches one exactly
+ */
+const NAMED_UNITS = ['N', 'J', 'W', 'Pa', 'C', 'V', 'Ω'];
+
+const SUPERSCRIPTS = '⁰¹²³⁴⁵⁶⁷⁸⁹';
+
+const EPSILON = 1e-6;
+
+const ONE: Unit = { scale: 1, dimension: DIMENSIONLESS };
+
+/**
+ * Look up a single unit symbol, with or without a prefix
+ * @param name Unit symbol such as "km"
+ * @returns The unit
+ */
+function lookupUnit(name: string): Unit {
+  const unit = PREFIXABLE_UNITS[name] ?? OTHER_UNITS[name];
+  if (unit) {
+    return unit;
+  }
+  for (const [prefix, factor] of Object.entries(PREFIXES)) {
+    const base = PREFIXABLE_UNITS[name.slice(prefix.length)];
+    if (name.startsWith(prefix) && base) {
+      return { scale: factor * base.scale, dimension: base.dimension };
+    }
+  }
+  throw new UnitParseError(`Unknown unit "${name}"`);
+}
+
+/**
+ * Multiply a unit by a power of another
+ */
+function multiply(a: Unit, b: Unit, exponent = 1): Unit {
+  return {
+    scale: a.scale * Math.pow(b.scale, exponent),
+    dimension: a.dimension.map((n, i) => n + b.dimension[i] * exponent),
+  };
+}
+
+/**
+ * Split a units string into names, numbers and operators
+ */
+function tokenizeUnits(text: string): string[] {
+  // Unicode superscripts such as m² are written as powers
+  const normalized = text.replace(/[⁻]?[⁰¹²³⁴⁵⁶⁷⁸⁹]+/g, (digits) =>
+    '^' + Array.from(digits, (c) => (c === '⁻' ? '-' : SUPERSCRIPTS.indexOf(c).toString())).join('')
+  );
+  const tokens: string[] = [];
+  const pattern = /\s+|[·⋅*×]|(-?\d+(?:\.\d+)?|[^\s\d·⋅*×^/()-]+|[\^/()])/gy;
+  while (pattern.lastIndex < normalized.length) {
+    const start = pattern.lastIndex;
+    const match = pattern.exec(normalized);
+    if (!match || pattern.lastIndex === start) {
+      throw new UnitParseError(`Unexpected "${normalized[start]}" in units "${text}"`);
+    }
+    if (match[1] !== undefined) {
+      tokens.push(match[1]);
+    }
+  }
+  return tokens;
+}
+
+/**
+ * Parse a units string such as "m/s^2", "kg·m²/s²", "kN m", "J/(kg K)" or "µs".
+ * Everything after a "/" is in the denominator, so "m/s s" is m/s².
+ * @param text The units string
+ * @returns The parsed unit
+ * @throws UnitParseError if the text isn't a unit
+ */
+export function parseUnits(text: string): Unit {
+  const tokens = tokenizeUnits(text);
+  let position = 0;
+  const isNumber = (token: string | undefined) => token !== undefined && /^-?\d/.test(token);
+
+  const parseAtom = (): Unit => {
+    const token = tokens[position++];
+    if (token === '(') {
+      const unit = parseQuotient();
+      if (tokens[position++] !== ')') {
+        throw new UnitParseError(`Missing ")" in units "${text}"`);
+      }
+      return unit;
+    }
+    // A number is only allowed as the numerator of e.g. 1/s
+    if (token === '1') {
+      return ONE;
+    }
+    if (token === undefined || isNumber(token) || '^/)'.includes(token)) {
+      throw new UnitParseError(`Invalid units "${text}"`);
+    }
+    return lookupUnit(token);
+  };
+
+  const parsePower = (): Unit => {
+    const atom = parseAtom();
+    if (tokens[position] !== '^') {
+      return atom;
+    }
+    const exponent = tokens[position + 1];
+    if (!isNumber(exponent)) {
+      throw new UnitParseError(`Invalid exponent in units "${text}"`);
+    }
+    position += 2;
+    return multiply(ONE, atom, Number(exponent));
+  };
+
+  const parseProduct = (): Unit => {
+    let unit = parsePower();
+    while (position < tokens.length && tokens[position] !== '/' && tokens[position] !== ')') {
+      unit = multiply(unit, parsePower());
+    }
+    return unit;
+  };
+
+  const parseQuotient = (): Unit => {
+    let unit = parseProduct();
+    while (tokens[position] === '/') {
+      position++;
+      unit = multiply(unit, parseProduct(), -1);
+    }
+    return unit;
+  };
+
+  if (tokens.length === 0) {
+    return ONE;
+  }
+  const unit = parseQuotient();
+  if (position < tokens.length) {
+    throw new UnitParseError(`Invalid units "${text}"`);
+  }
+  return unit;
+}
+
+/**
+ * Check whether two dimensions are the same
+ */
+export function sameDimension(a: Dimension, b: Dimension): boolean {
+  return a.every((n, i) => Math.abs(n - b[i]) < EPSILON);
+}
+
+/**
+ * Format a unit raised to a power, e.g. s²
+ */
+function formatPower(unit: string, exponent: number): string {
+  if (Math.abs(exponent - 1) < EPSILON) {
+    return unit;
+  }
+  const rounded = Math.round(exponent);
+  if (Math.abs(exponent - rounded) < EPSILON) {
+    return unit + Array.from(rounded.toString(), (c) => SUPERSCRIPTS[Number(c)]).join('');
+  }
+  return `${unit}^${Number(exponent.toFixed(3))}`;
+}
+
+/**
+ * Format a dimension as a coherent SI unit
+ * @param dimension The dimension
+ * @returns Units such as "kg·m/s²", or "J" where a named unit matches. Empty
+ * for dimensionless quantities.
+ */
+export function formatDimension(dimension: Dimension): string {
+  const named = NAMED_UNITS.find((name) => sameDimension(PREFIXABLE_UNITS[name].dimension, dimension));
+  if (named) {
+    return named;
+  }
+  const part = (sign: number) =>
+    BASE_UNITS.flatMap((unit, i) =>
+      sign * dimension[i] > EPSILON ? [formatPower(unit, sign * dimension[i])] : []
+    );
+  const numerator = part(1);
+  const denominator = part(-1);
+  if (denominator.length === 0) {
+    return numerator.join('·');
+  }
+  return (numerator.length > 0 ? numerator.join('·') : '1') + '/' +
+    (denominator.length > 1 ? `(${denominator.join('·')})` : denominator[0]);
+}
+
+const SCALE_FACTORS = [2, 3];
+
+/**
+ * Result of deriving the units of computed outputs
+ */
+export interface DerivedDimensions {
+  /** Dimension of each output that could be determined */
+  dimensions: Record<string, Dimension>;
+
+  /** Outputs that don't scale consistently, i.e. whose formula mixes incompatible units */
+  inconsistent: string[];
+}
+
+/**
+ * Derive the dimensions of computed outputs from those of the inputs. Since
+ * the evaluation code is opaque, this scales the inputs by the powers of one
+ * base unit at a time and observes how each output scales, e.g. an output in
+ * kg·m/s doubles when every mass doubles.
+ * @param evaluate The evaluation function
+ * @param inputs Value and dimension of each input
+ * @param outputs Symbols of the outputs
+ * @returns The derived dimensions
+ */
+export async function deriveOutputDimensions(
+  evaluate: (variables: Record<string, number>) => Promise<Record<string, number>>,
+  inputs: Record<string, { value: number; dimension: Dimension }>,
+  outputs: string[]
+): Promise<DerivedDimensions> {
+  const evaluateScaled = (index: number, factor: number) =>
+    evaluate(Object.fromEntries(
+      Object.entries(inputs).map(([symbol, { value, dimension }]) => [
+        symbol,
+        value * Math.pow(factor, dimension[index]),
+      ])
+    ));
+
+  const base = await evaluateScaled(0, 1);
+  // Outputs that are zero or not a number can't be scaled
+  const measurable = outputs.filter((symbol) => Number.isFinite(base[symbol]) && base[symbol] !== 0);
+  const dimensions: Record<string, Dimension> = Object.fromEntries(
+    measurable.map((symbol) => [symbol, [...DIMENSIONLESS]])
+  );
+  const inconsistent = new Set<string>();
+
+  for (let index = 0; index < BASE_UNITS.length; index++) {
+    if (Object.values(inputs).every(({ dimension }) => dimension[index] === 0)) {
+      continue;
+    }
+    // Two factors, so that an output that doesn't follow a power law is caught
+    const scaled = await Promise.all(SCALE_FACTORS.map((factor) => evaluateScaled(index, factor)));
+    for (const symbol of measurable) {
+      const exponents = scaled.map((results, i) => {
+        const ratio = results[symbol] / base[symbol];
+        return ratio > 0 ? Math.log(ratio) / Math.log(SCALE_FACTORS[i]) : NaN;
+      });
+      if (exponents.some(isNaN) || Math.abs(exponents[0] - exponents[1]) > EPSILON) {
+        inconsistent.add(symbol);
+      } else {
+        dimensions[symbol][index] = exponents[0];
+      }
+    }
+  }
+
+  inconsistent.forEach((symbol) => delete dimensions[symbol]);
+  return { dimensions, inconsistent: Array.from(inconsistent) };
+}
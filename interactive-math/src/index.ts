@@ -5,9 +5,17 @@
 
 // Export the main API
 export * from './api/LLMFunctionGenerator';
+export * from './api/FunctionGenerationProvider';
+export * from './api/FunctionCache';
 export * from './InteractiveFormula';
+export { SandboxTimeoutError } from './computation/Sandbox';
+export { parseUnits, formatDimension, UnitParseError } from './core/Units';
+export type { Unit, Dimension } from './core/Units';
+export { EASINGS } from './core/Animation';
+export type { AnimationOptions, Easing, EasingName } from './core/Animation';
 
-import { InteractiveEquation, EquationOptions, VariableConfig } from './api/InteractiveEquation';
+import { InteractiveEquation, EquationOptions, VariableConfig, PlotOptions } from './api/InteractiveEquation';
+import { PlotData } from './rendering/FunctionPlot';
 import { RendererType } from './rendering/RendererFactory';
 
 /**
@@ -23,7 +31,9 @@ export function defineEquation(options: EquationOptions): InteractiveEquation {
 export type { 
   EquationOptions,
   VariableConfig,
-  RendererType
+  RendererType,
+  PlotOptions,
+  PlotData
 };
 
 // Export the InteractiveEquation class for advanced usage
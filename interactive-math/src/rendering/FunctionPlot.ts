@@ -0,0 +1,157 @@
+/**
+ * Sampled values of outputs along an input variable
+ */
+export interface PlotData {
+  /** Symbol of the input on the x axis */
+  x: string;
+
+  /** Evenly spaced values of the input over its range */
+  xs: number[];
+
+  /** Values of each plotted output at each of `xs`, keyed by symbol */
+  curves: Record<string, number[]>;
+}
+
+/**
+ * Current values marked on the plot
+ */
+export interface PlotPoint {
+  /** Current value of the input on the x axis */
+  x: number;
+
+  /** Current value of each plotted output */
+  y: Record<string, number>;
+}
+
+const WIDTH = 400;
+const HEIGHT = 240;
+const MARGIN = { top: 10, right: 12, bottom: 28, left: 48 };
+const TICK_COUNT = 5;
+const CURVE_COLORS = ['#2563eb', '#dc2626', '#16a34a', '#9333ea', '#ea580c'];
+
+/**
+ * Escape text for use in SVG markup
+ */
+function escapeText(text: string): string {
+  return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+}
+
+/**
+ * Format an axis value with a few significant digits
+ */
+function formatTick(value: number): string {
+  return Number(value.toPrecision(3)).toString();
+}
+
+/**
+ * Range covering every finite value, padded so that curves don't touch the
+ * edges, and widened if it's a single value
+ */
+function valueRange(values: number[]): [number, number] {
+  const finite = values.filter(Number.isFinite);
+  if (finite.length === 0) {
+    return [-1, 1];
+  }
+  const min = Math.min(...finite);
+  const max = Math.max(...finite);
+  if (min === max) {
+    return [min - 1, max + 1];
+  }
+  const padding = (max - min) * 0.05;
+  return [min - padding, max + padding];
+}
+
+/**
+ * Draws outputs as curves against an input as an SVG chart, marking their
+ * current values
+ */
+export class FunctionPlot {
+  /**
+   * Create a plot
+   * @param container HTML element to draw into
+   * @param labels Axis and legend label for each symbol, e.g. with its units
+   */
+  constructor(
+    private readonly container: HTMLElement,
+    private readonly labels: Record<string, string> = {}
+  ) {}
+
+  /**
+   * Draw the plot, replacing anything drawn before
+   * @param data The sampled curves
+   * @param point The current values to mark
+   */
+  public render(data: PlotData, point: PlotPoint): void {
+    const symbols = Object.keys(data.curves);
+    const xMin = data.xs[0];
+    const xMax = data.xs[data.xs.length - 1];
+    const [yMin, yMax] = valueRange([
+      ...symbols.flatMap((symbol) => data.curves[symbol]),
+      ...Object.values(point.y),
+    ]);
+    const toX = (value: number) =>
+      MARGIN.left + ((value - xMin) / (xMax - xMin || 1)) * (WIDTH - MARGIN.left - MARGIN.right);
+    const toY = (value: number) =>
+      HEIGHT - MARGIN.bottom - ((value - yMin) / (yMax - yMin)) * (HEIGHT - MARGIN.top - MARGIN.bottom);
+    const ticks = (min: number, max: number) =>
+      Array.from({ length: TICK_COUNT }, (_, i) => min + ((max - min) * i) / (TICK_COUNT - 1));
+    const label = (symbol: string) => escapeText(this.labels[symbol] ?? symbol);
+    const color = (index: number) => CURVE_COLORS[index % CURVE_COLORS.length];
+
+    const grid = [
+      ...ticks(xMin, xMax).map((tick) =>
+        `<line x1="${toX(tick)}" x2="${toX(tick)}" y1="${MARGIN.top}" y2="${HEIGHT - MARGIN.bottom}" stroke="#e2e8f0"/>` +
+        `<text x="${toX(tick)}" y="${HEIGHT - MARGIN.bottom + 12}" font-size="9" text-anchor="middle" fill="#64748b">${formatTick(tick)}</text>`
+      ),
+      ...ticks(yMin, yMax).map((tick) =>
+        `<line x1="${MARGIN.left}" x2="${WIDTH - MARGIN.right}" y1="${toY(tick)}" y2="${toY(tick)}" stroke="#e2e8f0"/>` +
+        `<text x="${MARGIN.left - 4}" y="${toY(tick) + 3}" font-size="9" text-anchor="end" fill="#64748b">${formatTick(tick)}</text>`
+      ),
+      `<text x="${(MARGIN.left + WIDTH - MARGIN.right) / 2}" y="${HEIGHT - 2}" font-size="10" text-anchor="middle" fill="#64748b">${label(data.x)}</text>`,
+    ];
+
+    // Curves are split wherever they aren't defined
+    const curves = symbols.flatMap((symbol, index) => {
+      const segments: string[][] = [[]];
+      data.xs.forEach((x, i) => {
+        const y = data.curves[symbol][i];
+        if (Number.isFinite(y)) {
+          segments[segments.length - 1].push(`${toX(x)},${toY(y)}`);
+        } else if (segments[segments.length - 1].length > 0) {
+          segments.push([]);
+        }
+      });
+      return segments
+        .filter((points) => points.length > 0)
+        .map((points) => `<polyline points="${points.join(' ')}" fill="none" stroke="${color(index)}" stroke-width="1.5"/>`);
+    });
+
+    const markers = symbols.flatMap((symbol, index) => {
+      const y = point.y[symbol];
+      if (!Number.isFinite(y) || !Number.isFinite(point.x)) {
+        return [];
+      }
+      return [
+        `<circle cx="${toX(point.x)}" cy="${toY(y)}" r="4" fill="${color(index)}" stroke="white" stroke-width="1.5">` +
+        `<title>${label(data.x)} = ${formatTick(point.x)}, ${label(symbol)} = ${formatTick(y)}</title></circle>`,
+      ];
+    });
+
+    const legend = symbols
+      .map((symbol, index) => `<span style="color: ${color(index)}; margin-right: 0.75em">● ${label(symbol)}</span>`)
+      .join('');
+
+    this.container.innerHTML =
+      `<div class="interactive-math-plot-legend" style="font-size: 0.875em">${legend}</div>` +
+      `<svg class="interactive-math-plot" viewBox="0 0 ${WIDTH} ${HEIGHT}" style="width: 100%; height: auto">` +
+      grid.join('') + curves.join('') + markers.join('') +
+      '</svg>';
+  }
+
+  /**
+   * Remove the plot from its container
+   */
+  public clear(): void {
+    this.container.innerHTML = '';
+  }
+}
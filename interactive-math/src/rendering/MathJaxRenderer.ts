@@ -7,6 +7,7 @@ interface VariableInfo {
   units?: string;
   range?: [number, number];
   precision?: number;
+  step?: number;
 }
 
 /**
@@ -134,11 +135,19 @@ export class MathJaxRenderer {
       units?: string;
       range?: [number, number];
       precision?: number;
+      step?: number;
     }>
   ): Promise<void> {
     console.log("Render method called with:", { latex, variables });
     await this.initialize();
     
+    // Rendering replaces the elements, so remember which variable had the
+    // keyboard focus to give it back in setupInteractivity
+    const focused = document.activeElement;
+    if (focused instanceof HTMLElement && container.contains(focused) && focused.dataset.variable) {
+      container.dataset.focusedVariable = focused.dataset.variable;
+    }
+    
     // Preserve existing state if variables aren't passed
     if (!variables && container.dataset.variables) {
       try {
@@ -543,21 +552,25 @@ export class MathJaxRenderer {
       
       // Remove any existing handlers
       if ((document as any)._mathJaxGlobalHandler) {
-        document.removeEventListener('mousedown', (document as any)._mathJaxGlobalHandler, true);
+        document.removeEventListener('pointerdown', (document as any)._mathJaxGlobalHandler, true);
+        window.removeEventListener('pointermove', (window as any)._mathJaxGlobalMoveHandler, true);
+        window.removeEventListener('pointerup', (window as any)._mathJaxGlobalUpHandler, true);
+        window.removeEventListener('pointercancel', (window as any)._mathJaxGlobalUpHandler, true);
       }
       
       // Variables to track current drag operation
       let activeVariable: string | null = null;
       let activeElement: HTMLElement | null = null;
+      let activePointer: number | null = null;
       let isDragging = false;
       let startY = 0;
       let startValue = 0;
       let sensitivity = 0.05;
       
-      // Create global mousedown handler
-      const globalMousedownHandler = (e: MouseEvent) => {
-        // If already dragging, ignore
-        if (isDragging) return;
+      // Create global pointerdown handler, which handles mouse, pen and touch
+      const globalMousedownHandler = (e: PointerEvent) => {
+        // If already dragging, or not the primary mouse button, ignore
+        if (isDragging || e.button !== 0) return;
         
         // Check if we're clicking on an interactive element
         const target = e.target as HTMLElement;
@@ -840,6 +853,7 @@ export class MathJaxRenderer {
           // Set up drag operation
           activeVariable = matchedSymbol;
           activeElement = matchedEl;
+          activePointer = e.pointerId;
           isDragging = true;
           startY = e.clientY;
           
@@ -879,9 +893,9 @@ export class MathJaxRenderer {
         }
       };
       
-      // Create global mousemove handler
-      const globalMousemoveHandler = (e: MouseEvent) => {
-        if (!isDragging || !activeVariable || !activeElement) return;
+      // Create global pointermove handler
+      const globalMousemoveHandler = (e: PointerEvent) => {
+        if (!isDragging || !activeVariable || !activeElement || e.pointerId !== activePointer) return;
         
         console.log(`🖱️ [GLOBAL_MOUSEMOVE] Movement for ${activeVariable} at ${e.clientX},${e.clientY}`);
         
@@ -948,9 +962,10 @@ export class MathJaxRenderer {
         }
       };
       
-      // Create global mouseup handler
-      const globalMouseupHandler = (e: MouseEvent) => {
-        if (!isDragging || !activeVariable || !activeElement) return;
+      // Create global pointerup handler, also used when the browser cancels
+      // the pointer, e.g. for a touch that turns into a scroll
+      const globalMouseupHandler = (e: PointerEvent) => {
+        if (!isDragging || !activeVariable || !activeElement || e.pointerId !== activePointer) return;
         
         console.log(`🖱️ [GLOBAL_MOUSEUP] Ended drag for ${activeVariable}, final value=${variables[activeVariable]?.value}`);
         
@@ -972,18 +987,27 @@ export class MathJaxRenderer {
         isDragging = false;
         activeVariable = null;
         activeElement = null;
+        activePointer = null;
       };
       
       // Register global handlers
-      document.addEventListener('mousedown', globalMousedownHandler, true);
-      window.addEventListener('mousemove', globalMousemoveHandler, true);
-      window.addEventListener('mouseup', globalMouseupHandler, true);
+      document.addEventListener('pointerdown', globalMousedownHandler, true);
+      window.addEventListener('pointermove', globalMousemoveHandler, true);
+      window.addEventListener('pointerup', globalMouseupHandler, true);
+      window.addEventListener('pointercancel', globalMouseupHandler, true);
       
       // Store references to remove later if needed
       (document as any)._mathJaxGlobalHandler = globalMousedownHandler;
       (window as any)._mathJaxGlobalMoveHandler = globalMousemoveHandler;
       (window as any)._mathJaxGlobalUpHandler = globalMouseupHandler;
       
+      // Give the keyboard focus back to the variable that had it before rendering
+      const focusedVariable = container.dataset.focusedVariable;
+      delete container.dataset.focusedVariable;
+      if (focusedVariable) {
+        container.querySelector<HTMLElement>(`[data-variable="${CSS.escape(focusedVariable)}"]`)?.focus();
+      }
+      
       // Setup complete
       console.log(`✅ Interactivity setup complete with global event handlers`);
       
@@ -1301,13 +1325,16 @@ export class MathJaxRenderer {
   ): void {
     // Ensure clean-up of any previous handlers
     if ((el as any)._mousedownHandler) {
-      el.removeEventListener('mousedown', (el as any)._mousedownHandler);
+      el.removeEventListener('pointerdown', (el as any)._mousedownHandler, true);
       console.log(`Removed previous event handler for ${symbol}`);
     }
     
     // Make element clearly interactive
     el.style.cursor = 'ns-resize';
     
+    // Dragging on touch screens moves the value rather than scrolling the page
+    el.style.touchAction = 'none';
+    
     // Critical: Make sure the pointer events are enabled
     el.style.pointerEvents = 'auto';
     
@@ -1318,9 +1345,13 @@ export class MathJaxRenderer {
     // Set attributes to help with debugging
     el.setAttribute('data-variable', symbol);
     
-    // Define the mousedown handler
-    const mousedownHandler = (e: MouseEvent) => {
-      console.log(`🖱️ [SCRUBBING_START] MOUSEDOWN on ${symbol} at ${e.clientX},${e.clientY}`);
+    // Let keyboard and screen reader users change the value too
+    this.setupKeyboardSlider(el, symbol, variableInfo, onVariableChange);
+    
+    // Define the pointerdown handler, which handles mouse, pen and touch
+    const mousedownHandler = (e: PointerEvent) => {
+      if (e.button !== 0) return;
+      console.log(`🖱️ [SCRUBBING_START] POINTERDOWN on ${symbol} at ${e.clientX},${e.clientY}`);
       console.log(`🖱️ Target element:`, e.target);
       
       // Ensure event doesn't propagate
@@ -1366,9 +1397,9 @@ export class MathJaxRenderer {
       el.style.opacity = '0.7';
       el.style.backgroundColor = 'rgba(0, 120, 255, 0.1)';
       
-      // Mouse move handler
-      const handleMouseMove = (moveEvent: MouseEvent) => {
-        if (!isDragging) return;
+      // Pointer move handler
+      const handleMouseMove = (moveEvent: PointerEvent) => {
+        if (!isDragging || moveEvent.pointerId !== e.pointerId) return;
         
         console.log(`🖱️ [SCRUBBING_MOVE] Mouse move for ${symbol}: ${moveEvent.clientX},${moveEvent.clientY}`);
         
@@ -1404,6 +1435,7 @@ export class MathJaxRenderer {
           
           // Update stored value (local copy)
           variableInfo.value = finalValue;
+          this.updateAriaValue(el, variableInfo);
           
           // ====== DIRECT DOM UPDATES FOR IMMEDIATE FEEDBACK ======
           // Update all instances of this variable in the DOM for immediate visual feedback
@@ -1438,9 +1470,9 @@ export class MathJaxRenderer {
         }
       };
       
-      // Mouse up handler
-      const handleMouseUp = (upEvent: MouseEvent) => {
-        if (!isDragging) return;
+      // Pointer up handler, also used when the browser cancels the pointer
+      const handleMouseUp = (upEvent: PointerEvent) => {
+        if (!isDragging || upEvent.pointerId !== e.pointerId) return;
         
         console.log(`🖱️ [SCRUBBING_END] Mouseup: finished dragging ${symbol}, final value: ${variableInfo.value}`);
         
@@ -1457,10 +1489,11 @@ export class MathJaxRenderer {
         tooltip.classList.remove('active');
         
         // Remove global event listeners - be thorough in removal to prevent any lingering handlers
-        document.removeEventListener('mousemove', handleMouseMove, true);
-        window.removeEventListener('mousemove', handleMouseMove, true);
-        document.removeEventListener('mouseup', handleMouseUp, true);
-        window.removeEventListener('mouseup', handleMouseUp, true);
+        document.removeEventListener('pointermove', handleMouseMove, true);
+        window.removeEventListener('pointermove', handleMouseMove, true);
+        document.removeEventListener('pointerup', handleMouseUp, true);
+        window.removeEventListener('pointerup', handleMouseUp, true);
+        window.removeEventListener('pointercancel', handleMouseUp, true);
         
         // Force a final update - ensure the change is properly registered
         // This is critical to make sure the new value sticks
@@ -1470,10 +1503,11 @@ export class MathJaxRenderer {
       
       // Add global event listeners with capture phase
       // Use both document and window to ensure we don't miss events
-      document.addEventListener('mousemove', handleMouseMove, true);
-      window.addEventListener('mousemove', handleMouseMove, true);
-      document.addEventListener('mouseup', handleMouseUp, true);
-      window.addEventListener('mouseup', handleMouseUp, true);
+      document.addEventListener('pointermove', handleMouseMove, true);
+      window.addEventListener('pointermove', handleMouseMove, true);
+      document.addEventListener('pointerup', handleMouseUp, true);
+      window.addEventListener('pointerup', handleMouseUp, true);
+      window.addEventListener('pointercancel', handleMouseUp, true);
       
       // Set a safety timeout to ensure we clean up even if something goes wrong
       setTimeout(() => {
@@ -1487,24 +1521,25 @@ export class MathJaxRenderer {
           tooltip.classList.remove('active');
           
           // Clean up event listeners
-          document.removeEventListener('mousemove', handleMouseMove, true);
-          window.removeEventListener('mousemove', handleMouseMove, true);
-          document.removeEventListener('mouseup', handleMouseUp, true);
-          window.removeEventListener('mouseup', handleMouseUp, true);
+          document.removeEventListener('pointermove', handleMouseMove, true);
+          window.removeEventListener('pointermove', handleMouseMove, true);
+          document.removeEventListener('pointerup', handleMouseUp, true);
+          window.removeEventListener('pointerup', handleMouseUp, true);
+          window.removeEventListener('pointercancel', handleMouseUp, true);
         }
       }, 30000); // 30 second safety timeout
     };
     
-    // Store and add the mousedown handler - use capture phase for reliability
+    // Store and add the pointerdown handler - use capture phase for reliability
     (el as any)._mousedownHandler = mousedownHandler;
     
     // IMPORTANT: Use capture phase (true) to ensure we get the event first
-    el.addEventListener('mousedown', mousedownHandler, true);
+    el.addEventListener('pointerdown', mousedownHandler, true);
     
     // Also directly handle click events as a backup for older browsers
     el.addEventListener('click', (e) => {
       console.log(`🖱️ [CLICK] Clicked on ${symbol} element`);
-      // We'll let the mousedown handler do the actual work
+      // We'll let the pointerdown handler do the actual work
     }, true);
     
     // Add hover effect for better UX
@@ -1526,6 +1561,109 @@ export class MathJaxRenderer {
     console.log(`✅ Successfully set up interaction for ${symbol} on element:`, el);
   }
   
+  /**
+   * How much a key press changes a variable: its step if it has one, otherwise
+   * the smallest change shown at its precision, or a hundredth of its range
+   */
+  private stepSize(variableInfo: VariableInfo): number {
+    if (variableInfo.step !== undefined && variableInfo.step > 0) {
+      return variableInfo.step;
+    }
+    if (variableInfo.precision !== undefined) {
+      return Math.pow(10, -variableInfo.precision);
+    }
+    if (variableInfo.range) {
+      return (variableInfo.range[1] - variableInfo.range[0]) / 100;
+    }
+    return 1;
+  }
+  
+  /**
+   * Update the ARIA slider attributes of an element with a variable's value
+   */
+  private updateAriaValue(el: HTMLElement, variableInfo: VariableInfo): void {
+    const formatted = this.formatValueNumber(variableInfo.value, variableInfo.precision);
+    el.setAttribute('aria-valuenow', String(variableInfo.value));
+    el.setAttribute('aria-valuetext', variableInfo.units ? `${formatted} ${variableInfo.units}` : formatted);
+    if (variableInfo.range) {
+      el.setAttribute('aria-valuemin', String(variableInfo.range[0]));
+      el.setAttribute('aria-valuemax', String(variableInfo.range[1]));
+    }
+  }
+  
+  /**
+   * Make an element a focusable ARIA slider. Arrow keys change the value by
+   * one step, Shift+arrow keys and Page Up/Down by ten steps, and Home/End
+   * go to the ends of the range.
+   */
+  private setupKeyboardSlider(
+    el: HTMLElement,
+    symbol: string,
+    variableInfo: VariableInfo,
+    onVariableChange: (symbol: string, value: number) => void
+  ): void {
+    el.tabIndex = 0;
+    el.setAttribute('role', 'slider');
+    el.setAttribute('aria-label', symbol.replace(/^\$|\$$/g, ''));
+    this.updateAriaValue(el, variableInfo);
+    
+    if ((el as any)._keydownHandler) {
+      el.removeEventListener('keydown', (el as any)._keydownHandler);
+    }
+    
+    const keydownHandler = (e: KeyboardEvent) => {
+      const step = this.stepSize(variableInfo);
+      const [min, max] = variableInfo.range ?? [-Infinity, Infinity];
+      let newValue: number;
+      switch (e.key) {
+        case 'ArrowUp':
+        case 'ArrowRight':
+          newValue = variableInfo.value + step * (e.shiftKey ? 10 : 1);
+          break;
+        case 'ArrowDown':
+        case 'ArrowLeft':
+          newValue = variableInfo.value - step * (e.shiftKey ? 10 : 1);
+          break;
+        case 'PageUp':
+          newValue = variableInfo.value + step * 10;
+          break;
+        case 'PageDown':
+          newValue = variableInfo.value - step * 10;
+          break;
+        case 'Home':
+          newValue = min;
+          break;
+        case 'End':
+          newValue = max;
+          break;
+        default:
+          return;
+      }
+      e.preventDefault();
+      if (!Number.isFinite(newValue)) {
+        return;
+      }
+      
+      // Snap to the step, then keep to the range and precision
+      newValue = Math.max(min, Math.min(max, Math.round(newValue / step) * step));
+      if (variableInfo.precision !== undefined) {
+        const factor = Math.pow(10, variableInfo.precision);
+        newValue = Math.round(newValue * factor) / factor;
+      }
+      if (newValue === variableInfo.value) {
+        return;
+      }
+      
+      variableInfo.value = newValue;
+      this.updateElementDisplay(el, symbol, newValue, variableInfo.precision, variableInfo.units);
+      this.updateAriaValue(el, variableInfo);
+      onVariableChange(symbol, newValue);
+    };
+    
+    (el as any)._keydownHandler = keydownHandler;
+    el.addEventListener('keydown', keydownHandler);
+  }
+  
   /**
    * Format value display with units
    */
@@ -13,39 +13,43 @@ import {
   selectionStore,
 } from "./store";
 
+// Each selected align environment gets its own markers
 export const AlignmentGuides = observer(() => {
-  const alignTargets = formulaStore.alignIds?.map((rowIds) =>
-    rowIds
-      .map((rowId) => selectionStore.screenSpaceTargets.get(rowId))
-      .filter(
-        (target): target is { id: string } & DimensionBox =>
-          target !== undefined
-      )
-  );
-
-  if (
-    selectionStore.workspaceBBox === null ||
-    alignTargets === undefined ||
-    !editingStore.showAlignMode
-  ) {
+  if (selectionStore.workspaceBBox === null || !editingStore.showAlignMode) {
     return null;
   }
-  return selectionStore.workspaceBBox === null ||
-    alignTargets === undefined ? null : (
-    <AlignmentGuidesInternal
-      alignTargets={alignTargets}
-      canvasLeft={selectionStore.workspaceBBox.left}
-      canvasTop={selectionStore.workspaceBBox.top}
-    />
-  );
+  const { left, top } = selectionStore.workspaceBBox;
+  return selectionStore.selectedAlignEnvironments.map((environmentId) => {
+    const alignTargets = formulaStore.alignIds
+      .get(environmentId)!
+      .map((rowIds) =>
+        rowIds
+          .map((rowId) => selectionStore.screenSpaceTargets.get(rowId))
+          .filter(
+            (target): target is { id: string } & DimensionBox =>
+              target !== undefined
+          )
+      );
+    return (
+      <AlignmentGuidesInternal
+        key={environmentId}
+        environmentId={environmentId}
+        alignTargets={alignTargets}
+        canvasLeft={left}
+        canvasTop={top}
+      />
+    );
+  });
 });
 
 const AlignmentGuidesInternal = observer(
   ({
+    environmentId,
     alignTargets,
     canvasLeft,
     canvasTop,
   }: {
+    environmentId: string;
     alignTargets: ({ id: string } & DimensionBox)[][];
     canvasLeft: number;
     canvasTop: number;
@@ -70,7 +74,9 @@ const AlignmentGuidesInternal = observer(
     let dragTargetId: string | null = null;
     if (dragState) {
       const rowInternalTargets =
-        formulaStore.alignRowInternalTargets![dragState.markerRow];
+        formulaStore.alignRowInternalTargets.get(environmentId)![
+          dragState.markerRow
+        ];
       const leftmost = selectionStore.screenSpaceTargets.get(
         rowInternalTargets[0].id
       )!;
@@ -128,15 +134,18 @@ const AlignmentGuidesInternal = observer(
       }
     }
 
-    debugStore.setAlignDragState(
-      dragState
-        ? {
-            row: dragState.markerRow,
-            col: dragState.markerCol,
-            currentDropTargetId: dragTargetId,
-          }
-        : null
-    );
+    // Only the environment being dragged in shows up in the debug panel
+    useEffect(() => {
+      if (!dragState) {
+        return;
+      }
+      debugStore.setAlignDragState({
+        row: dragState.markerRow,
+        col: dragState.markerCol,
+        currentDropTargetId: dragTargetId,
+      });
+      return () => debugStore.setAlignDragState(null);
+    }, [dragState, dragTargetId]);
 
     const onDrag = useCallback(
       (markerRow: number, markerCol: number, x: number) => {
@@ -165,7 +174,7 @@ const AlignmentGuidesInternal = observer(
         console.log("Deleting marker");
         formulaStore.updateFormula(
           replaceNodes(formulaStore.augmentedFormula, (node) => {
-            if (node.type === "array" && node._parent === null) {
+            if (node.type === "array" && node.id === environmentId) {
               return node.withChanges({
                 body: node.body.map((row, rowIdx) =>
                   rowIdx === dragState.markerRow
@@ -196,7 +205,7 @@ const AlignmentGuidesInternal = observer(
           console.log("Inserting marker");
           formulaStore.updateFormula(
             replaceNodes(formulaStore.augmentedFormula, (node) => {
-              if (node.type === "array" && node._parent === null) {
+              if (node.type === "array" && node.id === environmentId) {
                 return node.withChanges({
                   body: node.body.map((row, rowIdx) =>
                     rowIdx === dragState.markerRow
@@ -229,7 +238,7 @@ const AlignmentGuidesInternal = observer(
           console.log("Moving marker");
           formulaStore.updateFormula(
             replaceNodes(formulaStore.augmentedFormula, (node) => {
-              if (node.type === "array" && node._parent === null) {
+              if (node.type === "array" && node.id === environmentId) {
                 return node.withChanges({
                   body: node.body.map((row, rowIdx) => {
                     if (rowIdx !== dragState.markerRow) {
@@ -326,8 +335,13 @@ const AlignmentGuidesInternal = observer(
         }
       }
 
+      // Editing clears the selection, which would hide the guides of a
+      // nested environment
+      if (!selectionStore.selectedAlignEnvironments.includes(environmentId)) {
+        selectionStore.selectOnly(environmentId);
+      }
       setDragState(null);
-    }, [dragState, dragTargetId, alignTargets, setDragState]);
+    }, [dragState, dragTargetId, alignTargets, environmentId, setDragState]);
 
     return (
       <div
@@ -398,8 +412,9 @@ const AlignmentGuidesInternal = observer(
                     {
                       // Debug markers for internal targets
                       debugStore.showAlignGuides &&
-                        formulaStore.alignRowInternalTargets![row].flatMap(
-                          ({ id }) => (
+                        formulaStore.alignRowInternalTargets
+                          .get(environmentId)!
+                          [row].flatMap(({ id }) => (
                             <div
                               style={{
                                 zIndex: "100",
@@ -414,8 +429,7 @@ const AlignmentGuidesInternal = observer(
                                 transform: `translateX(-50%)`,
                               }}
                             ></div>
-                          )
-                        )
+                          ))
                     }
                   </Fragment>
                 );
@@ -0,0 +1,100 @@
+import { observer } from "mobx-react-lite";
+
+import { EASINGS, Easing, animationStore } from "./animation";
+import { computationStore } from "./computation";
+
+const SPEEDS = [0.25, 0.5, 1, 2, 4];
+
+/**
+ * Play controls for sweeping each slidable variable through its range, with
+ * the dependent variables following along.
+ */
+const AnimationControls = observer(() => {
+  const slidable = Array.from(computationStore.variables.entries()).filter(
+    ([_, v]) => v.type === "slidable"
+  );
+
+  if (slidable.length === 0) {
+    return null;
+  }
+
+  return (
+    <div className="flex flex-col gap-1 text-sm">
+      {slidable.map(([id, variable]) => {
+        const playing = animationStore.playing.has(id);
+        const { speed, loop, pingPong, easing } = animationStore.settingsOf(id);
+        return (
+          <div key={id} className="flex flex-wrap items-center gap-3">
+            <button
+              onClick={() => animationStore.toggle(id)}
+              className="w-16 px-2 py-0.5 border rounded hover:bg-gray-100"
+              aria-label={`${playing ? "Pause" : "Play"} ${variable.symbol}`}
+            >
+              {playing ? "⏸" : "▶"} {variable.symbol}
+            </button>
+            <label className="flex items-center gap-1">
+              Speed:
+              <select
+                value={speed}
+                onChange={(e) =>
+                  animationStore.setSettings(id, {
+                    speed: Number(e.target.value),
+                  })
+                }
+                className="border rounded px-1"
+              >
+                {SPEEDS.map((option) => (
+                  <option key={option} value={option}>
+                    {option}×
+                  </option>
+                ))}
+              </select>
+            </label>
+            <label className="flex items-center gap-1">
+              Easing:
+              <select
+                value={easing}
+                onChange={(e) =>
+                  animationStore.setSettings(id, {
+                    easing: e.target.value as Easing,
+                  })
+                }
+                className="border rounded px-1"
+              >
+                {Object.keys(EASINGS).map((option) => (
+                  <option key={option} value={option}>
+                    {option}
+                  </option>
+                ))}
+              </select>
+            </label>
+            <label className="flex items-center gap-1">
+              <input
+                type="checkbox"
+                checked={loop}
+                onChange={(e) =>
+                  animationStore.setSettings(id, { loop: e.target.checked })
+                }
+              />
+              Loop
+            </label>
+            <label className="flex items-center gap-1">
+              <input
+                type="checkbox"
+                checked={pingPong}
+                onChange={(e) =>
+                  animationStore.setSettings(id, {
+                    pingPong: e.target.checked,
+                  })
+                }
+              />
+              Ping-pong
+            </label>
+          </div>
+        );
+      })}
+    </div>
+  );
+});
+
+export default AnimationControls;
@@ -1,7 +1,9 @@
 import BlockInteractivity from "./BlockInteractivity";
 import { Debug } from "./Debug";
+import DependencyGraph from "./DependencyGraph";
 import { Editor } from "./Editor";
 import { ElementPane } from "./ElementPane";
+import FunctionPlot from "./FunctionPlot";
 import LLMFunction from "./LLMFunction";
 import { Menu } from "./Menu";
 import { Workspace } from "./Workspace";
@@ -22,12 +24,22 @@ function App() {
           <Menu />
           <Workspace />
         </div>
-        <div className="flex-[0.8] border-t border-gray-200 overflow-auto">
-          <BlockInteractivity />
+        <div className="flex-[0.8] border-t border-gray-200 flex flex-row min-h-0">
+          <div className="flex-1 overflow-auto">
+            <BlockInteractivity />
+          </div>
+          <div className="w-[40%] border-l border-gray-200 overflow-auto">
+            <FunctionPlot />
+          </div>
         </div>
       </div>
-      <div className="w-[22%] h-full border-l border-gray-200">
-        <ElementPane />
+      <div className="w-[22%] h-full flex flex-col border-l border-gray-200">
+        <div className="flex-1 overflow-auto">
+          <ElementPane />
+        </div>
+        <div className="flex-[0.8] border-t border-gray-200 overflow-auto">
+          <DependencyGraph />
+        </div>
       </div>
       <Debug />
     </div>
@@ -3,8 +3,18 @@ import { useCallback, useEffect, useRef, useState } from "react";
 import { reaction } from "mobx";
 import { observer } from "mobx-react-lite";
 
-import { computationStore } from "./computation";
-import { formulaStore } from "./store";
+import AnimationControls from "./AnimationControls";
+import { animationStore } from "./animation";
+import {
+  DEFAULT_MAX,
+  DEFAULT_MIN,
+  DEFAULT_PRECISION,
+  DEFAULT_STEP,
+  VariableState,
+  computationStore,
+} from "./computation";
+import { workspaceStore } from "./store";
+import { findVariables, replaceVariables } from "./variables";
 
 declare global {
   interface Window {
@@ -18,6 +28,19 @@ declare global {
   }
 }
 
+// MathJax shows \text contents literally, so only characters that could end
+// it early or switch to math are dropped
+const sanitizeText = (text: string) => text.replace(/[\\{}$]/g, "");
+
+// Dependents are shown in the unit derived from the formula if they don't
+// have one of their own
+const formatValue = (
+  { value, precision }: VariableState,
+  unit: string | undefined
+) =>
+  value.toFixed(precision ?? DEFAULT_PRECISION) +
+  (unit ? `\\,\\text{${sanitizeText(unit)}}` : "");
+
 const BlockInteractivity = observer(() => {
   const containerRef = useRef<HTMLDivElement>(null);
   const [isInitialized, setIsInitialized] = useState(false);
@@ -33,7 +56,7 @@ const BlockInteractivity = observer(() => {
         await window.MathJax.startup.promise;
         setIsInitialized(true);
         // Set initial formula when MathJax is ready
-        const latex = formulaStore.latexWithoutStyling;
+        const latex = workspaceStore.latexWithoutStyling;
         if (latex) {
           console.log("🔍 Setting initial formula:", latex);
           await computationStore.setFormula(latex);
@@ -50,7 +73,7 @@ const BlockInteractivity = observer(() => {
     if (!containerRef.current) return;
 
     try {
-      const latex = formulaStore.latexWithoutStyling;
+      const latex = workspaceStore.latexWithoutStyling;
       if (!latex) return;
 
       console.log("🔍 Starting renderFormula with latex:", latex);
@@ -64,55 +87,70 @@ const BlockInteractivity = observer(() => {
         }))
       );
 
-      // Process the LaTeX to include interactive elements
-      const processedLatex = latex.replace(/([a-zA-Z])/g, (match) => {
-        const varId = `var-${match}`;
-        const variable = computationStore.variables.get(varId);
-
-        if (!variable) {
-          console.log(`⚠️ Variable not found for ${varId}`);
-          return match;
-        }
-
-        console.log(`🔍 Processing variable ${varId}:`, {
-          type: variable.type,
-          value: variable.value,
-          error: variable.error,
-        });
-
-        const value = variable.value;
-        const type = variable.type;
-
-        if (type === "fixed") {
-          return value.toString();
-        }
-
-        if (type === "slidable") {
-          return `\\cssId{var-${match}}{\\class{interactive-var-slidable}{${match}: ${value.toFixed(1)}}}`;
-        }
-
-        if (type === "dependent") {
-          console.log(
-            `🔍 Rendering dependent variable ${varId} with value:`,
-            value
-          );
-          return `\\cssId{var-${match}}{\\class{interactive-var-dependent}{${match}: ${value.toFixed(1)}}}`;
-        }
-
-        return `\\class{interactive-var-${type}}{${match}}`;
-      });
+      // Process the LaTeX of each formula to include interactive elements.
+      // Variables are shared, so one appearing in several formulas shows the
+      // same value in each.
+      const processedLatex = workspaceStore.augmentedFormulas.map((formula) =>
+        replaceVariables(formula, ({ id, symbol }) => {
+          const variable = computationStore.variables.get(id);
+
+          if (!variable) {
+            console.log(`⚠️ Variable not found for ${id}`);
+            return symbol;
+          }
+
+          console.log(`🔍 Processing variable ${id}:`, {
+            type: variable.type,
+            value: variable.value,
+            error: variable.error,
+          });
+
+          const value = variable.value;
+          const type = variable.type;
+
+          if (type === "fixed") {
+            return value.toString();
+          }
+
+          if (type === "slidable") {
+            return `\\cssId{${id}}{\\class{interactive-var-slidable}{${symbol}: ${formatValue(variable, computationStore.displayUnit(id))}}}`;
+          }
+
+          if (type === "dependent") {
+            console.log(
+              `🔍 Rendering dependent variable ${id} with value:`,
+              value
+            );
+            return `\\cssId{${id}}{\\class{interactive-var-dependent}{${symbol}: ${formatValue(variable, computationStore.displayUnit(id))}}}`;
+          }
+
+          return `\\class{interactive-var-${type}}{${symbol}}`;
+        })
+      );
 
       console.log("🔍 Processed LaTeX:", processedLatex);
 
+      // Re-rendering replaces the variables, so keyboard focus is given back
+      // to the one that had it
+      const focusedId = containerRef.current.contains(document.activeElement)
+        ? document.activeElement?.id
+        : undefined;
+
       // Clear previous MathJax content
       window.MathJax.typesetClear([containerRef.current]);
 
       // Update content and typeset
-      containerRef.current.innerHTML = `\\[${processedLatex}\\]`;
+      containerRef.current.innerHTML = processedLatex
+        .filter((latex) => latex.trim() !== "")
+        .map((latex) => `\\[${latex}\\]`)
+        .join("");
       await window.MathJax.typesetPromise([containerRef.current]);
 
       // Add interaction handlers
       setupInteractionHandlers();
+      if (focusedId) {
+        document.getElementById(focusedId)?.focus();
+      }
     } catch (error) {
       console.error("Error rendering formula:", error);
     }
@@ -121,13 +159,15 @@ const BlockInteractivity = observer(() => {
   useEffect(() => {
     const disposer = reaction(
       () => ({
-        latex: formulaStore.latexWithoutStyling,
+        latex: workspaceStore.latexWithoutStyling,
         // Watch for changes in both variable values and types
         variables: Array.from(computationStore.variables.entries()).map(
           ([id, v]) => ({
             id,
             type: v.type,
             value: v.value,
+            precision: v.precision,
+            unit: computationStore.displayUnit(id),
           })
         ),
         variableTypesChanged: computationStore.variableTypesChanged,
@@ -141,6 +181,27 @@ const BlockInteractivity = observer(() => {
     return () => disposer();
   }, [isInitialized, renderFormula]);
 
+  // Forget variables that were removed from every formula and recompute the
+  // dependent variables for the edited formulas
+  useEffect(() => {
+    const disposer = reaction(
+      () => workspaceStore.latexWithoutStyling,
+      (latex) => {
+        if (!isInitialized) return;
+        computationStore.cleanup(
+          new Set(
+            workspaceStore.augmentedFormulas.flatMap((formula) =>
+              findVariables(formula).map(({ symbol }) => symbol)
+            )
+          ),
+          latex
+        );
+      }
+    );
+
+    return () => disposer();
+  }, [isInitialized]);
+
   const setupInteractionHandlers = () => {
     if (!containerRef.current) return;
 
@@ -149,28 +210,34 @@ const BlockInteractivity = observer(() => {
     );
 
     slidableElements.forEach((element) => {
-      let isDragging = false;
+      if (!(element instanceof HTMLElement)) return;
+      let pointerId: number | null = null;
       let startY = 0;
       let startValue = 0;
-      const SENSITIVITY = 0.5;
 
-      const handleMouseMove = async (e: MouseEvent) => {
-        if (!isDragging) return;
+      setupSlider(element);
 
-        const deltaY = startY - e.clientY;
-        const newValue = startValue + deltaY * SENSITIVITY;
-        const varMatch = element.id.match(/^var-([a-zA-Z])$/);
-        if (!varMatch) return;
-        const symbol = varMatch[1];
+      const handlePointerMove = async (e: PointerEvent) => {
+        if (e.pointerId !== pointerId) return;
 
-        const clampedValue = Math.max(-100, Math.min(100, newValue));
+        const varId = element.id;
+        const variable = computationStore.variables.get(varId);
+        if (!variable) return;
+
+        const {
+          min = DEFAULT_MIN,
+          max = DEFAULT_MAX,
+          step = DEFAULT_STEP,
+        } = variable;
+        const deltaY = startY - e.clientY;
+        const newValue = Math.round(startValue / step + deltaY) * step;
+        const clampedValue = Math.max(min, Math.min(max, newValue));
 
         // Update the computation store
-        const varId = `var-${symbol}`;
         console.log(`🔍 Updating slidable variable ${varId} to:`, clampedValue);
 
         // Log the formula before update
-        console.log("🔍 Current formula:", formulaStore.latexWithoutStyling);
+        console.log("🔍 Current formula:", workspaceStore.latexWithoutStyling);
         console.log(
           "🔍 Dependent variables before update:",
           Array.from(computationStore.variables.entries())
@@ -182,7 +249,7 @@ const BlockInteractivity = observer(() => {
         computationStore.setValue(varId, clampedValue);
 
         // Ensure formula is set for computation
-        await computationStore.setFormula(formulaStore.latexWithoutStyling);
+        await computationStore.setFormula(workspaceStore.latexWithoutStyling);
 
         // Log the state after update
         console.log(
@@ -212,36 +279,127 @@ const BlockInteractivity = observer(() => {
         );
       };
 
-      const handleMouseUp = () => {
-        isDragging = false;
-        document.removeEventListener("mousemove", handleMouseMove);
-        document.removeEventListener("mouseup", handleMouseUp);
+      const handlePointerUp = (e: PointerEvent) => {
+        if (e.pointerId !== pointerId) return;
+        pointerId = null;
+        document.removeEventListener("pointermove", handlePointerMove);
+        document.removeEventListener("pointerup", handlePointerUp);
+        document.removeEventListener("pointercancel", handlePointerUp);
       };
 
-      element.addEventListener("mousedown", (e: Event) => {
-        if (!(e instanceof MouseEvent)) return;
-        isDragging = true;
+      element.addEventListener("pointerdown", (e: PointerEvent) => {
+        if (pointerId !== null || e.button !== 0) return;
+        // Grabbing a variable takes it over from playback
+        animationStore.pause(element.id);
+        pointerId = e.pointerId;
         startY = e.clientY;
-        startValue = parseFloat(element.textContent || "0");
-
-        document.addEventListener("mousemove", handleMouseMove);
-        document.addEventListener("mouseup", handleMouseUp);
+        startValue = computationStore.variables.get(element.id)?.value ?? 0;
+
+        document.addEventListener("pointermove", handlePointerMove);
+        document.addEventListener("pointerup", handlePointerUp);
+        // The browser cancels the pointer if it takes over the gesture
+        document.addEventListener("pointercancel", handlePointerUp);
+        // Preventing the default keeps text from being selected, so the
+        // element is focused by hand for keyboard use after dragging
         e.preventDefault();
+        element.focus();
       });
     });
   };
 
+  // Make a slidable variable a focusable slider for keyboard and screen reader
+  // users. Arrow keys step the value, Shift+arrow and Page Up/Down take ten
+  // steps, and Home/End go to the ends of the range.
+  const setupSlider = (element: HTMLElement) => {
+    const variable = computationStore.variables.get(element.id);
+    if (!variable) return;
+
+    const {
+      min = DEFAULT_MIN,
+      max = DEFAULT_MAX,
+      step = DEFAULT_STEP,
+      precision = DEFAULT_PRECISION,
+    } = variable;
+    const unit = computationStore.displayUnit(element.id);
+
+    // Dragging on touch screens changes the value rather than scrolling
+    element.style.touchAction = "none";
+    element.tabIndex = 0;
+    element.setAttribute("role", "slider");
+    element.setAttribute("aria-label", variable.symbol);
+    element.setAttribute("aria-valuenow", String(variable.value));
+    element.setAttribute("aria-valuemin", String(min));
+    element.setAttribute("aria-valuemax", String(max));
+    element.setAttribute(
+      "aria-valuetext",
+      `${variable.value.toFixed(precision)}${unit ? ` ${unit}` : ""}`
+    );
+
+    element.addEventListener("keydown", (e: KeyboardEvent) => {
+      const value = computationStore.variables.get(element.id)?.value;
+      if (value === undefined) return;
+
+      let newValue: number;
+      switch (e.key) {
+        case "ArrowUp":
+        case "ArrowRight":
+          newValue = value + step * (e.shiftKey ? 10 : 1);
+          break;
+        case "ArrowDown":
+        case "ArrowLeft":
+          newValue = value - step * (e.shiftKey ? 10 : 1);
+          break;
+        case "PageUp":
+          newValue = value + step * 10;
+          break;
+        case "PageDown":
+          newValue = value - step * 10;
+          break;
+        case "Home":
+          newValue = min;
+          break;
+        case "End":
+          newValue = max;
+          break;
+        default:
+          return;
+      }
+      e.preventDefault();
+      animationStore.pause(element.id);
+
+      const clampedValue = Math.max(
+        min,
+        Math.min(max, Math.round(newValue / step) * step)
+      );
+      if (clampedValue !== value) {
+        computationStore.setValue(element.id, clampedValue);
+      }
+    });
+  };
+
   useEffect(() => {
     if (isInitialized) {
       renderFormula();
     }
   }, [isInitialized, renderFormula]);
 
+  const errors = [
+    ...(computationStore.formulaError ? [computationStore.formulaError] : []),
+    ...computationStore.unitAnalysis.errors,
+  ];
+
   return (
-    <div
-      ref={containerRef}
-      className="bg-white p-6 h-full flex items-center justify-center"
-    />
+    <div className="bg-white p-6 h-full flex flex-col items-center justify-center gap-4">
+      <div ref={containerRef} />
+      <AnimationControls />
+      {errors.length > 0 && (
+        <ul className="text-sm text-amber-700">
+          {errors.map((error) => (
+            <li key={error}>⚠️ {error}</li>
+          ))}
+        </ul>
+      )}
+    </div>
   );
 });
 
@@ -0,0 +1,170 @@
+import { useState } from "react";
+
+import { observer } from "mobx-react-lite";
+
+import { VariableType, computationStore } from "./computation";
+import { formulaStore, selectionStore, workspaceStore } from "./store";
+import { findVariables } from "./variables";
+
+const WIDTH = 300;
+const ROW_HEIGHT = 44;
+const NODE_RADIUS = 16;
+const INPUT_X = 60;
+const DEPENDENT_X = 240;
+
+const NODE_COLORS: Record<VariableType, string> = {
+  fixed: "#64748b",
+  slidable: "#2563eb",
+  dependent: "#16a34a",
+  none: "#94a3b8",
+};
+
+// Tree ids of the nodes where a variable appears in the formula being edited
+const occurrences = (id: string) =>
+  findVariables(formulaStore.augmentedFormula)
+    .filter((variable) => variable.id === id)
+    .map((variable) => variable.node.id);
+
+// Selects the first place a variable appears, first switching to a formula
+// it appears in if it isn't in the one being edited
+const selectVariable = (id: string) => {
+  const [nodeId] = occurrences(id);
+  if (nodeId !== undefined) {
+    selectionStore.selectOnly(nodeId);
+    return;
+  }
+  const index = workspaceStore.augmentedFormulas.findIndex((formula) =>
+    findVariables(formula).some((variable) => variable.id === id)
+  );
+  if (index >= 0) {
+    workspaceStore.activate(index);
+  }
+};
+
+// Evenly spaced heights for a column of nodes, centered vertically
+const columnY = (count: number, height: number) => (i: number) =>
+  height / 2 + (i - (count - 1) / 2) * ROW_HEIGHT;
+
+/**
+ * Shows which inputs each dependent variable is computed from as a graph,
+ * with inputs on the left and dependent variables on the right. Hovering a
+ * variable highlights it in the workspace and clicking it selects it.
+ */
+const DependencyGraph = observer(() => {
+  const [hovered, setHovered] = useState<string | null>(null);
+
+  const variables = Array.from(computationStore.variables.entries());
+  const dependents = variables.filter(([_, v]) => v.type === "dependent");
+  const inputs = variables.filter(
+    ([_, v]) => v.type === "fixed" || v.type === "slidable"
+  );
+
+  if (dependents.length === 0) {
+    return (
+      <div className="h-full flex items-center justify-center p-4">
+        <p className="text-base text-slate-400 text-center">
+          Make a variable dependent to see what it's computed from.
+        </p>
+      </div>
+    );
+  }
+
+  const height =
+    Math.max(inputs.length, dependents.length) * ROW_HEIGHT + ROW_HEIGHT;
+  const inputY = columnY(inputs.length, height);
+  const dependentY = columnY(dependents.length, height);
+  const positions = new Map<string, { x: number; y: number }>([
+    ...inputs.map(([id], i) => [id, { x: INPUT_X, y: inputY(i) }] as const),
+    ...dependents.map(
+      ([id], i) => [id, { x: DEPENDENT_X, y: dependentY(i) }] as const
+    ),
+  ]);
+
+  const edges = dependents.flatMap(([to, v]) =>
+    Array.from(v.dependencies ?? [])
+      .filter((from) => positions.has(from))
+      .map((from) => ({ from, to }))
+  );
+  const isHighlighted = (edge: { from: string; to: string }) =>
+    hovered === edge.from || hovered === edge.to;
+
+  const hover = (id: string | null) => {
+    setHovered(id);
+    selectionStore.setHighlighted(id ? occurrences(id) : []);
+  };
+
+  return (
+    <div className="h-full bg-white p-4 flex flex-col gap-2">
+      <h2 className="text-base text-black">Dependencies</h2>
+      <svg
+        viewBox={`0 0 ${WIDTH} ${height}`}
+        className="w-full flex-1 min-h-0"
+        onMouseLeave={() => hover(null)}
+      >
+        <defs>
+          <marker
+            id="dependency-arrow"
+            viewBox="0 0 10 10"
+            refX={10}
+            refY={5}
+            markerWidth={6}
+            markerHeight={6}
+            orient="auto-start-reverse"
+          >
+            <path d="M 0 0 L 10 5 L 0 10 z" fill="context-stroke" />
+          </marker>
+        </defs>
+
+        {edges.map((edge) => {
+          const from = positions.get(edge.from)!;
+          const to = positions.get(edge.to)!;
+          return (
+            <line
+              key={`${edge.from}-${edge.to}`}
+              x1={from.x + NODE_RADIUS}
+              y1={from.y}
+              x2={to.x - NODE_RADIUS}
+              y2={to.y}
+              stroke={isHighlighted(edge) ? "#f59e0b" : "#cbd5e1"}
+              strokeWidth={isHighlighted(edge) ? 2 : 1.5}
+              markerEnd="url(#dependency-arrow)"
+            />
+          );
+        })}
+
+        {[...inputs, ...dependents].map(([id, v]) => {
+          const { x, y } = positions.get(id)!;
+          return (
+            <g
+              key={id}
+              className="cursor-pointer"
+              onMouseEnter={() => hover(id)}
+              onClick={() => selectVariable(id)}
+            >
+              <title>{`${v.symbol} (${v.type})`}</title>
+              <circle
+                cx={x}
+                cy={y}
+                r={NODE_RADIUS}
+                fill="white"
+                stroke={hovered === id ? "#f59e0b" : NODE_COLORS[v.type]}
+                strokeWidth={2}
+              />
+              <text
+                x={x}
+                y={y + 4}
+                fontSize={11}
+                textAnchor="middle"
+                fill={NODE_COLORS[v.type]}
+              >
+                {v.symbol}
+              </text>
+            </g>
+          );
+        })}
+      </svg>
+    </div>
+  );
+});
+
+export default DependencyGraph;
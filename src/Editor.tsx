@@ -33,6 +33,15 @@ import {
   checkFormulaCode,
   deriveAugmentedFormula,
 } from "./FormulaTree";
+import { documentStore } from "./document";
+import {
+  FORMAT_NAMES,
+  FormulaImportError,
+  type ImportFormat,
+  couldBeAsciiMath,
+  detectFormat,
+  importFormula,
+} from "./importFormula";
 import { formulaStore } from "./store";
 
 type DecorationRange = { to: number; from: number; decoration: Decoration };
@@ -343,6 +352,91 @@ const styledRangeEditExtension = EditorState.transactionFilter.of((tr) => {
   return tr;
 });
 
+// Replaces the range with the imported text, and says what was converted
+const insertImported = (
+  view: EditorView,
+  text: string,
+  format: ImportFormat,
+  from: number,
+  to: number
+) => {
+  try {
+    const { latex, unsupported } = importFormula(text, format);
+    view.dispatch({
+      changes: { from, to, insert: latex },
+      selection: { anchor: from + latex.length },
+      userEvent: "input.paste",
+    });
+    documentStore.setNotice(
+      unsupported.length > 0
+        ? {
+            type: "warning",
+            message: `Converted pasted ${FORMAT_NAMES[format]}, leaving out ${unsupported.join(", ")}`,
+          }
+        : {
+            type: "info",
+            message: `Converted pasted ${FORMAT_NAMES[format]}`,
+          }
+    );
+  } catch (error) {
+    console.error("Error importing pasted formula:", error);
+    documentStore.setNotice({
+      type: "error",
+      message:
+        error instanceof FormulaImportError
+          ? error.message
+          : `The pasted ${FORMAT_NAMES[format]} couldn't be converted`,
+    });
+  }
+};
+
+// Pasted MathML and delimited AsciiMath are converted to LaTeX, listing
+// anything that couldn't be converted. Other text is pasted as it is, with an
+// offer to convert it if it reads differently as AsciiMath, which can be undone
+// like any edit.
+const importOnPaste = EditorView.domEventHandlers({
+  paste(event, view) {
+    const mathML = event.clipboardData?.getData("application/mathml+xml");
+    const text = mathML || event.clipboardData?.getData("text/plain");
+    if (!text) {
+      return false;
+    }
+    const format = mathML ? "mathml" : detectFormat(text);
+    const { from, to } = view.state.selection.main;
+    if (format !== "latex") {
+      event.preventDefault();
+      insertImported(view, text, format, from, to);
+      return true;
+    }
+    if (!couldBeAsciiMath(text)) {
+      return false;
+    }
+
+    event.preventDefault();
+    view.dispatch(view.state.replaceSelection(text), {
+      userEvent: "input.paste",
+    });
+    documentStore.setNotice({
+      type: "info",
+      message: "Pasted as LaTeX",
+      action: {
+        label: "Convert pasted AsciiMath",
+        run: () => {
+          if (view.state.sliceDoc(from, from + text.length) !== text) {
+            documentStore.setNotice({
+              type: "error",
+              message: "The pasted text was changed since it was pasted",
+            });
+            return;
+          }
+          insertImported(view, text, "asciimath", from, from + text.length);
+        },
+      },
+    });
+    return true;
+  },
+});
+
 const EditorTab = ({
   selected,
   children,
@@ -415,6 +509,7 @@ const FullStyleEditor = observer(() => {
             EditorView.lineWrapping,
             StreamLanguage.define(stex),
             codeUpdateListener,
+            importOnPaste,
           ],
           doc: formulaStore.latexWithStyling,
         }),
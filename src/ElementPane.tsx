@@ -152,6 +152,10 @@ const TreeElement = ({ tree }: { tree: AugmentedFormulaNode }) => {
       return <LabeledNode tree={tree} label="Group" />;
     case "array":
       return <LabeledNode tree={tree} label="Array" />;
+    case "matrix":
+      return <LabeledNode tree={tree} label={`Matrix (${tree.environment})`} />;
+    case "cases":
+      return <LabeledNode tree={tree} label="Cases" />;
     case "brace":
       return <BraceNode tree={tree} />;
     case "color":
@@ -160,6 +164,38 @@ const TreeElement = ({ tree }: { tree: AugmentedFormulaNode }) => {
       return <BoxNode tree={tree} />;
     case "strikethrough":
       return <LabeledNode tree={tree} label="Strikethrough" deletable />;
+    case "delimited":
+      return (
+        <LabeledNode
+          tree={tree}
+          label={`Delimiters ${tree.left} ${tree.right}`}
+          deletable
+        />
+      );
+    case "middle":
+      return (
+        <LabeledNode tree={tree} label={String.raw`\middle${tree.delimiter}`} />
+      );
+    case "accent":
+      return <LabeledNode tree={tree} label={tree.label} deletable />;
+    case "font":
+      return <LabeledNode tree={tree} label={tree.command} deletable />;
+    case "sizing":
+      return <LabeledNode tree={tree} label={tree.command} deletable />;
+    case "line":
+      return (
+        <LabeledNode
+          tree={tree}
+          label={tree.over ? "Overline" : "Underline"}
+          deletable
+        />
+      );
+    case "kern":
+      return <LabeledNode tree={tree} label="␣" />;
+    case "lap":
+      return <LabeledNode tree={tree} label="Overlap" />;
+    case "phantom":
+      return <LabeledNode tree={tree} label="Phantom" />;
     default:
       assertUnreachable(tree);
   }
@@ -94,6 +94,24 @@ export const deriveAugmentedFormula = (latex: string): AugmentedFormula => {
   return canonicalizeFormula(new AugmentedFormula(augmentedTrees));
 };
 
+const matrixEnvironment = (
+  left: string,
+  right: string
+): MatrixEnvironment | null => {
+  const environment = Object.entries(MATRIX_ENVIRONMENTS).find(
+    ([_, delimiters]) => delimiters?.[0] === left && delimiters[1] === right
+  );
+  return environment ? (environment[0] as MatrixEnvironment) : null;
+};
+
+const buildRows = (
+  katexTree: Extract<katex.ParseNode, { type: "array" }>,
+  id: string
+): AugmentedFormulaNode[][] =>
+  katexTree.body.map((row, r) =>
+    row.map((cell, c) => buildAugmentedFormula(cell, `${id}.${r}.${c}`))
+  );
+
 const buildAugmentedFormula = (
   katexTree: katex.ParseNode,
   id: string
@@ -224,15 +242,29 @@ const buildAugmentedFormula = (
     case "spacing":
       return new Space(id, katexTree.text);
     case "array":
+      if (katexTree.hskipBeforeAndAfter === false) {
+        // Only the matrix environments leave out the space around columns
+        return new Matrix(id, "matrix", buildRows(katexTree, id));
+      }
       return new Aligned(
         id,
-        katexTree.body.map((row, r) =>
-          row.map((cell, c) => buildAugmentedFormula(cell, `${id}.${r}.${c}`))
-        )
+        buildRows(katexTree, id),
+        // `array` environments have a column spec, `aligned` ones don't
+        katexTree.hskipBeforeAndAfter
+          ? katexTree.cols?.map(
+              (column): ArrayColumn =>
+                column.type === "align"
+                  ? { type: "align", align: column.align as "l" | "c" | "r" }
+                  : { type: "separator", separator: column.separator }
+            )
+          : undefined
       );
     case "op":
       if (katexTree.symbol) {
         return new Op(id, katexTree.name, katexTree.limits);
+      } else if ("name" in katexTree) {
+        // Named operators like \sin and \log have no body
+        return new Op(id, katexTree.name as string, katexTree.limits);
       }
       break;
     case "sqrt": {
@@ -245,6 +277,119 @@ const buildAugmentedFormula = (
       index && (index._parent = root);
       return root;
     }
+    case "leftright": {
+      // Matrices with delimiters and cases are arrays wrapped in delimiters
+      const [array] = katexTree.body;
+      if (katexTree.body.length === 1 && array.type === "array") {
+        const environment = matrixEnvironment(katexTree.left, katexTree.right);
+        if (array.hskipBeforeAndAfter === false && environment !== null) {
+          return new Matrix(id, environment, buildRows(array, id));
+        }
+        if (
+          katexTree.left === String.raw`\{` &&
+          katexTree.right === "." &&
+          array.hskipBeforeAndAfter === undefined &&
+          array.colSeparationType === undefined
+        ) {
+          return new Cases(id, buildRows(array, id));
+        }
+      }
+      const children = katexTree.body.map((child, i) =>
+        buildAugmentedFormula(child, `${id}.${i}`)
+      );
+      const delimited = new Delimited(
+        id,
+        katexTree.left,
+        katexTree.right,
+        children
+      );
+      children.forEach((child) => (child._parent = delimited));
+      children.forEach((child, i) => {
+        if (i > 0) {
+          child._leftSibling = children[i - 1];
+        }
+        if (i < children.length - 1) {
+          child._rightSibling = children[i + 1];
+        }
+      });
+      return delimited;
+    }
+    case "middle":
+      return new Middle(id, katexTree.delim);
+    case "accent": {
+      const body = buildAugmentedFormula(katexTree.base, `${id}.body`);
+      const accent = new Accent(id, katexTree.label, body);
+      body._parent = accent;
+      return accent;
+    }
+    case "font": {
+      const body = buildAugmentedFormula(katexTree.body, `${id}.body`);
+      const font = new Font(id, katexTree.font, body);
+      body._parent = font;
+      return font;
+    }
+    case "mclass":
+      // \boldsymbol and \bm wrap their font in a class that only changes
+      // spacing
+      if (katexTree.isCharacterBox && katexTree.body.length === 1) {
+        return buildAugmentedFormula(katexTree.body[0], id);
+      }
+      break;
+    case "sizing": {
+      const children = katexTree.body.map((child, i) =>
+        buildAugmentedFormula(child, `${id}.${i}`)
+      );
+      const sizing = new Sizing(id, katexTree.size, children);
+      children.forEach((child) => (child._parent = sizing));
+      children.forEach((child, i) => {
+        if (i > 0) {
+          child._leftSibling = children[i - 1];
+        }
+        if (i < children.length - 1) {
+          child._rightSibling = children[i + 1];
+        }
+      });
+      return sizing;
+    }
+    case "overline":
+    case "underline": {
+      const body = buildAugmentedFormula(katexTree.body, `${id}.body`);
+      const line = new Line(id, katexTree.type === "overline", body);
+      body._parent = line;
+      return line;
+    }
+    case "kern":
+      return new Kern(id, katexTree.dimension.number, katexTree.dimension.unit);
+    case "lap": {
+      const body = buildAugmentedFormula(katexTree.body, `${id}.body`);
+      const lap = new Lap(
+        id,
+        katexTree.alignment as "llap" | "rlap" | "clap",
+        body
+      );
+      body._parent = lap;
+      return lap;
+    }
+    case "phantom":
+    case "hphantom":
+    case "vphantom": {
+      const body =
+        katexTree.type === "phantom" ? katexTree.body : [katexTree.body];
+      const children = body.map((child, i) =>
+        buildAugmentedFormula(child, `${id}.${i}`)
+      );
+      const phantom = new Phantom(id, katexTree.type, children);
+      children.forEach((child) => (child._parent = phantom));
+      children.forEach((child, i) => {
+        if (i > 0) {
+          child._leftSibling = children[i - 1];
+        }
+        if (i < children.length - 1) {
+          child._rightSibling = children[i + 1];
+        }
+      });
+      return phantom;
+    }
   }
 
   console.log("Failed to build:", katexTree);
@@ -301,9 +446,20 @@ export type AugmentedFormulaNode =
   | Text
   | Space
   | Aligned
+  | Matrix
+  | Cases
   | Root
   | Op
-  | Strikethrough;
+  | Strikethrough
+  | Delimited
+  | Middle
+  | Accent
+  | Font
+  | Sizing
+  | Line
+  | Kern
+  | Lap
+  | Phantom;
 
 abstract class AugmentedFormulaNodeBase {
   public _parent: AugmentedFormulaNode | null = null;
@@ -622,11 +778,17 @@ export class Group extends AugmentedFormulaNodeBase {
       (mode === "no-id" || mode === "content-only") &&
       (this._parent === null ||
         this._parent.type === "array" ||
+        this._parent.type === "matrix" ||
+        this._parent.type === "cases" ||
         this._parent.type === "root" ||
         this._parent.type === "brace" ||
-        this._parent.type === "frac")
+        this._parent.type === "frac" ||
+        this._parent.type === "accent" ||
+        this._parent.type === "font" ||
+        this._parent.type === "line" ||
+        this._parent.type === "lap")
     ) {
-      // Avoid adding extra braces in the code editor at the top level and in array environments
+      // Avoid adding extra braces in the code editor at the top level and in tabular environments
       //
       // TODO: We also make Group aware when it is the child of nodes with single-child bodies
       // but this is a bit of a hack. We should have a more generic mechanism for detecting whether
@@ -920,35 +1082,70 @@ export class Space extends AugmentedFormulaNodeBase {
   }
 }
 
+// Rows are separated by \\ and cells by &, the same in every tabular environment
+const rowsToLatex = (body: AugmentedFormulaNode[][], mode: LatexMode) =>
+  body
+    .map((row) => row.map((cell) => cell.toLatex(mode)).join(" & "))
+    .join(String.raw` \\` + "\n");
+
+const rowsToStyledRanges = (
+  body: AugmentedFormulaNode[][]
+): FormulaLatexRangeNode[] =>
+  body.flatMap((row, i) =>
+    row
+      .flatMap((cell, i) =>
+        cell
+          .toStyledRanges()
+          .concat(i < row.length - 1 ? new UnstyledRange(" & ") : [])
+      )
+      .concat(
+        i < body.length - 1 ? new UnstyledRange(String.raw` \\` + "\n") : []
+      )
+  );
+
+// A column of an `array` environment's column spec, e.g. `{|c|l}`
+export type ArrayColumn =
+  | { type: "align"; align: "l" | "c" | "r" }
+  | { type: "separator"; separator: string };
+
 export class Aligned extends AugmentedFormulaNodeBase {
   type = "array" as const;
   constructor(
     public id: string,
-    public body: AugmentedFormulaNode[][]
+    public body: AugmentedFormulaNode[][],
+    // Column spec of an `array` environment. Without one, columns are aligned
+    // like an `aligned` environment.
+    public columns?: ArrayColumn[]
     // TODO: This type is used for more than `aligned`, e.g. array, gather
     // public mode?: "align" | "alignat" | "gather" | "small" | "CD",
-    // public columnAlignment: ("l" | "c" | "r")[],
   ) {
     super(id);
   }
 
+  get columnSpec(): string {
+    if (this.columns) {
+      return this.columns
+        .map((column) =>
+          column.type === "align" ? column.align : column.separator
+        )
+        .join("");
+    }
+    const numCols = Math.max(...this.body.map((row) => row.length));
+    return (numCols === 2 ? ["r", "l"] : Array(numCols).fill("l")).join("");
+  }
+
   toLatex(mode: LatexMode): string {
-    const rowsLatex = this.body
-      .map((row) => row.map((cell) => cell.toLatex(mode)).join(" & "))
-      .join(String.raw` \\` + "\n");
+    const rowsLatex = rowsToLatex(this.body, mode);
+    const latex =
+      `\\begin{array}{${this.columnSpec}}\n${rowsLatex}\n\\end{array}`;
 
+    // Arrays with their own column spec are kept as written, while the
+    // default alignment is implied by the rows
     if (mode === "content-only") {
-      return rowsLatex;
+      return this.columns ? latex : rowsLatex;
     }
 
-    const numCols = Math.max(...this.body.map((row) => row.length));
-    const columnAlignment =
-      numCols === 2 ? ["r", "l"] : Array(numCols).fill("l");
-
-    return this.latexWithId(
-      mode,
-      `\\begin{array}{${columnAlignment.join("")}}\n${rowsLatex}\n\\end{array}`
-    );
+    return this.latexWithId(mode, latex);
   }
 
   withChanges({
@@ -957,14 +1154,20 @@ export class Aligned extends AugmentedFormulaNodeBase {
     leftSibling,
     rightSibling,
     body,
+    columns,
   }: {
     id?: string;
     parent?: AugmentedFormulaNode | null;
     leftSibling?: AugmentedFormulaNode | null;
     rightSibling?: AugmentedFormulaNode | null;
     body?: AugmentedFormulaNode[][];
+    columns?: ArrayColumn[];
   }): Aligned {
-    const aligned = new Aligned(id ?? this.id, body ?? this.body);
+    const aligned = new Aligned(
+      id ?? this.id,
+      body ?? this.body,
+      columns ?? this.columns
+    );
     aligned._parent = parent === undefined ? this._parent : parent;
     aligned._leftSibling =
       leftSibling === undefined ? this._leftSibling : leftSibling;
@@ -981,21 +1184,143 @@ export class Aligned extends AugmentedFormulaNodeBase {
     return [
       new StyledRange(
         this.id,
-        String.raw`\begin{aligned}`,
-        this.body.flatMap((row, i) =>
-          row
-            .flatMap((cell, i) =>
-              cell
-                .toStyledRanges()
-                .concat(i < row.length - 1 ? new UnstyledRange(" & ") : [])
-            )
-            .concat(
-              i < this.body.length - 1
-                ? new UnstyledRange(String.raw` \\` + "\n")
-                : []
-            )
-        ),
-        String.raw`\end{aligned}`,
+        this.columns
+          ? String.raw`\begin{array}{${this.columnSpec}}`
+          : String.raw`\begin{aligned}`,
+        rowsToStyledRanges(this.body),
+        this.columns ? String.raw`\end{array}` : String.raw`\end{aligned}`,
+        {
+          noMark: true,
+        }
+      ),
+    ];
+  }
+}
+
+// The environments of the amsmath matrices, by the delimiters around them
+export const MATRIX_ENVIRONMENTS = {
+  matrix: null,
+  pmatrix: ["(", ")"],
+  bmatrix: ["[", "]"],
+  Bmatrix: [String.raw`\{`, String.raw`\}`],
+  vmatrix: ["|", "|"],
+  Vmatrix: [String.raw`\Vert`, String.raw`\Vert`],
+} as const;
+
+export type MatrixEnvironment = keyof typeof MATRIX_ENVIRONMENTS;
+
+export class Matrix extends AugmentedFormulaNodeBase {
+  type = "matrix" as const;
+  constructor(
+    public id: string,
+    public environment: MatrixEnvironment,
+    public body: AugmentedFormulaNode[][]
+  ) {
+    super(id);
+  }
+
+  toLatex(mode: LatexMode): string {
+    const rowsLatex = rowsToLatex(this.body, mode);
+    return this.latexWithId(
+      mode,
+      `\\begin{${this.environment}}\n${rowsLatex}\n\\end{${this.environment}}`
+    );
+  }
+
+  withChanges({
+    id,
+    parent,
+    leftSibling,
+    rightSibling,
+    environment,
+    body,
+  }: {
+    id?: string;
+    parent?: AugmentedFormulaNode | null;
+    leftSibling?: AugmentedFormulaNode | null;
+    rightSibling?: AugmentedFormulaNode | null;
+    environment?: MatrixEnvironment;
+    body?: AugmentedFormulaNode[][];
+  }): Matrix {
+    const matrix = new Matrix(
+      id ?? this.id,
+      environment ?? this.environment,
+      body ?? this.body
+    );
+    matrix._parent = parent === undefined ? this._parent : parent;
+    matrix._leftSibling =
+      leftSibling === undefined ? this._leftSibling : leftSibling;
+    matrix._rightSibling =
+      rightSibling === undefined ? this._rightSibling : rightSibling;
+    return matrix;
+  }
+
+  get children(): AugmentedFormulaNode[] {
+    return this.body.flat();
+  }
+
+  toStyledRanges(): FormulaLatexRangeNode[] {
+    return [
+      new StyledRange(
+        this.id,
+        String.raw`\begin{${this.environment}}`,
+        rowsToStyledRanges(this.body),
+        String.raw`\end{${this.environment}}`,
+        {
+          noMark: true,
+        }
+      ),
+    ];
+  }
+}
+
+export class Cases extends AugmentedFormulaNodeBase {
+  type = "cases" as const;
+  constructor(
+    public id: string,
+    public body: AugmentedFormulaNode[][] // each row is a value and its condition
+  ) {
+    super(id);
+  }
+
+  toLatex(mode: LatexMode): string {
+    const rowsLatex = rowsToLatex(this.body, mode);
+    return this.latexWithId(mode, `\\begin{cases}\n${rowsLatex}\n\\end{cases}`);
+  }
+
+  withChanges({
+    id,
+    parent,
+    leftSibling,
+    rightSibling,
+    body,
+  }: {
+    id?: string;
+    parent?: AugmentedFormulaNode | null;
+    leftSibling?: AugmentedFormulaNode | null;
+    rightSibling?: AugmentedFormulaNode | null;
+    body?: AugmentedFormulaNode[][];
+  }): Cases {
+    const cases = new Cases(id ?? this.id, body ?? this.body);
+    cases._parent = parent === undefined ? this._parent : parent;
+    cases._leftSibling =
+      leftSibling === undefined ? this._leftSibling : leftSibling;
+    cases._rightSibling =
+      rightSibling === undefined ? this._rightSibling : rightSibling;
+    return cases;
+  }
+
+  get children(): AugmentedFormulaNode[] {
+    return this.body.flat();
+  }
+
+  toStyledRanges(): FormulaLatexRangeNode[] {
+    return [
+      new StyledRange(
+        this.id,
+        String.raw`\begin{cases}`,
+        rowsToStyledRanges(this.body),
+        String.raw`\end{cases}`,
         {
           noMark: true,
         }
@@ -1004,6 +1329,12 @@ export class Aligned extends AugmentedFormulaNodeBase {
   }
 }
 
+// Nodes laid out in rows and columns
+export type TableNode = Aligned | Matrix | Cases;
+
+export const isTableNode = (node: AugmentedFormulaNode): node is TableNode =>
+  node.type === "array" || node.type === "matrix" || node.type === "cases";
+
 export class Root extends AugmentedFormulaNodeBase {
   type = "root" as const;
   constructor(
@@ -1183,6 +1514,578 @@ export class Strikethrough extends AugmentedFormulaNodeBase {
   }
 }
 
+export class Delimited extends AugmentedFormulaNodeBase {
+  type = "delimited" as const;
+  constructor(
+    public id: string,
+    public left: string,
+    public right: string,
+    public body: AugmentedFormulaNode[]
+  ) {
+    super(id);
+  }
+
+  toLatex(mode: LatexMode): string {
+    const childrenLatex = this.body
+      .map((child) => child.toLatex(mode))
+      .join(" ");
+    return this.latexWithId(
+      mode,
+      String.raw`\left${this.left} ${childrenLatex} \right${this.right}`
+    );
+  }
+
+  withChanges({
+    id,
+    parent,
+    leftSibling,
+    rightSibling,
+    left,
+    right,
+    body,
+  }: {
+    id?: string;
+    parent?: AugmentedFormulaNode | null;
+    leftSibling?: AugmentedFormulaNode | null;
+    rightSibling?: AugmentedFormulaNode | null;
+    left?: string;
+    right?: string;
+    body?: AugmentedFormulaNode[];
+  }): Delimited {
+    const delimited = new Delimited(
+      id ?? this.id,
+      left ?? this.left,
+      right ?? this.right,
+      body ?? this.body
+    );
+    delimited._parent = parent === undefined ? this._parent : parent;
+    delimited._leftSibling =
+      leftSibling === undefined ? this._leftSibling : leftSibling;
+    delimited._rightSibling =
+      rightSibling === undefined ? this._rightSibling : rightSibling;
+    return delimited;
+  }
+
+  get children(): AugmentedFormulaNode[] {
+    return this.body;
+  }
+
+  toStyledRanges(): FormulaLatexRangeNode[] {
+    return [
+      new UnstyledRange(String.raw`\left${this.left} `),
+      ...this.children.flatMap((child, i) =>
+        child.toStyledRanges().concat(
+          // Add a space between children
+          i < this.children.length - 1 ? new UnstyledRange(" ") : []
+        )
+      ),
+      new UnstyledRange(String.raw` \right${this.right}`),
+    ];
+  }
+}
+
+export class Middle extends AugmentedFormulaNodeBase {
+  type = "middle" as const;
+  constructor(
+    public id: string,
+    public delimiter: string
+  ) {
+    super(id);
+  }
+
+  toLatex(mode: LatexMode): string {
+    return this.latexWithId(mode, String.raw`\middle${this.delimiter}`);
+  }
+
+  withChanges({
+    id,
+    parent,
+    leftSibling,
+    rightSibling,
+    delimiter,
+  }: {
+    id?: string;
+    parent?: AugmentedFormulaNode | null;
+    leftSibling?: AugmentedFormulaNode | null;
+    rightSibling?: AugmentedFormulaNode | null;
+    delimiter?: string;
+  }): Middle {
+    const middle = new Middle(id ?? this.id, delimiter ?? this.delimiter);
+    middle._parent = parent === undefined ? this._parent : parent;
+    middle._leftSibling =
+      leftSibling === undefined ? this._leftSibling : leftSibling;
+    middle._rightSibling =
+      rightSibling === undefined ? this._rightSibling : rightSibling;
+    return middle;
+  }
+
+  get children(): AugmentedFormulaNode[] {
+    return [];
+  }
+
+  toStyledRanges(): FormulaLatexRangeNode[] {
+    return [new UnstyledRange(String.raw`\middle${this.delimiter}`)];
+  }
+}
+
+export class Accent extends AugmentedFormulaNodeBase {
+  type = "accent" as const;
+  constructor(
+    public id: string,
+    public label: string, // this is the LaTeX command (e.g. "\hat")
+    public body: AugmentedFormulaNode
+  ) {
+    super(id);
+  }
+
+  toLatex(mode: LatexMode): string {
+    const bodyLatex = this.body.toLatex(mode);
+    return this.latexWithId(mode, String.raw`${this.label}{${bodyLatex}}`);
+  }
+
+  withChanges({
+    id,
+    parent,
+    leftSibling,
+    rightSibling,
+    label,
+    body,
+  }: {
+    id?: string;
+    parent?: AugmentedFormulaNode | null;
+    leftSibling?: AugmentedFormulaNode | null;
+    rightSibling?: AugmentedFormulaNode | null;
+    label?: string;
+    body?: AugmentedFormulaNode;
+  }): Accent {
+    const accent = new Accent(
+      id ?? this.id,
+      label ?? this.label,
+      body ?? this.body
+    );
+    accent._parent = parent === undefined ? this._parent : parent;
+    accent._leftSibling =
+      leftSibling === undefined ? this._leftSibling : leftSibling;
+    accent._rightSibling =
+      rightSibling === undefined ? this._rightSibling : rightSibling;
+    return accent;
+  }
+
+  get children(): AugmentedFormulaNode[] {
+    return [this.body];
+  }
+
+  toStyledRanges(): FormulaLatexRangeNode[] {
+    return [
+      new UnstyledRange(`${this.label}{`),
+      ...this.body.toStyledRanges(),
+      new UnstyledRange("}"),
+    ];
+  }
+}
+
+export class Font extends AugmentedFormulaNodeBase {
+  type = "font" as const;
+  constructor(
+    public id: string,
+    public font: string, // this is the command without the backslash (e.g. "mathbf")
+    public body: AugmentedFormulaNode
+  ) {
+    super(id);
+  }
+
+  get command(): string {
+    return "\\" + this.font;
+  }
+
+  toLatex(mode: LatexMode): string {
+    const bodyLatex = this.body.toLatex(mode);
+    return this.latexWithId(mode, `${this.command}{${bodyLatex}}`);
+  }
+
+  withChanges({
+    id,
+    parent,
+    leftSibling,
+    rightSibling,
+    font,
+    body,
+  }: {
+    id?: string;
+    parent?: AugmentedFormulaNode | null;
+    leftSibling?: AugmentedFormulaNode | null;
+    rightSibling?: AugmentedFormulaNode | null;
+    font?: string;
+    body?: AugmentedFormulaNode;
+  }): Font {
+    const fontNode = new Font(
+      id ?? this.id,
+      font ?? this.font,
+      body ?? this.body
+    );
+    fontNode._parent = parent === undefined ? this._parent : parent;
+    fontNode._leftSibling =
+      leftSibling === undefined ? this._leftSibling : leftSibling;
+    fontNode._rightSibling =
+      rightSibling === undefined ? this._rightSibling : rightSibling;
+    return fontNode;
+  }
+
+  get children(): AugmentedFormulaNode[] {
+    return [this.body];
+  }
+
+  toStyledRanges(): FormulaLatexRangeNode[] {
+    return [
+      new UnstyledRange(`${this.command}{`),
+      ...this.body.toStyledRanges(),
+      new UnstyledRange("}"),
+    ];
+  }
+}
+
+// KaTeX numbers sizes from 1, in this order
+const SIZE_COMMANDS = [
+  String.raw`\tiny`,
+  String.raw`\sixptsize`,
+  String.raw`\scriptsize`,
+  String.raw`\footnotesize`,
+  String.raw`\small`,
+  String.raw`\normalsize`,
+  String.raw`\large`,
+  String.raw`\Large`,
+  String.raw`\LARGE`,
+  String.raw`\huge`,
+  String.raw`\Huge`,
+];
+
+export class Sizing extends AugmentedFormulaNodeBase {
+  type = "sizing" as const;
+  constructor(
+    public id: string,
+    public size: number,
+    public body: AugmentedFormulaNode[]
+  ) {
+    super(id);
+  }
+
+  get command(): string {
+    return SIZE_COMMANDS[this.size - 1];
+  }
+
+  toLatex(mode: LatexMode): string {
+    const childrenLatex = this.body
+      .map((child) => child.toLatex(mode))
+      .join(" ");
+    if (mode === "content-only") {
+      return childrenLatex;
+    }
+
+    // Size commands apply until the end of the group they're in
+    return this.latexWithId(mode, `{${this.command} ${childrenLatex}}`);
+  }
+
+  withChanges({
+    id,
+    parent,
+    leftSibling,
+    rightSibling,
+    size,
+    body,
+  }: {
+    id?: string;
+    parent?: AugmentedFormulaNode | null;
+    leftSibling?: AugmentedFormulaNode | null;
+    rightSibling?: AugmentedFormulaNode | null;
+    size?: number;
+    body?: AugmentedFormulaNode[];
+  }): Sizing {
+    const sizing = new Sizing(
+      id ?? this.id,
+      size ?? this.size,
+      body ?? this.body
+    );
+    sizing._parent = parent === undefined ? this._parent : parent;
+    sizing._leftSibling =
+      leftSibling === undefined ? this._leftSibling : leftSibling;
+    sizing._rightSibling =
+      rightSibling === undefined ? this._rightSibling : rightSibling;
+    return sizing;
+  }
+
+  get children(): AugmentedFormulaNode[] {
+    return this.body;
+  }
+
+  toStyledRanges(): FormulaLatexRangeNode[] {
+    return [
+      new StyledRange(
+        this.id,
+        `{${this.command} `,
+        this.children.flatMap((child, i) =>
+          child.toStyledRanges().concat(
+            // Add a space between children
+            i < this.children.length - 1 ? new UnstyledRange(" ") : []
+          )
+        ),
+        "}",
+        {
+          tooltip: `Size: ${this.command}`,
+        }
+      ),
+    ];
+  }
+}
+
+export class Line extends AugmentedFormulaNodeBase {
+  type = "line" as const;
+  constructor(
+    public id: string,
+    public over: boolean,
+    public body: AugmentedFormulaNode
+  ) {
+    super(id);
+  }
+
+  get command(): string {
+    return "\\" + (this.over ? "over" : "under") + "line";
+  }
+
+  toLatex(mode: LatexMode): string {
+    const bodyLatex = this.body.toLatex(mode);
+    return this.latexWithId(mode, String.raw`${this.command}{${bodyLatex}}`);
+  }
+
+  withChanges({
+    id,
+    parent,
+    leftSibling,
+    rightSibling,
+    over,
+    body,
+  }: {
+    id?: string;
+    parent?: AugmentedFormulaNode | null;
+    leftSibling?: AugmentedFormulaNode | null;
+    rightSibling?: AugmentedFormulaNode | null;
+    over?: boolean;
+    body?: AugmentedFormulaNode;
+  }): Line {
+    const line = new Line(id ?? this.id, over ?? this.over, body ?? this.body);
+    line._parent = parent === undefined ? this._parent : parent;
+    line._leftSibling =
+      leftSibling === undefined ? this._leftSibling : leftSibling;
+    line._rightSibling =
+      rightSibling === undefined ? this._rightSibling : rightSibling;
+    return line;
+  }
+
+  get children(): AugmentedFormulaNode[] {
+    return [this.body];
+  }
+
+  toStyledRanges(): FormulaLatexRangeNode[] {
+    return [
+      new UnstyledRange(`${this.command}{`),
+      ...this.body.toStyledRanges(),
+      new UnstyledRange("}"),
+    ];
+  }
+}
+
+// KaTeX expands the named spaces into kerns, which are written back with the
+// names they're usually typed as
+const KERN_COMMANDS: { [dimension: string]: string } = {
+  "3mu": String.raw`\,`,
+  "4mu": String.raw`\:`,
+  "5mu": String.raw`\;`,
+  "-3mu": String.raw`\!`,
+  "1em": String.raw`\quad`,
+  "2em": String.raw`\qquad`,
+};
+
+export class Kern extends AugmentedFormulaNodeBase {
+  type = "kern" as const;
+  constructor(
+    public id: string,
+    public size: number,
+    public unit: string
+  ) {
+    super(id);
+  }
+
+  get command(): string {
+    return (
+      KERN_COMMANDS[`${this.size}${this.unit}`] ??
+      (this.unit === "mu"
+        ? String.raw`\mkern${this.size}mu`
+        : String.raw`\kern${this.size}${this.unit}`)
+    );
+  }
+
+  toLatex(_: LatexMode): string {
+    return this.command;
+  }
+
+  withChanges({
+    id,
+    parent,
+    leftSibling,
+    rightSibling,
+    size,
+    unit,
+  }: {
+    id?: string;
+    parent?: AugmentedFormulaNode | null;
+    leftSibling?: AugmentedFormulaNode | null;
+    rightSibling?: AugmentedFormulaNode | null;
+    size?: number;
+    unit?: string;
+  }): Kern {
+    const kern = new Kern(id ?? this.id, size ?? this.size, unit ?? this.unit);
+    kern._parent = parent === undefined ? this._parent : parent;
+    kern._leftSibling =
+      leftSibling === undefined ? this._leftSibling : leftSibling;
+    kern._rightSibling =
+      rightSibling === undefined ? this._rightSibling : rightSibling;
+    return kern;
+  }
+
+  get children(): AugmentedFormulaNode[] {
+    return [];
+  }
+
+  toStyledRanges(): FormulaLatexRangeNode[] {
+    return [new UnstyledRange(this.command)];
+  }
+}
+
+export class Lap extends AugmentedFormulaNodeBase {
+  type = "lap" as const;
+  constructor(
+    public id: string,
+    public alignment: "llap" | "rlap" | "clap",
+    public body: AugmentedFormulaNode
+  ) {
+    super(id);
+  }
+
+  toLatex(mode: LatexMode): string {
+    const bodyLatex = this.body.toLatex(mode);
+    return this.latexWithId(
+      mode,
+      String.raw`\math${this.alignment}{${bodyLatex}}`
+    );
+  }
+
+  withChanges({
+    id,
+    parent,
+    leftSibling,
+    rightSibling,
+    alignment,
+    body,
+  }: {
+    id?: string;
+    parent?: AugmentedFormulaNode | null;
+    leftSibling?: AugmentedFormulaNode | null;
+    rightSibling?: AugmentedFormulaNode | null;
+    alignment?: "llap" | "rlap" | "clap";
+    body?: AugmentedFormulaNode;
+  }): Lap {
+    const lap = new Lap(
+      id ?? this.id,
+      alignment ?? this.alignment,
+      body ?? this.body
+    );
+    lap._parent = parent === undefined ? this._parent : parent;
+    lap._leftSibling =
+      leftSibling === undefined ? this._leftSibling : leftSibling;
+    lap._rightSibling =
+      rightSibling === undefined ? this._rightSibling : rightSibling;
+    return lap;
+  }
+
+  get children(): AugmentedFormulaNode[] {
+    return [this.body];
+  }
+
+  toStyledRanges(): FormulaLatexRangeNode[] {
+    return [
+      new UnstyledRange(String.raw`\math${this.alignment}{`),
+      ...this.body.toStyledRanges(),
+      new UnstyledRange("}"),
+    ];
+  }
+}
+
+export class Phantom extends AugmentedFormulaNodeBase {
+  type = "phantom" as const;
+  constructor(
+    public id: string,
+    public kind: "phantom" | "hphantom" | "vphantom",
+    public body: AugmentedFormulaNode[]
+  ) {
+    super(id);
+  }
+
+  get command(): string {
+    return "\\" + this.kind;
+  }
+
+  toLatex(mode: LatexMode): string {
+    const childrenLatex = this.body
+      .map((child) => child.toLatex(mode))
+      .join(" ");
+    return this.latexWithId(mode, `${this.command}{${childrenLatex}}`);
+  }
+
+  withChanges({
+    id,
+    parent,
+    leftSibling,
+    rightSibling,
+    kind,
+    body,
+  }: {
+    id?: string;
+    parent?: AugmentedFormulaNode | null;
+    leftSibling?: AugmentedFormulaNode | null;
+    rightSibling?: AugmentedFormulaNode | null;
+    kind?: "phantom" | "hphantom" | "vphantom";
+    body?: AugmentedFormulaNode[];
+  }): Phantom {
+    const phantom = new Phantom(
+      id ?? this.id,
+      kind ?? this.kind,
+      body ?? this.body
+    );
+    phantom._parent = parent === undefined ? this._parent : parent;
+    phantom._leftSibling =
+      leftSibling === undefined ? this._leftSibling : leftSibling;
+    phantom._rightSibling =
+      rightSibling === undefined ? this._rightSibling : rightSibling;
+    return phantom;
+  }
+
+  get children(): AugmentedFormulaNode[] {
+    return this.body;
+  }
+
+  toStyledRanges(): FormulaLatexRangeNode[] {
+    return [
+      new UnstyledRange(`${this.command}{`),
+      ...this.children.flatMap((child, i) =>
+        child.toStyledRanges().concat(
+          // Add a space between children
+          i < this.children.length - 1 ? new UnstyledRange(" ") : []
+        )
+      ),
+      new UnstyledRange("}"),
+    ];
+  }
+}
+
 export type RenderSpec = {
   tagName: string;
   id?: string;
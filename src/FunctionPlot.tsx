@@ -0,0 +1,314 @@
+import { useEffect, useState } from "react";
+
+import { reaction } from "mobx";
+import { observer } from "mobx-react-lite";
+
+import { DEFAULT_MAX, DEFAULT_MIN, computationStore } from "./computation";
+
+const SAMPLE_COUNT = 101;
+const TICK_COUNT = 5;
+const WIDTH = 400;
+const HEIGHT = 240;
+const MARGIN = { top: 10, right: 12, bottom: 28, left: 48 };
+const CURVE_COLORS = ["#2563eb", "#dc2626", "#16a34a", "#9333ea", "#ea580c"];
+
+// Values of every dependent variable, by id, at evenly spaced x values
+type Samples = { xs: number[]; curves: Record<string, number[]> };
+
+const formatTick = (value: number) => Number(value.toPrecision(3)).toString();
+
+const ticks = (min: number, max: number) =>
+  Array.from(
+    { length: TICK_COUNT },
+    (_, i) => min + ((max - min) * i) / (TICK_COUNT - 1)
+  );
+
+// Range covering every finite value, padded so that curves don't touch the
+// edges, and widened if it's a single value
+const valueRange = (values: number[]): [number, number] => {
+  const finite = values.filter(Number.isFinite);
+  if (finite.length === 0) {
+    return [-1, 1];
+  }
+  const min = Math.min(...finite);
+  const max = Math.max(...finite);
+  if (min === max) {
+    return [min - 1, max + 1];
+  }
+  const padding = (max - min) * 0.05;
+  return [min - padding, max + padding];
+};
+
+// Polyline points for a curve, split wherever it isn't defined
+const curveSegments = (
+  xs: number[],
+  ys: number[],
+  toX: (x: number) => number,
+  toY: (y: number) => number
+) => {
+  const segments: string[] = [];
+  let current: string[] = [];
+  xs.forEach((x, i) => {
+    if (Number.isFinite(ys[i])) {
+      current.push(`${toX(x)},${toY(ys[i])}`);
+    } else if (current.length > 0) {
+      segments.push(current.join(" "));
+      current = [];
+    }
+  });
+  if (current.length > 0) {
+    segments.push(current.join(" "));
+  }
+  return segments;
+};
+
+const axisLabel = (id: string) => {
+  const variable = computationStore.variables.get(id);
+  const unit = computationStore.displayUnit(id);
+  return `${variable?.symbol ?? id}${unit ? ` (${unit})` : ""}`;
+};
+
+/**
+ * Plots dependent variables against a slidable variable over its slider
+ * range, with the other variables at their current values. The current
+ * values are marked on each curve.
+ */
+const FunctionPlot = observer(() => {
+  const variables = Array.from(computationStore.variables.entries());
+  const slidable = variables.filter(([_, v]) => v.type === "slidable");
+  const dependent = variables.filter(([_, v]) => v.type === "dependent");
+
+  const [selectedX, setSelectedX] = useState<string | null>(null);
+  // Dependents are plotted unless unchecked
+  const [hidden, setHidden] = useState<Set<string>>(new Set());
+  const [samples, setSamples] = useState<Samples | null>(null);
+
+  const xId = slidable.some(([id]) => id === selectedX)
+    ? selectedX
+    : slidable[0]?.[0] ?? null;
+
+  useEffect(() => {
+    if (!xId) {
+      setSamples(null);
+      return;
+    }
+    let evaluationCount = 0;
+    const disposer = reaction(
+      () => {
+        const x = computationStore.variables.get(xId);
+        return {
+          version: computationStore.evaluationFunctionVersion,
+          variableTypesChanged: computationStore.variableTypesChanged,
+          range: [x?.min, x?.max, x?.unit],
+          // Other inputs change the curves, while x only moves the marker
+          inputs: Array.from(computationStore.variables.entries())
+            .filter(([id, v]) => id !== xId && v.type !== "dependent")
+            .map(([_, v]) => [v.value, v.unit]),
+        };
+      },
+      async () => {
+        const x = computationStore.variables.get(xId);
+        if (!x) {
+          return;
+        }
+        const min = x.min ?? DEFAULT_MIN;
+        const max = x.max ?? DEFAULT_MAX;
+        const xs = Array.from(
+          { length: SAMPLE_COUNT },
+          (_, i) => min + ((max - min) * i) / (SAMPLE_COUNT - 1)
+        );
+        // Results from a previous sampling that's still running are dropped
+        const evaluation = ++evaluationCount;
+        try {
+          const results = await computationStore.evaluateWith(
+            xs.map((value) => ({ [xId]: value }))
+          );
+          if (evaluation !== evaluationCount) {
+            return;
+          }
+          if (results === null) {
+            setSamples(null);
+            return;
+          }
+          const curves: Record<string, number[]> = {};
+          results.forEach((result) =>
+            Object.entries(result).forEach(([id, value]) =>
+              (curves[id] ??= []).push(value)
+            )
+          );
+          setSamples({ xs, curves });
+        } catch (error) {
+          console.error("Error sampling plot:", error);
+          if (evaluation === evaluationCount) {
+            setSamples(null);
+          }
+        }
+      },
+      { fireImmediately: true }
+    );
+
+    return () => {
+      evaluationCount++;
+      disposer();
+    };
+  }, [xId]);
+
+  const toggleCurve = (id: string) => {
+    const next = new Set(hidden);
+    if (!next.delete(id)) {
+      next.add(id);
+    }
+    setHidden(next);
+  };
+
+  if (!xId || dependent.length === 0) {
+    return (
+      <div className="h-full flex items-center justify-center p-4">
+        <p className="text-base text-slate-400">
+          Make a variable slidable and another dependent to plot them.
+        </p>
+      </div>
+    );
+  }
+
+  const x = computationStore.variables.get(xId)!;
+  const xMin = x.min ?? DEFAULT_MIN;
+  const xMax = x.max ?? DEFAULT_MAX;
+  const plotted = dependent.filter(([id]) => !hidden.has(id));
+  const [yMin, yMax] = valueRange(
+    plotted.flatMap(([id, v]) => [...(samples?.curves[id] ?? []), v.value])
+  );
+
+  const toX = (value: number) =>
+    MARGIN.left +
+    ((value - xMin) / (xMax - xMin)) * (WIDTH - MARGIN.left - MARGIN.right);
+  const toY = (value: number) =>
+    HEIGHT -
+    MARGIN.bottom -
+    ((value - yMin) / (yMax - yMin)) * (HEIGHT - MARGIN.top - MARGIN.bottom);
+  const colorOf = (id: string) =>
+    CURVE_COLORS[
+      dependent.findIndex(([dependentId]) => dependentId === id) %
+        CURVE_COLORS.length
+    ];
+
+  return (
+    <div className="h-full bg-white p-4 flex flex-col gap-2">
+      <div className="flex flex-wrap items-center gap-3 text-sm">
+        <h2 className="text-base text-black">Plot</h2>
+        <label className="flex items-center gap-1">
+          x:
+          <select
+            value={xId}
+            onChange={(e) => setSelectedX(e.target.value)}
+            className="border rounded px-1"
+          >
+            {slidable.map(([id, v]) => (
+              <option key={id} value={id}>
+                {v.symbol}
+              </option>
+            ))}
+          </select>
+        </label>
+        {dependent.map(([id, v]) => (
+          <label key={id} className="flex items-center gap-1">
+            <input
+              type="checkbox"
+              checked={!hidden.has(id)}
+              onChange={() => toggleCurve(id)}
+            />
+            <span style={{ color: colorOf(id) }}>{v.symbol}</span>
+          </label>
+        ))}
+      </div>
+
+      <svg
+        viewBox={`0 0 ${WIDTH} ${HEIGHT}`}
+        className="w-full flex-1 min-h-0 text-slate-500"
+      >
+        {ticks(xMin, xMax).map((tick) => (
+          <g key={`x${tick}`}>
+            <line
+              x1={toX(tick)}
+              x2={toX(tick)}
+              y1={MARGIN.top}
+              y2={HEIGHT - MARGIN.bottom}
+              stroke="#e2e8f0"
+            />
+            <text
+              x={toX(tick)}
+              y={HEIGHT - MARGIN.bottom + 12}
+              fontSize={9}
+              textAnchor="middle"
+              fill="currentColor"
+            >
+              {formatTick(tick)}
+            </text>
+          </g>
+        ))}
+        {ticks(yMin, yMax).map((tick) => (
+          <g key={`y${tick}`}>
+            <line
+              x1={MARGIN.left}
+              x2={WIDTH - MARGIN.right}
+              y1={toY(tick)}
+              y2={toY(tick)}
+              stroke="#e2e8f0"
+            />
+            <text
+              x={MARGIN.left - 4}
+              y={toY(tick) + 3}
+              fontSize={9}
+              textAnchor="end"
+              fill="currentColor"
+            >
+              {formatTick(tick)}
+            </text>
+          </g>
+        ))}
+        <text
+          x={(MARGIN.left + WIDTH - MARGIN.right) / 2}
+          y={HEIGHT - 2}
+          fontSize={10}
+          textAnchor="middle"
+          fill="currentColor"
+        >
+          {axisLabel(xId)}
+        </text>
+
+        {samples &&
+          plotted.flatMap(([id]) =>
+            curveSegments(samples.xs, samples.curves[id] ?? [], toX, toY).map(
+              (points, i) => (
+                <polyline
+                  key={`${id}-${i}`}
+                  points={points}
+                  fill="none"
+                  stroke={colorOf(id)}
+                  strokeWidth={1.5}
+                />
+              )
+            )
+          )}
+
+        {plotted
+          .filter(([_, v]) => Number.isFinite(v.value))
+          .map(([id, v]) => (
+            <circle
+              key={id}
+              cx={toX(x.value)}
+              cy={toY(v.value)}
+              r={4}
+              fill={colorOf(id)}
+              stroke="white"
+              strokeWidth={1.5}
+            >
+              <title>{`${axisLabel(xId)} = ${formatTick(x.value)}, ${axisLabel(id)} = ${formatTick(v.value)}`}</title>
+            </circle>
+          ))}
+      </svg>
+    </div>
+  );
+});
+
+export default FunctionPlot;
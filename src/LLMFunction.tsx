@@ -1,43 +1,230 @@
-import { useState } from "react";
+import { useEffect, useRef, useState } from "react";
 
 import { observer } from "mobx-react-lite";
 
+import { StreamLanguage } from "@codemirror/language";
+import { javascript } from "@codemirror/legacy-modes/mode/javascript";
+import { EditorState } from "@codemirror/state";
+import { EditorView, basicSetup } from "codemirror";
+
 import { computationStore } from "./computation";
+import { VerificationCase, VerificationReport } from "./verification";
+
+const formatValues = (values: Record<string, number>) =>
+  Object.entries(values)
+    .map(([symbol, value]) => `${symbol} = ${Number(value.toPrecision(4))}`)
+    .join(", ");
+
+const describeCase = ({ inputs, outputs, error }: VerificationCase) =>
+  `${formatValues(inputs)} → ${error ?? formatValues(outputs)}`;
+
+const Verification = ({ report }: { report: VerificationReport }) => {
+  if (report.status === "skipped") {
+    return (
+      <p className="mt-2 text-sm text-slate-500">
+        Not verified: {report.reason}
+      </p>
+    );
+  }
+
+  const failures = report.cases.filter((c) => !c.passed);
+  return (
+    <div className="mt-2 text-sm">
+      {report.status === "passed" ? (
+        <p className="text-green-700">
+          ✓ Verified against the formula at {report.cases.length} sampled points
+        </p>
+      ) : (
+        <>
+          <p className="text-red-700">
+            ✗ Doesn't satisfy the formula at {failures.length} of{" "}
+            {report.cases.length} sampled points
+          </p>
+          <ul className="mt-1 ml-4 list-disc font-mono text-xs text-slate-700">
+            {failures.map((c, i) => (
+              <li key={i}>{describeCase(c)}</li>
+            ))}
+          </ul>
+        </>
+      )}
+    </div>
+  );
+};
+
+// CodeMirror editor for the evaluation function. `code` replaces the contents
+// whenever it changes; edits are reported through `onChange`.
+const CodeEditor = ({
+  code,
+  onChange,
+}: {
+  code: string;
+  onChange: (code: string) => void;
+}) => {
+  const [container, setContainer] = useState<HTMLDivElement | null>(null);
+  const [editorView, setEditorView] = useState<EditorView | null>(null);
+  const onChangeRef = useRef(onChange);
+  onChangeRef.current = onChange;
+
+  useEffect(() => {
+    if (!container) {
+      return;
+    }
+    const view = new EditorView({
+      state: EditorState.create({
+        doc: code,
+        extensions: [
+          basicSetup,
+          EditorView.lineWrapping,
+          StreamLanguage.define(javascript),
+          EditorView.updateListener.of((update) => {
+            if (update.docChanged) {
+              onChangeRef.current(update.state.doc.toString());
+            }
+          }),
+        ],
+      }),
+      parent: container,
+    });
+    setEditorView(view);
+    return () => view.destroy();
+  }, [container]);
+
+  useEffect(() => {
+    if (editorView && editorView.state.doc.toString() !== code) {
+      editorView.dispatch({
+        changes: { from: 0, to: editorView.state.doc.length, insert: code },
+      });
+    }
+  }, [editorView, code]);
+
+  return (
+    <div
+      className="bg-white border rounded-md shadow-sm overflow-hidden text-sm"
+      ref={setContainer}
+    />
+  );
+};
 
 const LLMFunction = observer(() => {
-  const code = computationStore.lastGeneratedCode;
+  const generatedCode = computationStore.lastGeneratedCode;
+  const customCode = computationStore.customCode;
+  const code = customCode ?? generatedCode;
+  const isPinned = customCode !== null;
+  const formulaChanged =
+    isPinned && computationStore.customCodeFormula !== computationStore.formula;
+  const fromCache = computationStore.generatedCodeFromCache && !isPinned;
+  const verificationReport = isPinned
+    ? null
+    : computationStore.verificationReport;
   const [isExpanded, setIsExpanded] = useState(true);
+  const [draft, setDraft] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [isApplying, setIsApplying] = useState(false);
+  const isEdited = draft !== null && draft !== code;
+
+  const apply = async () => {
+    if (draft === null) {
+      return;
+    }
+    setIsApplying(true);
+    setError(await computationStore.setCustomCode(draft));
+    setIsApplying(false);
+  };
+
+  const revert = () => {
+    setError(null);
+    computationStore.revertToGeneratedCode();
+  };
 
   return (
     <div className="h-fit max-h-full overflow-y-auto bg-white">
       <div className="p-4">
         <div className="flex items-center justify-between mb-2">
           <h2 className="text-base text-black">
-            Generated Evaluation Function
+            {isPinned ? "Edited" : "Generated"} Evaluation Function
+            {fromCache && (
+              <span
+                className="ml-2 px-2 py-0.5 text-xs bg-slate-100 text-slate-500 rounded"
+                title="This code was generated earlier for the same formula and variables"
+              >
+                From cache
+              </span>
+            )}
+            {isPinned && (
+              <span
+                className="ml-2 px-2 py-0.5 text-xs bg-amber-100 text-amber-700 rounded"
+                title="This code is kept when the formula changes until you revert it"
+              >
+                Pinned
+              </span>
+            )}
           </h2>
-          <button
-            onClick={() => setIsExpanded(!isExpanded)}
-            className="text-slate-500 text-xl hover:text-slate-700"
-          >
-            {isExpanded ? "−" : "+"}
-          </button>
+          <div className="flex items-center gap-2">
+            <button
+              onClick={() => computationStore.clearFunctionCache()}
+              className="px-2 py-1 text-xs text-slate-500 hover:text-slate-700"
+              title="Forget the code generated for every formula, so that it's generated again"
+            >
+              Clear cache
+            </button>
+            <button
+              onClick={() => setIsExpanded(!isExpanded)}
+              className="text-slate-500 text-xl hover:text-slate-700"
+            >
+              {isExpanded ? "−" : "+"}
+            </button>
+          </div>
         </div>
 
         {isExpanded && code ? (
           <div className="relative">
-            <pre className="p-4 bg-white border rounded-md shadow-sm overflow-x-auto font-mono text-sm text-slate-800">
-              {code}
-            </pre>
+            {formulaChanged && (
+              <p className="mb-2 text-sm text-amber-700">
+                The formula has changed since this code was edited.
+              </p>
+            )}
 
-            <div className="absolute right-2 top-2 flex gap-2">
+            <CodeEditor code={code} onChange={setDraft} />
+
+            <div className="mt-2 flex items-center gap-2">
+              <button
+                onClick={apply}
+                disabled={!isEdited || isApplying}
+                className="px-2 py-1 text-xs bg-slate-100 hover:bg-slate-200 rounded disabled:opacity-50"
+                title="Check the edited code and use it to compute the dependent variables"
+              >
+                Apply
+              </button>
+              {isPinned && (
+                <button
+                  onClick={revert}
+                  className="px-2 py-1 text-xs bg-slate-100 hover:bg-slate-200 rounded"
+                  title="Discard the edited code and go back to the generated code"
+                >
+                  Revert to generated
+                </button>
+              )}
+              {fromCache && (
+                <button
+                  onClick={() => computationStore.regenerateFunction()}
+                  className="px-2 py-1 text-xs bg-slate-100 hover:bg-slate-200 rounded"
+                  title="Discard the cached code and generate it again"
+                >
+                  Regenerate
+                </button>
+              )}
               <button
-                onClick={() => navigator.clipboard.writeText(code)}
+                onClick={() => navigator.clipboard.writeText(draft ?? code)}
                 className="px-2 py-1 text-xs bg-slate-100 hover:bg-slate-200 rounded"
                 title="Copy to clipboard"
               >
                 Copy code
               </button>
             </div>
+
+            {error && <p className="mt-2 text-sm text-red-700">{error}</p>}
+
+            {verificationReport && <Verification report={verificationReport} />}
           </div>
         ) : isExpanded ? (
           <div className="h-full flex items-center pt-4">
@@ -17,8 +17,36 @@ import {
   Strikethrough,
   Text,
 } from "./FormulaTree";
-import { consolidateGroups, replaceNodes } from "./formulaTransformations";
-import { editingStore, formulaStore, selectionStore, undoStore } from "./store";
+import { documentStore } from "./document";
+import {
+  PNG_SCALES,
+  copyEmbedConfig,
+  copyEmbedScript,
+  exportHtml,
+  exportPng,
+  exportSvg,
+} from "./exportFormula";
+import {
+  consolidateGroups,
+  deleteTableColumns,
+  deleteTableRows,
+  insertTableColumn,
+  insertTableRow,
+  replaceNodes,
+} from "./formulaTransformations";
+import { copyShareLink } from "./shareLink";
+import {
+  editingStore,
+  formulaStore,
+  selectionStore,
+  undoStore,
+  workspaceStore,
+} from "./store";
+import {
+  ALGEBRAIC_COMMANDS,
+  STRUCTURAL_COMMANDS,
+  runStructuralCommand,
+} from "./structuralEditing";
 
 import AnnotateIcon from "./Icons/AnnotateIcon.svg";
 import BoxIcon from "./Icons/BoxIcon.svg";
@@ -36,9 +64,31 @@ export const Menu = () => {
         e.stopPropagation();
       }}
     >
+      <FileMenu
+        open={openMenu === "file"}
+        onMenuOpen={() => setOpenMenu("file")}
+        onMenuClose={() => {
+          if (openMenu === "file") {
+            setOpenMenu(null);
+          }
+        }}
+      />
+      <ExportMenu
+        open={openMenu === "export"}
+        onMenuOpen={() => setOpenMenu("export")}
+        onMenuClose={() => {
+          if (openMenu === "export") {
+            setOpenMenu(null);
+          }
+        }}
+      />
+      <LineDivide />
       <UndoMenu />
       <RedoMenu />
       <LineDivide />
+      <AddFormulaMenu />
+      <RemoveFormulaMenu />
+      <LineDivide />
       <StrikethroughMenu />
       <ColorMenu
         open={openMenu === "color"}
@@ -59,6 +109,24 @@ export const Menu = () => {
         }}
       />
       <LineDivide />
+      <StructureMenu
+        open={openMenu === "structure"}
+        onMenuOpen={() => setOpenMenu("structure")}
+        onMenuClose={() => {
+          if (openMenu === "structure") {
+            setOpenMenu(null);
+          }
+        }}
+      />
+      <AlgebraMenu
+        open={openMenu === "algebra"}
+        onMenuOpen={() => setOpenMenu("algebra")}
+        onMenuClose={() => {
+          if (openMenu === "algebra") {
+            setOpenMenu(null);
+          }
+        }}
+      />
       <AnnotateMenu
         open={openMenu === "annotate"}
         onMenuOpen={() => setOpenMenu("annotate")}
@@ -69,6 +137,15 @@ export const Menu = () => {
         }}
       />
       <LineDivide />
+      <TableMenu
+        open={openMenu === "table"}
+        onMenuOpen={() => setOpenMenu("table")}
+        onMenuClose={() => {
+          if (openMenu === "table") {
+            setOpenMenu(null);
+          }
+        }}
+      />
       <AlignMenu />
       <LineDivide />
       <EnlivenToggle />
@@ -203,6 +280,162 @@ const SubMenu = ({
 //   );
 // };
 
+const NOTICE_STYLES = {
+  error: "text-red-700 border-red-200",
+  warning: "text-amber-700 border-amber-200",
+  info: "text-slate-700 border-slate-200",
+};
+
+// Runs the action of a notice, dismissing the notice like a click on it does
+const NoticeAction = ({ label, run }: { label: string; run: () => void }) => (
+  <button
+    className="ml-2 underline"
+    onClick={(e) => {
+      e.stopPropagation();
+      documentStore.setNotice(null);
+      run();
+    }}
+  >
+    {label}
+  </button>
+);
+
+const FileMenuItem = ({
+  children,
+  onClick,
+}: React.PropsWithChildren<{ onClick: () => void }>) => (
+  <div
+    className="px-3 py-1 whitespace-nowrap cursor-pointer hover:bg-slate-100"
+    onClick={(e) => {
+      e.stopPropagation();
+      onClick();
+    }}
+  >
+    {children}
+  </div>
+);
+
+const FileMenu = observer(
+  ({ open, onMenuOpen, onMenuClose }: DismissableMenuProps) => {
+    const runAndClose = (command: () => void) => () => {
+      onMenuClose();
+      command();
+    };
+    return (
+      <>
+        <SubMenu
+          menuButton={<Icon>description</Icon>}
+          open={open}
+          onMenuOpen={onMenuOpen}
+          onMenuClose={onMenuClose}
+        >
+          <div className="py-1 flex flex-col text-sm">
+            <FileMenuItem onClick={runAndClose(() => documentStore.open())}>
+              Open…
+            </FileMenuItem>
+            <FileMenuItem onClick={runAndClose(() => documentStore.save())}>
+              Save
+            </FileMenuItem>
+            <FileMenuItem onClick={runAndClose(() => documentStore.saveAs())}>
+              Save As…
+            </FileMenuItem>
+            <div className="my-1 border-t border-slate-200" />
+            <FileMenuItem onClick={runAndClose(copyShareLink)}>
+              Copy link
+            </FileMenuItem>
+          </div>
+        </SubMenu>
+        {documentStore.notice && (
+          <div
+            className={`absolute top-12 left-0 px-2 py-1 text-sm bg-white border rounded-md shadow-sm cursor-pointer ${NOTICE_STYLES[documentStore.notice.type]}`}
+            title="Dismiss"
+            onClick={() => documentStore.setNotice(null)}
+          >
+            {documentStore.notice.message}
+            {documentStore.notice.action && (
+              <NoticeAction {...documentStore.notice.action} />
+            )}
+          </div>
+        )}
+      </>
+    );
+  }
+);
+
+// Options next to a menu item, which are changed without closing the menu
+const FileMenuOption = ({ children }: React.PropsWithChildren) => (
+  <label
+    className="pr-3 flex items-center gap-1 text-slate-500"
+    onClick={(e) => e.stopPropagation()}
+  >
+    {children}
+  </label>
+);
+
+const ExportMenu = ({
+  open,
+  onMenuOpen,
+  onMenuClose,
+}: DismissableMenuProps) => {
+  const [scale, setScale] = React.useState(2);
+  const [interactive, setInteractive] = React.useState(false);
+  const runAndClose = (command: () => void) => () => {
+    onMenuClose();
+    command();
+  };
+  return (
+    <SubMenu
+      menuButton={<Icon>ios_share</Icon>}
+      open={open}
+      onMenuOpen={onMenuOpen}
+      onMenuClose={onMenuClose}
+    >
+      <div className="py-1 flex flex-col text-sm">
+        <FileMenuItem onClick={runAndClose(exportSvg)}>SVG</FileMenuItem>
+        <div className="flex items-center justify-between">
+          <FileMenuItem onClick={runAndClose(() => exportPng(scale))}>
+            PNG
+          </FileMenuItem>
+          <FileMenuOption>
+            <select
+              value={scale}
+              onChange={(e) => setScale(Number(e.target.value))}
+              className="border rounded px-1"
+              aria-label="PNG scale"
+            >
+              {PNG_SCALES.map((option) => (
+                <option key={option} value={option}>
+                  {option}×
+                </option>
+              ))}
+            </select>
+          </FileMenuOption>
+        </div>
+        <div className="flex items-center justify-between">
+          <FileMenuItem onClick={runAndClose(() => exportHtml(interactive))}>
+            HTML
+          </FileMenuItem>
+          <FileMenuOption>
+            <input
+              type="checkbox"
+              checked={interactive}
+              onChange={(e) => setInteractive(e.target.checked)}
+            />
+            Interactive
+          </FileMenuOption>
+        </div>
+        <div className="my-1 border-t border-slate-200" />
+        <FileMenuItem onClick={runAndClose(copyEmbedScript)}>
+          Copy embed code
+        </FileMenuItem>
+        <FileMenuItem onClick={runAndClose(copyEmbedConfig)}>
+          Copy embed config
+        </FileMenuItem>
+      </div>
+    </SubMenu>
+  );
+};
+
 const UndoMenu = observer(() => {
   return (
     <div
@@ -233,6 +466,35 @@ const RedoMenu = observer(() => {
   );
 });
 
+const AddFormulaMenu = () => {
+  return (
+    <div
+      className="menu-btn text-black"
+      title="Add formula"
+      onClick={() => workspaceStore.addFormula()}
+    >
+      <Icon>add</Icon>
+    </div>
+  );
+};
+
+const RemoveFormulaMenu = observer(() => {
+  const canRemove = workspaceStore.formulas.length > 1;
+  return (
+    <div
+      className={`menu-btn ${canRemove ? "text-black" : "text-gray-500 cursor-default"}`}
+      title="Remove formula"
+      onClick={() => {
+        if (canRemove) {
+          workspaceStore.removeFormula(workspaceStore.activeIndex);
+        }
+      }}
+    >
+      <Icon>remove</Icon>
+    </div>
+  );
+});
+
 const StrikethroughMenu = () => {
   return (
     <MenuItem onClick={() => {}}>
@@ -437,6 +699,148 @@ const AnnotateMenu = ({
   );
 };
 
+// Changes the structure of the math around the selection, e.g. putting it in
+// a fraction
+const StructureMenu = ({
+  open,
+  onMenuOpen,
+  onMenuClose,
+}: DismissableMenuProps) => (
+  <SubMenu
+    menuButton={<Icon>functions</Icon>}
+    open={open}
+    onMenuOpen={onMenuOpen}
+    onMenuClose={onMenuClose}
+  >
+    <div className="py-1 flex flex-col text-sm">
+      {STRUCTURAL_COMMANDS.map((command) => (
+        <FileMenuItem
+          key={command.label}
+          onClick={() => {
+            onMenuClose();
+            runStructuralCommand(command);
+          }}
+        >
+          <div className="flex justify-between gap-6">
+            <span>{command.label}</span>
+            <span className="text-slate-400">{command.shortcut}</span>
+          </div>
+        </FileMenuItem>
+      ))}
+    </div>
+  </SubMenu>
+);
+
+// Rewrites the selected math algebraically, one step of a derivation at a time
+const AlgebraMenu = ({
+  open,
+  onMenuOpen,
+  onMenuClose,
+}: DismissableMenuProps) => (
+  <SubMenu
+    menuButton={<Icon>calculate</Icon>}
+    open={open}
+    onMenuOpen={onMenuOpen}
+    onMenuClose={onMenuClose}
+  >
+    <div className="py-1 flex flex-col text-sm">
+      {ALGEBRAIC_COMMANDS.map((command) => (
+        <FileMenuItem
+          key={command.label}
+          onClick={() => {
+            onMenuClose();
+            runStructuralCommand(command);
+          }}
+        >
+          {command.label}
+        </FileMenuItem>
+      ))}
+    </div>
+  </SubMenu>
+);
+
+// Edits the rows and columns of the table that the selection is in, next to
+// or in place of the selected cells
+const TableMenu = observer(
+  ({ open, onMenuOpen, onMenuClose }: DismissableMenuProps) => {
+    const [first] = selectionStore.selectedTableCells;
+    const cells = selectionStore.selectedTableCells.filter(
+      (cell) => cell.table.id === first?.table.id
+    );
+    const rows = cells.map((cell) => cell.row);
+    const columns = cells.map((cell) => cell.column);
+    const runAndClose = (command: () => AugmentedFormula) => () => {
+      onMenuClose();
+      formulaStore.updateFormula(command());
+    };
+    const formula = formulaStore.augmentedFormula;
+    return (
+      <SubMenu
+        menuButton={<Icon>table_chart</Icon>}
+        open={open}
+        onMenuOpen={onMenuOpen}
+        onMenuClose={onMenuClose}
+      >
+        {first === undefined ? (
+          <div className="px-3 py-1 text-sm text-slate-500 whitespace-nowrap">
+            Select a cell of a matrix or array
+          </div>
+        ) : (
+          <div className="py-1 flex flex-col text-sm">
+            <FileMenuItem
+              onClick={runAndClose(() =>
+                insertTableRow(formula, first.table.id, Math.min(...rows))
+              )}
+            >
+              Insert row above
+            </FileMenuItem>
+            <FileMenuItem
+              onClick={runAndClose(() =>
+                insertTableRow(formula, first.table.id, Math.max(...rows) + 1)
+              )}
+            >
+              Insert row below
+            </FileMenuItem>
+            <FileMenuItem
+              onClick={runAndClose(() =>
+                deleteTableRows(formula, first.table.id, rows)
+              )}
+            >
+              Delete row
+            </FileMenuItem>
+            <div className="my-1 border-t border-slate-200" />
+            <FileMenuItem
+              onClick={runAndClose(() =>
+                insertTableColumn(formula, first.table.id, Math.min(...columns))
+              )}
+            >
+              Insert column left
+            </FileMenuItem>
+            <FileMenuItem
+              onClick={runAndClose(() =>
+                insertTableColumn(
+                  formula,
+                  first.table.id,
+                  Math.max(...columns) + 1
+                )
+              )}
+            >
+              Insert column right
+            </FileMenuItem>
+            <FileMenuItem
+              onClick={runAndClose(() =>
+                deleteTableColumns(formula, first.table.id, columns)
+              )}
+            >
+              Delete column
+            </FileMenuItem>
+          </div>
+        )}
+      </SubMenu>
+    );
+  }
+);
+
 const LineDivide = () => {
   return <div className="h-4 border-r border-slate-200" />;
 };
@@ -446,7 +850,7 @@ const AlignMenu = observer(() => {
     <div
       className={`menu-btn ${editingStore.showAlignMode ? "bg-gray-200" : "bg-transparent"}`}
       onClick={(e) => {
-        if (formulaStore.alignIds === null) {
+        if (formulaStore.alignEnvironments.length === 0) {
           const cell = new Group("", formulaStore.augmentedFormula.children);
           formulaStore.updateFormula(
             new AugmentedFormula([new Aligned("", [[cell]])])
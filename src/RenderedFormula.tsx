@@ -6,7 +6,7 @@ import { observer } from "mobx-react-lite";
 import {
   RenderSpec, // deriveAugmentedFormula
 } from "./FormulaTree";
-import { formulaStore, selectionStore } from "./store";
+import { formulaStore, selectionStore, workspaceStore } from "./store";
 
 export const RenderedFormula = observer(() => {
   // For development, hardcode a formula to reset to when code changes
@@ -47,20 +47,61 @@ export const RenderedFormula = observer(() => {
     selectionStore.initializeFormulaRoot(ref);
   }, []);
 
+  // Every formula of the workspace is shown, but only the one being edited
+  // can be selected. Clicking another one edits it instead.
   return (
     <div
-      ref={handleSetRef}
+      className="flex flex-col items-center gap-8"
       style={{
         transform: `translate(${selectionStore.pan.x}px, ${selectionStore.pan.y}px)`,
       }}
     >
-      {formulaStore.renderSpec !== null && (
-        <RenderedFormulaComponent spec={toJS(formulaStore.renderSpec)} />
+      {workspaceStore.formulas.map((formula, i) =>
+        i === workspaceStore.activeIndex ? (
+          <div key={formula.id} ref={handleSetRef}>
+            {formulaStore.augmentedFormula.children.length === 0 ? (
+              <p className="text-base text-slate-400">
+                Type the new formula in the editor
+              </p>
+            ) : (
+              formulaStore.renderSpec !== null && (
+                <RenderedFormulaComponent
+                  spec={toJS(formulaStore.renderSpec)}
+                />
+              )
+            )}
+          </div>
+        ) : (
+          <div
+            key={formula.id}
+            className="opacity-60 cursor-pointer hover:opacity-100"
+            title="Edit this formula"
+            onClick={() => workspaceStore.activate(i)}
+          >
+            {formula.renderSpec !== null && (
+              <StaticFormulaComponent spec={toJS(formula.renderSpec)} />
+            )}
+          </div>
+        )
       )}
     </div>
   );
 });
 
+// A formula that isn't being edited, without the ids and selection targets of
+// the one that is
+const StaticFormulaComponent = ({ spec }: { spec: RenderSpec }) => {
+  const Tag = spec.tagName;
+  return (
+    // @ts-expect-error This is an arbitrary tag, we can't statically type it
+    <Tag class={spec.className} style={spec.style} {...spec.attrs}>
+      {spec.children?.map((child, i) => (
+        <StaticFormulaComponent key={i} spec={child} />
+      ))}
+    </Tag>
+  );
+};
+
 const RenderedFormulaComponent = observer(({ spec }: { spec: RenderSpec }) => {
   const [ref, setRef] = useState<Element | null>(null);
   useEffect(() => {
@@ -1,6 +1,173 @@
 import React, { useEffect, useState } from "react";
 
-import { computationStore } from "./computation";
+import { observer } from "mobx-react-lite";
+
+import {
+  DEFAULT_MAX,
+  DEFAULT_MIN,
+  DEFAULT_PRECISION,
+  DEFAULT_STEP,
+  VariableSettings,
+  computationStore,
+} from "./computation";
+import { UnitParseError, parseUnits } from "../interactive-math/src/core/Units";
+
+const parseOptionalNumber = (text: string) =>
+  text.trim() === "" ? undefined : Number(text);
+
+const validateSettings = ({
+  min,
+  max,
+  step,
+  precision,
+  unit,
+}: VariableSettings) => {
+  if ([min, max, step, precision].some((n) => n !== undefined && isNaN(n))) {
+    return "Settings must be numbers";
+  }
+  if ((min ?? DEFAULT_MIN) >= (max ?? DEFAULT_MAX)) {
+    return "Min must be less than max";
+  }
+  if (step !== undefined && step <= 0) {
+    return "Step must be positive";
+  }
+  if (
+    precision !== undefined &&
+    (!Number.isInteger(precision) || precision < 0 || precision > 10)
+  ) {
+    return "Precision must be a whole number from 0 to 10";
+  }
+  if (unit) {
+    try {
+      parseUnits(unit);
+    } catch (error) {
+      return error instanceof UnitParseError ? error.message : String(error);
+    }
+  }
+  return null;
+};
+
+const SettingsField = ({
+  label,
+  value,
+  placeholder,
+  onChange,
+  type = "number",
+}: {
+  label: string;
+  value: string;
+  placeholder: string;
+  onChange: (value: string) => void;
+  type?: "number" | "text";
+}) => (
+  <label className="flex flex-col text-xs text-slate-500">
+    {label}
+    <input
+      type={type}
+      value={value}
+      placeholder={placeholder}
+      onChange={(e) => onChange(e.target.value)}
+      className="w-16 p-1 text-sm text-black border border-slate-200 rounded-md"
+      step="any"
+    />
+  </label>
+);
+
+// Slider range, step, display precision and unit of a variable. Dependent
+// variables have no step, and their range is where they're solved for when
+// they can't be isolated.
+const VariableSettingsForm = observer(({ id }: { id: string }) => {
+  const variable = computationStore.variables.get(id);
+  const isSlidable = variable?.type === "slidable";
+  const [min, setMin] = useState("");
+  const [max, setMax] = useState("");
+  const [step, setStep] = useState("");
+  const [precision, setPrecision] = useState("");
+  const [unit, setUnit] = useState("");
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    setMin(variable?.min?.toString() ?? "");
+    setMax(variable?.max?.toString() ?? "");
+    setStep(variable?.step?.toString() ?? "");
+    setPrecision(variable?.precision?.toString() ?? "");
+    setUnit(variable?.unit ?? "");
+    setError(null);
+  }, [
+    id,
+    variable?.min,
+    variable?.max,
+    variable?.step,
+    variable?.precision,
+    variable?.unit,
+  ]);
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    const settings: VariableSettings = {
+      min: parseOptionalNumber(min),
+      max: parseOptionalNumber(max),
+      step: isSlidable ? parseOptionalNumber(step) : variable?.step,
+      precision: parseOptionalNumber(precision),
+      unit: unit.trim() === "" ? undefined : unit.trim(),
+    };
+    const validationError = validateSettings(settings);
+    setError(validationError);
+    if (validationError === null) {
+      computationStore.setVariableSettings(id, settings);
+    }
+  };
+
+  return (
+    <form
+      onSubmit={handleSubmit}
+      className="flex flex-col gap-2 p-2 bg-slate-100 rounded-md"
+    >
+      <div className="flex gap-2 items-end">
+        <SettingsField
+          label="Min"
+          value={min}
+          placeholder={DEFAULT_MIN.toString()}
+          onChange={setMin}
+        />
+        <SettingsField
+          label="Max"
+          value={max}
+          placeholder={DEFAULT_MAX.toString()}
+          onChange={setMax}
+        />
+        {isSlidable && (
+          <SettingsField
+            label="Step"
+            value={step}
+            placeholder={DEFAULT_STEP.toString()}
+            onChange={setStep}
+          />
+        )}
+        <SettingsField
+          label="Decimals"
+          value={precision}
+          placeholder={DEFAULT_PRECISION.toString()}
+          onChange={setPrecision}
+        />
+        <SettingsField
+          label="Unit"
+          value={unit}
+          placeholder="none"
+          onChange={setUnit}
+          type="text"
+        />
+        <button
+          type="submit"
+          className="px-3 py-1 bg-slate-700 text-white cursor-pointer flex items-center justify-center rounded-md"
+        >
+          Set
+        </button>
+      </div>
+      {error && <p className="text-xs text-red-700">{error}</p>}
+    </form>
+  );
+});
 
 const VariableTooltip = ({
   position,
@@ -49,6 +216,8 @@ const VariableTooltip = ({
   };
 
   const [showValueInput, setShowValueInput] = useState(currentType === "fixed");
+  const [showSettings, setShowSettings] = useState(false);
+  const hasSettings = currentType === "slidable" || currentType === "dependent";
 
   useEffect(() => {
     setShowValueInput(currentType === "fixed");
@@ -120,8 +289,29 @@ const VariableTooltip = ({
             )}
           </div>
         ))}
+        {hasSettings && (
+          <>
+            <div className="mx-1 h-4 border-r border-slate-200" />
+            <button
+              onClick={() => setShowSettings(!showSettings)}
+              className={`
+                px-2 py-1 cursor-pointer border rounded-lg transition-all duration-200
+                ${
+                  showSettings
+                    ? "border-blue-300 bg-blue-50"
+                    : "border-1 border-white bg-white hover:bg-slate-100"
+                }
+              `}
+              title="Range, step, decimals and unit"
+            >
+              <span className="text-sm">⚙️</span>
+            </button>
+          </>
+        )}
       </div>
 
+      {hasSettings && showSettings && <VariableSettingsForm id={id} />}
+
       {/* <div className="absolute left-1/2 bottom-[-5px] w-[10px] h-[10px] bg-white border border-gray-300 border-t-0 border-l-0 transform -translate-x-1/2 rotate-45"></div> */}
     </div>
   );
@@ -1,14 +1,22 @@
-import { MouseEvent, useCallback, useEffect, useState } from "react";
+import {
+  CSSProperties,
+  MouseEvent,
+  useCallback,
+  useEffect,
+  useState,
+} from "react";
 
 import { observer } from "mobx-react-lite";
 
 import { AlignmentGuides } from "./AlignmentGuides";
 import { Debug } from "./Debug";
-import { MathSymbol } from "./FormulaTree";
+import { AugmentedFormulaNode, TableNode, isTableNode } from "./FormulaTree";
 import { RenderedFormula } from "./RenderedFormula";
 import VariableTooltip from "./VariableTooltip";
 import { computationStore } from "./computation";
 import { editingStore, formulaStore, selectionStore } from "./store";
+import { handleStructuralShortcut } from "./structuralEditing";
+import { findVariableForNode } from "./variables";
 
 export const Workspace = observer(() => {
   const [dragState, setDragState] = useState<
@@ -25,14 +33,16 @@ export const Workspace = observer(() => {
     if (selections.length !== 1 || selections[0].length !== 1) return null;
 
     const selectedId = selections[0][0];
-    const node = formulaStore.augmentedFormula.findNode(selectedId);
+    const variable = findVariableForNode(
+      formulaStore.augmentedFormula,
+      selectedId
+    );
 
-    if (!node || node.type !== "symbol") return null;
+    if (!variable) return null;
 
-    const symbol = (node as MathSymbol).value;
     return {
-      id: `var-${symbol}`,
-      symbol,
+      id: variable.id,
+      symbol: variable.symbol,
       selectedId,
     };
   }, []);
@@ -96,6 +106,13 @@ export const Workspace = observer(() => {
     };
   }, []);
 
+  useEffect(() => {
+    window.addEventListener("keydown", handleStructuralShortcut);
+    return () => {
+      window.removeEventListener("keydown", handleStructuralShortcut);
+    };
+  }, []);
+
   const getTooltipPosition = useCallback(() => {
     if (!selectionStore.workspaceBBox) return null;
 
@@ -145,7 +162,9 @@ export const Workspace = observer(() => {
 
   return (
     <div
-      className="w-full h-full relative flex flex-col items-center justify-center overflow-hidden"
+      className="w-full h-full relative flex flex-col items-center justify-center overflow-hidden outline-none"
+      // Focusable, so that structural shortcuts only apply while it's in use
+      tabIndex={-1}
       onDoubleClick={handleDoubleClick}
       onMouseDown={handleMouseDown}
       onMouseMove={handleMouseMove}
@@ -154,6 +173,8 @@ export const Workspace = observer(() => {
     >
       <SelectionRect />
       <SelectionBorders />
+      <HighlightBorders />
+      <TableHandles />
       <AlignmentGuides />
       <RenderedFormula />
       {/* Tooltip Container */}
@@ -242,6 +263,149 @@ const SelectionBorders = observer(() => {
   );
 });
 
+// Outlines nodes highlighted from other panels
+const HighlightBorders = observer(() => {
+  if (!selectionStore.workspaceBBox) {
+    return null;
+  }
+  const { left, top } = selectionStore.workspaceBBox;
+  return (
+    <>
+      {selectionStore.highlighted.map((id) => {
+        const target = selectionStore.screenSpaceTargets.get(id);
+        if (!target) {
+          return null;
+        }
+        return (
+          <div
+            key={id}
+            className="absolute z-[1000] pointer-events-none border-2 border-amber-500 bg-amber-200/30 rounded-md"
+            style={{
+              left: `calc(${target.left - left}px - ${SELECTION_PADDING}rem)`,
+              top: `calc(${target.top - top}px - ${SELECTION_PADDING}rem)`,
+              width: `calc(${target.width}px + ${2 * SELECTION_PADDING}rem)`,
+              height: `calc(${target.height}px + ${2 * SELECTION_PADDING}rem)`,
+            }}
+          ></div>
+        );
+      })}
+    </>
+  );
+});
+
+const TABLE_HANDLE_SIZE = 0.5;
+const TABLE_HANDLE_GAP = 0.6;
+
+const findTables = (node: AugmentedFormulaNode): TableNode[] => [
+  ...(isTableNode(node) ? [node] : []),
+  ...node.children.flatMap(findTables),
+];
+
+// Bounding box of some cells in screen space
+const cellsBox = (cells: AugmentedFormulaNode[]) => {
+  const boxes = cells.flatMap((cell) => {
+    const target = selectionStore.screenSpaceTargets.get(cell.id);
+    return target ? [target] : [];
+  });
+  if (boxes.length === 0) {
+    return null;
+  }
+  const left = Math.min(...boxes.map((box) => box.left));
+  const top = Math.min(...boxes.map((box) => box.top));
+  return {
+    left,
+    top,
+    width: Math.max(...boxes.map((box) => box.left + box.width)) - left,
+    height: Math.max(...boxes.map((box) => box.top + box.height)) - top,
+  };
+};
+
+const TableHandle = ({
+  cells,
+  title,
+  style,
+}: {
+  cells: AugmentedFormulaNode[];
+  title: string;
+  style: CSSProperties;
+}) => (
+  <div
+    className="absolute z-[1001] rounded-sm cursor-pointer bg-slate-300 hover:bg-slate-500"
+    title={title}
+    style={style}
+    onMouseDown={(e) => e.stopPropagation()}
+    onClick={() => selectionStore.selectNodes(cells.map((cell) => cell.id))}
+  />
+);
+
+// Bars beside the rows and above the columns of the tables that the selection
+// is in, which select the whole row or column when clicked
+const TableHandles = observer(() => {
+  if (!selectionStore.workspaceBBox) {
+    return null;
+  }
+  const { left, top } = selectionStore.workspaceBBox;
+  const selected = Array.from(selectionStore.resolvedSelection);
+  const tables = formulaStore.augmentedFormula.children
+    .flatMap(findTables)
+    .filter((table) => selected.some((id) => table.contains(id)));
+  const offset = TABLE_HANDLE_GAP + TABLE_HANDLE_SIZE;
+
+  return (
+    <>
+      {tables.flatMap((table) => {
+        const tableBox = cellsBox(table.children);
+        if (!tableBox) {
+          return [];
+        }
+        const columns = Array.from(
+          { length: Math.max(...table.body.map((row) => row.length)) },
+          (_, col) =>
+            table.body.flatMap((row) => (col < row.length ? [row[col]] : []))
+        );
+        return [
+          ...table.body.map((row, i) => {
+            const box = cellsBox(row);
+            return (
+              box && (
+                <TableHandle
+                  key={`${table.id}-row-${i}`}
+                  cells={row}
+                  title="Select row"
+                  style={{
+                    left: `calc(${tableBox.left - left}px - ${offset}rem)`,
+                    top: `${box.top - top}px`,
+                    width: `${TABLE_HANDLE_SIZE}rem`,
+                    height: `${box.height}px`,
+                  }}
+                />
+              )
+            );
+          }),
+          ...columns.map((column, i) => {
+            const box = cellsBox(column);
+            return (
+              box && (
+                <TableHandle
+                  key={`${table.id}-column-${i}`}
+                  cells={column}
+                  title="Select column"
+                  style={{
+                    left: `${box.left - left}px`,
+                    top: `calc(${tableBox.top - top}px - ${offset}rem)`,
+                    width: `${box.width}px`,
+                    height: `${TABLE_HANDLE_SIZE}rem`,
+                  }}
+                />
+              )
+            );
+          }),
+        ];
+      })}
+    </>
+  );
+});
+
 export const EnlivenMode = observer(() => {
   const [tooltipPosition, setTooltipPosition] = useState<{
     x: number;
@@ -273,10 +437,9 @@ export const EnlivenMode = observer(() => {
     const selection = selectionStore.siblingSelections[0]?.[0];
     if (!selection) return null;
 
-    const node = formulaStore.augmentedFormula.findNode(selection);
-    if (!node || node.type !== "symbol") return null;
-
-    return `var-${(node as MathSymbol).value}`;
+    return (
+      findVariableForNode(formulaStore.augmentedFormula, selection)?.id ?? null
+    );
   };
 
   const handleVariableTypeSelect = (
@@ -285,10 +448,12 @@ export const EnlivenMode = observer(() => {
     const selection = selectionStore.siblingSelections[0]?.[0];
     if (!selection) return;
 
-    const node = formulaStore.augmentedFormula.findNode(selection);
-    if (node?.type === "symbol") {
-      const symbol = (node as MathSymbol).value;
-      const id = `var-${symbol}`;
+    const variable = findVariableForNode(
+      formulaStore.augmentedFormula,
+      selection
+    );
+    if (variable) {
+      const { id, symbol } = variable;
       console.log("Setting variable type:", { id, symbol, type });
       computationStore.addVariable(id, symbol);
       computationStore.setVariableType(id, type);
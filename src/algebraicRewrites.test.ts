@@ -0,0 +1,222 @@
+import { describe, expect, it } from "vitest";
+
+import { AugmentedFormula, deriveAugmentedFormula } from "./FormulaTree";
+import {
+  cancelCommonFactors,
+  combineLikeTerms,
+  distribute,
+  expandPower,
+  factor,
+  moveAcrossEquals,
+} from "./algebraicRewrites";
+import { RewriteError, canonicalizeWithIds } from "./formulaTransformations";
+
+type Rewrite = (
+  formula: AugmentedFormula,
+  siblingGroups: string[][]
+) => AugmentedFormula;
+
+// Rewrites the nodes at the top of the formula from `start` up to `end`, e.g.
+// `x` and `+` in `x + y` are 0 and 1
+const rewrite = (edit: Rewrite, latex: string, start: number, end: number) => {
+  const formula = deriveAugmentedFormula(latex);
+  const ids = formula.children.slice(start, end).map((node) => node.id);
+  return canonicalizeWithIds(edit(formula, [ids]), []).formula.toLatex(
+    "content-only"
+  );
+};
+
+// The same formula, written the way rewrites write it
+const latex = (latex: string) =>
+  deriveAugmentedFormula(latex).toLatex("content-only");
+
+describe("factor", () => {
+  it("takes out the factor every term has", () => {
+    expect(rewrite(factor, "y = ab + ac", 2, 7)).toBe(
+      latex("y = a\\left(b + c\\right)")
+    );
+  });
+
+  it("keeps a leading minus outside the parentheses", () => {
+    expect(rewrite(factor, "y = c - ab + ac", 3, 9)).toBe(
+      latex("y = c - a\\left(b - c\\right)")
+    );
+  });
+
+  it("rejects a sum whose first term a minus applies to", () => {
+    expect(() => rewrite(factor, "y = c - ab + ac", 4, 9)).toThrow(
+      RewriteError
+    );
+  });
+
+  it("rejects a sum that's part of a product", () => {
+    expect(() => rewrite(factor, "y = c \\cdot ab + ac", 4, 9)).toThrow(
+      RewriteError
+    );
+    expect(() => rewrite(factor, "y = ab + acd", 2, 7)).toThrow(RewriteError);
+  });
+});
+
+describe("combineLikeTerms", () => {
+  it("adds up the numbers of like terms", () => {
+    expect(rewrite(combineLikeTerms, "y = 2x + x", 2, 6)).toBe(latex("y = 3x"));
+  });
+
+  it("combines terms after a minus that's selected with them", () => {
+    expect(rewrite(combineLikeTerms, "y = c - 2x + x", 3, 8)).toBe(
+      latex("y = c - x")
+    );
+  });
+
+  it("rejects terms after a minus that isn't selected", () => {
+    expect(() => rewrite(combineLikeTerms, "y = c - 2x + x", 4, 8)).toThrow(
+      RewriteError
+    );
+  });
+
+  it("rejects terms that are part of a product", () => {
+    expect(() =>
+      rewrite(combineLikeTerms, "y = c \\cdot 2x + x", 4, 8)
+    ).toThrow(RewriteError);
+  });
+
+  it("combines the sum in parentheses without adding more", () => {
+    expect(rewrite(combineLikeTerms, "y = c(2x + x)", 4, 8)).toBe(
+      latex("y = c(3x)")
+    );
+  });
+});
+
+describe("distribute", () => {
+  it("multiplies out a product", () => {
+    expect(rewrite(distribute, "y = a(b + c)", 2, 8)).toBe(
+      latex("y = ab + ac")
+    );
+  });
+
+  it("keeps the result in parentheses after a minus", () => {
+    expect(rewrite(distribute, "y = c - a(b + c)", 4, 10)).toBe(
+      latex("y = c - \\left(ab + ac\\right)")
+    );
+  });
+
+  it("flips the signs when the minus is selected too", () => {
+    expect(rewrite(distribute, "y = c - a(b + c)", 3, 10)).toBe(
+      latex("y = c - ab - ac")
+    );
+  });
+});
+
+describe("expandPower", () => {
+  it("writes out a power as a product", () => {
+    expect(rewrite(expandPower, "y = x^3", 2, 3)).toBe(latex("y = xxx"));
+    expect(rewrite(expandPower, "y = {ab}^2", 2, 3)).toBe(latex("y = abab"));
+  });
+
+  it("keeps subscripts on the base", () => {
+    expect(rewrite(expandPower, "y = x_1^2", 2, 3)).toBe(latex("y = x_1x_1"));
+  });
+
+  it("repeats sums in parentheses", () => {
+    expect(rewrite(expandPower, "y = (a + b)^2", 2, 7)).toBe(
+      latex("y = (a + b)(a + b)")
+    );
+    expect(rewrite(expandPower, "y = {a + b}^2", 2, 3)).toBe(
+      latex("y = \\left(a + b\\right)\\left(a + b\\right)")
+    );
+  });
+
+  it("rejects powers that aren't small whole numbers", () => {
+    for (const power of ["x^n", "x^{1.5}", "x^1", "x^{11}", "x_1"]) {
+      expect(() => rewrite(expandPower, `y = ${power}`, 2, 3)).toThrow(
+        RewriteError
+      );
+    }
+  });
+});
+
+describe("cancelCommonFactors", () => {
+  it("cancels factors and divides the numbers", () => {
+    expect(rewrite(cancelCommonFactors, "y = \\frac{2ab}{4b}", 2, 3)).toBe(
+      latex("y = \\frac{a}{2}")
+    );
+    expect(rewrite(cancelCommonFactors, "y = \\frac{6x}{3}", 2, 3)).toBe(
+      latex("y = 2x")
+    );
+  });
+
+  it("cancels minus signs on both parts", () => {
+    expect(rewrite(cancelCommonFactors, "y = \\frac{-2a}{-4}", 2, 3)).toBe(
+      latex("y = \\frac{a}{2}")
+    );
+    expect(rewrite(cancelCommonFactors, "y = \\frac{-ab}{-b}", 2, 3)).toBe(
+      latex("y = a")
+    );
+  });
+
+  it("puts a single minus in front when the denominator cancels", () => {
+    expect(rewrite(cancelCommonFactors, "y = \\frac{2a}{-2}", 2, 3)).toBe(
+      latex("y = -a")
+    );
+    expect(rewrite(cancelCommonFactors, "y = x\\frac{-2a}{2}", 3, 4)).toBe(
+      latex("y = x\\left(-a\\right)")
+    );
+  });
+
+  it("rejects fractions without common factors or with sums", () => {
+    expect(() =>
+      rewrite(cancelCommonFactors, "y = \\frac{2a}{3b}", 2, 3)
+    ).toThrow(RewriteError);
+    expect(() =>
+      rewrite(cancelCommonFactors, "y = \\frac{a + b}{a}", 2, 3)
+    ).toThrow(RewriteError);
+  });
+});
+
+describe("moveAcrossEquals", () => {
+  it("moves a term to the other side, flipping its sign", () => {
+    expect(rewrite(moveAcrossEquals, "y = a + b", 4, 5)).toBe(
+      latex("y - b = a")
+    );
+    expect(rewrite(moveAcrossEquals, "y - a = b", 2, 3)).toBe(
+      latex("y = b + a")
+    );
+  });
+
+  it("replaces a side that's zero, and leaves one that's emptied", () => {
+    expect(rewrite(moveAcrossEquals, "x - y = 0", 2, 3)).toBe(latex("x = y"));
+    expect(rewrite(moveAcrossEquals, "y = x", 0, 1)).toBe(latex("0 = x - y"));
+  });
+
+  it("rejects part of a term or a formula without one equals sign", () => {
+    expect(() => rewrite(moveAcrossEquals, "y = ab + c", 2, 3)).toThrow(
+      RewriteError
+    );
+    expect(() => rewrite(moveAcrossEquals, "y = a = b", 4, 5)).toThrow(
+      RewriteError
+    );
+  });
+});
+
+describe("styling", () => {
+  it("keeps colors, boxes and braces around rewritten expressions", () => {
+    expect(rewrite(expandPower, "y = \\textcolor{red}{x^2}", 2, 3)).toBe(
+      latex("y = \\textcolor{red}{xx}")
+    );
+    expect(
+      rewrite(expandPower, "y = \\fcolorbox{red}{white}{$x_1^2$}", 2, 3)
+    ).toBe(latex("y = \\fcolorbox{red}{white}{$x_1x_1$}"));
+    expect(
+      rewrite(cancelCommonFactors, "y = \\underbrace{\\frac{2a}{4}}", 2, 3)
+    ).toBe(latex("y = \\underbrace{\\frac{a}{2}}"));
+  });
+
+  it("keeps colored factors and terms", () => {
+    expect(rewrite(distribute, "y = \\textcolor{blue}{a}(b + c)", 2, 8)).toBe(
+      latex("y = \\textcolor{blue}{a}b + \\textcolor{blue}{a}c")
+    );
+    expect(rewrite(moveAcrossEquals, "y = a + \\textcolor{red}{b}", 4, 5)).toBe(
+      latex("y - \\textcolor{red}{b} = a")
+    );
+  });
+});
@@ -0,0 +1,614 @@
+import {
+  AugmentedFormula,
+  AugmentedFormulaNode,
+  Box,
+  Brace,
+  Color,
+  Delimited,
+  Fraction,
+  Group,
+  MathSymbol,
+  Script,
+} from "./FormulaTree";
+import {
+  RewriteError,
+  editFormula,
+  isRelation,
+  rewriteSiblings,
+  wrapped,
+} from "./formulaTransformations";
+
+// Expanding bigger powers would write out more factors than anyone wants
+const MAX_EXPANDED_POWER = 10;
+
+const MULTIPLICATION = ["\\cdot", "\\times"];
+
+// A factor of a product: the digits of a number, an expression in plain
+// parentheses, or any other node. Colors, boxes and braces are nodes of their
+// own, so they move with the factors they're around.
+type Factor = AugmentedFormulaNode[];
+
+// A term of a sum, whose sign is null when it's an implied plus
+type Term = { sign: MathSymbol | null; factors: Factor[] };
+
+const symbolValue = (node: AugmentedFormulaNode | null | undefined) =>
+  node instanceof MathSymbol ? node.value : null;
+
+const isSign = (
+  node: AugmentedFormulaNode | null | undefined
+): node is MathSymbol => symbolValue(node) === "+" || symbolValue(node) === "-";
+
+const isDigit = (node: AugmentedFormulaNode) =>
+  /^[0-9.]$/.test(symbolValue(node) ?? "");
+
+const isNumber = (factor: Factor) => factor.every(isDigit);
+
+const numberValue = (factor: Factor) =>
+  parseFloat(factor.map(symbolValue).join(""));
+
+// Factors are compared by their math, ignoring how they're styled
+const factorLatex = (factor: Factor) =>
+  factor.map((node) => node.toLatex("content-only")).join(" ");
+
+const parseFactors = (nodes: AugmentedFormulaNode[]): Factor[] => {
+  const factors: Factor[] = [];
+  for (let i = 0; i < nodes.length; ) {
+    let end = i + 1;
+    if (isDigit(nodes[i])) {
+      while (end < nodes.length && isDigit(nodes[end])) {
+        end++;
+      }
+    } else if (symbolValue(nodes[i]) === "(") {
+      for (let depth = 1; end < nodes.length && depth > 0; end++) {
+        const value = symbolValue(nodes[end]);
+        depth += value === "(" ? 1 : value === ")" ? -1 : 0;
+      }
+    }
+    if (!MULTIPLICATION.includes(symbolValue(nodes[i]) ?? "")) {
+      factors.push(nodes.slice(i, end));
+    }
+    i = end;
+  }
+  return factors;
+};
+
+const parseTerms = (nodes: AugmentedFormulaNode[]): Term[] => {
+  const terms: { sign: MathSymbol | null; nodes: AugmentedFormulaNode[] }[] =
+    [];
+  let depth = 0;
+  for (const node of nodes) {
+    const current = terms[terms.length - 1];
+    if (isSign(node) && depth === 0) {
+      if (current?.nodes.length === 0) {
+        throw new RewriteError("A term is missing between two signs");
+      }
+      terms.push({ sign: node, nodes: [] });
+      continue;
+    }
+    const value = symbolValue(node);
+    depth += value === "(" ? 1 : value === ")" ? -1 : 0;
+    if (current) {
+      current.nodes.push(node);
+    } else {
+      terms.push({ sign: null, nodes: [node] });
+    }
+  }
+  return terms.map(({ sign, nodes }) => ({
+    sign,
+    factors: parseFactors(nodes),
+  }));
+};
+
+const numberFactor = (value: number): Factor =>
+  Array.from(String(parseFloat(value.toPrecision(12)))).map(
+    (digit) => new MathSymbol("", digit)
+  );
+
+// Numbers are multiplied with a dot, anything else by writing it next to the
+// other factors
+const product = (factors: Factor[]): AugmentedFormulaNode[] =>
+  factors.length === 0
+    ? numberFactor(1)
+    : factors.flatMap((factor, i) =>
+        i > 0 && isNumber(factor)
+          ? [new MathSymbol("", "\\cdot"), ...factor]
+          : factor
+      );
+
+// The first term only shows a plus with an explicit sign, e.g. when the sum
+// comes after other terms
+const sum = (terms: Term[], explicitSign: boolean): AugmentedFormulaNode[] =>
+  terms.flatMap(({ sign, factors }, i) => {
+    const shownSign =
+      i > 0 || explicitSign
+        ? sign ?? new MathSymbol("", "+")
+        : sign?.value === "-"
+          ? sign
+          : null;
+    return [...(shownSign ? [shownSign] : []), ...product(factors)];
+  });
+
+const negate = (sign: MathSymbol | null) =>
+  new MathSymbol(sign?.id ?? "", sign?.value === "-" ? "+" : "-");
+
+const parenthesize = (nodes: AugmentedFormulaNode[]) =>
+  new Delimited("", "(", ")", nodes);
+
+// The expression in a factor's parentheses, or null if it has none
+const parenthesized = (factor: Factor): AugmentedFormulaNode[] | null => {
+  const [node] = factor;
+  if (
+    factor.length === 1 &&
+    node instanceof Delimited &&
+    node.left === "(" &&
+    node.right === ")"
+  ) {
+    return node.body;
+  }
+  if (
+    factor.length > 1 &&
+    symbolValue(node) === "(" &&
+    symbolValue(factor[factor.length - 1]) === ")"
+  ) {
+    return factor.slice(1, -1);
+  }
+  return null;
+};
+
+// The nodes on either side of the selection, outside the colors that are
+// only around it
+const neighbours = (nodes: AugmentedFormulaNode[]) => {
+  let [first, last] = [nodes[0], nodes[nodes.length - 1]];
+  while (
+    first._leftSibling === null &&
+    last._rightSibling === null &&
+    first._parent instanceof Color
+  ) {
+    first = last = first._parent;
+  }
+  return { left: first._leftSibling, right: last._rightSibling };
+};
+
+const isLeftBoundary = (node: AugmentedFormulaNode | null) =>
+  node === null ||
+  isSign(node) ||
+  isRelation(node) ||
+  symbolValue(node) === "(";
+
+const isRightBoundary = (node: AugmentedFormulaNode | null) =>
+  node === null ||
+  isSign(node) ||
+  isRelation(node) ||
+  symbolValue(node) === ")";
+
+// A sum can only be rewritten on its own if it isn't part of a product, and if
+// no minus in front of it applies to its first term only
+const checkWholeSum = (nodes: AugmentedFormulaNode[]) => {
+  const { left, right } = neighbours(nodes);
+  if (!isSign(nodes[0]) && symbolValue(left) === "-") {
+    throw new RewriteError("Select the minus in front of the sum as well");
+  }
+  if (
+    (isSign(nodes[0])
+      ? MULTIPLICATION.includes(symbolValue(left) ?? "")
+      : !isLeftBoundary(left)) ||
+    !isRightBoundary(right)
+  ) {
+    throw new RewriteError("Select a whole sum, not part of a product");
+  }
+};
+
+// A sum that replaces part of a product has to go in parentheses, as does
+// one that a minus applies to
+const sumInPlace = (
+  nodes: AugmentedFormulaNode[],
+  terms: Term[]
+): AugmentedFormulaNode[] => {
+  const explicitSign = isSign(nodes[0]);
+  const { left, right } = neighbours(nodes);
+  if (
+    (!explicitSign && (!isLeftBoundary(left) || symbolValue(left) === "-")) ||
+    !isRightBoundary(right)
+  ) {
+    return [parenthesize(sum(terms, false))];
+  }
+  return sum(terms, explicitSign);
+};
+
+// Rewrites the node inside the colors, boxes and braces around it, which stay
+// around the result
+const insideStyling = (
+  node: AugmentedFormulaNode,
+  rewrite: (node: AugmentedFormulaNode) => AugmentedFormulaNode[]
+): AugmentedFormulaNode[] => {
+  if (node instanceof Color && node.body.length === 1) {
+    return [node.withChanges({ body: insideStyling(node.body[0], rewrite) })];
+  }
+  if (node instanceof Box) {
+    return [
+      node.withChanges({ body: wrapped(insideStyling(node.body, rewrite)) }),
+    ];
+  }
+  if (node instanceof Brace) {
+    return [
+      node.withChanges({ base: wrapped(insideStyling(node.base, rewrite)) }),
+    ];
+  }
+  return rewrite(node);
+};
+
+const rewriteSelection = (
+  formula: AugmentedFormula,
+  siblingGroups: string[][],
+  rewrite: (nodes: AugmentedFormulaNode[]) => AugmentedFormulaNode[]
+) => {
+  if (siblingGroups.length === 0) {
+    throw new RewriteError("Select the part of the formula to rewrite");
+  }
+  // A colored expression is rewritten inside its color
+  const rewriteInColor = (
+    nodes: AugmentedFormulaNode[]
+  ): AugmentedFormulaNode[] => {
+    const [node] = nodes;
+    return nodes.length === 1 && node instanceof Color
+      ? [node.withChanges({ body: rewriteInColor(node.body) })]
+      : rewrite(nodes);
+  };
+  return rewriteSiblings(formula, siblingGroups, rewriteInColor);
+};
+
+const rewriteSelectedNode = (
+  formula: AugmentedFormula,
+  siblingGroups: string[][],
+  rewrite: (node: AugmentedFormulaNode) => AugmentedFormulaNode[]
+) =>
+  rewriteSelection(formula, siblingGroups, (nodes) => {
+    if (nodes.length !== 1) {
+      throw new RewriteError("Select a single expression to rewrite");
+    }
+    return insideStyling(nodes[0], rewrite);
+  });
+
+/**
+ * Multiplies out a product with a sum in parentheses, e.g. `a(b + c)` becomes
+ * `ab + ac`
+ */
+export const distribute = (
+  formula: AugmentedFormula,
+  siblingGroups: string[][]
+): AugmentedFormula =>
+  rewriteSelection(formula, siblingGroups, (nodes) => {
+    const terms = parseTerms(nodes);
+    if (terms.length !== 1) {
+      throw new RewriteError("Select a single product to distribute");
+    }
+    const [{ sign, factors }] = terms;
+    const i = factors.findIndex((factor) => {
+      const body = parenthesized(factor);
+      return body !== null && parseTerms(body).length > 1;
+    });
+    if (i === -1) {
+      throw new RewriteError("Select a product with a sum in parentheses");
+    }
+    const distributed = parseTerms(parenthesized(factors[i])!).map((term) => ({
+      sign: sign?.value === "-" ? negate(term.sign) : term.sign,
+      factors: [
+        ...factors.slice(0, i),
+        ...term.factors,
+        ...factors.slice(i + 1),
+      ],
+    }));
+    if (sign?.value === "+" && distributed[0].sign === null) {
+      distributed[0].sign = sign;
+    }
+    return sumInPlace(nodes, distributed);
+  });
+
+/**
+ * Takes the factors that every term has out of a sum, e.g. `ab + ac` becomes
+ * `a(b + c)`
+ */
+export const factor = (
+  formula: AugmentedFormula,
+  siblingGroups: string[][]
+): AugmentedFormula =>
+  rewriteSelection(formula, siblingGroups, (nodes) => {
+    const terms = parseTerms(nodes);
+    if (terms.length < 2) {
+      throw new RewriteError("Select a sum to factor");
+    }
+    checkWholeSum(nodes);
+    const common: Factor[] = [];
+    let remaining = terms.map((term) => term.factors);
+    for (const factor of terms[0].factors) {
+      const positions = remaining.map((factors) =>
+        factors.findIndex((other) => factorLatex(other) === factorLatex(factor))
+      );
+      if (positions.every((position) => position !== -1)) {
+        common.push(factor);
+        remaining = remaining.map((factors, i) =>
+          factors.filter((_, position) => position !== positions[i])
+        );
+      }
+    }
+    if (common.length === 0) {
+      throw new RewriteError("The terms have no factor in common");
+    }
+    // A leading sign stays outside the parentheses, so a minus flips the signs
+    // inside them
+    const [{ sign }] = terms;
+    const inner = terms.map((term, i) => ({
+      sign:
+        i === 0 ? null : sign?.value === "-" ? negate(term.sign) : term.sign,
+      factors: remaining[i],
+    }));
+    return [
+      ...(sign ? [sign] : []),
+      ...product(common),
+      parenthesize(sum(inner, false)),
+    ];
+  });
+
+/**
+ * Adds up the terms of a sum that only differ in their numbers, e.g.
+ * `2x + y - x` becomes `x + y`
+ */
+export const combineLikeTerms = (
+  formula: AugmentedFormula,
+  siblingGroups: string[][]
+): AugmentedFormula =>
+  rewriteSelection(formula, siblingGroups, (nodes) => {
+    const terms = parseTerms(nodes);
+    if (terms.length > 1) {
+      checkWholeSum(nodes);
+    }
+    const combined = new Map<
+      string,
+      { coefficient: number; factors: Factor[] }
+    >();
+    for (const { sign, factors } of terms) {
+      const coefficient = factors
+        .filter(isNumber)
+        .reduce(
+          (c, factor) => c * numberValue(factor),
+          sign?.value === "-" ? -1 : 1
+        );
+      const variables = factors.filter((factor) => !isNumber(factor));
+      // Products are the same whatever order their factors are in
+      const key = variables.map(factorLatex).sort().join(" ");
+      const like = combined.get(key);
+      if (like) {
+        like.coefficient += coefficient;
+      } else {
+        combined.set(key, { coefficient, factors: variables });
+      }
+    }
+    if (combined.size === terms.length) {
+      throw new RewriteError("There are no like terms to combine");
+    }
+
+    const result: Term[] = Array.from(combined.values())
+      .filter(({ coefficient }) => Math.abs(coefficient) > 1e-12)
+      .map(({ coefficient, factors }) => ({
+        sign: coefficient < 0 ? new MathSymbol("", "-") : null,
+        factors:
+          Math.abs(coefficient) === 1 && factors.length > 0
+            ? factors
+            : [numberFactor(Math.abs(coefficient)), ...factors],
+      }));
+    if (result.length === 0) {
+      result.push({ sign: null, factors: [numberFactor(0)] });
+    }
+    if (isSign(nodes[0]) && result[0].sign === null) {
+      result[0].sign = new MathSymbol(nodes[0].id, "+");
+    }
+    return sumInPlace(nodes, result);
+  });
+
+const exponent = ({ sup }: Script) => {
+  const digits = sup instanceof Group ? sup.body : sup ? [sup] : [];
+  const power =
+    digits.length > 0 && isNumber(digits) ? numberValue(digits) : NaN;
+  if (!Number.isInteger(power) || power < 2 || power > MAX_EXPANDED_POWER) {
+    throw new RewriteError(
+      `Only whole powers from 2 to ${MAX_EXPANDED_POWER} can be expanded`
+    );
+  }
+  return power;
+};
+
+/**
+ * Writes out a whole-number power as a product, e.g. `(a + b)^2` becomes
+ * `(a + b)(a + b)`
+ */
+export const expandPower = (
+  formula: AugmentedFormula,
+  siblingGroups: string[][]
+): AugmentedFormula =>
+  rewriteSelection(formula, siblingGroups, (nodes) => {
+    // Plain parentheses are separate symbols, so their power is only on the
+    // closing one
+    const last = nodes[nodes.length - 1];
+    if (
+      nodes.length > 1 &&
+      symbolValue(nodes[0]) === "(" &&
+      last instanceof Script &&
+      symbolValue(last.base) === ")"
+    ) {
+      const base = [...nodes.slice(0, -1), last.base];
+      return product(Array(exponent(last)).fill(base));
+    }
+    if (nodes.length !== 1) {
+      throw new RewriteError("Select a power to expand");
+    }
+    return insideStyling(nodes[0], (node) => {
+      if (!(node instanceof Script)) {
+        throw new RewriteError("Select a power to expand");
+      }
+      // A subscript is part of the base, e.g. x_1^2 is x_1 x_1
+      const base = node.sub
+        ? [new Script("", node.base, node.sub)]
+        : node.base instanceof Group
+          ? parseTerms(node.base.body).length > 1
+            ? [parenthesize(node.base.body)]
+            : node.base.body
+          : [node.base];
+      return product(Array(exponent(node)).fill(base));
+    });
+  });
+
+const gcd = (a: number, b: number): number =>
+  b === 0 ? Math.abs(a) : gcd(b, a % b);
+
+/**
+ * Cancels the factors that the numerator and denominator of a fraction have in
+ * common, e.g. `\frac{2ab}{4b}` becomes `\frac{a}{2}`
+ */
+export const cancelCommonFactors = (
+  formula: AugmentedFormula,
+  siblingGroups: string[][]
+): AugmentedFormula =>
+  rewriteSelectedNode(formula, siblingGroups, (node) => {
+    if (!(node instanceof Fraction)) {
+      throw new RewriteError("Select a fraction to cancel factors in");
+    }
+    const [numerator, denominator] = [node.numerator, node.denominator].map(
+      (part) => parseTerms(part instanceof Group ? part.body : [part])
+    );
+    if (numerator.length !== 1 || denominator.length !== 1) {
+      throw new RewriteError("Factors can only be canceled out of products");
+    }
+
+    let [top, bottom] = [numerator[0].factors, denominator[0].factors];
+    let [topSign, bottomSign] = [numerator[0].sign, denominator[0].sign];
+    let canceled = false;
+    if (topSign?.value === "-" && bottomSign?.value === "-") {
+      [topSign, bottomSign] = [null, null];
+      canceled = true;
+    }
+    for (const factor of top.filter((factor) => !isNumber(factor))) {
+      const i = bottom.findIndex(
+        (other) => factorLatex(other) === factorLatex(factor)
+      );
+      if (i !== -1) {
+        top = top.filter((other) => other !== factor);
+        bottom = bottom.filter((_, j) => j !== i);
+        canceled = true;
+      }
+    }
+
+    const coefficient = (factors: Factor[]) =>
+      factors.filter(isNumber).reduce((c, f) => c * numberValue(f), 1);
+    const [a, b] = [coefficient(top), coefficient(bottom)];
+    const divisor = Number.isInteger(a) && Number.isInteger(b) ? gcd(a, b) : 1;
+    if (divisor > 1) {
+      const scale = (factors: Factor[], value: number) => [
+        ...(value !== 1 ? [numberFactor(value)] : []),
+        ...factors.filter((factor) => !isNumber(factor)),
+      ];
+      [top, bottom] = [scale(top, a / divisor), scale(bottom, b / divisor)];
+      canceled = true;
+    }
+    if (!canceled) {
+      throw new RewriteError(
+        "The numerator and denominator have no factor in common"
+      );
+    }
+
+    // Without a denominator left, a minus on either part goes in front
+    if (bottom.length === 0) {
+      const minus = [topSign, bottomSign].filter((sign) => sign?.value === "-");
+      return minus.length === 1
+        ? sumInPlace([node], [{ sign: minus[0], factors: top }])
+        : product(top);
+    }
+    const part = (sign: MathSymbol | null, factors: Factor[]) => [
+      ...(sign ? [sign] : []),
+      ...product(factors),
+    ];
+    return [
+      node.withChanges({
+        numerator: wrapped(part(topSign, top)),
+        denominator: wrapped(part(bottomSign, bottom)),
+      }),
+    ];
+  });
+
+/**
+ * Moves a term to the other side of an equation, flipping its sign
+ */
+export const moveAcrossEquals = (
+  formula: AugmentedFormula,
+  siblingGroups: string[][]
+): AugmentedFormula => {
+  const [ids] = siblingGroups;
+  const first = siblingGroups.length === 1 && formula.findNode(ids[0]);
+  if (!first) {
+    throw new RewriteError("Select a single term to move");
+  }
+  const equation = first._parent;
+  const siblings = equation?.children ?? formula.children;
+  if (siblings.filter((node) => symbolValue(node) === "=").length !== 1) {
+    throw new RewriteError("Select a term on one side of an equation");
+  }
+
+  return editFormula(
+    formula,
+    (node) => node,
+    (nodes, parentId) => {
+      if (parentId !== (equation?.id ?? null)) {
+        return nodes;
+      }
+      const equals = nodes.findIndex((node) => symbolValue(node) === "=");
+      let start = nodes.findIndex((node) => node.id === ids[0]);
+      const end = start + ids.length;
+      const onLeft = end <= equals;
+      const [sideStart, sideEnd] = onLeft
+        ? [0, equals]
+        : [equals + 1, nodes.length];
+      // The sign in front of a term moves with it, even if it isn't selected
+      if (
+        !isSign(nodes[start]) &&
+        start > sideStart &&
+        isSign(nodes[start - 1])
+      ) {
+        start--;
+      }
+      if (
+        (start <= equals && end > equals) ||
+        (start > sideStart && !isSign(nodes[start])) ||
+        (end < sideEnd && !isSign(nodes[end]))
+      ) {
+        throw new RewriteError("Select a whole term to move");
+      }
+
+      const startNode = nodes[start];
+      const sign = isSign(startNode) ? startNode : null;
+      const term = nodes.slice(sign ? start + 1 : start, end);
+      if (term.length === 0) {
+        throw new RewriteError("Select a whole term to move");
+      }
+      let side = [
+        ...nodes.slice(sideStart, start),
+        ...nodes.slice(end, sideEnd),
+      ];
+      if (symbolValue(side[0]) === "+") {
+        side = side.slice(1);
+      }
+      if (side.length === 0) {
+        side = numberFactor(0);
+      }
+
+      // Moving a term to a side that's zero replaces the zero
+      const negated = negate(sign);
+      const other = onLeft ? nodes.slice(equals + 1) : nodes.slice(0, equals);
+      const moved =
+        other.length === 1 && symbolValue(other[0]) === "0"
+          ? [...(negated.value === "-" ? [negated] : []), ...term]
+          : [...other, negated, ...term];
+      return onLeft
+        ? [...side, nodes[equals], ...moved]
+        : [...moved, nodes[equals], ...side];
+    }
+  );
+};
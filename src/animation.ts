@@ -0,0 +1,195 @@
+import { action, observable } from "mobx";
+
+import { DEFAULT_MAX, DEFAULT_MIN, computationStore } from "./computation";
+
+export type Easing = "linear" | "ease-in" | "ease-out" | "ease-in-out";
+
+export type AnimationSettings = {
+  // Multiple of the default speed, which sweeps the range in PASS_DURATION
+  speed: number;
+  // Start again once the end of the range is reached
+  loop: boolean;
+  // Sweep back and forth instead of jumping back to the start
+  pingPong: boolean;
+  easing: Easing;
+};
+
+export const DEFAULT_ANIMATION_SETTINGS: AnimationSettings = {
+  speed: 1,
+  loop: true,
+  pingPong: true,
+  easing: "linear",
+};
+
+export const EASINGS: Record<Easing, (progress: number) => number> = {
+  linear: (t) => t,
+  "ease-in": (t) => t * t * t,
+  "ease-out": (t) => 1 - Math.pow(1 - t, 3),
+  "ease-in-out": (t) =>
+    t < 0.5 ? 4 * t * t * t : 1 - Math.pow(-2 * t + 2, 3) / 2,
+};
+
+// Milliseconds to sweep the range at speed 1
+const PASS_DURATION = 4000;
+// Longer gaps between frames, e.g. while the tab is hidden, don't make the
+// value jump
+const MAX_FRAME_TIME = 100;
+
+// Progress through the range at which an easing gives the fraction, so that
+// playback starts from the current value. Easings only ever increase, so this
+// bisects.
+const invertEasing = (easing: Easing, fraction: number) => {
+  let low = 0;
+  let high = 1;
+  for (let i = 0; i < 30; i++) {
+    const middle = (low + high) / 2;
+    if (EASINGS[easing](middle) < fraction) {
+      low = middle;
+    } else {
+      high = middle;
+    }
+  }
+  return (low + high) / 2;
+};
+
+type Playback = {
+  // Between 0 at the start of the range and 1 at its end, before easing
+  progress: number;
+  direction: 1 | -1;
+};
+
+class AnimationStore {
+  // Ids of the slidable variables being played
+  @observable
+  accessor playing = new Set<string>();
+  // Keyed by variable id, for variables whose settings were changed
+  @observable
+  accessor settings = new Map<string, AnimationSettings>();
+
+  private playbacks = new Map<string, Playback>();
+  // Only requested while something plays, so idle animation costs nothing
+  private frame: number | null = null;
+  private lastTime: number | null = null;
+
+  settingsOf(id: string): AnimationSettings {
+    return this.settings.get(id) ?? DEFAULT_ANIMATION_SETTINGS;
+  }
+
+  @action
+  setSettings(id: string, changes: Partial<AnimationSettings>) {
+    this.settings.set(id, { ...this.settingsOf(id), ...changes });
+  }
+
+  @action
+  play(id: string) {
+    const variable = computationStore.variables.get(id);
+    if (!variable || variable.type !== "slidable") return;
+
+    const { min = DEFAULT_MIN, max = DEFAULT_MAX } = variable;
+    const { easing, pingPong } = this.settingsOf(id);
+    const fraction = max > min ? (variable.value - min) / (max - min) : 0;
+    let progress = invertEasing(easing, Math.max(0, Math.min(1, fraction)));
+    let direction: 1 | -1 = 1;
+    // Playing from the end of the range starts over or turns around. The
+    // bisection only gets close to the end.
+    if (progress >= 1 - 1e-6) {
+      if (pingPong) {
+        direction = -1;
+      } else {
+        progress = 0;
+      }
+    }
+    this.playbacks.set(id, { progress, direction });
+    this.playing.add(id);
+
+    if (this.frame === null) {
+      this.lastTime = null;
+      this.frame = requestAnimationFrame(this.tick);
+    }
+  }
+
+  @action
+  pause(id: string) {
+    this.playbacks.delete(id);
+    this.playing.delete(id);
+    if (this.playing.size === 0 && this.frame !== null) {
+      cancelAnimationFrame(this.frame);
+      this.frame = null;
+    }
+  }
+
+  toggle(id: string) {
+    if (this.playing.has(id)) {
+      this.pause(id);
+    } else {
+      this.play(id);
+    }
+  }
+
+  private tick = action((time: number) => {
+    this.frame = null;
+    const elapsed = Math.min(time - (this.lastTime ?? time), MAX_FRAME_TIME);
+    this.lastTime = time;
+
+    for (const [id, playback] of this.playbacks) {
+      const variable = computationStore.variables.get(id);
+      if (!variable || variable.type !== "slidable") {
+        this.pause(id);
+        continue;
+      }
+      const { speed, loop, pingPong, easing } = this.settingsOf(id);
+      const finished = this.advance(
+        playback,
+        (elapsed * speed) / PASS_DURATION,
+        loop,
+        pingPong
+      );
+
+      const { min = DEFAULT_MIN, max = DEFAULT_MAX } = variable;
+      computationStore.setValue(
+        id,
+        min + (max - min) * EASINGS[easing](playback.progress)
+      );
+      if (finished) {
+        this.pause(id);
+      }
+    }
+
+    if (this.playing.size > 0) {
+      this.frame = requestAnimationFrame(this.tick);
+    }
+  });
+
+  // Moves playback along the range, turning around or starting over at its
+  // ends. Returns whether playback is finished.
+  private advance(
+    playback: Playback,
+    distance: number,
+    loop: boolean,
+    pingPong: boolean
+  ) {
+    playback.progress += playback.direction * distance;
+    if (playback.progress >= 1) {
+      if (pingPong) {
+        playback.progress = 2 - playback.progress;
+        playback.direction = -1;
+      } else if (loop) {
+        playback.progress -= 1;
+      } else {
+        playback.progress = 1;
+        return true;
+      }
+    } else if (playback.progress <= 0 && playback.direction === -1) {
+      if (loop) {
+        playback.progress = -playback.progress;
+        playback.direction = 1;
+      } else {
+        playback.progress = 0;
+        return true;
+      }
+    }
+    return false;
+  }
+}
+
+export const animationStore = new AnimationStore();
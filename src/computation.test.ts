@@ -0,0 +1,140 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+
+import { MockProvider } from "../interactive-math/src/api/FunctionGenerationProvider";
+import { computationStore } from "./computation";
+import { functionCache } from "./functionCache";
+import { MOCK_FIXTURES } from "./mockFixtures";
+
+// Sets up `formula` with a fixed input and a dependent output, which
+// generates the evaluation function
+const setUpFormula = (
+  formula: string,
+  input: string,
+  value: number,
+  output = "y"
+) => {
+  computationStore.restoreState({
+    formula,
+    variables: new Map(),
+    generatedCode: null,
+    customCode: null,
+  });
+  computationStore.addVariable(input, input);
+  computationStore.setVariableType(input, "fixed");
+  computationStore.setValue(input, value);
+  computationStore.addVariable(output, output);
+  computationStore.setVariableType(output, "dependent");
+};
+
+const waitForCode = () =>
+  vi.waitFor(
+    () => {
+      expect(computationStore.verificationReport).not.toBeNull();
+    },
+    { timeout: 5000 }
+  );
+
+beforeEach(() => {
+  functionCache.clear();
+  vi.spyOn(console, "log").mockImplementation(() => {});
+  vi.spyOn(console, "warn").mockImplementation(() => {});
+  vi.spyOn(console, "error").mockImplementation(() => {});
+});
+
+describe("function generation", () => {
+  it("runs generated code for formulas the local evaluator can't handle", async () => {
+    const provider = new MockProvider(MOCK_FIXTURES);
+    computationStore.setFunctionGenerationProvider(provider);
+    setUpFormula("y = \\sum_{i=1}^{n} i", "n", 4);
+    await waitForCode();
+
+    expect(provider.requests).toEqual([
+      {
+        formula: "y = \\sum_{i=1}^{n} i",
+        inputVars: ["n"],
+        outputVars: ["y"],
+        feedback: undefined,
+      },
+    ]);
+    expect(computationStore.lastGeneratedCode).toBe(MOCK_FIXTURES[0].code);
+    expect(computationStore.verificationReport?.status).toBe("passed");
+    expect(computationStore.generatedCodeFromCache).toBe(false);
+    await vi.waitFor(() => {
+      expect(computationStore.variables.get("y")?.value).toBe(10);
+    });
+    expect(computationStore.formulaError).toBeNull();
+  });
+
+  it("reuses cached code instead of asking again", async () => {
+    computationStore.setFunctionGenerationProvider(
+      new MockProvider(MOCK_FIXTURES)
+    );
+    setUpFormula("y = |x|", "x", -3);
+    await waitForCode();
+
+    const provider = new MockProvider(MOCK_FIXTURES);
+    computationStore.setFunctionGenerationProvider(provider);
+    setUpFormula("y = |x|", "x", -2);
+    await waitForCode();
+
+    expect(provider.requests).toEqual([]);
+    expect(computationStore.generatedCodeFromCache).toBe(true);
+    await vi.waitFor(() => {
+      expect(computationStore.variables.get("y")?.value).toBe(2);
+    });
+  });
+
+  it("asks again with the failing cases when verification fails", async () => {
+    const code = "function evaluate(variables) { return { y: variables.x }; }";
+    const provider = new MockProvider([{ formula: "y = |x|", code }]);
+    computationStore.setFunctionGenerationProvider(provider);
+    setUpFormula("y = |x|", "x", -3);
+    await waitForCode();
+
+    expect(computationStore.verificationReport?.status).toBe("failed");
+    expect(provider.requests).toHaveLength(3);
+    expect(provider.requests[0].feedback).toBeUndefined();
+    expect(provider.requests[1].feedback?.code).toBe(code);
+    expect(provider.requests[1].feedback?.failures[0].inputs).toEqual({
+      x: -3,
+    });
+    // Code that failed isn't cached
+    setUpFormula("y = |x|", "x", -3);
+    await waitForCode();
+    expect(provider.requests).toHaveLength(6);
+  });
+
+  it("reports formulas the provider can't generate code for", async () => {
+    computationStore.setFunctionGenerationProvider(new MockProvider([]));
+    setUpFormula("y = x!", "x", 3);
+
+    await vi.waitFor(() => {
+      expect(computationStore.formulaError).toContain("No mock fixture");
+    });
+  });
+});
+
+describe("evaluateWith", () => {
+  it("evaluates locally compiled formulas for each set of inputs", async () => {
+    setUpFormula("y = 2x", "x", 1);
+
+    expect(await computationStore.evaluateWith([{ x: 3 }, { x: -4 }])).toEqual([
+      { y: 6 },
+      { y: -8 },
+    ]);
+    // The variables keep their values
+    expect(computationStore.variables.get("x")?.value).toBe(1);
+  });
+
+  it("evaluates generated code for each set of inputs", async () => {
+    computationStore.setFunctionGenerationProvider(
+      new MockProvider(MOCK_FIXTURES)
+    );
+    setUpFormula("y = \\sum_{i=1}^{n} i", "n", 4);
+    await waitForCode();
+
+    expect(
+      await computationStore.evaluateWith([{ n: 3 }, { n: 5 }, {}])
+    ).toEqual([{ y: 6 }, { y: 15 }, { y: 10 }]);
+  });
+});
@@ -1,17 +1,52 @@
 import { observable, action, computed } from "mobx";
 
+import { UnsupportedFormulaError, compileFormula } from "./evaluation";
+import { functionCache, functionCacheKey } from "./functionCache";
+import { FunctionGenerationProvider, FunctionGenerationRequest } from "../interactive-math/src/api/FunctionGenerationProvider";
+import { Sandbox, SandboxTimeoutError } from "../interactive-math/src/computation/Sandbox";
+import { formatDimension } from "../interactive-math/src/core/Units";
+import { createFunctionGenerationProvider } from "./functionGenerationProvider";
+import { UnitAnalysis, analyzeUnits, unitScale } from "./units";
+import { VerificationReport, verifyGeneratedCode } from "./verification";
+
+// How many times to ask the LLM for code that passes verification
+const MAX_GENERATION_ATTEMPTS = 3;
+
+// Changes made to one input at a time to find which dependent variables it
+// affects. Two, so that e.g. x² isn't missed when x + 1 only flips its sign.
+const PROBE_CHANGES = [(value: number) => value + 1, (value: number) => value * 1.5 + 1];
+
+type EvaluationFunction = (
+    variables: Record<string, number>
+) => Record<string, number> | Promise<Record<string, number>>;
+
 export type VariableType = 'fixed' | 'slidable' | 'dependent' | 'none';
 
+// Slider settings for variables that don't have their own
+export const DEFAULT_MIN = -100;
+export const DEFAULT_MAX = 100;
+export const DEFAULT_STEP = 0.5;
+export const DEFAULT_PRECISION = 1;
+
 export type VariableState = {
     value: number;
     symbol: string;
     type: VariableType;
     min?: number;
     max?: number;
+    // How much the value changes per pixel of dragging, and what it snaps to
+    step?: number;
+    // Number of decimals shown
+    precision?: number;
+    unit?: string;
     dependencies?: Set<string>;
     error?: string;
   };
 
+export type VariableSettings = Pick<
+    VariableState, 'min' | 'max' | 'step' | 'precision' | 'unit'
+>;
+
 class ComputationStore {
     @observable 
     accessor variables = new Map<string, {
@@ -20,6 +55,11 @@ class ComputationStore {
         type: VariableType;
         min?: number;
         max?: number;
+        // How much the value changes per pixel of dragging, and what it snaps to
+        step?: number;
+        // Number of decimals shown
+        precision?: number;
+        unit?: string;
         dependencies?: Set<string>;
         error?: string;
     }>();
@@ -34,16 +74,53 @@ class ComputationStore {
     @observable
     accessor lastGeneratedCode: string | null = null;
 
-    private evaluationFunction: Function | null = null;
+    @observable
+    accessor generatedCodeFromCache = false;
+
+    @observable
+    accessor verificationReport: VerificationReport | null = null;
+
+    // Code edited by the user, which replaces the generated code until
+    // reverted, even if the formula changes
+    @observable
+    accessor customCode: string | null = null;
+
+    // The formula when the custom code was pinned
+    @observable
+    accessor customCodeFormula: string | null = null;
+
+    private evaluationFunction: EvaluationFunction | null = null;
+    // Generated code from the LLM runs in a worker rather than on the page
+    private sandbox: Sandbox | null = null;
+    // Incremented on each evaluation so that stale sandbox results are dropped
+    private evaluationCount = 0;
     private isUpdatingDependents = false;
+    private provider: FunctionGenerationProvider = createFunctionGenerationProvider();
+    // Cache entry for the current LLM generated code, if any
+    private cacheKey: string | null = null;
     private dependentVariableTypes = new Set<string>();
 
     @observable
     accessor variableTypesChanged = 0;
 
+    // Incremented whenever a new evaluation function is installed, so that
+    // views evaluating it themselves know to update
+    @observable
+    accessor evaluationFunctionVersion = 0;
+
+    setFunctionGenerationProvider(provider: FunctionGenerationProvider) {
+        this.provider = provider;
+    }
+
     @action
-    setLastGeneratedCode(code: string | null) {
+    setLastGeneratedCode(
+        code: string | null,
+        fromCache = false,
+        verificationReport: VerificationReport | null = null
+    ) {
         this.lastGeneratedCode = code;
+        this.generatedCodeFromCache = fromCache;
+        this.verificationReport = verificationReport;
     }
 
     @action
@@ -105,25 +182,44 @@ class ComputationStore {
             this.evaluationFunction = null;
         }
         
+        if (this.customCode !== null) {
+            if (!this.evaluationFunction) {
+                this.installSandboxedCode(this.customCode);
+            }
+        }
         // Only regenerate the evaluation function if there are dependent variables 
         // AND either:
         // 1. We don't have an evaluation function yet, or
         // 2. The formula has changed
-        if (this.dependentVariableTypes.size > 0 && 
+        else if (this.dependentVariableTypes.size > 0 && 
             (!this.evaluationFunction || formula !== this.formula)) {
             try {
                 const dependentVars = Array.from(this.dependentVariableTypes)
                     .map(id => this.variables.get(id)?.symbol)
                     .filter((symbol): symbol is string => symbol !== undefined);
 
-                // Generate and set up evaluation function
-                const functionCode = await this.generateEvaluationFunction(formula, dependentVars);
-                this.setLastGeneratedCode(functionCode);
-                
-                this.evaluationFunction = new Function(
-                    'variables',
-                    `"use strict";\n${functionCode}\nreturn evaluate(variables);`
-                );
+                // Prefer the local evaluator, only asking the LLM for
+                // constructs it can't handle
+                const compiled = this.compileLocally(formula, dependentVars);
+                this.sandbox?.dispose();
+                this.sandbox = null;
+                this.cacheKey = null;
+                if (compiled) {
+                    this.setLastGeneratedCode(compiled.code);
+                    this.setEvaluationFunction(compiled.evaluate, compiled.dependencies);
+                } else {
+                    // Generate and set up evaluation function, reusing code
+                    // generated for the same formula and variable roles before
+                    const inputVars = Array.from(this.variables.values())
+                        .filter(v => v.type !== 'dependent')
+                        .map(v => v.symbol);
+                    const cacheKey = functionCacheKey(formula, inputVars, dependentVars);
+                    const { functionCode, fromCache, report } =
+                        await this.generateVerifiedFunction(formula, dependentVars, cacheKey);
+                    this.cacheKey = cacheKey;
+                    this.setLastGeneratedCode(functionCode, fromCache, report);
+                    this.installSandboxedCode(functionCode);
+                }
                 
                 this.setFormulaError(null);
             } catch (error) {
@@ -138,7 +234,244 @@ class ComputationStore {
         }
     }
 
-    private async generateEvaluationFunction(formula: string, dependentVars: string[]): Promise<string> {
+    // The inputs each dependent variable depends on come from the formula
+    // when it's compiled locally, and are otherwise found from the code
+    @action
+    private setEvaluationFunction(
+        evaluationFunction: EvaluationFunction,
+        dependencies?: Record<string, string[]>
+    ) {
+        this.evaluationFunction = evaluationFunction;
+        this.evaluationFunctionVersion++;
+        if (dependencies) {
+            this.setDependencies(dependencies);
+        } else {
+            this.probeDependencies();
+        }
+    }
+
+    // Takes the inputs of each dependent variable by symbol, and stores them
+    // by id
+    @action
+    private setDependencies(dependencies: Record<string, string[]>) {
+        const ids = new Map(
+            Array.from(this.variables.entries()).map(([id, v]) => [v.symbol, id])
+        );
+        for (const variable of this.variables.values()) {
+            variable.dependencies = variable.type === 'dependent'
+                ? new Set((dependencies[variable.symbol] ?? [])
+                    .flatMap(symbol => ids.has(symbol) ? [ids.get(symbol)!] : []))
+                : undefined;
+        }
+    }
+
+    // Finds the inputs of each dependent variable by changing one input at a
+    // time and seeing which results change
+    private async probeDependencies() {
+        const evaluationFunction = this.evaluationFunction;
+        if (!evaluationFunction) return;
+
+        const inputs = this.evaluationInputs();
+        const variables = Array.from(this.variables.values());
+        const dependents = variables.filter(v => v.type === 'dependent').map(v => v.symbol);
+        const dependencies: Record<string, string[]> = Object.fromEntries(
+            dependents.map(symbol => [symbol, []])
+        );
+        try {
+            const base = await evaluationFunction(inputs);
+            for (const { symbol } of variables.filter(v => v.type !== 'dependent')) {
+                const probes = await Promise.all(PROBE_CHANGES.map(change =>
+                    evaluationFunction({ ...inputs, [symbol]: change(inputs[symbol]) })
+                ));
+                for (const dependent of dependents) {
+                    if (probes.some(results => !Object.is(results[dependent], base[dependent]))) {
+                        dependencies[dependent].push(symbol);
+                    }
+                }
+            }
+        } catch (error) {
+            console.error("Error finding dependencies:", error);
+            return;
+        }
+        // The code changed while probing
+        if (evaluationFunction === this.evaluationFunction) {
+            this.setDependencies(dependencies);
+        }
+    }
+
+    private installSandboxedCode(code: string, sandbox = new Sandbox(code)) {
+        this.sandbox?.dispose();
+        this.sandbox = sandbox;
+        this.setEvaluationFunction((variables) => sandbox.evaluate(variables));
+    }
+
+    // Checks that user-edited code runs and computes every dependent variable
+    // before installing it in place of the generated code. Returns an error
+    // message if it doesn't.
+    async setCustomCode(code: string): Promise<string | null> {
+        if (!code.includes('function evaluate')) {
+            return "Code must define a function named evaluate";
+        }
+        const dependentSymbols = Array.from(this.dependentVariableTypes)
+            .map(id => this.variables.get(id)?.symbol)
+            .filter((symbol): symbol is string => symbol !== undefined);
+        const sandbox = new Sandbox(code);
+        try {
+            const results = await sandbox.evaluate(this.currentValues());
+            const missing = dependentSymbols.filter(symbol => !(symbol in results));
+            if (missing.length > 0) {
+                sandbox.dispose();
+                return `Code doesn't compute ${missing.join(", ")}`;
+            }
+        } catch (error) {
+            sandbox.dispose();
+            return error instanceof Error ? error.message : String(error);
+        }
+
+        this.pinCustomCode(code, sandbox);
+        return null;
+    }
+
+    @action
+    private pinCustomCode(code: string, sandbox: Sandbox) {
+        this.customCode = code;
+        this.customCodeFormula = this.formula;
+        this.installSandboxedCode(code, sandbox);
+        this.updateDependentVariables();
+    }
+
+    @action
+    revertToGeneratedCode() {
+        this.customCode = null;
+        this.customCodeFormula = null;
+        this.sandbox?.dispose();
+        this.sandbox = null;
+        this.evaluationFunction = null;
+        this.setFormula(this.formula);
+    }
+
+    // Drops the cached code for the current formula and asks the LLM again
+    @action
+    regenerateFunction() {
+        if (this.cacheKey) {
+            functionCache.delete(this.cacheKey);
+        }
+        this.evaluationFunction = null;
+        this.setFormula(this.formula);
+    }
+
+    // Forgets the generated code for every formula, so that each is generated
+    // again the next time it's needed. The current code stays in use.
+    clearFunctionCache() {
+        functionCache.clear();
+    }
+
+    // Replaces the whole state, e.g. when opening a document. Saved code is
+    // reused as is rather than generated again.
+    @action
+    restoreState({ formula, variables, generatedCode, customCode }: {
+        formula: string;
+        variables: Map<string, VariableState>;
+        generatedCode: string | null;
+        customCode: { code: string; formula: string } | null;
+    }) {
+        this.sandbox?.dispose();
+        this.sandbox = null;
+        this.evaluationFunction = null;
+        this.cacheKey = null;
+        this.formula = formula;
+        this.variables = variables;
+        this.dependentVariableTypes = new Set(
+            Array.from(variables.entries())
+                .filter(([_, variable]) => variable.type === 'dependent')
+                .map(([id]) => id)
+        );
+        this.customCode = customCode?.code ?? null;
+        this.customCodeFormula = customCode?.formula ?? null;
+        this.setLastGeneratedCode(generatedCode);
+        this.setFormulaError(null);
+        this.variableTypesChanged++;
+
+        if (this.customCode !== null) {
+            this.installSandboxedCode(this.customCode);
+        } else if (this.dependentVariableTypes.size > 0) {
+            if (generatedCode === null) {
+                // Saved before the code was ready
+                this.setFormula(formula);
+                return;
+            }
+            const dependentVars = Array.from(this.dependentVariableTypes)
+                .map(id => variables.get(id)!.symbol);
+            const compiled = this.compileLocally(formula, dependentVars);
+            if (compiled && compiled.code === generatedCode) {
+                this.setEvaluationFunction(compiled.evaluate, compiled.dependencies);
+            } else {
+                this.installSandboxedCode(generatedCode);
+            }
+        }
+        if (this.dependentVariableTypes.size > 0) {
+            this.updateDependentVariables();
+        }
+    }
+
+    private compileLocally(formula: string, dependentVars: string[]) {
+        // Dependents that can't be isolated are solved for numerically within
+        // their slider range, if they have one. Evaluation is in SI units.
+        const ranges: Record<string, [number, number]> = {};
+        this.variables.forEach((variable) => {
+            if (variable.min !== undefined && variable.max !== undefined) {
+                const scale = unitScale(variable.unit);
+                ranges[variable.symbol] = [variable.min * scale, variable.max * scale];
+            }
+        });
+        try {
+            return compileFormula(formula, dependentVars, ranges);
+        } catch (error) {
+            if (error instanceof UnsupportedFormulaError) {
+                console.warn("⚠️ Local evaluator can't handle formula, falling back to LLM:", error.message);
+                return null;
+            }
+            throw error;
+        }
+    }
+
+    // Checks generated code against the formula at sampled points, asking the
+    // LLM again with the failing cases when it doesn't match. Cached code is
+    // only reused if it still passes.
+    private async generateVerifiedFunction(formula: string, dependentVars: string[], cacheKey: string) {
+        const inputs = Array.from(this.variables.values())
+            .filter(v => v.type !== 'dependent')
+            .map(({ symbol, value, min, max }) => ({ symbol, value, min, max }));
+
+        const cachedCode = functionCache.get(cacheKey);
+        if (cachedCode !== null) {
+            const report = await verifyGeneratedCode(cachedCode, formula, inputs, dependentVars);
+            if (report.status !== 'failed') {
+                return { functionCode: cachedCode, fromCache: true, report };
+            }
+            functionCache.delete(cacheKey);
+        }
+
+        let feedback: FunctionGenerationRequest['feedback'];
+        for (let attempt = 1; ; attempt++) {
+            const functionCode = await this.generateEvaluationFunction(formula, dependentVars, feedback);
+            const report = await verifyGeneratedCode(functionCode, formula, inputs, dependentVars);
+            if (report.status !== 'failed') {
+                functionCache.set(cacheKey, functionCode);
+            }
+            if (report.status !== 'failed' || attempt === MAX_GENERATION_ATTEMPTS) {
+                return { functionCode, fromCache: false, report };
+            }
+            console.warn(`⚠️ Generated code failed verification (attempt ${attempt}), retrying`);
+            feedback = { code: functionCode, failures: report.cases.filter(c => !c.passed) };
+        }
+    }
+
+    private async generateEvaluationFunction(
+        formula: string,
+        dependentVars: string[],
+        feedback?: FunctionGenerationRequest['feedback']
+    ): Promise<string> {
         // Get all non-dependent variables and their current values
         const inputVars = Array.from(this.variables.entries())
             .filter(([_, v]) => v.type !== 'dependent')
@@ -150,67 +483,13 @@ class ComputationStore {
             inputVars
         });
     
-        const apiKey = import.meta.env.VITE_OPENAI_API_KEY;
-    
         try {
-            const response = await fetch('https://api.openai.com/v1/chat/completions', {
-                method: 'POST',
-                headers: {
-                    'Content-Type': 'application/json',
-                    'Authorization': `Bearer ${apiKey}`
-                },
-                body: JSON.stringify({
-                    model: "gpt-4",
-                    messages: [{
-                        role: "system",
-                        content: `You are a precise code generator that creates JavaScript functions to evaluate mathematical formulas. 
-                                 Return ONLY the function code without any explanation or markdown.`
-                    }, {
-                        role: "user",
-                        content: `
-                            Create a JavaScript function that evaluates this formula: ${formula}
-                            Input variables: ${inputVars.join(', ')}
-                            Dependent variables to calculate: ${dependentVars.join(', ')}
-                            
-                            Requirements:
-                            1. Function must be named 'evaluate'
-                            2. Takes a single parameter 'variables' containing input variable values as numbers
-                            3. Must use ONLY the specified input variables
-                            4. Returns object with computed values for dependent variables
-                            5. Must handle division by zero and invalid operations
-                            6. Return ONLY the function code
-                            
-                            Input Formula: ${formula}
-                            Parse this formula and create a corresponding JavaScript function.
-                            DO NOT use the example format below - it's just to show the structure.
-                            Example structure (NOT the formula to implement):
-                            function evaluate(variables) {
-                              try {
-                                return {
-                                  output: someCalculation
-                                };
-                              } catch (error) {
-                                return {
-                                  output: NaN
-                                };
-                              }
-                            }
-                        `
-                    }],
-                    temperature: 0.1
-                })
+            const generatedCode = await this.provider.generateCode({
+                formula,
+                inputVars,
+                outputVars: dependentVars,
+                feedback
             });
-    
-            if (!response.ok) {
-                const errorData = await response.json();
-                console.error("🔴 OpenAI API error:", errorData);
-                throw new Error(`API error: ${errorData.error?.message || 'Unknown error'}`);
-            }
-    
-            const result = await response.json();
-            console.log("🔵 OpenAI API response:", result);
-    
-            const generatedCode = result.choices[0].message.content.trim();
             
             // Validate the code
             if (!generatedCode.includes('function evaluate')) {
@@ -218,19 +497,14 @@ class ComputationStore {
                 throw new Error("Generated code does not contain evaluate function");
             }
     
-            // Validate all input vars are used
-            for (const inputVar of inputVars) {
-                if (!generatedCode.includes(`variables.${inputVar}`)) {
-                    console.warn(`⚠️ Generated code not using input variable: ${inputVar}`);
-                }
-            }
-    
-            // Validate all dependent vars are calculated
-            for (const depVar of dependentVars) {
-                if (!generatedCode.includes(`${depVar}:`)) {
-                    console.error(`🔴 Generated code missing dependent variable: ${depVar}`);
-                    throw new Error(`Generated code missing dependent variable: ${depVar}`);
-                }
+            // Validate all dependent vars are calculated, by running the code
+            // since it can read and write variables however it likes, e.g.
+            // variables["x_1"]. Code that throws is left to the verification,
+            // which asks the LLM again with the error.
+            const missing = await this.findMissingResults(generatedCode, dependentVars);
+            if (missing.length > 0) {
+                console.error(`🔴 Generated code missing dependent variables: ${missing.join(", ")}`);
+                throw new Error(`Generated code missing dependent variables: ${missing.join(", ")}`);
             }
     
             return generatedCode;
@@ -241,6 +515,26 @@ class ComputationStore {
         }
     }
 
+    // The dependent variables that code doesn't compute when run with the
+    // current values, or none if it throws
+    private async findMissingResults(code: string, dependentSymbols: string[]) {
+        const sandbox = new Sandbox(code);
+        try {
+            const results = await sandbox.evaluate(this.currentValues());
+            return dependentSymbols.filter(symbol => !(symbol in results));
+        } catch (error) {
+            return [];
+        } finally {
+            sandbox.dispose();
+        }
+    }
+
+    private currentValues() {
+        return Object.fromEntries(
+            Array.from(this.variables.values()).map(v => [v.symbol, v.value])
+        );
+    }
+
     @action
     addVariable(id: string, symbol: string) {
         if (!this.variables.has(id)) {
@@ -255,8 +549,10 @@ class ComputationStore {
         }
     }
 
+    // `currentVariables` are the symbols found in `formula`, which defaults to
+    // the formula that's already set
     @action
-    cleanup(currentVariables: Set<string>) {
+    cleanup(currentVariables: Set<string>, formula: string = this.formula) {
         console.log("🔵 Cleaning up variables. Current:", Array.from(currentVariables));
         
         const variablesToRemove = new Set<string>();
@@ -286,13 +582,48 @@ class ComputationStore {
             }
         }
 
-        // Only set formula if dependent variables were affected
-        if (dependentVariablesChanged && this.formula) {
+        // Only set formula if it or the dependent variables were affected
+        if (formula !== this.formula) {
+            this.setFormula(formula);
+        } else if (dependentVariablesChanged && this.formula) {
             console.log("🔵 Dependent variables changed during cleanup, updating formula");
             this.setFormula(this.formula);
         }
     }
 
+    // Settings left out are unchanged. Values outside a new range are
+    // clamped to it.
+    @action
+    setVariableSettings(id: string, settings: VariableSettings) {
+        const variable = this.variables.get(id);
+        if (!variable) return;
+
+        const rangeChanged =
+            ('min' in settings && settings.min !== variable.min) ||
+            ('max' in settings && settings.max !== variable.max);
+        const unitChanged = 'unit' in settings && settings.unit !== variable.unit;
+        Object.assign(variable, settings);
+
+        if (variable.type !== 'dependent') {
+            const value = Math.min(
+                variable.max ?? Infinity,
+                Math.max(variable.min ?? -Infinity, variable.value)
+            );
+            if (value !== variable.value) {
+                this.setValue(id, value);
+            } else if (unitChanged) {
+                this.updateDependentVariables();
+            }
+        } else if ((rangeChanged || unitChanged) && this.customCode === null) {
+            // Dependents that are solved for numerically are searched for
+            // within their range, which depends on their unit
+            this.evaluationFunction = null;
+            this.setFormula(this.formula);
+        } else if (unitChanged) {
+            this.updateDependentVariables();
+        }
+    }
+
     @action
     setVariableType(id: string, type: VariableType) {
         const variable = this.variables.get(id);
@@ -303,20 +634,24 @@ class ComputationStore {
         variable.error = undefined;
 
         if (type === 'slidable') {
-            variable.min = -100;
-            variable.max = 100;
+            variable.min ??= DEFAULT_MIN;
+            variable.max ??= DEFAULT_MAX;
         }
 
-        // Handle dependent variable updates
+        // Handle dependent variable updates. The existing evaluation function
+        // only computes the old set of dependents, so it has to be rebuilt.
         if (type === 'dependent') {
             this.dependentVariableTypes.add(id);
             if (!wasDependentBefore) {
+                this.evaluationFunction = null;
                 this.setFormula(this.formula);
             }
         } else {
+            variable.dependencies = undefined;
             if (wasDependentBefore) {
                 this.dependentVariableTypes.delete(id);
                 if (this.dependentVariableTypes.size > 0) {
+                    this.evaluationFunction = null;
                     this.setFormula(this.formula);
                 } else {
                     this.evaluationFunction = null;
@@ -355,45 +690,116 @@ class ComputationStore {
     //     }
     // }
 
-    @action
     private updateDependentVariables() {
         if (!this.formula || !this.evaluationFunction) return;
 
+        const evaluation = ++this.evaluationCount;
+        const values = this.evaluationInputs();
         try {
-            this.isUpdatingDependents = true;
-            const values = Object.fromEntries(
-            Array.from(this.variables.entries())
-                .map(([_, v]) => [v.symbol, v.value])
-            );
             const results = this.evaluationFunction(values);
-            
+            if (results instanceof Promise) {
+                results.then(
+                    (results) => evaluation === this.evaluationCount && this.applyResults(results),
+                    (error) => evaluation === this.evaluationCount && this.applyEvaluationError(error)
+                );
+            } else {
+                this.applyResults(results);
+            }
+        } catch (error) {
+            this.applyEvaluationError(error);
+        }
+    }
+
+    // Values by symbol for the evaluation function, converted to SI units.
+    // Results are converted back to the dependent variables' units.
+    private evaluationInputs(overrides: Record<string, number> = {}) {
+        return Object.fromEntries(
+            Array.from(this.variables.entries())
+                .map(([id, v]) => [v.symbol, (overrides[id] ?? v.value) * unitScale(v.unit)])
+        );
+    }
+
+    // Computes the dependent variables for each set of overrides of the other
+    // variables, without changing any state, e.g. to plot them. Both are
+    // keyed by variable id. Returns null if there's nothing to evaluate yet.
+    async evaluateWith(
+        overrides: Record<string, number>[]
+    ): Promise<Record<string, number>[] | null> {
+        const evaluationFunction = this.evaluationFunction;
+        if (!evaluationFunction) return null;
+        const inputs = overrides.map(values => this.evaluationInputs(values));
+        // Sandboxed code gets every set in one call, so that the slider
+        // evaluations queued behind it only wait for that call
+        const results = this.sandbox
+            ? await this.sandbox.evaluateMany(inputs)
+            : await Promise.all(inputs.map(values => evaluationFunction(values)));
+        const dependents = Array.from(this.variables.entries())
+            .filter(([_, v]) => v.type === 'dependent');
+        return results.map(result => Object.fromEntries(
+            dependents.map(([id, v]) => [id, result[v.symbol] / unitScale(v.unit)])
+        ));
+    }
+
+    @action
+    private applyResults(results: Record<string, number>) {
+        try {
+            this.isUpdatingDependents = true;
             for (const [id, variable] of this.variables.entries()) {
             if (variable.type === 'dependent') {
                 const result = results[variable.symbol];
                 if (typeof result === 'number' && !isNaN(result)) {
-                this.updateVariableValue(id, result);
+                this.updateVariableValue(id, result / unitScale(variable.unit));
                 } else {
                 variable.error = "Invalid computation result";
                 }
             }
             }
-        } catch (error) {
-            console.error("Error updating dependent variables:", error);
-            for (const [id, variable] of this.variables.entries()) {
-            if (variable.type === 'dependent') {
-                variable.error = "Evaluation error";
-            }
-            }
         } finally {
             this.isUpdatingDependents = false;
         }
     }
 
+    @action
+    private applyEvaluationError(error: unknown) {
+        console.error("Error updating dependent variables:", error);
+        for (const variable of this.variables.values()) {
+            if (variable.type === 'dependent') {
+                variable.error = error instanceof SandboxTimeoutError
+                    ? "Evaluation timed out"
+                    : "Evaluation error";
+            }
+        }
+    }
+
     @computed
     get hasInteractiveVariables() {
         return Array.from(this.variables.values()).some(v => v.type !== 'none');
     }
 
+    // Units derived for dependent variables, and problems with the units
+    // of the formula such as `E = mc` with E in J
+    @computed
+    get unitAnalysis(): UnitAnalysis {
+        return analyzeUnits(
+            this.formula,
+            Array.from(this.variables.values()).map(({ symbol, unit, type }) => ({
+                symbol,
+                unit,
+                dependent: type === 'dependent',
+            }))
+        );
+    }
+
+    // The unit a variable's value is shown in: its own or, for dependents
+    // without one, the SI unit derived from the formula
+    displayUnit(id: string): string | undefined {
+        const variable = this.variables.get(id);
+        if (!variable) return undefined;
+        if (variable.unit) return variable.unit;
+        const dimension = this.unitAnalysis.derived.get(variable.symbol);
+        return dimension ? formatDimension(dimension) || undefined : undefined;
+    }
+
     @computed
     get hasErrors(): boolean {
         return !!this.formulaError || 
@@ -0,0 +1,153 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+
+import {
+  DOCUMENT_VERSION,
+  DocumentFormatError,
+  FormulaDocument,
+  createDocument,
+  documentStore,
+  loadDocument,
+  parseDocument,
+  serializeDocument,
+} from "./document";
+
+// Rendering formulas in the workspace takes the page's MathJax, so here the
+// workspace only keeps the formulas it's given
+vi.mock("./store", () => ({
+  workspaceStore: {
+    latexesWithStyling: [] as string[],
+    load(latexes: string[]) {
+      this.latexesWithStyling = latexes;
+    },
+  },
+}));
+
+const DOCUMENT: FormulaDocument = {
+  format: "formula-editor",
+  version: DOCUMENT_VERSION,
+  formulas: ["y = \\textcolor{red}{m}x + b", "z = 2y"],
+  variables: {
+    m: { symbol: "m", type: "slidable", value: 2, min: 0, max: 10, step: 1 },
+    x: { symbol: "x", type: "fixed", value: 3, precision: 2, unit: "m" },
+    b: { symbol: "b", type: "fixed", value: 1 },
+    y: { symbol: "y", type: "dependent", value: 7 },
+    z: { symbol: "z", type: "dependent", value: 14 },
+  },
+  generatedCode: null,
+  customCode: {
+    code: "function evaluate(variables) { return { y: 1, z: 2 }; }",
+    formula: "y = mx + b",
+  },
+};
+
+const text = (data: object) => JSON.stringify(data);
+
+beforeEach(() => {
+  localStorage.clear();
+  documentStore.setNotice(null);
+  vi.spyOn(console, "log").mockImplementation(() => {});
+  vi.spyOn(console, "error").mockImplementation(() => {});
+});
+
+describe("parseDocument", () => {
+  it("reads serialized documents back", () => {
+    expect(parseDocument(serializeDocument(DOCUMENT))).toEqual(DOCUMENT);
+  });
+
+  it("reads the single formula of version 1 documents", () => {
+    const { formulas, version } = parseDocument(
+      text({
+        format: "formula-editor",
+        version: 1,
+        latex: "y = 2x",
+        variables: {},
+        generatedCode: null,
+        customCode: null,
+      })
+    );
+    expect(formulas).toEqual(["y = 2x"]);
+    expect(version).toBe(1);
+  });
+
+  it("keeps the version of newer documents, ignoring what it doesn't know", () => {
+    const document = parseDocument(
+      text({ ...DOCUMENT, version: DOCUMENT_VERSION + 1, layout: "grid" })
+    );
+    expect(document.version).toBe(DOCUMENT_VERSION + 1);
+    expect(document).not.toHaveProperty("layout");
+    expect(document.formulas).toEqual(DOCUMENT.formulas);
+  });
+
+  it.each([
+    ["not JSON", "{", "The file isn't valid JSON"],
+    [
+      "another format",
+      text({ ...DOCUMENT, format: "other" }),
+      "The file isn't a formula document",
+    ],
+    [
+      "no formulas",
+      text({ ...DOCUMENT, formulas: "y = x" }),
+      "The document is missing required fields",
+    ],
+    [
+      "an invalid variable type",
+      text({
+        ...DOCUMENT,
+        variables: { x: { symbol: "x", type: "input", value: 1 } },
+      }),
+      "Invalid variable x",
+    ],
+    [
+      "a variable without a value",
+      text({ ...DOCUMENT, variables: { x: { symbol: "x", type: "fixed" } } }),
+      "Invalid variable x",
+    ],
+    [
+      "a unit that isn't a string",
+      text({
+        ...DOCUMENT,
+        variables: { x: { symbol: "x", type: "fixed", value: 1, unit: 2 } },
+      }),
+      "Invalid variable x",
+    ],
+  ])("rejects %s", (_, document, message) => {
+    expect(() => parseDocument(document)).toThrow(
+      new DocumentFormatError(message)
+    );
+  });
+});
+
+describe("loadDocument", () => {
+  it("restores the workspace that createDocument saves", () => {
+    loadDocument(DOCUMENT);
+    expect(createDocument()).toEqual(DOCUMENT);
+  });
+});
+
+describe("documentStore", () => {
+  it("restores the autosaved document", () => {
+    localStorage.setItem(
+      "formula-editor:autosave",
+      serializeDocument(DOCUMENT)
+    );
+    expect(documentStore.restoreAutosave()).toBe(true);
+    expect(createDocument()).toEqual(DOCUMENT);
+    expect(documentStore.notice).toBeNull();
+  });
+
+  it("warns about an autosaved document from a newer version", () => {
+    localStorage.setItem(
+      "formula-editor:autosave",
+      serializeDocument({ ...DOCUMENT, version: DOCUMENT_VERSION + 1 })
+    );
+    expect(documentStore.restoreAutosave()).toBe(true);
+    expect(documentStore.notice?.type).toBe("warning");
+  });
+
+  it("ignores a damaged autosave", () => {
+    vi.spyOn(console, "warn").mockImplementation(() => {});
+    localStorage.setItem("formula-editor:autosave", "{");
+    expect(documentStore.restoreAutosave()).toBe(false);
+  });
+});
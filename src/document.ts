@@ -0,0 +1,401 @@
+import { action, observable, reaction } from "mobx";
+
+import { deriveAugmentedFormula } from "./FormulaTree";
+import { VariableType, computationStore } from "./computation";
+import { joinFormulas } from "./evaluation";
+import { workspaceStore } from "./store";
+
+declare global {
+  interface Window {
+    // File System Access API, which isn't available in every browser
+    showOpenFilePicker?: (options?: {
+      types?: FilePickerType[];
+    }) => Promise<FileSystemFileHandle[]>;
+    showSaveFilePicker?: (options?: {
+      suggestedName?: string;
+      types?: FilePickerType[];
+    }) => Promise<FileSystemFileHandle>;
+  }
+}
+
+type FilePickerType = {
+  description: string;
+  accept: Record<string, string[]>;
+};
+
+const DOCUMENT_FORMAT = "formula-editor";
+// Version 2 replaced the single `latex` formula with `formulas`
+export const DOCUMENT_VERSION = 2;
+const FILE_EXTENSION = ".formula.json";
+const FILE_TYPES: FilePickerType[] = [
+  {
+    description: "Formula document",
+    accept: { "application/json": [FILE_EXTENSION, ".json"] },
+  },
+];
+const AUTOSAVE_KEY = "formula-editor:autosave";
+const AUTOSAVE_DELAY = 1000;
+
+export type DocumentVariable = {
+  symbol: string;
+  type: VariableType;
+  value: number;
+  min?: number;
+  max?: number;
+  step?: number;
+  precision?: number;
+  unit?: string;
+};
+
+export type FormulaDocument = {
+  format: typeof DOCUMENT_FORMAT;
+  version: number;
+  // The formulas of the workspace including their styling
+  formulas: string[];
+  // Keyed by variable id
+  variables: Record<string, DocumentVariable>;
+  generatedCode: string | null;
+  // Evaluation code edited by the user, and the formula it was written for
+  customCode: { code: string; formula: string } | null;
+};
+
+export class DocumentFormatError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "DocumentFormatError";
+  }
+}
+
+const VARIABLE_TYPES: VariableType[] = [
+  "fixed",
+  "slidable",
+  "dependent",
+  "none",
+];
+
+const isOptional = (value: unknown, type: "number" | "string") =>
+  value === undefined || typeof value === type;
+
+const parseVariable = (id: string, value: unknown): DocumentVariable => {
+  const variable = value as Partial<DocumentVariable> | null;
+  if (
+    typeof variable !== "object" ||
+    variable === null ||
+    typeof variable.symbol !== "string" ||
+    !VARIABLE_TYPES.includes(variable.type as VariableType) ||
+    typeof variable.value !== "number" ||
+    !isOptional(variable.min, "number") ||
+    !isOptional(variable.max, "number") ||
+    !isOptional(variable.step, "number") ||
+    !isOptional(variable.precision, "number") ||
+    !isOptional(variable.unit, "string")
+  ) {
+    throw new DocumentFormatError(`Invalid variable ${id}`);
+  }
+  const { symbol, type, min, max, step, precision, unit } =
+    variable as DocumentVariable;
+  return {
+    symbol,
+    type,
+    value: variable.value,
+    min,
+    max,
+    step,
+    precision,
+    unit,
+  };
+};
+
+/**
+ * Parses and validates a document, e.g. from a file the user opened. Documents
+ * from newer versions are read as far as this version understands them, and
+ * keep their version number so that callers can warn about it.
+ */
+export const parseDocument = (text: string): FormulaDocument => {
+  let data;
+  try {
+    data = JSON.parse(text);
+  } catch (error) {
+    throw new DocumentFormatError("The file isn't valid JSON");
+  }
+  if (data?.format !== DOCUMENT_FORMAT || typeof data.version !== "number") {
+    throw new DocumentFormatError("The file isn't a formula document");
+  }
+  // Version 1 documents have a single formula
+  const formulas =
+    typeof data.latex === "string" ? [data.latex] : data.formulas;
+  if (
+    !Array.isArray(formulas) ||
+    !formulas.every((latex) => typeof latex === "string") ||
+    typeof data.variables !== "object" ||
+    data.variables === null ||
+    !(data.generatedCode === null || typeof data.generatedCode === "string") ||
+    !(
+      data.customCode === null ||
+      (typeof data.customCode?.code === "string" &&
+        typeof data.customCode?.formula === "string")
+    )
+  ) {
+    throw new DocumentFormatError("The document is missing required fields");
+  }
+
+  return {
+    format: DOCUMENT_FORMAT,
+    version: data.version,
+    formulas,
+    variables: Object.fromEntries(
+      Object.entries(data.variables).map(([id, variable]) => [
+        id,
+        parseVariable(id, variable),
+      ])
+    ),
+    generatedCode: data.generatedCode,
+    customCode: data.customCode,
+  };
+};
+
+/**
+ * Snapshot of the current workspace
+ */
+export const createDocument = (): FormulaDocument => ({
+  format: DOCUMENT_FORMAT,
+  version: DOCUMENT_VERSION,
+  formulas: workspaceStore.latexesWithStyling,
+  variables: Object.fromEntries(
+    Array.from(computationStore.variables.entries()).map(
+      ([id, { symbol, type, value, min, max, step, precision, unit }]) => [
+        id,
+        { symbol, type, value, min, max, step, precision, unit },
+      ]
+    )
+  ),
+  generatedCode: computationStore.lastGeneratedCode,
+  customCode:
+    computationStore.customCode !== null
+      ? {
+          code: computationStore.customCode,
+          formula: computationStore.customCodeFormula ?? "",
+        }
+      : null,
+});
+
+export const serializeDocument = (document: FormulaDocument) =>
+  JSON.stringify(document, null, 2);
+
+/**
+ * Replaces the workspace with a document. Each loaded formula becomes the
+ * first undo checkpoint of its history.
+ */
+export const loadDocument = (document: FormulaDocument) => {
+  // The computation state goes first so that the formula change doesn't
+  // clean up or regenerate anything for the previous variables
+  computationStore.restoreState({
+    formula: joinFormulas(
+      document.formulas.map((latex) =>
+        deriveAugmentedFormula(latex).toLatex("content-only")
+      )
+    ),
+    variables: new Map(
+      Object.entries(document.variables).map(([id, variable]) => [
+        id,
+        { ...variable },
+      ])
+    ),
+    generatedCode: document.generatedCode,
+    customCode: document.customCode,
+  });
+  workspaceStore.load(document.formulas);
+};
+
+// Fallback for browsers without the File System Access API
+const pickFile = () =>
+  new Promise<File | null>((resolve) => {
+    const input = document.createElement("input");
+    input.type = "file";
+    input.accept = `${FILE_EXTENSION},.json,application/json`;
+    input.addEventListener("change", () => resolve(input.files?.[0] ?? null));
+    input.addEventListener("cancel", () => resolve(null));
+    input.click();
+  });
+
+export const downloadFile = (name: string, contents: Blob) => {
+  const url = URL.createObjectURL(contents);
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = name;
+  link.click();
+  URL.revokeObjectURL(url);
+};
+
+const isAbortError = (error: unknown) =>
+  error instanceof DOMException && error.name === "AbortError";
+
+export type DocumentNotice = {
+  type: "error" | "warning" | "info";
+  message: string;
+  // Offered next to the message, e.g. to change how something was done
+  action?: { label: string; run: () => void };
+};
+
+class DocumentStore {
+  // Name of the file the workspace was opened from or last saved to
+  @observable
+  accessor fileName: string | null = null;
+  // Outcome of the last document operation to show to the user
+  @observable
+  accessor notice: DocumentNotice | null = null;
+
+  private fileHandle: FileSystemFileHandle | null = null;
+
+  @action
+  private setFile(
+    fileName: string | null,
+    fileHandle: FileSystemFileHandle | null
+  ) {
+    this.fileName = fileName;
+    this.fileHandle = fileHandle;
+  }
+
+  @action
+  setNotice(notice: DocumentNotice | null) {
+    this.notice = notice;
+  }
+
+  private setError(message: string) {
+    this.setNotice({ type: "error", message });
+  }
+
+  /**
+   * Loads a document into the workspace, warning if it came from a newer
+   * version of the editor
+   */
+  load(document: FormulaDocument) {
+    loadDocument(document);
+    this.setNotice(
+      document.version > DOCUMENT_VERSION
+        ? {
+            type: "warning",
+            message:
+              "This document was made with a newer version of the editor, so parts of it may be missing",
+          }
+        : null
+    );
+  }
+
+  async open() {
+    try {
+      let file: File | null;
+      let fileHandle: FileSystemFileHandle | null = null;
+      if (window.showOpenFilePicker) {
+        [fileHandle] = await window.showOpenFilePicker({ types: FILE_TYPES });
+        file = await fileHandle.getFile();
+      } else {
+        file = await pickFile();
+      }
+      if (!file) {
+        return;
+      }
+
+      this.load(parseDocument(await file.text()));
+      this.setFile(file.name, fileHandle);
+    } catch (error) {
+      if (isAbortError(error)) {
+        return;
+      }
+      console.error("Error opening document:", error);
+      this.setError(
+        error instanceof DocumentFormatError
+          ? error.message
+          : "The document couldn't be opened"
+      );
+    }
+  }
+
+  /**
+   * Saves to the file the workspace came from, asking for one if there's none
+   */
+  async save() {
+    if (!this.fileHandle) {
+      return this.saveAs();
+    }
+    try {
+      await this.write(this.fileHandle);
+      this.setNotice(null);
+    } catch (error) {
+      console.error("Error saving document:", error);
+      this.setError("The document couldn't be saved");
+    }
+  }
+
+  async saveAs() {
+    const suggestedName = this.fileName ?? `formula${FILE_EXTENSION}`;
+    try {
+      if (window.showSaveFilePicker) {
+        const fileHandle = await window.showSaveFilePicker({
+          suggestedName,
+          types: FILE_TYPES,
+        });
+        await this.write(fileHandle);
+        this.setFile(fileHandle.name, fileHandle);
+      } else {
+        downloadFile(
+          suggestedName,
+          new Blob([serializeDocument(createDocument())], {
+            type: "application/json",
+          })
+        );
+        this.setFile(suggestedName, null);
+      }
+      this.setNotice(null);
+    } catch (error) {
+      if (isAbortError(error)) {
+        return;
+      }
+      console.error("Error saving document:", error);
+      this.setError("The document couldn't be saved");
+    }
+  }
+
+  private async write(fileHandle: FileSystemFileHandle) {
+    const writable = await fileHandle.createWritable();
+    await writable.write(serializeDocument(createDocument()));
+    await writable.close();
+  }
+
+  /**
+   * Loads the workspace saved by autosave, if any. Returns whether it did.
+   */
+  restoreAutosave() {
+    try {
+      const saved = localStorage.getItem(AUTOSAVE_KEY);
+      if (saved === null) {
+        return false;
+      }
+      this.load(parseDocument(saved));
+      return true;
+    } catch (error) {
+      console.warn("🟡 Couldn't restore autosaved document:", error);
+      return false;
+    }
+  }
+
+  /**
+   * Saves the workspace to localStorage shortly after each change. Returns a
+   * function that stops autosaving.
+   */
+  startAutosave() {
+    return reaction(
+      () => serializeDocument(createDocument()),
+      (contents) => {
+        try {
+          localStorage.setItem(AUTOSAVE_KEY, contents);
+        } catch (error) {
+          console.warn("🟡 Couldn't autosave document:", error);
+        }
+      },
+      { delay: AUTOSAVE_DELAY }
+    );
+  }
+}
+
+export const documentStore = new DocumentStore();
@@ -0,0 +1,111 @@
+import { describe, expect, it } from "vitest";
+
+import {
+  DependencyCycleError,
+  UnsupportedFormulaError,
+  compileFormula,
+  joinFormulas,
+  parseEquations,
+} from "./evaluation";
+
+// Runs the generated code the way the editor and exports do
+const runCode = (code: string, variables: Record<string, number>) =>
+  new Function(`${code}\nreturn evaluate;`)()(variables);
+
+describe("compileFormula", () => {
+  it.each([
+    ["y = \\frac{a}{b}", { a: 6, b: 4 }, 1.5],
+    ["y = x^2 + x_1^{3}", { x: 3, x_1: 2 }, 17],
+    ["y = \\sqrt{x} + \\sqrt[3]{z}", { x: 16, z: 27 }, 7],
+    ["y = 2ab(a + b)", { a: 2, b: 3 }, 60],
+    ["y = 2\\pi r", { r: 1 }, 2 * Math.PI],
+    ["y = \\sin x + \\frac{1}{2}x^{2}", { x: 0 }, 0],
+  ])("evaluates %s", (latex, variables, expected) => {
+    const { code, evaluate } = compileFormula(latex, ["y"]);
+    expect(evaluate(variables).y).toBeCloseTo(expected);
+    expect(runCode(code, variables)).toEqual(evaluate(variables));
+  });
+
+  it("reads Greek and subscripted symbols as variables", () => {
+    const { code, evaluate, dependencies } = compileFormula(
+      "y = \\alpha \\beta_2 + x_{ab}",
+      ["y"]
+    );
+    expect(dependencies.y).toEqual(["\\alpha", "\\beta_2", "x_{ab}"]);
+    const variables = { "\\alpha": 2, "\\beta_2": 3, "x_{ab}": 1 };
+    expect(evaluate(variables)).toEqual({ y: 7 });
+    expect(runCode(code, variables)).toEqual({ y: 7 });
+  });
+
+  it("computes dependents from each other in order", () => {
+    const { code, evaluate, dependencies } = compileFormula(
+      joinFormulas(["z = 2y", "y = x + 1"]),
+      ["y", "z"]
+    );
+    expect(dependencies.z).toEqual(["x"]);
+    expect(evaluate({ x: 1 })).toEqual({ y: 2, z: 4 });
+    expect(runCode(code, { x: 1 })).toEqual({ y: 2, z: 4 });
+  });
+
+  it("leaves simultaneous equations to the LLM", () => {
+    const latex =
+      "\\begin{pmatrix} 2 & 1 \\\\ 1 & 3 \\end{pmatrix} \\begin{pmatrix} x_1 \\\\ x_2 \\end{pmatrix} = \\begin{pmatrix} a \\\\ b \\end{pmatrix}";
+    expect(() => compileFormula(latex, ["x_1", "x_2"])).toThrow(
+      DependencyCycleError
+    );
+    expect(new DependencyCycleError([])).toBeInstanceOf(
+      UnsupportedFormulaError
+    );
+  });
+
+  it.each(["y = x!", "y = \\int_0^1 x dx"])("leaves %s to the LLM", (latex) => {
+    expect(() => compileFormula(latex, ["y"])).toThrow(UnsupportedFormulaError);
+  });
+
+  it.each([
+    ["y = -(-x)", "y"],
+    ["-x = -y", "x"],
+  ])("generates code for a double negation in %s", (latex, dependent) => {
+    const { code, evaluate } = compileFormula(latex, [dependent]);
+    const variables = { x: 3, y: 3 };
+    expect(code).not.toContain("--");
+    expect(runCode(code, variables)).toEqual(evaluate({ x: 3, y: 3 }));
+    expect(variables).toEqual({ x: 3, y: 3 });
+  });
+});
+
+describe("decorated symbols", () => {
+  it("are variables of their own", () => {
+    const { evaluate, dependencies } = compileFormula("y = \\mathbf{x} + x", [
+      "y",
+    ]);
+    expect(dependencies.y.sort()).toEqual(["\\mathbf{x}", "x"]);
+    expect(evaluate({ x: 1, "\\mathbf{x}": 2 })).toEqual({ y: 3 });
+  });
+
+  it("keep their decoration with a subscript", () => {
+    const { dependencies } = compileFormula("F = \\bar{x}_1 + \\vec{F}_{net}", [
+      "F",
+    ]);
+    expect(dependencies.F.sort()).toEqual(["\\bar{x}_1", "\\vec{F}_{net}"]);
+  });
+});
+
+describe("joinFormulas", () => {
+  it.each([
+    [
+      "an aligned formula",
+      "\\begin{aligned} y &= 2x \\\\ z &= y + 1 \\end{aligned}",
+    ],
+    ["an array", "\\begin{array}{r|l} y & = 2x \\\\ z & = y + 1 \\end{array}"],
+  ])("puts the rows of %s in the joined formula", (_, formula) => {
+    const joined = joinFormulas([formula, "w = z"]);
+    expect(parseEquations(joined)).toHaveLength(3);
+    const { evaluate } = compileFormula(joined, ["y", "z", "w"]);
+    expect(evaluate({ x: 1 })).toEqual({ y: 2, z: 3, w: 3 });
+  });
+
+  it("keeps a single formula as it is", () => {
+    expect(joinFormulas(["", "y = x"])).toBe("y = x");
+  });
+});
@@ -0,0 +1,1114 @@
+import {
+  AugmentedFormulaNode,
+  MathSymbol,
+  Matrix,
+  deriveAugmentedFormula,
+} from "./FormulaTree";
+import {
+  FIND_ROOT_SOURCE,
+  containsVariable,
+  findRoot,
+  isolateVariable,
+} from "./solver";
+
+// A small arithmetic AST that the formula tree is lowered into before being
+// compiled to JavaScript closures
+export type Expression =
+  | { type: "number"; value: number }
+  | { type: "variable"; symbol: string }
+  | { type: "negate"; operand: Expression }
+  | {
+      type: "binary";
+      operator: BinaryOperator;
+      left: Expression;
+      right: Expression;
+    }
+  | { type: "call"; name: MathFunction; argument: Expression };
+
+export type BinaryOperator = "+" | "-" | "*" | "/" | "^";
+
+export type Equation = Expression[];
+
+export type CompiledFormula = {
+  // JavaScript source equivalent to `evaluate`, shown in the LLMFunction panel
+  code: string;
+  evaluate: (variables: Record<string, number>) => Record<string, number>;
+  // The inputs each dependent variable is computed from, including through
+  // other dependents
+  dependencies: Record<string, string[]>;
+};
+
+/**
+ * Thrown when the formula uses constructs the local evaluator can't handle.
+ * Callers are expected to fall back to LLM code generation.
+ */
+export class UnsupportedFormulaError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "UnsupportedFormulaError";
+  }
+}
+
+/**
+ * Thrown when dependent variables are defined in terms of each other, e.g. by
+ * `a = b + 1` and `b = 2a`, so there's no order to compute them in. The
+ * equations may still be solvable together, like a linear system, so this
+ * falls back to the LLM like other unsupported formulas.
+ */
+export class DependencyCycleError extends UnsupportedFormulaError {
+  constructor(public cycle: string[]) {
+    super(`Dependent variables depend on each other: ${cycle.join(" → ")}`);
+    this.name = "DependencyCycleError";
+  }
+}
+
+type MathFunction =
+  | "sin"
+  | "cos"
+  | "tan"
+  | "asin"
+  | "acos"
+  | "atan"
+  | "sinh"
+  | "cosh"
+  | "tanh"
+  | "exp"
+  | "log"
+  | "log10"
+  | "sqrt";
+
+// \log is taken to be base 10, \ln is the natural log and \log_b is base b
+const FUNCTIONS: { [operator: string]: MathFunction } = {
+  "\\sin": "sin",
+  "\\cos": "cos",
+  "\\tan": "tan",
+  "\\arcsin": "asin",
+  "\\arccos": "acos",
+  "\\arctan": "atan",
+  "\\sinh": "sinh",
+  "\\cosh": "cosh",
+  "\\tanh": "tanh",
+  "\\exp": "exp",
+  "\\ln": "log",
+  "\\log": "log10",
+};
+
+const CONSTANTS: { [symbol: string]: number } = {
+  "\\pi": Math.PI,
+  "\\infty": Infinity,
+};
+
+const GREEK_LETTERS = new Set(
+  [
+    "alpha",
+    "beta",
+    "gamma",
+    "delta",
+    "epsilon",
+    "varepsilon",
+    "zeta",
+    "eta",
+    "theta",
+    "vartheta",
+    "iota",
+    "kappa",
+    "lambda",
+    "mu",
+    "nu",
+    "xi",
+    "rho",
+    "varrho",
+    "sigma",
+    "varsigma",
+    "tau",
+    "upsilon",
+    "phi",
+    "varphi",
+    "chi",
+    "psi",
+    "omega",
+    "Gamma",
+    "Delta",
+    "Theta",
+    "Lambda",
+    "Xi",
+    "Pi",
+    "Sigma",
+    "Upsilon",
+    "Phi",
+    "Psi",
+    "Omega",
+  ].map((name) => `\\${name}`)
+);
+
+const OPERATORS: { [symbol: string]: "+" | "-" | "*" | "/" | "=" } = {
+  "+": "+",
+  "-": "-",
+  "*": "*",
+  "\\cdot": "*",
+  "\\times": "*",
+  "/": "/",
+  "\\div": "/",
+  "=": "=",
+};
+
+const OPEN_DELIMITERS = new Set(["(", "[", "\\lbrack"]);
+const CLOSE_DELIMITERS = new Set([")", "]", "\\rbrack"]);
+
+export const isVariableSymbol = (value: string) =>
+  /^[a-zA-Z]$/.test(value) || GREEK_LETTERS.has(value);
+
+/**
+ * The variable a node stands for, or null if it isn't one. Symbols in a font
+ * or with an accent or line, like `\mathbf{x}`, `\bar{x}` or `\vec{F}`, are
+ * variables of their own rather than the plain symbol.
+ */
+export const variableSymbol = (node: AugmentedFormulaNode): string | null => {
+  switch (node.type) {
+    case "symbol":
+      return isVariableSymbol(node.value) ? node.value : null;
+    case "font":
+    case "accent":
+    case "line": {
+      const body = variableSymbol(node.body);
+      const command = node.type === "accent" ? node.label : node.command;
+      return body === null ? null : `${command}{${body}}`;
+    }
+    default:
+      return null;
+  }
+};
+
+// Groups serialize with spaces between their children, which would make
+// `v_{max}` a different name from what was typed
+const subscriptLatex = (sub: AugmentedFormulaNode): string => {
+  if (sub.type === "symbol") {
+    return sub.value;
+  }
+  if (sub.type === "group") {
+    return sub.body.reduce((latex, child) => {
+      const childLatex = subscriptLatex(child);
+      // Keep commands like `\alpha` from running into the letters after them
+      return /\\[a-zA-Z]+$/.test(latex) && /^[a-zA-Z]/.test(childLatex)
+        ? `${latex} ${childLatex}`
+        : latex + childLatex;
+    }, "");
+  }
+  return sub.toLatex("content-only");
+};
+
+/**
+ * The variable name for a symbol with a subscript, e.g. `v_0`, `v_{max}` or
+ * `m_{\text{car}}`.
+ */
+export const scriptedSymbol = (base: string, sub: AugmentedFormulaNode) => {
+  const latex = subscriptLatex(sub);
+  return latex.length === 1 ? `${base}_${latex}` : `${base}_{${latex}}`;
+};
+
+type Token =
+  | { type: "digit"; text: string }
+  | { type: "operand"; expression: Expression }
+  | { type: "operator"; operator: "+" | "-" | "*" | "/" | "=" }
+  | { type: "open" }
+  | { type: "close" }
+  | { type: "sup"; expression: Expression }
+  | { type: "function"; name: MathFunction; base?: Expression }
+  | { type: "matrix"; rows: Expression[][] };
+
+const symbolToken = (node: MathSymbol): Token => {
+  const value = node.value;
+  if (/^[0-9.]$/.test(value)) {
+    return { type: "digit", text: value };
+  }
+  if (isVariableSymbol(value)) {
+    return { type: "operand", expression: { type: "variable", symbol: value } };
+  }
+  if (value in CONSTANTS) {
+    return {
+      type: "operand",
+      expression: { type: "number", value: CONSTANTS[value] },
+    };
+  }
+  if (value in OPERATORS) {
+    return { type: "operator", operator: OPERATORS[value] };
+  }
+  if (OPEN_DELIMITERS.has(value)) {
+    return { type: "open" };
+  }
+  if (CLOSE_DELIMITERS.has(value)) {
+    return { type: "close" };
+  }
+  throw new UnsupportedFormulaError(`Unsupported symbol: ${value}`);
+};
+
+// Flattens a node into a token stream. Styling nodes are transparent, while
+// structural nodes are parsed independently and become single operands.
+const tokenize = (node: AugmentedFormulaNode): Token[] => {
+  switch (node.type) {
+    case "symbol":
+      return [symbolToken(node)];
+    case "space":
+    case "kern":
+      return [];
+    case "phantom":
+      // Phantoms only take up the space of their contents
+      return [];
+    case "op": {
+      const name = FUNCTIONS[node.operator];
+      if (name === undefined) {
+        throw new UnsupportedFormulaError(
+          `Unsupported operator: ${node.operator}`
+        );
+      }
+      return [{ type: "function", name }];
+    }
+    case "color":
+    case "sizing":
+      return node.body.flatMap(tokenize);
+    case "box":
+    case "strikethrough":
+    case "lap":
+      return tokenize(node.body);
+    case "brace":
+      return tokenize(node.base);
+    case "group":
+      return [{ type: "operand", expression: parseExpression(node.body) }];
+    case "delimited":
+      if (
+        !OPEN_DELIMITERS.has(node.left) ||
+        !CLOSE_DELIMITERS.has(node.right)
+      ) {
+        throw new UnsupportedFormulaError(
+          `Unsupported delimiters: ${node.left} ${node.right}`
+        );
+      }
+      return [{ type: "operand", expression: parseExpression(node.body) }];
+    case "frac":
+      return [
+        {
+          type: "operand",
+          expression: {
+            type: "binary",
+            operator: "/",
+            left: parseExpression([node.numerator]),
+            right: parseExpression([node.denominator]),
+          },
+        },
+      ];
+    case "root": {
+      const body = parseExpression([node.body]);
+      return [
+        {
+          type: "operand",
+          expression: node.index
+            ? {
+                type: "binary",
+                operator: "^",
+                left: body,
+                right: {
+                  type: "binary",
+                  operator: "/",
+                  left: { type: "number", value: 1 },
+                  right: parseExpression([node.index]),
+                },
+              }
+            : { type: "call", name: "sqrt", argument: body },
+        },
+      ];
+    }
+    case "script": {
+      if (node.base.type === "brace") {
+        // Annotated braces carry their caption as a script, which isn't math
+        return tokenize(node.base.base);
+      }
+
+      const tokens: Token[] = [];
+      if (node.sub) {
+        tokens.push(scriptedToken(node.base, node.sub));
+      } else {
+        tokens.push(...tokenize(node.base));
+      }
+      if (node.sup) {
+        tokens.push({ type: "sup", expression: parseExpression([node.sup]) });
+      }
+      return tokens;
+    }
+    case "text":
+      throw new UnsupportedFormulaError("Text can't be evaluated");
+    case "font":
+    case "accent":
+    case "line": {
+      const symbol = variableSymbol(node);
+      if (symbol !== null) {
+        return [{ type: "operand", expression: { type: "variable", symbol } }];
+      }
+      if (node.type === "font") {
+        return tokenize(node.body);
+      }
+      throw new UnsupportedFormulaError(
+        `Only decorated symbols can be evaluated: ${node.toLatex("no-id")}`
+      );
+    }
+    case "middle":
+      throw new UnsupportedFormulaError(
+        `Unsupported delimiter: \\middle${node.delimiter}`
+      );
+    case "matrix":
+      return [matrixToken(node)];
+    case "cases":
+      throw new UnsupportedFormulaError("Cases can't be evaluated");
+    case "array":
+      throw new UnsupportedFormulaError(
+        "Array environments can only appear at the top level"
+      );
+  }
+};
+
+// Matrices are values, except for determinants which are numbers
+const matrixToken = (node: Matrix): Token => {
+  const rows = node.body.map((row) =>
+    row.map((cell) => parseExpression([cell]))
+  );
+  if (rows.some((row) => row.length !== rows[0].length)) {
+    throw new UnsupportedFormulaError("Matrix rows must be the same length");
+  }
+  switch (node.environment) {
+    case "vmatrix":
+      if (rows.length !== rows[0].length) {
+        throw new UnsupportedFormulaError(
+          "Determinants are only defined for square matrices"
+        );
+      }
+      return { type: "operand", expression: determinant(rows) };
+    case "Vmatrix":
+      throw new UnsupportedFormulaError("Matrix norms can't be evaluated");
+    default:
+      return { type: "matrix", rows };
+  }
+};
+
+const scriptedToken = (
+  base: AugmentedFormulaNode,
+  sub: AugmentedFormulaNode
+): Token => {
+  const symbol = variableSymbol(base);
+  if (symbol !== null) {
+    return {
+      type: "operand",
+      expression: { type: "variable", symbol: scriptedSymbol(symbol, sub) },
+    };
+  }
+  if (base.type === "op" && base.operator === "\\log") {
+    return { type: "function", name: "log", base: parseExpression([sub]) };
+  }
+  throw new UnsupportedFormulaError(
+    "Subscripts are only supported on variables and logarithms"
+  );
+};
+
+// Adjacent digits are separate symbols in the tree, so join them into numbers
+const joinDigits = (tokens: Token[]): Token[] =>
+  tokens.reduce((acc, token) => {
+    const last = acc[acc.length - 1];
+    if (token.type === "digit" && last?.type === "digit") {
+      acc[acc.length - 1] = { type: "digit", text: last.text + token.text };
+    } else {
+      acc.push(token);
+    }
+    return acc;
+  }, [] as Token[]);
+
+// Values are matrices of expressions, with numbers being 1×1 matrices, so
+// that matrix arithmetic is expanded into arithmetic on the entries
+type Value = Expression[][];
+
+const scalar = (expression: Expression): Value => [[expression]];
+
+const isScalar = (value: Value) => value.length === 1 && value[0].length === 1;
+
+const toScalar = (value: Value, message: string): Expression => {
+  if (!isScalar(value)) {
+    throw new UnsupportedFormulaError(message);
+  }
+  return value[0][0];
+};
+
+const sameShape = (a: Value, b: Value) =>
+  a.length === b.length && a.every((row, i) => row.length === b[i].length);
+
+const binary = (
+  operator: BinaryOperator,
+  left: Expression,
+  right: Expression
+): Expression => ({ type: "binary", operator, left, right });
+
+const mapEntries = (
+  value: Value,
+  f: (entry: Expression, i: number, j: number) => Expression
+): Value => value.map((row, i) => row.map((entry, j) => f(entry, i, j)));
+
+const add = (operator: "+" | "-", left: Value, right: Value): Value => {
+  if (!sameShape(left, right)) {
+    throw new UnsupportedFormulaError(
+      "Only matrices of the same size can be added"
+    );
+  }
+  return mapEntries(left, (entry, i, j) =>
+    binary(operator, entry, right[i][j])
+  );
+};
+
+const multiply = (left: Value, right: Value): Value => {
+  if (isScalar(left)) {
+    return mapEntries(right, (entry) => binary("*", left[0][0], entry));
+  }
+  if (isScalar(right)) {
+    return mapEntries(left, (entry) => binary("*", entry, right[0][0]));
+  }
+  if (left[0].length !== right.length) {
+    throw new UnsupportedFormulaError(
+      "Matrices can only be multiplied when the columns of the first match the rows of the second"
+    );
+  }
+  return left.map((row) =>
+    right[0].map((_, j) =>
+      row
+        .map((entry, k) => binary("*", entry, right[k][j]))
+        .reduce((sum, term) => binary("+", sum, term))
+    )
+  );
+};
+
+const divide = (left: Value, right: Value): Value => {
+  const divisor = toScalar(right, "Matrices can't be divided by");
+  return mapEntries(left, (entry) => binary("/", entry, divisor));
+};
+
+// Laplace expansion along the first row
+const determinant = (rows: Expression[][]): Expression =>
+  rows.length === 1
+    ? rows[0][0]
+    : rows[0]
+        .map((entry, j) =>
+          binary(
+            "*",
+            entry,
+            determinant(
+              rows.slice(1).map((row) => row.filter((_, k) => k !== j))
+            )
+          )
+        )
+        .reduce((sum, term, j) => binary(j % 2 === 0 ? "+" : "-", sum, term));
+
+/**
+ * Recursive descent parser over a token stream. The grammar is
+ *
+ *   equation := expr ("=" expr)*
+ *   expr     := term (("+" | "-") term)*
+ *   term     := unary (("*" | "/")? unary)*
+ *   unary    := ("+" | "-") unary | power
+ *   power    := primary sup*
+ *   primary  := number | operand | matrix | "(" expr ")" | function sup* unary
+ */
+class Parser {
+  private position = 0;
+
+  constructor(private tokens: Token[]) {}
+
+  // An equation between matrices is an equation between each of their entries
+  parseEquations(): Equation[] {
+    const sides = [this.parseExpr()];
+    while (this.peekOperator("=")) {
+      this.position++;
+      sides.push(this.parseExpr());
+    }
+    this.expectEnd();
+    const [first] = sides;
+    if (!sides.every((side) => sameShape(side, first))) {
+      throw new UnsupportedFormulaError(
+        "Both sides of an equation must be the same size"
+      );
+    }
+    return first.flatMap((row, i) =>
+      row.map((_, j) => sides.map((side) => side[i][j]))
+    );
+  }
+
+  parseStandalone(): Expression {
+    const value = this.parseExpr();
+    this.expectEnd();
+    return toScalar(value, "Matrices can only be added and multiplied");
+  }
+
+  private expectEnd() {
+    if (this.position < this.tokens.length) {
+      throw new UnsupportedFormulaError(
+        `Unexpected ${this.tokens[this.position].type} in formula`
+      );
+    }
+  }
+
+  private peek(): Token | undefined {
+    return this.tokens[this.position];
+  }
+
+  private peekOperator(operator: string): boolean {
+    const token = this.peek();
+    return token?.type === "operator" && token.operator === operator;
+  }
+
+  private parseExpr(): Value {
+    let left = this.parseTerm();
+    while (this.peekOperator("+") || this.peekOperator("-")) {
+      const operator = this.peekOperator("+") ? "+" : "-";
+      this.position++;
+      left = add(operator, left, this.parseTerm());
+    }
+    return left;
+  }
+
+  private parseTerm(): Value {
+    let left = this.parseUnary();
+    for (;;) {
+      if (this.peekOperator("*") || this.peekOperator("/")) {
+        const operator = this.peekOperator("*") ? "*" : "/";
+        this.position++;
+        left =
+          operator === "*"
+            ? multiply(left, this.parseUnary())
+            : divide(left, this.parseUnary());
+      } else if (this.startsPrimary()) {
+        // Juxtaposition is implicit multiplication
+        left = multiply(left, this.parsePower());
+      } else {
+        return left;
+      }
+    }
+  }
+
+  private startsPrimary(): boolean {
+    const token = this.peek();
+    return (
+      token !== undefined &&
+      (token.type === "digit" ||
+        token.type === "operand" ||
+        token.type === "matrix" ||
+        token.type === "open" ||
+        token.type === "function")
+    );
+  }
+
+  private parseUnary(): Value {
+    if (this.peekOperator("-")) {
+      this.position++;
+      return mapEntries(this.parseUnary(), (operand) => ({
+        type: "negate",
+        operand,
+      }));
+    }
+    if (this.peekOperator("+")) {
+      this.position++;
+      return this.parseUnary();
+    }
+    return this.parsePower();
+  }
+
+  private parsePower(): Value {
+    return this.parseSups(this.parsePrimary());
+  }
+
+  // Parentheses right after a function hold its whole argument, so the
+  // powers after \sin(x)^2 apply to the result. Otherwise the argument is the
+  // values written next to each other up to an operator or another function,
+  // e.g. \sin 2x is sin(2x) but \sin x \cdot y is sin(x)·y. mathjsEquations
+  // reads arguments the same way.
+  private parseArgument(): Value {
+    if (this.peek()?.type === "open") {
+      return this.parsePrimary();
+    }
+    let argument = this.parseUnary();
+    while (this.startsPrimary() && this.peek()?.type !== "function") {
+      argument = multiply(argument, this.parsePower());
+    }
+    return argument;
+  }
+
+  private parseSups(base: Value): Value {
+    let result = base;
+    for (let token = this.peek(); token?.type === "sup"; token = this.peek()) {
+      this.position++;
+      result = scalar(
+        binary(
+          "^",
+          toScalar(result, "Matrices can't be raised to powers"),
+          token.expression
+        )
+      );
+    }
+    return result;
+  }
+
+  private parsePrimary(): Value {
+    const token = this.peek();
+    if (token === undefined) {
+      throw new UnsupportedFormulaError("Unexpected end of formula");
+    }
+    this.position++;
+
+    switch (token.type) {
+      case "digit": {
+        const value = Number(token.text);
+        if (isNaN(value)) {
+          throw new UnsupportedFormulaError(`Invalid number: ${token.text}`);
+        }
+        return scalar({ type: "number", value });
+      }
+      case "operand":
+        return scalar(token.expression);
+      case "matrix":
+        return token.rows;
+      case "open": {
+        const inner = this.parseExpr();
+        if (this.peek()?.type !== "close") {
+          throw new UnsupportedFormulaError("Unbalanced parentheses");
+        }
+        this.position++;
+        return inner;
+      }
+      case "function": {
+        // \sin^2 x applies the power to the result of the function
+        const sups: Expression[] = [];
+        for (let next = this.peek(); next?.type === "sup"; next = this.peek()) {
+          sups.push(next.expression);
+          this.position++;
+        }
+        const argument = toScalar(
+          this.parseArgument(),
+          "Functions can't be applied to matrices"
+        );
+        let result: Expression = {
+          type: "call",
+          name: token.name,
+          argument,
+        };
+        if (token.base) {
+          result = {
+            type: "binary",
+            operator: "/",
+            left: result,
+            right: { type: "call", name: "log", argument: token.base },
+          };
+        }
+        return scalar(
+          sups.reduce<Expression>(
+            (acc, sup) => ({
+              type: "binary",
+              operator: "^",
+              left: acc,
+              right: sup,
+            }),
+            result
+          )
+        );
+      }
+      default:
+        throw new UnsupportedFormulaError(
+          `Unexpected ${token.type} in formula`
+        );
+    }
+  }
+}
+
+export const parseExpression = (nodes: AugmentedFormulaNode[]): Expression =>
+  new Parser(joinDigits(nodes.flatMap(tokenize))).parseStandalone();
+
+// The rows a formula adds to joined formulas: its own rows if it's an array
+// environment, since those can't be nested, and otherwise itself
+const formulaRows = (formula: string): string[][] => {
+  let children: AugmentedFormulaNode[];
+  try {
+    children = deriveAugmentedFormula(formula).children;
+  } catch (error) {
+    return [[formula]];
+  }
+  return children.length === 1 && children[0].type === "array"
+    ? children[0].body.map((row) => row.map((cell) => cell.toLatex("no-id")))
+    : [[formula]];
+};
+
+/**
+ * Combines the formulas of a workspace into one formula with all of their
+ * equations, one per row of a top-level array environment. The rows of
+ * aligned formulas become rows of it too, aligned like an `aligned`
+ * environment.
+ */
+export const joinFormulas = (formulas: string[]) => {
+  const nonEmpty = formulas.filter((formula) => formula.trim() !== "");
+  if (nonEmpty.length <= 1) {
+    return nonEmpty[0] ?? "";
+  }
+  const rows = nonEmpty.flatMap(formulaRows);
+  const columns = Math.max(...rows.map((row) => row.length));
+  const columnSpec = columns === 2 ? "rl" : "l".repeat(columns);
+  const body = rows.map((row) => row.join(" & ")).join(" \\\\ ");
+  return `\\begin{array}{${columnSpec}} ${body} \\end{array}`;
+};
+
+/**
+ * Parses a formula into its equations. A top-level array environment is
+ * treated as one equation per row.
+ */
+export const parseEquations = (latex: string): Equation[] => {
+  let children: AugmentedFormulaNode[];
+  try {
+    children = deriveAugmentedFormula(latex).children;
+  } catch (error) {
+    throw new UnsupportedFormulaError(`Failed to parse formula: ${error}`);
+  }
+
+  const rows =
+    children.length === 1 && children[0].type === "array"
+      ? children[0].body.map((row) =>
+          // Cells may be wrapped in groups, which here are not parenthesized
+          row.flatMap((cell) => (cell.type === "group" ? cell.body : [cell]))
+        )
+      : [children];
+
+  return rows
+    .filter((row) => row.length > 0)
+    .flatMap((row) =>
+      new Parser(joinDigits(row.flatMap(tokenize))).parseEquations()
+    );
+};
+
+export const collectVariables = (
+  expression: Expression,
+  into: Set<string> = new Set()
+): Set<string> => {
+  switch (expression.type) {
+    case "number":
+      break;
+    case "variable":
+      into.add(expression.symbol);
+      break;
+    case "negate":
+      collectVariables(expression.operand, into);
+      break;
+    case "binary":
+      collectVariables(expression.left, into);
+      collectVariables(expression.right, into);
+      break;
+    case "call":
+      collectVariables(expression.argument, into);
+      break;
+  }
+  return into;
+};
+
+// How a dependent variable is computed: directly from an expression, or
+// numerically as the root of `residual` within the variable's range
+type Definition =
+  | { type: "explicit"; expression: Expression }
+  | { type: "implicit"; residual: Expression; range: [number, number] };
+
+// The range searched for roots when a dependent variable has no min/max
+export const DEFAULT_RANGE: [number, number] = [-100, 100];
+
+/**
+ * Finds a definition for each dependent variable. Where possible the variable
+ * is isolated symbolically from one of the equations containing it, preferring
+ * definitions that reference fewer other dependents to avoid cycles in chains
+ * like `a = b = c + d`. Otherwise it is solved for numerically.
+ */
+const findDefinitions = (
+  equations: Equation[],
+  dependentVars: string[],
+  ranges: Record<string, [number, number]>
+): Map<string, Definition> => {
+  const definitions = new Map<string, Definition>();
+  const dependentCount = (expression: Expression) =>
+    Array.from(collectVariables(expression)).filter((v) =>
+      dependentVars.includes(v)
+    ).length;
+
+  for (const symbol of dependentVars) {
+    const pairs = equations.flatMap((sides) =>
+      sides.flatMap((side, i) =>
+        sides.filter((_, j) => j !== i).map((other) => [side, other] as const)
+      )
+    );
+
+    const explicit = pairs
+      .map(([side, other]) => isolateVariable(side, other, symbol))
+      .filter((expression): expression is Expression => expression !== null);
+    if (explicit.length > 0) {
+      definitions.set(symbol, {
+        type: "explicit",
+        expression: explicit.reduce((best, expression) =>
+          dependentCount(expression) < dependentCount(best) ? expression : best
+        ),
+      });
+      continue;
+    }
+
+    const implicit = pairs.find(([side]) => containsVariable(side, symbol));
+    if (implicit === undefined) {
+      throw new UnsupportedFormulaError(
+        `Dependent variable ${symbol} doesn't appear in the formula`
+      );
+    }
+    definitions.set(symbol, {
+      type: "implicit",
+      residual: {
+        type: "binary",
+        operator: "-",
+        left: implicit[0],
+        right: implicit[1],
+      },
+      range: ranges[symbol] ?? DEFAULT_RANGE,
+    });
+  }
+  return definitions;
+};
+
+const definitionDependencies = (symbol: string, definition: Definition) => {
+  const variables = collectVariables(
+    definition.type === "explicit" ? definition.expression : definition.residual
+  );
+  variables.delete(symbol);
+  return variables;
+};
+
+// Orders definitions so that dependents referencing other dependents are
+// computed after them, across all equations
+const orderDefinitions = (
+  definitions: Map<string, Definition>
+): [string, Definition][] => {
+  const ordered: [string, Definition][] = [];
+  // Dependents being visited, each depending on the next
+  const visiting: string[] = [];
+  const visit = (symbol: string) => {
+    if (ordered.some(([s]) => s === symbol)) {
+      return;
+    }
+    if (visiting.includes(symbol)) {
+      throw new DependencyCycleError([
+        ...visiting.slice(visiting.indexOf(symbol)),
+        symbol,
+      ]);
+    }
+    visiting.push(symbol);
+    const definition = definitions.get(symbol)!;
+    for (const dependency of definitionDependencies(symbol, definition)) {
+      if (definitions.has(dependency)) {
+        visit(dependency);
+      }
+    }
+    visiting.pop();
+    ordered.push([symbol, definition]);
+  };
+  definitions.forEach((_, symbol) => visit(symbol));
+  return ordered;
+};
+
+type Scope = Record<string, number>;
+
+export const compileExpression = (
+  expression: Expression
+): ((scope: Scope) => number) => {
+  switch (expression.type) {
+    case "number": {
+      const value = expression.value;
+      return () => value;
+    }
+    case "variable": {
+      const symbol = expression.symbol;
+      return (scope) => {
+        const value = Object.prototype.hasOwnProperty.call(scope, symbol)
+          ? scope[symbol]
+          : undefined;
+        return typeof value === "number" ? value : NaN;
+      };
+    }
+    case "negate": {
+      const operand = compileExpression(expression.operand);
+      return (scope) => -operand(scope);
+    }
+    case "binary": {
+      const left = compileExpression(expression.left);
+      const right = compileExpression(expression.right);
+      switch (expression.operator) {
+        case "+":
+          return (scope) => left(scope) + right(scope);
+        case "-":
+          return (scope) => left(scope) - right(scope);
+        case "*":
+          return (scope) => left(scope) * right(scope);
+        case "/":
+          return (scope) => left(scope) / right(scope);
+        case "^":
+          return (scope) => Math.pow(left(scope), right(scope));
+      }
+      break;
+    }
+    case "call": {
+      const argument = compileExpression(expression.argument);
+      const fn = Math[expression.name];
+      return (scope) => fn(argument(scope));
+    }
+  }
+  throw new Error("Unknown expression type");
+};
+
+const propertyAccess = (object: string, key: string) =>
+  /^[a-zA-Z_$][a-zA-Z0-9_$]*$/.test(key)
+    ? `${object}.${key}`
+    : `${object}[${JSON.stringify(key)}]`;
+
+const PRECEDENCE = { "+": 1, "-": 1, "*": 2, "/": 2, negate: 3, atom: 4 };
+
+/**
+ * Formats an expression as JavaScript source. By default variables are read
+ * from the `variables` object.
+ */
+export const expressionToJavaScript = (
+  expression: Expression,
+  resolve: (symbol: string) => string = (symbol) =>
+    propertyAccess("variables", symbol)
+): string => {
+  const format = (expression: Expression, minPrecedence: number): string => {
+    let precedence: number;
+    let code: string;
+    switch (expression.type) {
+      case "number":
+        precedence = expression.value < 0 ? PRECEDENCE.negate : PRECEDENCE.atom;
+        code =
+          expression.value === Math.PI
+            ? "Math.PI"
+            : expression.value === Infinity
+              ? "Infinity"
+              : String(expression.value);
+        break;
+      case "variable":
+        precedence = PRECEDENCE.atom;
+        code = resolve(expression.symbol);
+        break;
+      case "negate":
+        precedence = PRECEDENCE.negate;
+        code = format(expression.operand, PRECEDENCE.negate);
+        // Two minus signs in a row would be a decrement
+        code = code.startsWith("-") ? `-(${code})` : `-${code}`;
+        break;
+      case "call":
+        precedence = PRECEDENCE.atom;
+        code = `Math.${expression.name}(${format(expression.argument, 0)})`;
+        break;
+      case "binary":
+        if (expression.operator === "^") {
+          precedence = PRECEDENCE.atom;
+          code = `Math.pow(${format(expression.left, 0)}, ${format(expression.right, 0)})`;
+        } else {
+          precedence = PRECEDENCE[expression.operator];
+          // Right operands of - and / need parentheses at equal precedence
+          code = `${format(expression.left, precedence)} ${expression.operator} ${format(expression.right, precedence + 1)}`;
+        }
+        break;
+    }
+    return precedence < minPrecedence ? `(${code})` : code;
+  };
+  return format(expression, 0);
+};
+
+const compileDefinition = (
+  symbol: string,
+  definition: Definition
+): ((scope: Scope) => number) => {
+  if (definition.type === "explicit") {
+    return compileExpression(definition.expression);
+  }
+  const residual = compileExpression(definition.residual);
+  const [min, max] = definition.range;
+  return (scope) =>
+    findRoot(
+      (x) => residual({ ...scope, [symbol]: x }),
+      min,
+      max,
+      scope[symbol]
+    );
+};
+
+/**
+ * Compiles a formula into an evaluation function computing each dependent
+ * variable, without any network access. `ranges` bounds the numeric search
+ * for dependents that can't be isolated symbolically.
+ *
+ * @throws UnsupportedFormulaError when the formula uses constructs we can't
+ * evaluate locally
+ */
+export const compileFormula = (
+  latex: string,
+  dependentVars: string[],
+  ranges: Record<string, [number, number]> = {}
+): CompiledFormula => {
+  const equations = parseEquations(latex);
+  const ordered = orderDefinitions(
+    findDefinitions(equations, dependentVars, ranges)
+  );
+
+  const compiled = ordered.map(
+    ([symbol, definition]) =>
+      [symbol, compileDefinition(symbol, definition)] as const
+  );
+  const evaluate = (variables: Record<string, number>) => {
+    const scope: Scope = { ...variables };
+    const results: Record<string, number> = {};
+    for (const [symbol, fn] of compiled) {
+      scope[symbol] = fn(scope);
+      results[symbol] = scope[symbol];
+    }
+    return results;
+  };
+
+  const dependencies: Record<string, string[]> = {};
+  for (const [symbol, definition] of ordered) {
+    const inputs = new Set<string>();
+    definitionDependencies(symbol, definition).forEach((dependency) =>
+      (dependencies[dependency] ?? [dependency]).forEach((input) =>
+        inputs.add(input)
+      )
+    );
+    dependencies[symbol] = Array.from(inputs);
+  }
+
+  const computed = new Set<string>();
+  const resolve = (symbol: string) =>
+    propertyAccess(computed.has(symbol) ? "results" : "variables", symbol);
+  const lines = ordered.map(([symbol, definition]) => {
+    const target = propertyAccess("results", symbol);
+    let line: string;
+    if (definition.type === "explicit") {
+      line = `  ${target} = ${expressionToJavaScript(definition.expression, resolve)};`;
+    } else {
+      const residual = expressionToJavaScript(definition.residual, (s) =>
+        s === symbol ? "x" : resolve(s)
+      );
+      const [min, max] = definition.range;
+      line = `  ${target} = findRoot((x) => ${residual}, ${min}, ${max}, ${propertyAccess("variables", symbol)});`;
+    }
+    computed.add(symbol);
+    return line;
+  });
+  const code = [
+    "function evaluate(variables) {",
+    "  const results = {};",
+    ...lines,
+    "  return results;",
+    "}",
+    ...(ordered.some(([, definition]) => definition.type === "implicit")
+      ? ["", FIND_ROOT_SOURCE]
+      : []),
+  ].join("\n");
+
+  return { code, evaluate, dependencies };
+};
@@ -0,0 +1,282 @@
+import {
+  DEFAULT_MAX,
+  DEFAULT_MIN,
+  DEFAULT_PRECISION,
+  VariableState,
+  computationStore,
+} from "./computation";
+import { documentStore, downloadFile } from "./document";
+import { joinFormulas } from "./evaluation";
+import { formulaStore, workspaceStore } from "./store";
+
+// MathJax sizes SVGs in ex, which are half an em at the default font size
+const PIXELS_PER_EX = 8;
+
+export const PNG_SCALES = [1, 2, 4];
+
+export class FormulaExportError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "FormulaExportError";
+  }
+}
+
+/**
+ * Self-contained SVG of a formula, with its colors, boxes, braces and
+ * annotations. Throws a FormulaExportError if MathJax can't render it.
+ */
+export const renderSvg = async (latex: string) => {
+  const { convertToSvg } = await import("./mathjaxSvg");
+  const svg = convertToSvg(latex);
+  const error = svg.match(/data-mjx-error="([^"]*)"/);
+  if (error) {
+    throw new FormulaExportError(
+      `The formula couldn't be rendered: ${error[1]}`
+    );
+  }
+  return svg;
+};
+
+/**
+ * Rasterizes an SVG from renderSvg, with each ex of the formula taking up
+ * PIXELS_PER_EX times the scale in pixels
+ */
+export const renderPng = async (svg: string, scale: number) => {
+  const parsed = new DOMParser().parseFromString(svg, "image/svg+xml");
+  const root = parsed.documentElement;
+  root.removeAttribute("style");
+  for (const dimension of ["width", "height"]) {
+    const ex = parseFloat(root.getAttribute(dimension) ?? "0");
+    root.setAttribute(dimension, `${ex * PIXELS_PER_EX * scale}`);
+  }
+
+  const url = URL.createObjectURL(
+    new Blob([new XMLSerializer().serializeToString(parsed)], {
+      type: "image/svg+xml",
+    })
+  );
+  try {
+    const image = new Image();
+    image.src = url;
+    await image.decode();
+
+    const canvas = document.createElement("canvas");
+    canvas.width = Math.ceil(image.width);
+    canvas.height = Math.ceil(image.height);
+    canvas.getContext("2d")!.drawImage(image, 0, 0);
+    return await new Promise<Blob>((resolve, reject) =>
+      canvas.toBlob(
+        (blob) =>
+          blob
+            ? resolve(blob)
+            : reject(new FormulaExportError("The image couldn't be created")),
+        "image/png"
+      )
+    );
+  } finally {
+    URL.revokeObjectURL(url);
+  }
+};
+
+/**
+ * Configuration of a variable for interactive-math's `defineEquation`
+ */
+export type EmbeddedVariable = {
+  type: "constant" | "slideable" | "output";
+  value?: number;
+  range?: [number, number];
+  precision?: number;
+  step?: number;
+  units?: string;
+};
+
+/**
+ * Configuration for interactive-math's `defineEquation`, with the evaluation
+ * code so that the embedded formula never has to generate it
+ */
+export type EquationBundle = {
+  formula: string;
+  variables: Record<string, EmbeddedVariable>;
+  code?: string;
+};
+
+const EMBEDDED_TYPES = {
+  fixed: "constant",
+  slidable: "slideable",
+  dependent: "output",
+} as const;
+
+const embeddedVariable = (variable: VariableState): EmbeddedVariable => {
+  const embedded: EmbeddedVariable = {
+    type: EMBEDDED_TYPES[variable.type as keyof typeof EMBEDDED_TYPES],
+    precision: variable.precision ?? DEFAULT_PRECISION,
+    units: variable.unit,
+  };
+  if (variable.type !== "dependent") {
+    embedded.value = variable.value;
+  }
+  if (variable.type === "slidable") {
+    embedded.range = [variable.min ?? DEFAULT_MIN, variable.max ?? DEFAULT_MAX];
+    embedded.step = variable.step;
+  }
+  return embedded;
+};
+
+/**
+ * The workspace's formulas and variables as an interactive-math equation,
+ * with the code evaluating them. Throws a FormulaExportError if the formulas
+ * can't be evaluated yet or the generated code failed verification.
+ */
+export const createBundle = (): EquationBundle => {
+  const variables: Record<string, EmbeddedVariable> = {};
+  for (const variable of computationStore.variables.values()) {
+    if (variable.type !== "none") {
+      variables[variable.symbol] = embeddedVariable(variable);
+    }
+  }
+  const bundle: EquationBundle = {
+    formula: joinFormulas(workspaceStore.latexesWithStyling),
+    variables,
+  };
+  if (!Object.values(variables).some(({ type }) => type === "output")) {
+    return bundle;
+  }
+
+  if (computationStore.formulaError) {
+    throw new FormulaExportError(
+      `The formula can't be evaluated: ${computationStore.formulaError}`
+    );
+  }
+  // Code the user edited replaces the generated code, and is trusted as is
+  const code =
+    computationStore.customCode ?? computationStore.lastGeneratedCode;
+  if (code === null) {
+    throw new FormulaExportError(
+      "The evaluation code isn't ready yet, try again in a moment"
+    );
+  }
+  if (
+    computationStore.customCode === null &&
+    computationStore.verificationReport?.status === "failed"
+  ) {
+    throw new FormulaExportError(
+      "The generated code failed verification, regenerate or edit it first"
+    );
+  }
+  return { ...bundle, code };
+};
+
+// JSON that can't end the script it's in
+const scriptJson = (value: unknown) =>
+  JSON.stringify(value, null, 2).replace(/</g, "\\u003c");
+
+// interactive-math bundled into a script defining an `InteractiveMath` global,
+// which is put into each export so that it works on its own
+const loadInteractiveMath = async () => {
+  const { default: source } = await import("virtual:interactive-math");
+  return source.replace(/<\/script/gi, "<\\/script");
+};
+
+/**
+ * HTML showing a formula as an SVG, which works without any scripts. With a
+ * bundle, the formula is made interactive through interactive-math, and the
+ * SVG is shown until it loads.
+ */
+export const createHtmlSnippet = async (
+  svg: string,
+  bundle?: EquationBundle
+) => {
+  if (!bundle) {
+    return `<div class="formula" style="text-align: center">${svg}</div>\n`;
+  }
+  const id = `formula-${Math.random().toString(36).slice(2, 10)}`;
+  const config = scriptJson(bundle).replace(/\n/g, "\n  ");
+  return `<div id="${id}" class="formula" style="text-align: center">${svg}</div>
+<script>
+${await loadInteractiveMath()}
+</script>
+<script>
+  InteractiveMath.defineEquation(${config}).renderTo(
+    document.getElementById("${id}")
+  );
+</script>
+`;
+};
+
+// Files are named after the open document, if there is one
+const exportName = (extension: string) => {
+  const name =
+    documentStore.fileName?.replace(/(\.formula)?\.json$/, "") ?? "formula";
+  return `${name}.${extension}`;
+};
+
+const exportFile = async (
+  extension: string,
+  createFile: () => Promise<Blob>
+) => {
+  try {
+    downloadFile(exportName(extension), await createFile());
+    documentStore.setNotice(null);
+  } catch (error) {
+    reportExportError(error);
+  }
+};
+
+const reportExportError = (error: unknown) => {
+  console.error("Error exporting formula:", error);
+  documentStore.setNotice({
+    type: "error",
+    message:
+      error instanceof FormulaExportError
+        ? error.message
+        : "The formula couldn't be exported",
+  });
+};
+
+export const exportSvg = () =>
+  exportFile(
+    "svg",
+    async () =>
+      new Blob([await renderSvg(formulaStore.latexWithStyling)], {
+        type: "image/svg+xml",
+      })
+  );
+
+export const exportPng = (scale: number) =>
+  exportFile("png", async () =>
+    renderPng(await renderSvg(formulaStore.latexWithStyling), scale)
+  );
+
+// Interactive HTML shows every formula of the workspace, since they share
+// their variables
+export const exportHtml = (interactive: boolean) =>
+  exportFile("html", async () => {
+    const bundle = interactive ? createBundle() : undefined;
+    const svg = await renderSvg(
+      bundle?.formula ?? formulaStore.latexWithStyling
+    );
+    return new Blob([await createHtmlSnippet(svg, bundle)], {
+      type: "text/html",
+    });
+  });
+
+const copyExport = async (
+  createText: () => string | Promise<string>,
+  notice: string
+) => {
+  try {
+    await navigator.clipboard.writeText(await createText());
+    documentStore.setNotice({ type: "info", message: notice });
+  } catch (error) {
+    reportExportError(error);
+  }
+};
+
+export const copyEmbedConfig = () =>
+  copyExport(() => JSON.stringify(createBundle(), null, 2), "Config copied");
+
+export const copyEmbedScript = () =>
+  copyExport(async () => {
+    const bundle = createBundle();
+    return createHtmlSnippet(await renderSvg(bundle.formula), bundle);
+  }, "Embed code copied");
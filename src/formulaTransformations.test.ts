@@ -0,0 +1,121 @@
+import { describe, expect, it } from "vitest";
+
+import {
+  AugmentedFormula,
+  Matrix,
+  Script,
+  deriveAugmentedFormula,
+} from "./FormulaTree";
+import {
+  RewriteError,
+  addScript,
+  deleteTableColumns,
+  findTableCell,
+  insertTableRow,
+  swapEquationSides,
+} from "./formulaTransformations";
+
+// Edits the table at the top of the formula
+const editTable = (
+  latex: string,
+  edit: (formula: AugmentedFormula, tableId: string) => AugmentedFormula
+) => {
+  const formula = deriveAugmentedFormula(latex);
+  return edit(formula, formula.children[0].id).toLatex("content-only");
+};
+
+const arrayColumns = (latex: string) =>
+  latex.match(/\\begin\{array\}\{([^}]*)\}/)?.[1];
+
+describe("insertTableRow", () => {
+  it("gives a new row of a single column content", () => {
+    const latex = editTable(
+      "\\begin{pmatrix} a \\\\ b \\end{pmatrix}",
+      (formula, id) => insertTableRow(formula, id, 2)
+    );
+    const [table] = deriveAugmentedFormula(latex).children;
+    expect(table.type === "matrix" && table.body.length).toBe(3);
+  });
+
+  it("keeps new rows of several columns empty", () => {
+    const latex = editTable(
+      "\\begin{pmatrix} a & b \\end{pmatrix}",
+      (formula, id) => insertTableRow(formula, id, 1)
+    );
+    expect(latex).not.toContain("\\square");
+  });
+});
+
+describe("deleteTableColumns", () => {
+  const array = "\\begin{array}{|c|cc|} a & b & c \\end{array}";
+  const deleting = (columns: number[]) =>
+    arrayColumns(
+      editTable(array, (formula, id) =>
+        deleteTableColumns(formula, id, columns)
+      )
+    );
+
+  it("drops the separator next to a deleted column", () => {
+    expect(deleting([0])).toBe("|cc|");
+    expect(deleting([1])).toBe("|c|c|");
+    expect(deleting([2])).toBe("|c|c|");
+    expect(deleting([0, 1])).toBe("|c|");
+  });
+
+  it("keeps the separators between the remaining columns", () => {
+    expect(
+      arrayColumns(
+        editTable(
+          "\\begin{array}{cc|c} a & b & c \\end{array}",
+          (formula, id) => deleteTableColumns(formula, id, [1])
+        )
+      )
+    ).toBe("c|c");
+  });
+});
+
+describe("findTableCell", () => {
+  it("finds nothing for a node that is no longer in its table", () => {
+    const formula = deriveAugmentedFormula(
+      "\\begin{pmatrix} a \\\\ b \\end{pmatrix}"
+    );
+    const table = formula.children[0] as Matrix;
+    const stale = table.withChanges({ body: [table.body[0]] });
+    const [orphan] = deriveAugmentedFormula("x").children;
+    orphan._parent = stale;
+    expect(findTableCell(orphan)).toBeNull();
+  });
+});
+
+describe("addScript", () => {
+  it("says when the selection already has the script", () => {
+    const formula = deriveAugmentedFormula("x^2 + y");
+    const [script] = formula.children;
+    expect(() => addScript(formula, [[script.id]], "sup")).toThrow(
+      RewriteError
+    );
+    expect(() =>
+      addScript(formula, [[(script as Script).base.id]], "sup")
+    ).toThrow(RewriteError);
+    expect(() => addScript(formula, [[script.id]], "sub")).not.toThrow();
+  });
+});
+
+describe("swapEquationSides", () => {
+  it("says when there's no single known relation", () => {
+    expect(() =>
+      swapEquationSides(deriveAugmentedFormula("a \\leqslant b"), [])
+    ).toThrow(RewriteError);
+    expect(() =>
+      swapEquationSides(deriveAugmentedFormula("a < b < c"), [])
+    ).toThrow(RewriteError);
+  });
+
+  it("swaps the sides of an equation", () => {
+    expect(
+      swapEquationSides(deriveAugmentedFormula("a < b"), []).toLatex(
+        "content-only"
+      )
+    ).toBe(deriveAugmentedFormula("b > a").toLatex("content-only"));
+  });
+});
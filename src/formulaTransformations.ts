@@ -1,4 +1,24 @@
-import { AugmentedFormula, AugmentedFormulaNode, Group } from "./FormulaTree";
+import {
+  ArrayColumn,
+  AugmentedFormula,
+  AugmentedFormulaNode,
+  Delimited,
+  Fraction,
+  Group,
+  MathSymbol,
+  Root,
+  Script,
+  TableNode,
+  isTableNode,
+} from "./FormulaTree";
+
+// An edit that can't be made to the selection, with why
+export class RewriteError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "RewriteError";
+  }
+}
 
 export const assertUnreachable = (x: never): never => {
   throw new Error("Non-exhaustive match for " + x);
@@ -45,10 +65,15 @@ const replaceNode = (
     case "symbol":
     case "space":
     case "op":
+    case "middle":
+    case "kern":
       return replacer(node.withChanges({}));
     case "color":
     case "group":
     case "text":
+    case "delimited":
+    case "sizing":
+    case "phantom":
       return replacer(
         node.withChanges({
           body: node.body.map((child) => replaceNode(child, replacer)),
@@ -56,6 +81,10 @@ const replaceNode = (
       );
     case "box":
     case "strikethrough":
+    case "accent":
+    case "font":
+    case "line":
+    case "lap":
       return replacer(
         node.withChanges({
           body: replaceNode(node.body, replacer),
@@ -68,6 +97,8 @@ const replaceNode = (
         })
       );
     case "array":
+    case "matrix":
+    case "cases":
       return replacer(
         node.withChanges({
           body: node.body.map((row) =>
@@ -116,16 +147,25 @@ const reassignIds = (
     case "symbol":
     case "space":
     case "op":
+    case "middle":
+    case "kern":
       return node.withChanges({ id });
     case "color":
     case "group":
     case "text":
+    case "delimited":
+    case "sizing":
+    case "phantom":
       return node.withChanges({
         id,
         body: node.body.map((child, i) => reassignIds(child, `${id}.${i}`)),
       });
     case "box":
     case "strikethrough":
+    case "accent":
+    case "font":
+    case "line":
+    case "lap":
       return node.withChanges({
         id,
         body: reassignIds(node.body, `${id}.body`),
@@ -136,6 +176,8 @@ const reassignIds = (
         base: reassignIds(node.base, `${id}.base`),
       });
     case "array":
+    case "matrix":
+    case "cases":
       return node.withChanges({
         id,
         body: node.body.map((row, rowNum) =>
@@ -187,16 +229,25 @@ const fixParent = (
     case "symbol":
     case "space":
     case "op":
+    case "middle":
+    case "kern":
       return node.withChanges({ parent });
     case "color":
     case "group":
     case "text":
+    case "delimited":
+    case "sizing":
+    case "phantom":
       return node.withChanges({
         parent,
         body: node.body.map((child) => fixParent(child, node)),
       });
     case "box":
     case "strikethrough":
+    case "accent":
+    case "font":
+    case "line":
+    case "lap":
       return node.withChanges({
         parent,
         body: fixParent(node.body, node),
@@ -207,6 +258,8 @@ const fixParent = (
         base: fixParent(node.base, node),
       });
     case "array":
+    case "matrix":
+    case "cases":
       return node.withChanges({
         parent,
         body: node.body.map((row) => row.map((cell) => fixParent(cell, node))),
@@ -302,6 +355,8 @@ export const removeEmptyGroup = (
     case "symbol":
     case "space":
     case "op":
+    case "middle":
+    case "kern":
       return [node];
     case "color":
     case "text":
@@ -312,8 +367,21 @@ export const removeEmptyGroup = (
           ),
         }),
       ];
+    case "delimited":
+    case "sizing":
+    case "phantom":
+      // These can be empty, e.g. the arguments of `f\left(\right)`
+      return [
+        node.withChanges({
+          body: node.body.flatMap(removeEmptyGroup).flatMap(stripOuterGroup),
+        }),
+      ];
     case "box":
     case "strikethrough":
+    case "accent":
+    case "font":
+    case "line":
+    case "lap":
       return [
         node.withChanges({
           body: exactlyOne(removeEmptyGroup(node.body)),
@@ -326,6 +394,8 @@ export const removeEmptyGroup = (
         }),
       ];
     case "array":
+    case "matrix":
+    case "cases":
       return [
         node.withChanges({
           body: node.body.map((row) =>
@@ -384,9 +454,15 @@ const fixSibling = (node: AugmentedFormulaNode): AugmentedFormulaNode => {
     case "symbol":
     case "space":
     case "op":
+    case "middle":
+    case "kern":
       return node;
     case "box":
     case "strikethrough":
+    case "accent":
+    case "font":
+    case "line":
+    case "lap":
       return node.withChanges({
         body: fixSibling(node.body),
       });
@@ -403,7 +479,10 @@ const fixSibling = (node: AugmentedFormulaNode): AugmentedFormulaNode => {
       });
     case "color":
     case "group":
-    case "text": {
+    case "text":
+    case "delimited":
+    case "sizing":
+    case "phantom": {
       // These are the only nodes whose children might have siblings
       const newChildren = node.body.map((child) => fixSibling(child));
       newChildren.forEach((child, i) => {
@@ -420,7 +499,9 @@ const fixSibling = (node: AugmentedFormulaNode): AugmentedFormulaNode => {
       });
     }
     case "array":
-      // Adjacent nodes in an array environment are not valid siblings
+    case "matrix":
+    case "cases":
+      // Adjacent nodes in a tabular environment are not valid siblings
       // because they cannot be joined into a Group without removing a column.
       // The & column dividers must be at the top level of the Array.
       return node.withChanges({
@@ -474,9 +555,15 @@ const consolidateGroup = (
     case "symbol":
     case "space":
     case "op":
+    case "middle":
+    case "kern":
       return node;
     case "box":
     case "strikethrough":
+    case "accent":
+    case "font":
+    case "line":
+    case "lap":
       return node.withChanges({
         body: consolidateGroup(node.body, siblingGroups),
       });
@@ -492,6 +579,8 @@ const consolidateGroup = (
         }),
       });
     case "array":
+    case "matrix":
+    case "cases":
       return node.withChanges({
         body: node.body.map((row) =>
           row.map((cell) => consolidateGroup(cell, siblingGroups))
@@ -499,7 +588,10 @@ const consolidateGroup = (
       });
     case "color":
     case "group":
-    case "text": {
+    case "text":
+    case "delimited":
+    case "sizing":
+    case "phantom": {
       let body = node.body.map((child) =>
         consolidateGroup(child, siblingGroups)
       );
@@ -522,3 +614,443 @@ const consolidateGroup = (
 
   assertUnreachable(node);
 };
+
+export type TableCell = {
+  table: TableNode;
+  row: number;
+  column: number;
+};
+
+/**
+ * The innermost table cell that a node is in, or is, with its position
+ */
+export const findTableCell = (node: AugmentedFormulaNode): TableCell | null => {
+  for (let cell = node; cell._parent !== null; cell = cell._parent) {
+    const table = cell._parent;
+    if (isTableNode(table)) {
+      // Parents aren't updated when their children are replaced, so cells
+      // are found by id
+      const row = table.body.findIndex((cells) =>
+        cells.some((other) => other.id === cell.id)
+      );
+      if (row === -1) {
+        return null;
+      }
+      const column = table.body[row].findIndex((other) => other.id === cell.id);
+      return { table, row, column };
+    }
+  }
+  return null;
+};
+
+// Empty groups are kept as cells, see `removeEmptyGroup`
+const emptyCell = () => new Group("", []);
+
+const countColumns = (table: TableNode) =>
+  Math.max(...table.body.map((row) => row.length));
+
+// Where a column is in a column spec, which can have separators between them
+const columnSpecIndex = (columns: ArrayColumn[], column: number) => {
+  const aligns = columns.flatMap((spec, i) =>
+    spec.type === "align" ? [i] : []
+  );
+  return column < aligns.length ? aligns[column] : columns.length;
+};
+
+// The columns of a column spec and the separators around them, where `gaps[i]`
+// are the ones before column `i` and the last gap is after all of them
+const splitColumnSpec = (columns: ArrayColumn[]) => {
+  const aligns: ArrayColumn[] = [];
+  const gaps: ArrayColumn[][] = [[]];
+  for (const column of columns) {
+    if (column.type === "align") {
+      aligns.push(column);
+      gaps.push([]);
+    } else {
+      gaps[gaps.length - 1].push(column);
+    }
+  }
+  return { aligns, gaps };
+};
+
+const updateTable = (
+  formula: AugmentedFormula,
+  tableId: string,
+  update: (table: TableNode) => TableNode
+): AugmentedFormula =>
+  replaceNodes(formula, (node) =>
+    node.id === tableId && isTableNode(node) ? update(node) : node
+  );
+
+/**
+ * Inserts a row of empty cells before the row at `index`. A row with a single
+ * cell gets a placeholder instead, since a row without any content is dropped
+ * when it's the last one.
+ */
+export const insertTableRow = (
+  formula: AugmentedFormula,
+  tableId: string,
+  index: number
+): AugmentedFormula =>
+  updateTable(formula, tableId, (table) => {
+    const columns = countColumns(table);
+    const row =
+      columns === 1
+        ? [new Group("", [placeholder()])]
+        : Array.from({ length: columns }, emptyCell);
+    return table.withChanges({
+      body: [...table.body.slice(0, index), row, ...table.body.slice(index)],
+    });
+  });
+
+/**
+ * Inserts a column of empty cells before the column at `index`. New columns
+ * of an `array` environment are centered.
+ */
+export const insertTableColumn = (
+  formula: AugmentedFormula,
+  tableId: string,
+  index: number
+): AugmentedFormula =>
+  updateTable(formula, tableId, (table) => {
+    const body = table.body.map((row) => [
+      ...row.slice(0, index),
+      emptyCell(),
+      ...row.slice(index),
+    ]);
+    if (table.type !== "array" || table.columns === undefined) {
+      return table.withChanges({ body });
+    }
+    const columns = [...table.columns];
+    columns.splice(columnSpecIndex(columns, index), 0, {
+      type: "align",
+      align: "c",
+    });
+    return table.withChanges({ body, columns });
+  });
+
+/**
+ * Deletes the rows at `indices`. A table always keeps at least one row, so
+ * deleting all of them does nothing.
+ */
+export const deleteTableRows = (
+  formula: AugmentedFormula,
+  tableId: string,
+  indices: number[]
+): AugmentedFormula =>
+  updateTable(formula, tableId, (table) => {
+    const body = table.body.filter((_, i) => !indices.includes(i));
+    return body.length > 0 ? table.withChanges({ body }) : table;
+  });
+
+/**
+ * Deletes the columns at `indices`. A table always keeps at least one column,
+ * so deleting all of them does nothing. The separators on either side of
+ * deleted columns are merged into the outer ones at the edges of an `array`
+ * environment, and into the first ones between the remaining columns.
+ */
+export const deleteTableColumns = (
+  formula: AugmentedFormula,
+  tableId: string,
+  indices: number[]
+): AugmentedFormula =>
+  updateTable(formula, tableId, (table) => {
+    const body = table.body.map((row) =>
+      row.filter((_, i) => !indices.includes(i))
+    );
+    if (body.some((row) => row.length === 0)) {
+      return table;
+    }
+    if (table.type !== "array" || table.columns === undefined) {
+      return table.withChanges({ body });
+    }
+    const { aligns, gaps } = splitColumnSpec(table.columns);
+    const columns: ArrayColumn[] = [];
+    // Separators that end up next to each other since the last kept column
+    let merged = [gaps[0]];
+    aligns.forEach((align, i) => {
+      if (!indices.includes(i)) {
+        columns.push(
+          ...(columns.length === 0
+            ? merged[0]
+            : merged.find((gap) => gap.length > 0) ?? []),
+          align
+        );
+        merged = [];
+      }
+      merged.push(gaps[i + 1]);
+    });
+    columns.push(...merged[merged.length - 1]);
+    return table.withChanges({ body, columns });
+  });
+
+/**
+ * Canonicalizes a formula after a structural edit, along with the ids of some
+ * of its leaves. The leaves keep their ids through the edit itself, but
+ * canonicalizing renumbers them by where they ended up.
+ */
+export const canonicalizeWithIds = (
+  formula: AugmentedFormula,
+  ids: string[]
+): { formula: AugmentedFormula; ids: string[] } => {
+  // Removing empty groups is the only step that changes the structure, so the
+  // leaves line up before and after renumbering
+  const structured = removeEmptyGroups(formula);
+  const canonical = fixSiblings(fixParents(normalizeIds(structured)));
+  const leaves = (node: AugmentedFormulaNode): AugmentedFormulaNode[] =>
+    node.children.length === 0 ? [node] : node.children.flatMap(leaves);
+  const before = structured.children.flatMap(leaves);
+  const after = canonical.children.flatMap(leaves);
+  return {
+    formula: canonical,
+    ids: ids.flatMap((id) => {
+      const i = before.findIndex((leaf) => leaf.id === id);
+      return i === -1 ? [] : [after[i].id];
+    }),
+  };
+};
+
+const replaceBody = (
+  node: AugmentedFormulaNode,
+  replaceList: (
+    nodes: AugmentedFormulaNode[],
+    parentId: string | null
+  ) => AugmentedFormulaNode[]
+): AugmentedFormulaNode => {
+  switch (node.type) {
+    case "color":
+    case "group":
+    case "text":
+    case "delimited":
+    case "sizing":
+    case "phantom":
+      return node.withChanges({ body: replaceList(node.body, node.id) });
+  }
+  return node;
+};
+
+// Rebuilds a formula like replaceNodes, but also lets `replaceList` rewrite
+// each list of siblings by the id of their parent, which is null at the top.
+// The result isn't canonicalized, so the nodes keep their ids, and the new
+// nodes have empty ones.
+export const editFormula = (
+  formula: AugmentedFormula,
+  replacer: (node: AugmentedFormulaNode) => AugmentedFormulaNode,
+  replaceList: (
+    nodes: AugmentedFormulaNode[],
+    parentId: string | null
+  ) => AugmentedFormulaNode[] = (nodes) => nodes
+): AugmentedFormula =>
+  new AugmentedFormula(
+    replaceList(
+      formula.children.map((node) =>
+        replaceNode(node, (node) => replacer(replaceBody(node, replaceList)))
+      ),
+      null
+    )
+  );
+
+export const wrapped = (nodes: AugmentedFormulaNode[]) =>
+  nodes.length === 1 ? nodes[0] : new Group("", nodes);
+
+// Groups made by an edit are spliced into the list of siblings they end up in
+const spliceNewGroups = (nodes: AugmentedFormulaNode[]) =>
+  nodes.flatMap((node) =>
+    node instanceof Group && node.id === "" ? node.body : [node]
+  );
+
+/**
+ * Replaces each range of selected siblings with what `rewrite` makes of them.
+ * Like the other edits, the result still has to be canonicalized, see
+ * canonicalizeWithIds.
+ */
+export const rewriteSiblings = (
+  formula: AugmentedFormula,
+  siblingGroups: string[][],
+  rewrite: (nodes: AugmentedFormulaNode[]) => AugmentedFormulaNode[]
+): AugmentedFormula =>
+  editFormula(
+    formula,
+    (node) =>
+      siblingGroups.some((ids) => ids.length === 1 && ids[0] === node.id)
+        ? wrapped(rewrite([node]))
+        : node,
+    (nodes) =>
+      spliceNewGroups(
+        siblingGroups
+          .filter((ids) => ids.length > 1)
+          .reduce((nodes, ids) => {
+            const start = nodes.findIndex((node) => node.id === ids[0]);
+            return start === -1
+              ? nodes
+              : [
+                  ...nodes.slice(0, start),
+                  ...rewrite(nodes.slice(start, start + ids.length)),
+                  ...nodes.slice(start + ids.length),
+                ];
+          }, nodes)
+      )
+  );
+
+// Replaces each range of selected siblings with a node wrapped around them
+const wrapSiblings = (
+  formula: AugmentedFormula,
+  siblingGroups: string[][],
+  wrap: (nodes: AugmentedFormulaNode[]) => AugmentedFormulaNode
+): AugmentedFormula =>
+  rewriteSiblings(formula, siblingGroups, (nodes) => [wrap(nodes)]);
+
+// Stands in for the parts of a new node that haven't been written yet
+const placeholder = () => new MathSymbol("", "\\square");
+
+/**
+ * Puts each selected range in a fraction, as its numerator or denominator
+ */
+export const wrapInFraction = (
+  formula: AugmentedFormula,
+  siblingGroups: string[][],
+  position: "numerator" | "denominator"
+): AugmentedFormula =>
+  wrapSiblings(formula, siblingGroups, (nodes) =>
+    position === "numerator"
+      ? new Fraction("", wrapped(nodes), placeholder())
+      : new Fraction("", placeholder(), wrapped(nodes))
+  );
+
+/**
+ * Gives each selected range a superscript or subscript. Scripts that don't
+ * have one yet get it added, including when only their base is selected, and
+ * ones that do are left as they are, since a script can't be another's base.
+ * Throws a RewriteError if that leaves nothing to add a script to.
+ */
+export const addScript = (
+  formula: AugmentedFormula,
+  siblingGroups: string[][],
+  position: "sup" | "sub"
+): AugmentedFormula => {
+  const targets = siblingGroups.flatMap((ids) => {
+    const node = ids.length === 1 ? formula.findNode(ids[0]) : null;
+    const script =
+      node?._parent instanceof Script && node._parent.base.id === node.id
+        ? node._parent
+        : node;
+    if (script instanceof Script) {
+      return script[position] ? [] : [[script.id]];
+    }
+    return [ids];
+  });
+  if (targets.length === 0) {
+    throw new RewriteError(
+      `This already has a ${position === "sup" ? "superscript" : "subscript"}`
+    );
+  }
+  return wrapSiblings(formula, targets, (nodes) => {
+    const [node] = nodes;
+    if (nodes.length === 1 && node instanceof Script) {
+      return position === "sup"
+        ? node.withChanges({ sup: placeholder() })
+        : node.withChanges({ sub: placeholder() });
+    }
+    return position === "sup"
+      ? new Script("", wrapped(nodes), undefined, placeholder())
+      : new Script("", wrapped(nodes), placeholder());
+  });
+};
+
+export const wrapInRoot = (
+  formula: AugmentedFormula,
+  siblingGroups: string[][]
+): AugmentedFormula =>
+  wrapSiblings(formula, siblingGroups, (nodes) => new Root("", wrapped(nodes)));
+
+export const wrapInParentheses = (
+  formula: AugmentedFormula,
+  siblingGroups: string[][]
+): AugmentedFormula =>
+  wrapSiblings(
+    formula,
+    siblingGroups,
+    (nodes) => new Delimited("", "(", ")", nodes)
+  );
+
+/**
+ * Deletes each selected node, keeping its children where it was
+ */
+export const unwrapNodes = (
+  formula: AugmentedFormula,
+  siblingGroups: string[][]
+): AugmentedFormula => {
+  const ids = siblingGroups.flat();
+  return editFormula(
+    formula,
+    (node) =>
+      ids.includes(node.id) && node.children.length > 0
+        ? new Group("", node.children)
+        : node,
+    spliceNewGroups
+  );
+};
+
+// Each relation with the one it becomes when its sides are swapped
+const SWAPPED_RELATIONS: Record<string, string> = {
+  "=": "=",
+  "\\neq": "\\neq",
+  "\\approx": "\\approx",
+  "\\equiv": "\\equiv",
+  "<": ">",
+  ">": "<",
+  "\\lt": "\\gt",
+  "\\gt": "\\lt",
+  "\\le": "\\ge",
+  "\\ge": "\\le",
+  "\\leq": "\\geq",
+  "\\geq": "\\leq",
+};
+
+export const isRelation = (node: AugmentedFormulaNode): node is MathSymbol =>
+  node instanceof MathSymbol && node.value in SWAPPED_RELATIONS;
+
+/**
+ * Swaps the sides of the innermost equation or inequality around the
+ * selection, or of the whole formula if nothing is selected. Throws a
+ * RewriteError if there's none, or only chains of relations.
+ */
+export const swapEquationSides = (
+  formula: AugmentedFormula,
+  siblingGroups: string[][]
+): AugmentedFormula => {
+  const [first] = siblingGroups.flat();
+  const selected = first === undefined ? null : formula.findNode(first);
+  const path = selected ? [selected, ...selected.ancestors] : [];
+  // The equation is the innermost list of siblings with a single relation
+  const relationCounts = [...path.map((node) => node._parent), null].map(
+    (parent) => ({
+      parent,
+      count: (parent?.children ?? formula.children).filter(isRelation).length,
+    })
+  );
+  const equation = relationCounts.find(({ count }) => count === 1)?.parent;
+  if (equation === undefined) {
+    throw new RewriteError(
+      relationCounts.some(({ count }) => count > 1)
+        ? "Only an equation with a single relation can have its sides swapped"
+        : "Only the sides of =, ≠, ≈, ≡, <, >, ≤ and ≥ can be swapped"
+    );
+  }
+  return editFormula(
+    formula,
+    (node) => node,
+    (nodes, parentId) => {
+      const i = nodes.findIndex(isRelation);
+      if (parentId !== (equation?.id ?? null) || i === -1) {
+        return nodes;
+      }
+      const relation = nodes[i] as MathSymbol;
+      return [
+        ...nodes.slice(i + 1),
+        new MathSymbol(relation.id, SWAPPED_RELATIONS[relation.value]),
+        ...nodes.slice(0, i),
+      ];
+    }
+  );
+};
@@ -0,0 +1,78 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+
+import { functionCache, functionCacheKey } from "./functionCache";
+
+beforeEach(() => {
+  localStorage.clear();
+});
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+  vi.restoreAllMocks();
+});
+
+describe("functionCacheKey", () => {
+  it("ignores whitespace in the formula and the order of variables", () => {
+    expect(functionCacheKey("y = \\frac{a}{b} x", ["b", "a", "x"], ["y"])).toBe(
+      functionCacheKey("y=\\frac{a}{b}x", ["a", "b", "x"], ["y"])
+    );
+    expect(functionCacheKey("y = x + z", ["x"], ["y", "z"])).toBe(
+      functionCacheKey("y = x + z", ["x"], ["z", "y"])
+    );
+  });
+
+  it("depends on which variables are inputs and which are computed", () => {
+    expect(functionCacheKey("y = x + z", ["x", "z"], ["y"])).not.toBe(
+      functionCacheKey("y = x + z", ["x", "y"], ["z"])
+    );
+    expect(functionCacheKey("y = 2x", ["x"], ["y"])).not.toBe(
+      functionCacheKey("y = 3x", ["x"], ["y"])
+    );
+  });
+});
+
+describe("functionCache", () => {
+  const key = functionCacheKey("y = 2x", ["x"], ["y"]);
+
+  it("stores code by key", () => {
+    expect(functionCache.get(key)).toBeNull();
+    functionCache.set(key, "code");
+    expect(functionCache.get(key)).toBe("code");
+    functionCache.delete(key);
+    expect(functionCache.get(key)).toBeNull();
+  });
+
+  it("clears only its own entries", () => {
+    functionCache.set(key, "code");
+    functionCache.set(functionCacheKey("y = 3x", ["x"], ["y"]), "other code");
+    localStorage.setItem("formula-editor:autosave", "document");
+
+    functionCache.clear();
+
+    expect(functionCache.get(key)).toBeNull();
+    expect(localStorage.length).toBe(1);
+    expect(localStorage.getItem("formula-editor:autosave")).toBe("document");
+  });
+
+  it("works as an empty cache when storage is unavailable", () => {
+    vi.spyOn(console, "warn").mockImplementation(() => {});
+    vi.stubGlobal("localStorage", undefined);
+
+    expect(() => functionCache.set(key, "code")).not.toThrow();
+    expect(functionCache.get(key)).toBeNull();
+    expect(() => functionCache.delete(key)).not.toThrow();
+    expect(() => functionCache.clear()).not.toThrow();
+  });
+
+  it("keeps working when storage is full", () => {
+    const warn = vi.spyOn(console, "warn").mockImplementation(() => {});
+    vi.spyOn(Storage.prototype, "setItem").mockImplementation(() => {
+      throw new DOMException("Quota exceeded", "QuotaExceededError");
+    });
+
+    functionCache.set(key, "code");
+
+    expect(warn).toHaveBeenCalled();
+    expect(functionCache.get(key)).toBeNull();
+  });
+});
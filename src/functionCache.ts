@@ -0,0 +1,57 @@
+const STORAGE_PREFIX = "formula-editor:function-cache:";
+
+export const normalizeLatex = (latex: string) => latex.replace(/\s+/g, "");
+
+// Generated code depends on the formula and on which variables are inputs and
+// which are computed, so all three go into the key
+export const functionCacheKey = (
+  formula: string,
+  inputVars: string[],
+  dependentVars: string[]
+) =>
+  JSON.stringify([
+    normalizeLatex(formula),
+    [...inputVars].sort(),
+    [...dependentVars].sort(),
+  ]);
+
+// Generated evaluation functions, persisted in localStorage so that formulas
+// we've seen before don't go back to the LLM
+class FunctionCache {
+  get(key: string): string | null {
+    try {
+      return localStorage.getItem(STORAGE_PREFIX + key);
+    } catch (error) {
+      console.warn("🟡 Couldn't read function cache:", error);
+      return null;
+    }
+  }
+
+  set(key: string, code: string) {
+    try {
+      localStorage.setItem(STORAGE_PREFIX + key, code);
+    } catch (error) {
+      console.warn("🟡 Couldn't write function cache:", error);
+    }
+  }
+
+  delete(key: string) {
+    try {
+      localStorage.removeItem(STORAGE_PREFIX + key);
+    } catch (error) {
+      console.warn("🟡 Couldn't write function cache:", error);
+    }
+  }
+
+  clear() {
+    try {
+      Object.keys(localStorage)
+        .filter((key) => key.startsWith(STORAGE_PREFIX))
+        .forEach((key) => localStorage.removeItem(key));
+    } catch (error) {
+      console.warn("🟡 Couldn't write function cache:", error);
+    }
+  }
+}
+
+export const functionCache = new FunctionCache();
@@ -0,0 +1,128 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+
+import {
+  MockProvider,
+  OpenAICompatibleProvider,
+  OpenAIProvider,
+} from "../interactive-math/src/api/FunctionGenerationProvider";
+import { createFunctionGenerationProvider } from "./functionGenerationProvider";
+
+const request = { formula: "y = |x|", inputVars: ["x"], outputVars: ["y"] };
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+  vi.restoreAllMocks();
+});
+
+describe("createFunctionGenerationProvider", () => {
+  it("uses OpenAI by default", () => {
+    expect(createFunctionGenerationProvider({})).toBeInstanceOf(OpenAIProvider);
+  });
+
+  it("serves the fixtures for the mock provider", async () => {
+    const provider = createFunctionGenerationProvider({
+      VITE_LLM_PROVIDER: "mock",
+    });
+    expect(provider).toBeInstanceOf(MockProvider);
+    expect(await provider.generateCode(request)).toContain("Math.abs");
+  });
+
+  it("sends requests to the configured endpoint and model", async () => {
+    const fetch = vi.fn(async () =>
+      Response.json({
+        choices: [{ message: { content: " function evaluate() {} \n" } }],
+      })
+    );
+    vi.stubGlobal("fetch", fetch);
+    vi.spyOn(console, "log").mockImplementation(() => {});
+    const provider = createFunctionGenerationProvider({
+      VITE_LLM_PROVIDER: "compatible",
+      VITE_LLM_ENDPOINT: "http://localhost:8080/v1/chat/completions",
+      VITE_LLM_MODEL: "local-model",
+    });
+    expect(provider).toBeInstanceOf(OpenAICompatibleProvider);
+    expect(await provider.generateCode(request)).toBe("function evaluate() {}");
+
+    const [url, init] = fetch.mock.calls[0] as unknown as [string, RequestInit];
+    expect(url).toBe("http://localhost:8080/v1/chat/completions");
+    expect(init.headers).not.toHaveProperty("Authorization");
+    expect(JSON.parse(init.body as string).model).toBe("local-model");
+  });
+
+  it("sends the previous attempt and its failures when asked again", async () => {
+    const fetch = vi.fn(async () =>
+      Response.json({ choices: [{ message: { content: "fixed" } }] })
+    );
+    vi.stubGlobal("fetch", fetch);
+    vi.spyOn(console, "log").mockImplementation(() => {});
+    const provider = createFunctionGenerationProvider({
+      VITE_LLM_PROVIDER: "compatible",
+      VITE_LLM_ENDPOINT: "http://localhost:8080/v1/chat/completions",
+      VITE_LLM_MODEL: "local-model",
+    });
+    await provider.generateCode({
+      ...request,
+      feedback: {
+        code: "wrong code",
+        failures: [{ inputs: { x: -3 }, outputs: { y: -3 } }],
+      },
+    });
+
+    const [, init] = fetch.mock.calls[0] as unknown as [string, RequestInit];
+    const { messages } = JSON.parse(init.body as string);
+    expect(messages.map(({ role }: { role: string }) => role)).toEqual([
+      "system",
+      "user",
+      "assistant",
+      "user",
+    ]);
+    expect(messages[1].content).toContain(
+      "Dependent variables to calculate: y"
+    );
+    expect(messages[2].content).toBe("wrong code");
+    expect(messages[3].content).toContain('inputs {"x":-3} gave {"y":-3}');
+  });
+
+  it("falls back to OpenAI without an endpoint", () => {
+    vi.spyOn(console, "warn").mockImplementation(() => {});
+    expect(
+      createFunctionGenerationProvider({ VITE_LLM_PROVIDER: "compatible" })
+    ).toBeInstanceOf(OpenAIProvider);
+    expect(
+      createFunctionGenerationProvider({ VITE_LLM_PROVIDER: "claude" })
+    ).toBeInstanceOf(OpenAIProvider);
+  });
+});
+
+describe("MockProvider", () => {
+  const provider = new MockProvider([
+    { formula: "y = 2x", code: "any outputs" },
+    { formula: "y = x + z", outputVars: ["z", "y"], code: "y and z" },
+  ]);
+
+  it("matches formulas ignoring whitespace", async () => {
+    expect(await provider.generateCode({ ...request, formula: "y=2 x" })).toBe(
+      "any outputs"
+    );
+    expect(
+      await provider.generateCode({
+        formula: "y = x + z",
+        inputVars: ["x"],
+        outputVars: ["y", "z"],
+      })
+    ).toBe("y and z");
+    expect(provider.requests.map(({ formula }) => formula)).toEqual([
+      "y=2 x",
+      "y = x + z",
+    ]);
+  });
+
+  it("fails for formulas or outputs without a fixture", async () => {
+    await expect(provider.generateCode(request)).rejects.toThrow(
+      "No mock fixture"
+    );
+    await expect(
+      provider.generateCode({ ...request, formula: "y = x + z" })
+    ).rejects.toThrow("No mock fixture");
+  });
+});
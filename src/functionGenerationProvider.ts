@@ -0,0 +1,100 @@
+import {
+  ChatMessage,
+  FunctionGenerationProvider,
+  FunctionGenerationRequest,
+  MockProvider,
+  OpenAICompatibleProvider,
+  OpenAIProvider,
+} from "../interactive-math/src/api/FunctionGenerationProvider";
+import { MOCK_FIXTURES } from "./mockFixtures";
+
+// The providers come from interactive-math, but with this prompt rather than
+// the library's, which asks for \`variables.a\` notation that doesn't work for
+// symbols such as \\alpha
+const buildMessages = (request: FunctionGenerationRequest): ChatMessage[] => [
+  {
+    role: "system",
+    content: `You are a precise code generator that creates JavaScript functions to evaluate mathematical formulas. 
+                 Return ONLY the function code without any explanation or markdown.`,
+  },
+  {
+    role: "user",
+    content: `
+            Create a JavaScript function that evaluates this formula: ${request.formula}
+            Input variables: ${request.inputVars.join(", ")}
+            Dependent variables to calculate: ${request.outputVars.join(", ")}
+            
+            Requirements:
+            1. Function must be named 'evaluate'
+            2. Takes a single parameter 'variables' containing input variable values as numbers
+            3. Must use ONLY the specified input variables
+            4. Returns object with computed values for dependent variables
+            5. Must handle division by zero and invalid operations
+            6. Return ONLY the function code
+            
+            Input Formula: ${request.formula}
+            Parse this formula and create a corresponding JavaScript function.
+            DO NOT use the example format below - it's just to show the structure.
+            Example structure (NOT the formula to implement):
+            function evaluate(variables) {
+              try {
+                return {
+                  output: someCalculation
+                };
+              } catch (error) {
+                return {
+                  output: NaN
+                };
+              }
+            }
+        `,
+  },
+];
+
+type ProviderEnv = Pick<
+  ImportMetaEnv,
+  | "VITE_OPENAI_API_KEY"
+  | "VITE_LLM_PROVIDER"
+  | "VITE_LLM_ENDPOINT"
+  | "VITE_LLM_MODEL"
+  | "VITE_LLM_API_KEY"
+>;
+
+// Picks the provider from the environment. VITE_LLM_PROVIDER is "openai" (the
+// default), "compatible" for a server implementing the OpenAI API at
+// VITE_LLM_ENDPOINT, or "mock" to serve MOCK_FIXTURES without a network.
+// VITE_LLM_MODEL and VITE_LLM_API_KEY override the model and API key.
+export const createFunctionGenerationProvider = (
+  env: ProviderEnv = import.meta.env
+): FunctionGenerationProvider => {
+  const openAI = () =>
+    new OpenAIProvider({
+      apiKey: env.VITE_LLM_API_KEY || env.VITE_OPENAI_API_KEY,
+      model: env.VITE_LLM_MODEL || "gpt-4",
+      buildMessages,
+    });
+  switch (env.VITE_LLM_PROVIDER || "openai") {
+    case "openai":
+      return openAI();
+    case "compatible":
+      if (env.VITE_LLM_ENDPOINT && env.VITE_LLM_MODEL) {
+        return new OpenAICompatibleProvider({
+          endpoint: env.VITE_LLM_ENDPOINT,
+          model: env.VITE_LLM_MODEL,
+          apiKey: env.VITE_LLM_API_KEY,
+          buildMessages,
+        });
+      }
+      console.warn(
+        "⚠️ VITE_LLM_ENDPOINT and VITE_LLM_MODEL are needed for a compatible provider, using OpenAI"
+      );
+      return openAI();
+    case "mock":
+      return new MockProvider(MOCK_FIXTURES);
+    default:
+      console.warn(
+        `⚠️ Unknown VITE_LLM_PROVIDER ${env.VITE_LLM_PROVIDER}, using OpenAI`
+      );
+      return openAI();
+  }
+};
@@ -0,0 +1,204 @@
+import { describe, expect, it } from "vitest";
+
+import {
+  asciiMathToLatex,
+  couldBeAsciiMath,
+  detectFormat,
+  importFormula,
+  mathMLToLatex,
+} from "./importFormula";
+
+const math = (body: string) =>
+  `<math xmlns="http://www.w3.org/1998/Math/MathML">${body}</math>`;
+
+describe("detectFormat", () => {
+  it("takes undelimited text as LaTeX", () => {
+    expect(detectFormat("hello world")).toBe("latex");
+    expect(detectFormat("dx/dt")).toBe("latex");
+    expect(detectFormat("a/b")).toBe("latex");
+    expect(detectFormat("sqrt(x)")).toBe("latex");
+  });
+
+  it("recognizes MathML and AsciiMath in backticks", () => {
+    expect(detectFormat("<math><mi>x</mi></math>")).toBe("mathml");
+    expect(detectFormat("`sqrt(x)`")).toBe("asciimath");
+  });
+});
+
+describe("couldBeAsciiMath", () => {
+  it("offers converting text that reads differently", () => {
+    expect(couldBeAsciiMath("sqrt(x)")).toBe(true);
+    expect(couldBeAsciiMath("a/b")).toBe(true);
+  });
+
+  it("doesn't offer it for LaTeX or text that reads the same", () => {
+    expect(couldBeAsciiMath("\\frac{a}{b}")).toBe(false);
+    expect(couldBeAsciiMath("a + b")).toBe(false);
+  });
+});
+
+describe("asciiMathToLatex", () => {
+  it.each([
+    ["hat x", "\\hat{x}"],
+    ["bar x", "\\bar{x}"],
+    ["vec(v)", "\\vec{v}"],
+    ["dot x + ddot x", "\\dot{x} + \\ddot{x}"],
+    ["tilde x", "\\tilde{x}"],
+    ["ul x + overline y", "\\underline{x} + \\overline{y}"],
+  ])("converts the accent in %s", (text, latex) => {
+    expect(asciiMathToLatex(text)).toEqual({ latex, unsupported: [] });
+  });
+
+  it.each([
+    ["[[1,2],[3,4]]", "bmatrix"],
+    ["((1,2),(3,4))", "pmatrix"],
+  ])("converts %s to a matrix", (text, environment) => {
+    expect(asciiMathToLatex(text)).toEqual({
+      latex: `\\begin{${environment}} 1 & 2 \\\\ 3 & 4 \\end{${environment}}`,
+      unsupported: [],
+    });
+  });
+
+  it("converts a column vector", () => {
+    expect(asciiMathToLatex("((x),(y))").latex).toBe(
+      "\\begin{pmatrix} x \\\\ y \\end{pmatrix}"
+    );
+  });
+
+  it("converts a table after a brace to cases", () => {
+    expect(asciiMathToLatex("{(x, x > 0), (0, x <= 0):}").latex).toBe(
+      "\\begin{cases} x & x > 0 \\\\ 0 & x \\leq 0 \\end{cases}"
+    );
+  });
+
+  it("keeps brackets that aren't tables", () => {
+    expect(asciiMathToLatex("((a, b))").latex).toBe("( ( a , b ) )");
+    expect(asciiMathToLatex("[(a,b), (c)]").unsupported).toEqual([]);
+  });
+
+  it("reads differentials as one symbol", () => {
+    expect(asciiMathToLatex("dx/dt").latex).toBe("\\frac{dx}{dt}");
+    expect(asciiMathToLatex("dy/dx").latex).toBe("\\frac{dy}{dx}");
+  });
+});
+
+describe("mathMLToLatex", () => {
+  it.each([
+    ["<mi>v</mi><mo>→</mo>", "\\vec{v}"],
+    ["<mi>x</mi><mo>¯</mo>", "\\bar{x}"],
+    ["<mi>x</mi><mo>^</mo>", "\\hat{x}"],
+    ["<mi>x</mi><mo>˙</mo>", "\\dot{x}"],
+    ["<mi>x</mi><mo>¨</mo>", "\\ddot{x}"],
+    ["<mi>x</mi><mo>~</mo>", "\\tilde{x}"],
+  ])("converts accents without accent=true, %s", (body, latex) => {
+    expect(mathMLToLatex(math(`<mover>${body}</mover>`))).toEqual({
+      latex,
+      unsupported: [],
+    });
+    expect(() =>
+      importFormula(math(`<mover>${body}</mover>`), "mathml")
+    ).not.toThrow();
+  });
+
+  it("converts underlines", () => {
+    expect(
+      mathMLToLatex(math("<munder><mi>x</mi><mo>_</mo></munder>")).latex
+    ).toBe("\\underline{x}");
+  });
+
+  it("keeps other over scripts as superscripts or limits", () => {
+    expect(
+      mathMLToLatex(math("<mover><mi>x</mi><mn>2</mn></mover>")).latex
+    ).toBe("x^2");
+    expect(
+      mathMLToLatex(
+        math("<munderover><mo>∑</mo><mi>i</mi><mi>n</mi></munderover>")
+      ).latex
+    ).toBe("\\sum\\limits_i^n");
+  });
+});
+
+const MATRIX_ROWS =
+  "<mtable><mtr><mtd><mn>1</mn></mtd><mtd><mn>2</mn></mtd></mtr><mtr><mtd><mn>3</mn></mtd><mtd><mn>4</mn></mtd></mtr></mtable>";
+const CASES_ROWS =
+  "<mtable><mtr><mtd><mi>x</mi></mtd><mtd><mi>x</mi><mo>&gt;</mo><mn>0</mn></mtd></mtr><mtr><mtd><mn>0</mn></mtd><mtd><mtext>otherwise</mtext></mtd></mtr></mtable>";
+
+describe("mathMLToLatex tables", () => {
+  it.each([
+    ["(", ")", "pmatrix"],
+    ["[", "]", "bmatrix"],
+    ["|", "|", "vmatrix"],
+    ["‖", "‖", "Vmatrix"],
+  ])("converts a table in %s %s to a %s", (open, close, environment) => {
+    const latex = `\\begin{${environment}} 1 & 2 \\\\ 3 & 4 \\end{${environment}}`;
+    expect(
+      mathMLToLatex(
+        math(`<mrow><mo>${open}</mo>${MATRIX_ROWS}<mo>${close}</mo></mrow>`)
+      )
+    ).toEqual({ latex, unsupported: [] });
+    expect(
+      mathMLToLatex(
+        math(
+          `<mfenced open="${open}" close="${close}">${MATRIX_ROWS}</mfenced>`
+        )
+      ).latex
+    ).toBe(latex);
+  });
+
+  it("converts a table after a brace to cases", () => {
+    const latex =
+      "f ( x ) = \\begin{cases} x & x > 0 \\\\ 0 & \\text{otherwise} \\end{cases}";
+    const cases = `<mi>f</mi><mo>(</mo><mi>x</mi><mo>)</mo><mo>=</mo><mo>{</mo>${CASES_ROWS}`;
+    expect(mathMLToLatex(math(`<mrow>${cases}</mrow>`)).latex).toBe(latex);
+    expect(mathMLToLatex(math(`<mrow>${cases}<mo></mo></mrow>`)).latex).toBe(
+      latex
+    );
+    expect(() => importFormula(math(cases), "mathml")).not.toThrow();
+  });
+
+  it("keeps a table without brackets aligned", () => {
+    expect(mathMLToLatex(math(MATRIX_ROWS)).latex).toBe(
+      "\\begin{aligned} 1 & 2 \\\\ 3 & 4 \\end{aligned}"
+    );
+  });
+});
+
+describe("mathMLToLatex", () => {
+  it.each([
+    ["<mfrac><mi>a</mi><mi>b</mi></mfrac>", "\\frac{a}{b}"],
+    ["<msqrt><mi>x</mi></msqrt>", "\\sqrt{x}"],
+    ["<mroot><mi>x</mi><mn>3</mn></mroot>", "\\sqrt[3]{x}"],
+    ["<msubsup><mi>x</mi><mi>i</mi><mn>2</mn></msubsup>", "x_i^2"],
+    [
+      "<mi>α</mi><mo>≤</mo><mi>sin</mi><mi>θ</mi>",
+      "\\alpha \\leq \\sin \\theta",
+    ],
+    ["<mfenced><mi>a</mi><mi>b</mi></mfenced>", "( a , b )"],
+    ['<mi mathcolor="red">x</mi>', "\\textcolor{red}{x}"],
+  ])("converts %s", (body, latex) => {
+    expect(mathMLToLatex(math(body))).toEqual({ latex, unsupported: [] });
+  });
+
+  it("reads Word's prefixed elements", () => {
+    expect(
+      mathMLToLatex(
+        '<mml:math xmlns:mml="http://www.w3.org/1998/Math/MathML"><mml:msup><mml:mi>x</mml:mi><mml:mn>2</mml:mn></mml:msup></mml:math>'
+      ).latex
+    ).toBe("x^2");
+  });
+
+  it("lists what it leaves out", () => {
+    expect(
+      mathMLToLatex(math("<mi>x</mi><mphantom><mi>y</mi></mphantom>"))
+    ).toEqual({ latex: "x", unsupported: ["phantoms"] });
+  });
+});
+
+describe("importFormula", () => {
+  it("drops the backticks around AsciiMath", () => {
+    expect(importFormula("`sqrt(x)`")).toMatchObject({
+      latex: "\\sqrt{x}",
+      format: "asciimath",
+    });
+  });
+});
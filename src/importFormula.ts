@@ -0,0 +1,972 @@
+import { deriveAugmentedFormula } from "./FormulaTree";
+
+export type ImportFormat = "latex" | "mathml" | "asciimath";
+
+export type ImportResult = {
+  latex: string;
+  // Constructs that were left out or simplified, to warn about
+  unsupported: string[];
+};
+
+export const FORMAT_NAMES: Record<ImportFormat, string> = {
+  latex: "LaTeX",
+  mathml: "MathML",
+  asciimath: "AsciiMath",
+};
+
+export class FormulaImportError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "FormulaImportError";
+  }
+}
+
+// Greek letters and their LaTeX names
+const GREEK_LETTERS: Record<string, string> = {
+  α: "alpha",
+  β: "beta",
+  γ: "gamma",
+  Γ: "Gamma",
+  δ: "delta",
+  Δ: "Delta",
+  ε: "varepsilon",
+  ϵ: "epsilon",
+  ζ: "zeta",
+  η: "eta",
+  θ: "theta",
+  Θ: "Theta",
+  ϑ: "vartheta",
+  ι: "iota",
+  κ: "kappa",
+  λ: "lambda",
+  Λ: "Lambda",
+  μ: "mu",
+  ν: "nu",
+  ξ: "xi",
+  Ξ: "Xi",
+  π: "pi",
+  Π: "Pi",
+  ρ: "rho",
+  σ: "sigma",
+  Σ: "Sigma",
+  τ: "tau",
+  υ: "upsilon",
+  Υ: "Upsilon",
+  φ: "varphi",
+  Φ: "Phi",
+  ϕ: "phi",
+  χ: "chi",
+  ψ: "psi",
+  Ψ: "Psi",
+  ω: "omega",
+  Ω: "Omega",
+};
+
+// Named operators that KaTeX parses as operators
+const FUNCTIONS = [
+  "sin",
+  "cos",
+  "tan",
+  "sec",
+  "csc",
+  "cot",
+  "sinh",
+  "cosh",
+  "tanh",
+  "arcsin",
+  "arccos",
+  "arctan",
+  "exp",
+  "log",
+  "ln",
+  "det",
+  "dim",
+  "lim",
+  "gcd",
+  "min",
+  "max",
+];
+
+// Characters used by both MathML and AsciiMath that LaTeX writes as commands
+const UNICODE_SYMBOLS: Record<string, string> = {
+  "−": "-",
+  "×": "\\times",
+  "·": "\\cdot",
+  "⋅": "\\cdot",
+  "∗": "\\ast",
+  "÷": "\\div",
+  "±": "\\pm",
+  "∓": "\\mp",
+  "≤": "\\leq",
+  "≥": "\\geq",
+  "≠": "\\neq",
+  "≈": "\\approx",
+  "≡": "\\equiv",
+  "≅": "\\cong",
+  "∼": "\\sim",
+  "∝": "\\propto",
+  "≪": "\\ll",
+  "≫": "\\gg",
+  "∞": "\\infty",
+  "∂": "\\partial",
+  "∇": "\\nabla",
+  "∑": "\\sum",
+  "∏": "\\prod",
+  "∫": "\\int",
+  "∮": "\\oint",
+  "→": "\\rightarrow",
+  "←": "\\leftarrow",
+  "↔": "\\leftrightarrow",
+  "⇒": "\\Rightarrow",
+  "⇐": "\\Leftarrow",
+  "⇔": "\\Leftrightarrow",
+  "↦": "\\mapsto",
+  "∈": "\\in",
+  "∉": "\\notin",
+  "⊂": "\\subset",
+  "⊃": "\\supset",
+  "⊆": "\\subseteq",
+  "⊇": "\\supseteq",
+  "∩": "\\cap",
+  "∪": "\\cup",
+  "∀": "\\forall",
+  "∃": "\\exists",
+  "¬": "\\neg",
+  "∧": "\\wedge",
+  "∨": "\\vee",
+  "∅": "\\emptyset",
+  "∠": "\\angle",
+  "…": "\\ldots",
+  "⋯": "\\cdots",
+  "⟨": "\\langle",
+  "⟩": "\\rangle",
+  "‖": "\\|",
+  "⌊": "\\lfloor",
+  "⌋": "\\rfloor",
+  "⌈": "\\lceil",
+  "⌉": "\\rceil",
+  ℏ: "\\hbar",
+  ℓ: "\\ell",
+  "′": "'",
+  "°": "^{\\circ}",
+  "{": "\\{",
+  "}": "\\}",
+  "#": "\\#",
+  $: "\\$",
+  "%": "\\%",
+  "&": "\\&",
+  "\\": "\\backslash",
+  // Invisible function application, times, separator and plus
+  "⁡": "",
+  "⁢": "",
+  "⁣": "",
+  "⁤": "",
+  " ": " ",
+};
+
+Object.entries(GREEK_LETTERS).forEach(([character, name]) => {
+  UNICODE_SYMBOLS[character] = `\\${name}`;
+});
+
+// Letters and digits are kept, other characters are written as commands where
+// LaTeX needs them to be
+const symbolsToLatex = (text: string) =>
+  Array.from(text)
+    .map((character) => {
+      const latex = UNICODE_SYMBOLS[character] ?? character;
+      // Commands need a space before a following letter
+      return /^\\[a-zA-Z]+$/.test(latex) ? `${latex} ` : latex;
+    })
+    .join("")
+    .trim();
+
+// \text only has trouble with characters that end it early or switch to math
+const textToLatex = (text: string) =>
+  `\\text{${text.replace(/[\\{}$]/g, "").replace(/[#%&_]/g, "\\$&")}}`;
+
+// Wraps anything but a single character or command in braces, for use as an
+// argument
+const argument = (latex: string) =>
+  /^(.|\\[a-zA-Z]+\s*)$/.test(latex) ? latex.trim() : `{${latex}}`;
+
+// Tables between brackets are matrices, or cases with only an opening brace.
+// Keyed by the brackets in LaTeX, with an empty string for none.
+const TABLE_ENVIRONMENTS: Record<string, string> = {
+  "( )": "pmatrix",
+  "[ ]": "bmatrix",
+  "\\{ \\}": "Bmatrix",
+  "| |": "vmatrix",
+  "\\| \\|": "Vmatrix",
+  "\\{ ": "cases",
+  " ": "matrix",
+};
+
+const tableEnvironment = (open: string, close: string): string | undefined =>
+  TABLE_ENVIRONMENTS[`${open.trim()} ${close.trim()}`];
+
+const tableToLatex = (environment: string, rows: string[][]) =>
+  `\\begin{${environment}} ${rows.map((row) => row.join(" & ")).join(" \\\\ ")} \\end{${environment}}`;
+
+/*
+ * MathML, e.g. from Word or web pages
+ */
+
+// Over and under characters that are braces rather than accents
+const OVER_BRACES = new Set(["⏞", "︷"]);
+const UNDER_BRACES = new Set(["⏟", "︸"]);
+// Over and under characters that are accents or lines, which are often written
+// without accent="true" since MathML's operator dictionary says so already
+const OVER_ACCENTS: Record<string, string> = {
+  "^": "\\hat",
+  ˆ: "\\hat",
+  "\u0302": "\\hat",
+  "¯": "\\bar",
+  "\u0304": "\\bar",
+  "‾": "\\overline",
+  "→": "\\vec",
+  "\u20d7": "\\vec",
+  "~": "\\tilde",
+  "˜": "\\tilde",
+  "\u0303": "\\tilde",
+  "˙": "\\dot",
+  "\u0307": "\\dot",
+  "¨": "\\ddot",
+  "\u0308": "\\ddot",
+};
+const UNDER_ACCENTS: Record<string, string> = {
+  _: "\\underline",
+  "‾": "\\underline",
+  "\u0332": "\\underline",
+};
+// Operators whose under and over scripts are limits
+const LIMIT_OPERATORS = new Set([
+  "\\sum",
+  "\\prod",
+  "\\int",
+  "\\oint",
+  "\\lim",
+  "\\min",
+  "\\max",
+]);
+
+// Elements that only group their children, whatever their attributes
+const GROUPING_ELEMENTS = new Set(["math", "mrow", "mstyle", "mpadded"]);
+
+// Element name without the prefix Word uses, e.g. mml:mi
+const elementName = (element: Element) =>
+  element.localName.replace(/^.*:/, "").toLowerCase();
+
+const parseMathML = (mathml: string) => {
+  const xml = new DOMParser().parseFromString(mathml, "application/xml");
+  if (!xml.getElementsByTagName("parsererror").length) {
+    return xml.documentElement;
+  }
+  // Entities such as &InvisibleTimes; only parse as HTML
+  const html = new DOMParser().parseFromString(mathml, "text/html");
+  const math = Array.from(html.body.getElementsByTagName("*")).find(
+    (element) => elementName(element) === "math"
+  );
+  if (!math) {
+    throw new FormulaImportError("The pasted MathML couldn't be read");
+  }
+  return math;
+};
+
+/**
+ * Converts MathML to the LaTeX the formula tree understands. Elements that
+ * can't be converted are listed as unsupported, keeping their contents where
+ * possible.
+ */
+export const mathMLToLatex = (mathml: string): ImportResult => {
+  const unsupported = new Set<string>();
+
+  const convertChildren = (element: Element) =>
+    Array.from(element.children).map(convert);
+
+  // Brackets around a table are written as operators next to it, except for
+  // the closing one of cases, which is empty or missing
+  const convertRow = (element: Element) => {
+    const children = Array.from(element.children);
+    const parts: string[] = [];
+    for (let i = 0; i < children.length; i++) {
+      const [open, tableElement, close] = children.slice(i, i + 3);
+      if (
+        elementName(open) === "mo" &&
+        tableElement &&
+        elementName(tableElement) === "mtable"
+      ) {
+        const opening = symbolsToLatex(open.textContent ?? "");
+        const closing =
+          close && elementName(close) === "mo"
+            ? symbolsToLatex(close.textContent ?? "")
+            : null;
+        const bracketed =
+          closing !== null ? tableEnvironment(opening, closing) : undefined;
+        const environment = bracketed ?? tableEnvironment(opening, "");
+        if (environment) {
+          parts.push(table(tableElement, environment));
+          i += bracketed ? 2 : 1;
+          continue;
+        }
+      }
+      parts.push(convert(children[i]));
+    }
+    return parts.join(" ");
+  };
+
+  const colored = (element: Element, latex: string) => {
+    const color = element.getAttribute("mathcolor");
+    if (element.getAttribute("mathbackground")) {
+      unsupported.add("background colors");
+    }
+    return color ? `\\textcolor{${color}}{${latex}}` : latex;
+  };
+
+  const identifier = (element: Element) => {
+    const text = element.textContent?.trim() ?? "";
+    const variant = element.getAttribute("mathvariant");
+    if (variant && variant !== "normal" && variant !== "italic") {
+      unsupported.add(`${variant} letters`);
+    }
+    if (FUNCTIONS.includes(text)) {
+      return `\\${text}`;
+    }
+    return symbolsToLatex(text);
+  };
+
+  // Operators with limits, like \sum\limits, can't be wrapped in braces
+  const scripts = (base: string, sub?: string, sup?: string) =>
+    [
+      base.endsWith("\\limits") ? base : argument(base),
+      sub !== undefined ? `_${argument(sub)}` : "",
+      sup !== undefined ? `^${argument(sup)}` : "",
+    ].join("");
+
+  const underOver = (element: Element, name: string) => {
+    const [baseElement, ...scriptElements] = Array.from(element.children);
+    const base = convert(baseElement);
+    const [first, second] = scriptElements.map(convert);
+    const under = name === "mover" ? undefined : first;
+    const over =
+      name === "mover" ? first : name === "munder" ? undefined : second;
+
+    // Braces are written with the brace around the base
+    const overText =
+      name === "munder"
+        ? ""
+        : scriptElements[scriptElements.length - 1]?.textContent;
+    const underText = name === "mover" ? "" : scriptElements[0]?.textContent;
+    if (overText && OVER_BRACES.has(overText.trim())) {
+      return `\\overbrace{${base}}`;
+    }
+    if (underText && UNDER_BRACES.has(underText.trim())) {
+      return `\\underbrace{${base}}`;
+    }
+
+    const overAccent = overText && OVER_ACCENTS[overText.trim()];
+    const underAccent = underText && UNDER_ACCENTS[underText.trim()];
+    if (name === "mover" && overAccent) {
+      return `${overAccent}{${base}}`;
+    }
+    if (name === "munder" && underAccent) {
+      return `${underAccent}{${base}}`;
+    }
+    if (
+      element.getAttribute("accent") === "true" ||
+      element.getAttribute("accentunder") === "true"
+    ) {
+      unsupported.add("accents");
+      return base;
+    }
+    const limits = LIMIT_OPERATORS.has(base.trim()) ? "\\limits" : "";
+    return scripts(`${base}${limits}`, under, over);
+  };
+
+  const fenced = (element: Element) => {
+    const open = element.getAttribute("open") ?? "(";
+    const close = element.getAttribute("close") ?? ")";
+    const separators = (element.getAttribute("separators") ?? ",").trim();
+    const [only, ...rest] = Array.from(element.children);
+    const environment =
+      only &&
+      rest.length === 0 &&
+      elementName(only) === "mtable" &&
+      tableEnvironment(symbolsToLatex(open), symbolsToLatex(close));
+    if (environment) {
+      return table(only, environment);
+    }
+    const children = convertChildren(element);
+    const body = children
+      .map((child, i) =>
+        i < children.length - 1
+          ? `${child} ${symbolsToLatex(separators[Math.min(i, separators.length - 1)] ?? "")}`
+          : child
+      )
+      .join(" ");
+    return `${symbolsToLatex(open)} ${body} ${symbolsToLatex(close)}`;
+  };
+
+  const enclosed = (element: Element) => {
+    const body = convertRow(element);
+    const notations = (element.getAttribute("notation") ?? "longdiv").split(
+      /\s+/
+    );
+    if (notations.includes("updiagonalstrike")) {
+      return `\\cancel{${body}}`;
+    }
+    if (notations.includes("box") || notations.includes("roundedbox")) {
+      return `\\fcolorbox{black}{white}{$${body}$}`;
+    }
+    unsupported.add(`${notations.join(" ")} enclosures`);
+    return body;
+  };
+
+  // Tables without brackets are aligned equations, e.g. Word's equation arrays
+  const table = (element: Element, environment = "aligned") => {
+    const rows = Array.from(element.children)
+      .filter((row) => ["mtr", "mlabeledtr"].includes(elementName(row)))
+      .map((row) =>
+        Array.from(row.children)
+          .filter((cell) => elementName(cell) === "mtd")
+          .map(convertRow)
+      );
+    return tableToLatex(environment, rows);
+  };
+
+  const convert = (element: Element): string => {
+    const name = elementName(element);
+    const children = Array.from(element.children);
+    if (GROUPING_ELEMENTS.has(name)) {
+      return colored(element, convertRow(element));
+    }
+    switch (name) {
+      case "semantics":
+        // The first child is the presentation, the rest are annotations
+        return children.length > 0 ? convert(children[0]) : "";
+      case "mi":
+        return colored(element, identifier(element));
+      case "mn":
+      case "mo":
+        return colored(element, symbolsToLatex(element.textContent ?? ""));
+      case "mtext":
+      case "ms":
+        return colored(element, textToLatex(element.textContent ?? ""));
+      case "mspace": {
+        const width = parseFloat(element.getAttribute("width") ?? "0");
+        return width >= 1 ? "\\quad" : "\\,";
+      }
+      case "mfrac":
+        if (element.getAttribute("linethickness") === "0") {
+          unsupported.add("fractions without a line");
+        }
+        return `\\frac{${convert(children[0])}}{${convert(children[1])}}`;
+      case "msqrt":
+        return `\\sqrt{${convertRow(element)}}`;
+      case "mroot":
+        return `\\sqrt[${convert(children[1])}]{${convert(children[0])}}`;
+      case "msub":
+        return scripts(convert(children[0]), convert(children[1]));
+      case "msup":
+        return scripts(convert(children[0]), undefined, convert(children[1]));
+      case "msubsup":
+        return scripts(
+          convert(children[0]),
+          convert(children[1]),
+          convert(children[2])
+        );
+      case "munder":
+      case "mover":
+      case "munderover":
+        return underOver(element, name);
+      case "mfenced":
+        return fenced(element);
+      case "menclose":
+        return enclosed(element);
+      case "mtable":
+        return table(element);
+      case "mphantom":
+        unsupported.add("phantoms");
+        return "";
+      case "annotation":
+      case "annotation-xml":
+      case "none":
+      case "mprescripts":
+        return "";
+      default:
+        unsupported.add(`<${name}>`);
+        return convertRow(element);
+    }
+  };
+
+  const root = parseMathML(mathml);
+  return {
+    latex: convert(root).replace(/\s+/g, " ").trim(),
+    unsupported: Array.from(unsupported),
+  };
+};
+
+/*
+ * AsciiMath, e.g. from plain-text notes
+ */
+
+type AsciiSymbol =
+  | {
+      kind: "constant" | "function" | "unary" | "binary" | "open" | "close";
+      latex: string;
+    }
+  // Listed by what they are, and replaced by a plain letter or else dropped
+  // keeping their argument
+  | { kind: "unsupported"; construct: string; replacement?: string };
+
+const constant = (latex: string): AsciiSymbol => ({ latex, kind: "constant" });
+const unsupported = (construct: string, replacement?: string): AsciiSymbol => ({
+  kind: "unsupported",
+  construct,
+  replacement,
+});
+
+const ASCII_SYMBOLS: Record<string, AsciiSymbol> = {
+  ...Object.fromEntries(
+    Object.values(GREEK_LETTERS).map((name) => [name, constant(`\\${name}`)])
+  ),
+  ...Object.fromEntries(
+    FUNCTIONS.map((name) => [name, { latex: `\\${name}`, kind: "function" }])
+  ),
+  "*": constant("\\cdot"),
+  "**": constant("\\ast"),
+  "***": constant("\\star"),
+  "//": constant("/"),
+  "\\\\": constant("\\backslash"),
+  xx: constant("\\times"),
+  "-:": constant("\\div"),
+  "o+": constant("\\oplus"),
+  ox: constant("\\otimes"),
+  "o.": constant("\\odot"),
+  sum: constant("\\sum"),
+  prod: constant("\\prod"),
+  int: constant("\\int"),
+  oint: constant("\\oint"),
+  "^^": constant("\\wedge"),
+  vv: constant("\\vee"),
+  nn: constant("\\cap"),
+  uu: constant("\\cup"),
+  "!=": constant("\\neq"),
+  "<=": constant("\\leq"),
+  ">=": constant("\\geq"),
+  lt: constant("<"),
+  gt: constant(">"),
+  "-<": constant("\\prec"),
+  ">-": constant("\\succ"),
+  in: constant("\\in"),
+  "!in": constant("\\notin"),
+  sub: constant("\\subset"),
+  sup: constant("\\supset"),
+  sube: constant("\\subseteq"),
+  supe: constant("\\supseteq"),
+  "-=": constant("\\equiv"),
+  "~=": constant("\\cong"),
+  "~~": constant("\\approx"),
+  prop: constant("\\propto"),
+  and: constant("\\text{ and }"),
+  or: constant("\\text{ or }"),
+  not: constant("\\neg"),
+  "=>": constant("\\implies"),
+  "<=>": constant("\\iff"),
+  AA: constant("\\forall"),
+  EE: constant("\\exists"),
+  oo: constant("\\infty"),
+  del: constant("\\partial"),
+  grad: constant("\\nabla"),
+  "+-": constant("\\pm"),
+  "-+": constant("\\mp"),
+  "O/": constant("\\emptyset"),
+  aleph: constant("\\aleph"),
+  "/_": constant("\\angle"),
+  ":.": constant("\\therefore"),
+  // Differentials, so that dx/dt is a fraction of them
+  dx: constant("dx"),
+  dy: constant("dy"),
+  dz: constant("dz"),
+  dt: constant("dt"),
+  "...": constant("\\ldots"),
+  cdots: constant("\\cdots"),
+  quad: constant("\\quad"),
+  qquad: constant("\\qquad"),
+  uarr: constant("\\uparrow"),
+  darr: constant("\\downarrow"),
+  rarr: constant("\\rightarrow"),
+  "->": constant("\\to"),
+  "|->": constant("\\mapsto"),
+  larr: constant("\\leftarrow"),
+  harr: constant("\\leftrightarrow"),
+  rArr: constant("\\Rightarrow"),
+  lArr: constant("\\Leftarrow"),
+  hArr: constant("\\Leftrightarrow"),
+  sqrt: { latex: "\\sqrt", kind: "unary" },
+  abs: { latex: "|", kind: "unary" },
+  floor: { latex: "\\lfloor", kind: "unary" },
+  ceil: { latex: "\\lceil", kind: "unary" },
+  norm: { latex: "\\|", kind: "unary" },
+  cancel: { latex: "\\cancel", kind: "unary" },
+  ubrace: { latex: "\\underbrace", kind: "unary" },
+  obrace: { latex: "\\overbrace", kind: "unary" },
+  frac: { latex: "\\frac", kind: "binary" },
+  root: { latex: "\\sqrt", kind: "binary" },
+  color: { latex: "\\textcolor", kind: "binary" },
+  hat: { latex: "\\hat", kind: "unary" },
+  bar: { latex: "\\bar", kind: "unary" },
+  vec: { latex: "\\vec", kind: "unary" },
+  dot: { latex: "\\dot", kind: "unary" },
+  ddot: { latex: "\\ddot", kind: "unary" },
+  tilde: { latex: "\\tilde", kind: "unary" },
+  ul: { latex: "\\underline", kind: "unary" },
+  overline: { latex: "\\overline", kind: "unary" },
+  bb: unsupported("fonts"),
+  bbb: unsupported("fonts"),
+  cc: unsupported("fonts"),
+  tt: unsupported("fonts"),
+  fr: unsupported("fonts"),
+  sf: unsupported("fonts"),
+  CC: unsupported("double-struck letters", "C"),
+  NN: unsupported("double-struck letters", "N"),
+  QQ: unsupported("double-struck letters", "Q"),
+  RR: unsupported("double-struck letters", "R"),
+  ZZ: unsupported("double-struck letters", "Z"),
+  "(": { latex: "(", kind: "open" },
+  "[": { latex: "[", kind: "open" },
+  "{": { latex: "\\{", kind: "open" },
+  "(:": { latex: "\\langle", kind: "open" },
+  "{:": { latex: "", kind: "open" },
+  ")": { latex: ")", kind: "close" },
+  "]": { latex: "]", kind: "close" },
+  "}": { latex: "\\}", kind: "close" },
+  ":)": { latex: "\\rangle", kind: "close" },
+  ":}": { latex: "", kind: "close" },
+};
+
+// Longest first, so that e.g. <=> isn't read as <= and >
+const ASCII_NAMES = Object.keys(ASCII_SYMBOLS).sort(
+  (a, b) => b.length - a.length
+);
+
+const ASCII_CLOSING = new Map([
+  ["|", "|"],
+  ["\\lfloor", "\\rfloor"],
+  ["\\lceil", "\\rceil"],
+  ["\\|", "\\|"],
+]);
+
+type AsciiToken =
+  | { type: "symbol"; name: string; symbol: AsciiSymbol }
+  | { type: "number" | "letter" | "other" | "string"; text: string }
+  | { type: "script"; text: "_" | "^" }
+  | { type: "divide" };
+
+const tokenizeAsciiMath = (text: string) => {
+  const tokens: AsciiToken[] = [];
+  let i = 0;
+  while (i < text.length) {
+    const rest = text.slice(i);
+    const space = rest.match(/^\s+/);
+    const number = rest.match(/^\d+(\.\d+)?/);
+    const name = ASCII_NAMES.find((name) => rest.startsWith(name));
+    const textArgument = rest.match(/^text\s*\(([^)]*)\)?/);
+    if (space) {
+      i += space[0].length;
+    } else if (rest[0] === '"') {
+      const end = rest.indexOf('"', 1);
+      const string = end === -1 ? rest.slice(1) : rest.slice(1, end);
+      tokens.push({ type: "string", text: string });
+      i += string.length + (end === -1 ? 1 : 2);
+    } else if (textArgument) {
+      // Text in brackets is kept as written
+      tokens.push({ type: "string", text: textArgument[1] });
+      i += textArgument[0].length;
+    } else if (name) {
+      tokens.push({ type: "symbol", name, symbol: ASCII_SYMBOLS[name] });
+      i += name.length;
+    } else if (number) {
+      tokens.push({ type: "number", text: number[0] });
+      i += number[0].length;
+    } else if (rest[0] === "_" || rest[0] === "^") {
+      tokens.push({ type: "script", text: rest[0] });
+      i += 1;
+    } else if (rest[0] === "/") {
+      tokens.push({ type: "divide" });
+      i += 1;
+    } else {
+      const character = Array.from(rest)[0];
+      tokens.push({
+        type: /\p{L}/u.test(character) ? "letter" : "other",
+        text: character,
+      });
+      i += character.length;
+    }
+  }
+  return tokens;
+};
+
+// A parsed part of the expression. Bracketed groups keep their contents
+// without the brackets, which are dropped when the group is an argument.
+type AsciiNode = { latex: string; inner?: string };
+
+const withoutBrackets = (node: AsciiNode) => node.inner ?? node.latex;
+
+/**
+ * Converts AsciiMath to the LaTeX the formula tree understands, following
+ * AsciiMath's grammar: brackets around arguments, fractions and scripts are
+ * dropped, so `(a+b)/2` is a fraction of `a+b`.
+ */
+export const asciiMathToLatex = (text: string): ImportResult => {
+  const tokens = tokenizeAsciiMath(text);
+  const unsupportedConstructs = new Set<string>();
+  let position = 0;
+
+  const peek = () => tokens[position];
+
+  const simple = (): AsciiNode => {
+    const token = tokens[position];
+    // Scripts and fractions without anything before them get an empty base
+    if (token === undefined || token.type === "script") {
+      return { latex: "" };
+    }
+    position++;
+    switch (token.type) {
+      case "number":
+      case "letter":
+        return { latex: token.text };
+      case "other":
+        return { latex: symbolsToLatex(token.text) };
+      case "string":
+        return { latex: textToLatex(token.text) };
+      case "divide":
+        return { latex: "/" };
+    }
+
+    const { symbol } = token;
+    switch (symbol.kind) {
+      case "constant":
+        return { latex: symbol.latex };
+      case "function":
+        // Functions take their argument along, so sin x/2 divides sin x
+        return { latex: `${symbol.latex} ${simple().latex}` };
+      case "open": {
+        const table = tableRows();
+        if (table) {
+          return {
+            latex: tableToLatex(table.environment, table.rows),
+          };
+        }
+        const inner = expression(true);
+        const close = peek();
+        let closing = "";
+        if (close?.type === "symbol" && close.symbol.kind === "close") {
+          closing = close.symbol.latex;
+          position++;
+        } else {
+          unsupportedConstructs.add("unmatched brackets");
+        }
+        return { latex: `${symbol.latex} ${inner} ${closing}`, inner };
+      }
+      case "close":
+        // Only reached for a closing bracket without an opening one
+        unsupportedConstructs.add("unmatched brackets");
+        return { latex: symbol.latex };
+      case "unary": {
+        const argument = withoutBrackets(simple());
+        const closing = ASCII_CLOSING.get(symbol.latex);
+        return {
+          latex: closing
+            ? `${symbol.latex} ${argument} ${closing}`
+            : `${symbol.latex}{${argument}}`,
+        };
+      }
+      case "binary": {
+        const first = withoutBrackets(simple());
+        const second = withoutBrackets(simple());
+        switch (symbol.latex) {
+          case "\\sqrt":
+            return { latex: `\\sqrt[${first}]{${second}}` };
+          case "\\textcolor":
+            return {
+              latex: `\\textcolor{${first.replace(/[^\w#]/g, "")}}{${second}}`,
+            };
+          default:
+            return { latex: `${symbol.latex}{${first}}{${second}}` };
+        }
+      }
+      case "unsupported":
+        unsupportedConstructs.add(symbol.construct);
+        return { latex: symbol.replacement ?? withoutBrackets(simple()) };
+    }
+  };
+
+  const intermediate = (): AsciiNode => {
+    const base = simple();
+    let latex = base.latex;
+    let scripted = false;
+    for (const script of ["_", "^"] as const) {
+      const token = peek();
+      if (token?.type === "script" && token.text === script) {
+        position++;
+        latex = `${scripted ? latex : argument(latex)}${script}{${withoutBrackets(simple())}}`;
+        scripted = true;
+      }
+    }
+    return scripted ? { latex } : base;
+  };
+
+  const isComma = (token: AsciiToken | undefined) =>
+    token?.type === "other" && token.text === ",";
+
+  // Brackets around two or more bracketed rows with the same number of cells,
+  // like [[1,2],[3,4]], are a table. Reads it after the opening bracket, or
+  // nothing if it isn't one.
+  const tableRows = () => {
+    const start = position;
+    const unsupportedBefore = new Set(unsupportedConstructs);
+    const opening = tokens[start - 1];
+    const rows: string[][] = [];
+    for (;;) {
+      const open = peek();
+      if (open?.type !== "symbol" || open.symbol.kind !== "open") {
+        break;
+      }
+      position++;
+      const cells = [expression(true, true)];
+      while (isComma(peek())) {
+        position++;
+        cells.push(expression(true, true));
+      }
+      const close = peek();
+      if (close?.type !== "symbol" || close.symbol.kind !== "close") {
+        break;
+      }
+      position++;
+      rows.push(cells);
+      if (isComma(peek())) {
+        position++;
+        continue;
+      }
+      const end = peek();
+      const environment =
+        opening.type === "symbol" &&
+        opening.symbol.kind === "open" &&
+        end?.type === "symbol" &&
+        end.symbol.kind === "close" &&
+        tableEnvironment(opening.symbol.latex, end.symbol.latex);
+      if (
+        environment &&
+        rows.length > 1 &&
+        rows.every((row) => row.length === rows[0].length)
+      ) {
+        position++;
+        return { environment, rows };
+      }
+      break;
+    }
+    position = start;
+    unsupportedConstructs.clear();
+    unsupportedBefore.forEach((construct) =>
+      unsupportedConstructs.add(construct)
+    );
+    return null;
+  };
+
+  function expression(bracketed = false, cell = false): string {
+    const parts: string[] = [];
+    while (position < tokens.length) {
+      const token = peek();
+      if (
+        bracketed &&
+        token.type === "symbol" &&
+        token.symbol.kind === "close"
+      ) {
+        break;
+      }
+      if (cell && isComma(token)) {
+        break;
+      }
+      let node = intermediate();
+      if (peek()?.type === "divide") {
+        position++;
+        const denominator = intermediate();
+        node = {
+          latex: `\\frac{${withoutBrackets(node)}}{${withoutBrackets(denominator)}}`,
+        };
+      }
+      parts.push(node.latex);
+    }
+    return parts.join(" ");
+  }
+
+  const latex = expression();
+  return {
+    latex: latex.replace(/\s+/g, " ").trim(),
+    unsupported: Array.from(unsupportedConstructs),
+  };
+};
+
+/*
+ * Choosing the importer
+ */
+
+const isMathML = (text: string) => /<([\w-]+:)?math[\s>]/.test(text);
+
+// Spacing doesn't change LaTeX, so only other differences mean the text was
+// AsciiMath
+const normalizedLatex = (latex: string) => latex.replace(/[\s{}]/g, "");
+
+// AsciiMath's own delimiters, which other formats don't use
+const ASCII_DELIMITED = /^\s*`([^`]*)`\s*$/;
+
+/**
+ * The format of pasted text: MathML if it has a math element, AsciiMath if it
+ * is wrapped in backticks, and LaTeX otherwise. Undelimited text can be read as
+ * AsciiMath too, but words and plain fractions would be rewritten, so only
+ * convert that when asked, see `couldBeAsciiMath`.
+ */
+export const detectFormat = (text: string): ImportFormat => {
+  if (isMathML(text)) {
+    return "mathml";
+  }
+  return ASCII_DELIMITED.test(text) ? "asciimath" : "latex";
+};
+
+/**
+ * Whether text that was taken as LaTeX reads differently as AsciiMath, in which
+ * case converting it can be offered. LaTeX commands rule it out, while
+ * spacing alone, like in `a + b`, reads the same either way.
+ */
+export const couldBeAsciiMath = (text: string) => {
+  if (text.includes("\\")) {
+    return false;
+  }
+  const { latex } = asciiMathToLatex(text);
+  return normalizedLatex(latex) !== normalizedLatex(text);
+};
+
+/**
+ * Converts a formula in any of the supported formats to LaTeX, checking that
+ * it builds a formula tree. Throws a FormulaImportError if it doesn't.
+ */
+export const importFormula = (
+  text: string,
+  format: ImportFormat = detectFormat(text)
+): ImportResult & { format: ImportFormat } => {
+  const { latex, unsupported } =
+    format === "mathml"
+      ? mathMLToLatex(text)
+      : format === "asciimath"
+        ? asciiMathToLatex(text.replace(ASCII_DELIMITED, "$1"))
+        : { latex: text, unsupported: [] };
+  try {
+    deriveAugmentedFormula(latex);
+  } catch (error) {
+    console.error("Error importing formula:", error);
+    throw new FormulaImportError(
+      `The pasted ${FORMAT_NAMES[format]} couldn't be converted`
+    );
+  }
+  return { latex, unsupported, format };
+};
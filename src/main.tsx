@@ -2,6 +2,8 @@ import React from "react";
 import ReactDOM from "react-dom/client";
 
 import App from "./App.tsx";
+import { documentStore } from "./document";
+import { restoreShareLink } from "./shareLink";
 import "./index.css";
 
 const loadMathJax = () => {
@@ -43,7 +45,13 @@ const loadMathJax = () => {
 };
 
 // starting app only after MathJax is loaded
-loadMathJax().then(() => {
+loadMathJax().then(async () => {
+  // Open a shared link, or else pick up where the last session left off
+  if (!(await restoreShareLink())) {
+    documentStore.restoreAutosave();
+  }
+  documentStore.startAutosave();
+
   ReactDOM.createRoot(document.getElementById("root")!).render(
     <React.StrictMode>
       <App />
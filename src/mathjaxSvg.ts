@@ -0,0 +1,42 @@
+import { liteAdaptor } from "mathjax-full/js/adaptors/liteAdaptor.js";
+import { RegisterHTMLHandler } from "mathjax-full/js/handlers/html.js";
+import { TeX } from "mathjax-full/js/input/tex.js";
+import "mathjax-full/js/input/tex/ams/AmsConfiguration.js";
+import "mathjax-full/js/input/tex/base/BaseConfiguration.js";
+import "mathjax-full/js/input/tex/boldsymbol/BoldsymbolConfiguration.js";
+import "mathjax-full/js/input/tex/cancel/CancelConfiguration.js";
+import "mathjax-full/js/input/tex/color/ColorConfiguration.js";
+import "mathjax-full/js/input/tex/html/HtmlConfiguration.js";
+import "mathjax-full/js/input/tex/mathtools/MathtoolsConfiguration.js";
+import { mathjax } from "mathjax-full/js/mathjax.js";
+import { SVG } from "mathjax-full/js/output/svg.js";
+
+// The page's MathJax renders CHTML, whose fonts and styles live in the page,
+// so exports have their own SVG renderer that puts the glyphs in each image.
+// It's only loaded once something is exported.
+const adaptor = liteAdaptor();
+RegisterHTMLHandler(adaptor);
+let svgDocument: ReturnType<typeof mathjax.document> | null = null;
+
+/**
+ * SVG markup of a formula, which has a `data-mjx-error` attribute if MathJax
+ * couldn't render it
+ */
+export const convertToSvg = (latex: string) => {
+  svgDocument ??= mathjax.document("", {
+    InputJax: new TeX({
+      packages: [
+        "base",
+        "ams",
+        "boldsymbol",
+        "color",
+        "cancel",
+        "html",
+        "mathtools",
+      ],
+    }),
+    OutputJax: new SVG({ fontCache: "local" }),
+  });
+  const container = svgDocument.convert(latex, { display: true });
+  return adaptor.outerHTML(adaptor.firstChild(container) as never);
+};
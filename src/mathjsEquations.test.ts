@@ -0,0 +1,103 @@
+import { describe, expect, it } from "vitest";
+
+import {
+  UnsupportedFormulaError,
+  compileFormula,
+  parseEquations,
+} from "./evaluation";
+import { compileMathjsEquations } from "./mathjsEquations";
+
+// The values of each side of each equation
+const evaluate = (latex: string, variables: Record<string, number>) =>
+  compileMathjsEquations(latex).map((sides) =>
+    sides.map((side) => side.evaluate(variables))
+  );
+
+describe("compileMathjsEquations", () => {
+  it("evaluates formulas that the local evaluator can't", () => {
+    const latex = "y = \\sum_{i=1}^{n} i^2 + |x| + n!";
+    expect(() => parseEquations(latex)).toThrow(UnsupportedFormulaError);
+    expect(evaluate(latex, { y: 0, n: 3, x: -2 })).toEqual([
+      [[0], [14 + 2 + 6]],
+    ]);
+  });
+
+  it("multiplies values written next to each other", () => {
+    expect(evaluate("y = 2x(x + 1)", { x: 3, y: 0 })[0][1]).toEqual([24]);
+  });
+
+  it("applies functions up to the next term", () => {
+    const [[, right]] = evaluate("y = \\sin^2 x + \\log_2 8 \\cos x", {
+      x: 1,
+      y: 0,
+    });
+    expect(right[0]).toBeCloseTo(Math.sin(1) ** 2 + 3 * Math.cos(1));
+  });
+
+  it("picks the case whose condition holds", () => {
+    const latex =
+      "y = \\begin{cases} x & x > 0 \\\\ 0 & \\text{otherwise} \\end{cases}";
+    expect(evaluate(latex, { x: 2, y: 0 })[0][1]).toEqual([2]);
+    expect(evaluate(latex, { x: -2, y: 0 })[0][1]).toEqual([0]);
+  });
+
+  it("evaluates matrices to their entries", () => {
+    const latex =
+      "\\begin{pmatrix} y_1 \\\\ y_2 \\end{pmatrix} = \\begin{pmatrix} 1 & 2 \\\\ 3 & 4 \\end{pmatrix} \\begin{pmatrix} a \\\\ b \\end{pmatrix}";
+    expect(evaluate(latex, { y_1: 0, y_2: 0, a: 1, b: 1 })).toEqual([
+      [
+        [0, 0],
+        [3, 7],
+      ],
+    ]);
+  });
+
+  it("knows which variables each side depends on", () => {
+    const [[left, right]] = compileMathjsEquations("y = \\sum_{i=1}^{n} x_{i}");
+    expect(Array.from(left.variables)).toEqual(["y"]);
+    expect(Array.from(right.variables).sort()).toEqual(["n", "x_i"]);
+  });
+
+  it("rejects formulas that mathjs can't evaluate either", () => {
+    expect(() => compileMathjsEquations("y = \\text{speed}")).toThrow(
+      UnsupportedFormulaError
+    );
+    expect(() => compileMathjsEquations("y < x")).toThrow(
+      UnsupportedFormulaError
+    );
+  });
+});
+
+// The two read formulas separately, mathjs covering more constructs so that
+// it can check code the LLM generates for formulas the local evaluator can't
+// handle. Where their syntax overlaps, they have to agree.
+describe("compileMathjsEquations and the local evaluator", () => {
+  const x = 0.7;
+  const z = 1.3;
+
+  it.each([
+    ["y = \\sin 2x", Math.sin(2 * x)],
+    ["y = \\sin x z", Math.sin(x * z)],
+    ["y = \\sin -x z", Math.sin(-x * z)],
+    ["y = \\sin x \\cdot z", Math.sin(x) * z],
+    ["y = \\sin x / z", Math.sin(x) / z],
+    ["y = \\sin x \\cos z", Math.sin(x) * Math.cos(z)],
+    ["y = \\tan x z + 2", Math.tan(x * z) + 2],
+    ["y = x^2 \\sin z x", x ** 2 * Math.sin(z * x)],
+    ["y = \\sin(x) z", Math.sin(x) * z],
+    ["y = \\sin(x)^2 z", Math.sin(x) ** 2 * z],
+    ["y = \\sin x^2", Math.sin(x ** 2)],
+    ["y = \\sin^2 x z", Math.sin(x * z) ** 2],
+    ["y = \\sin \\frac{x}{2} z", Math.sin((x / 2) * z)],
+    ["y = \\log_2 x z", Math.log2(x * z)],
+    ["y = \\ln x + \\exp z", Math.log(x) + Math.exp(z)],
+    ["y = \\sqrt x z", Math.sqrt(x) * z],
+    ["y = 2^{-x} z", 2 ** -x * z],
+    ["y = \\frac{1}{2}x - x/z x", x / 2 - (x / z) * x],
+  ])("read function arguments in %s the same way", (latex, expected) => {
+    const local = compileFormula(latex, ["y"]).evaluate({ x, z }).y;
+    const [[, mathjs]] = evaluate(latex, { x, z, y: 0 });
+    expect(local).toBeCloseTo(expected);
+    expect(mathjs[0]).toBeCloseTo(expected);
+  });
+});
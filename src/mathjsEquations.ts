@@ -0,0 +1,624 @@
+import { EvalFunction, all, create } from "mathjs";
+
+import {
+  AugmentedFormulaNode,
+  Cases,
+  Matrix,
+  MathSymbol,
+  deriveAugmentedFormula,
+} from "./FormulaTree";
+import {
+  UnsupportedFormulaError,
+  isVariableSymbol,
+  scriptedSymbol,
+  variableSymbol,
+} from "./evaluation";
+
+// Real-valued results, e.g. the square root of a negative number is NaN rather
+// than a complex number
+const math = create(all, { predictable: true });
+
+/**
+ * One side of an equation, evaluated by mathjs. Matrices evaluate to their
+ * entries, row by row, and sides that can't be evaluated to NaN.
+ */
+export type MathjsSide = {
+  evaluate: (variables: Record<string, number>) => number[];
+  // The variables the side depends on
+  variables: Set<string>;
+};
+
+// The formula is translated into mathjs expressions piece by piece, which are
+// then joined in the same order, e.g. `2x` becomes the pieces `2` and `x`, and
+// then the expression `2 * x`
+type Piece =
+  | { type: "operand"; code: string; variables: Set<string> }
+  | { type: "digit"; text: string }
+  | { type: "operator"; code: string }
+  | { type: "relation"; code: string }
+  | { type: "open"; code: string }
+  | { type: "close" }
+  | { type: "bar" }
+  | { type: "postfix"; code: string }
+  | {
+      type: "function";
+      apply: (argument: string) => string;
+      variables: Set<string>;
+      // Sums and products go on up to the next plus or minus, even past
+      // parentheses and other functions
+      isSeries?: boolean;
+    };
+
+type Operand = Extract<Piece, { type: "operand" }>;
+
+const FUNCTIONS: Record<string, string> = {
+  "\\sin": "sin",
+  "\\cos": "cos",
+  "\\tan": "tan",
+  "\\cot": "cot",
+  "\\sec": "sec",
+  "\\csc": "csc",
+  "\\arcsin": "asin",
+  "\\arccos": "acos",
+  "\\arctan": "atan",
+  "\\sinh": "sinh",
+  "\\cosh": "cosh",
+  "\\tanh": "tanh",
+  "\\coth": "coth",
+  "\\exp": "exp",
+  "\\ln": "log",
+  "\\log": "log10",
+  "\\lg": "log10",
+  "\\max": "max",
+  "\\min": "min",
+  "\\gcd": "gcd",
+  "\\det": "det",
+};
+
+const SERIES: Record<string, string> = { "\\sum": "sum", "\\prod": "prod" };
+
+const SYMBOLS: Record<string, Piece> = {
+  "\\pi": { type: "operand", code: "pi", variables: new Set() },
+  "\\infty": { type: "operand", code: "Infinity", variables: new Set() },
+  "+": { type: "operator", code: "+" },
+  "-": { type: "operator", code: "-" },
+  "*": { type: "operator", code: "*" },
+  "\\cdot": { type: "operator", code: "*" },
+  "\\times": { type: "operator", code: "*" },
+  "/": { type: "operator", code: "/" },
+  "\\div": { type: "operator", code: "/" },
+  ",": { type: "operator", code: "," },
+  "!": { type: "postfix", code: "!" },
+  "=": { type: "relation", code: "==" },
+  "\\approx": { type: "relation", code: "==" },
+  "<": { type: "relation", code: "<" },
+  "\\lt": { type: "relation", code: "<" },
+  ">": { type: "relation", code: ">" },
+  "\\gt": { type: "relation", code: ">" },
+  "\\le": { type: "relation", code: "<=" },
+  "\\leq": { type: "relation", code: "<=" },
+  "\\leqslant": { type: "relation", code: "<=" },
+  "\\ge": { type: "relation", code: ">=" },
+  "\\geq": { type: "relation", code: ">=" },
+  "\\geqslant": { type: "relation", code: ">=" },
+  "\\ne": { type: "relation", code: "!=" },
+  "\\neq": { type: "relation", code: "!=" },
+  "(": { type: "open", code: "(" },
+  "[": { type: "open", code: "(" },
+  "\\lbrack": { type: "open", code: "(" },
+  ")": { type: "close" },
+  "]": { type: "close" },
+  "\\rbrack": { type: "close" },
+  "|": { type: "bar" },
+  "\\vert": { type: "bar" },
+  "\\lvert": { type: "bar" },
+  "\\rvert": { type: "bar" },
+};
+
+// Functions that \left and \right delimiters stand for
+const DELIMITED_FUNCTIONS: Record<string, string> = {
+  "(": "",
+  "[": "",
+  "\\lbrack": "",
+  "|": "abs",
+  "\\vert": "abs",
+  "\\lvert": "abs",
+  "\\|": "norm",
+  "\\Vert": "norm",
+  "\\lVert": "norm",
+  "\\lfloor": "floor",
+  "\\lceil": "ceil",
+};
+
+const MATRIX_FUNCTIONS: Partial<Record<Matrix["environment"], string>> = {
+  vmatrix: "det",
+  Vmatrix: "norm",
+};
+
+const startsOperand = (piece: Piece) =>
+  ["operand", "digit", "open", "function"].includes(piece.type);
+
+const endsOperand = (piece: Piece | undefined) =>
+  piece !== undefined &&
+  ["operand", "digit", "close", "postfix"].includes(piece.type);
+
+// Each variable gets a name that mathjs can't mistake for anything else
+class Translation {
+  readonly names = new Map<string, string>();
+
+  variable(symbol: string): Operand {
+    if (!this.names.has(symbol)) {
+      this.names.set(symbol, `v${this.names.size}`);
+    }
+    return {
+      type: "operand",
+      code: this.names.get(symbol)!,
+      variables: new Set([symbol]),
+    };
+  }
+
+  nodes(nodes: AugmentedFormulaNode[]): Piece[] {
+    return nodes.flatMap((node) => this.node(node));
+  }
+
+  operand(
+    nodes: AugmentedFormulaNode[],
+    wrap = (code: string) => code
+  ): Operand {
+    const pieces = this.nodes(nodes);
+    return {
+      type: "operand",
+      code: wrap(`(${join(pieces)})`),
+      variables: variablesOf(pieces),
+    };
+  }
+
+  node(node: AugmentedFormulaNode): Piece[] {
+    switch (node.type) {
+      case "symbol":
+        return [this.symbol(node)];
+      case "space":
+      case "kern":
+      case "phantom":
+        return [];
+      case "op": {
+        const name = FUNCTIONS[node.operator];
+        if (name === undefined) {
+          throw new UnsupportedFormulaError(
+            `Unsupported operator: ${node.operator}`
+          );
+        }
+        return [
+          {
+            type: "function",
+            apply: (x) => `${name}(${x})`,
+            variables: new Set(),
+          },
+        ];
+      }
+      case "color":
+      case "sizing":
+        return this.nodes(node.body);
+      case "box":
+      case "strikethrough":
+      case "lap":
+        return this.node(node.body);
+      case "brace":
+        return this.node(node.base);
+      case "group":
+        return [this.operand(node.body)];
+      case "delimited": {
+        const name = DELIMITED_FUNCTIONS[node.left];
+        if (name === undefined) {
+          throw new UnsupportedFormulaError(
+            `Unsupported delimiters: ${node.left} ${node.right}`
+          );
+        }
+        return [this.operand(node.body, (code) => `${name}${code}`)];
+      }
+      case "frac": {
+        const [numerator, denominator] = [
+          this.operand([node.numerator]),
+          this.operand([node.denominator]),
+        ];
+        return [
+          {
+            type: "operand",
+            code: `(${numerator.code} / ${denominator.code})`,
+            variables: variablesOf([numerator, denominator]),
+          },
+        ];
+      }
+      case "root": {
+        const body = this.operand([node.body]);
+        if (!node.index) {
+          return [{ ...body, code: `sqrt${body.code}` }];
+        }
+        const index = this.operand([node.index]);
+        return [
+          {
+            type: "operand",
+            code: `nthRoot(${body.code}, ${index.code})`,
+            variables: variablesOf([body, index]),
+          },
+        ];
+      }
+      case "script":
+        return this.script(node);
+      case "matrix": {
+        const cells = node.body.map((row) =>
+          row.map((cell) => this.node(cell))
+        );
+        const rows = cells.map(
+          (row) => `[${row.map((cell) => join(cell)).join(", ")}]`
+        );
+        const name = MATRIX_FUNCTIONS[node.environment] ?? "";
+        return [
+          {
+            type: "operand",
+            code: `${name}([${rows.join(", ")}])`,
+            variables: variablesOf(cells.flat(2)),
+          },
+        ];
+      }
+      case "cases":
+        return [this.cases(node)];
+      case "text":
+        throw new UnsupportedFormulaError("Text can't be evaluated");
+      case "font":
+      case "accent":
+      case "line": {
+        const symbol = variableSymbol(node);
+        if (symbol !== null) {
+          return [this.variable(symbol)];
+        }
+        if (node.type === "font") {
+          return this.node(node.body);
+        }
+        throw new UnsupportedFormulaError(
+          `Only decorated symbols can be evaluated: ${node.toLatex("no-id")}`
+        );
+      }
+      case "middle":
+        throw new UnsupportedFormulaError(
+          `Unsupported delimiter: \\middle${node.delimiter}`
+        );
+      case "array":
+        throw new UnsupportedFormulaError(
+          "Array environments can only appear at the top level"
+        );
+    }
+  }
+
+  symbol({ value }: MathSymbol): Piece {
+    if (/^[0-9.]$/.test(value)) {
+      return { type: "digit", text: value };
+    }
+    if (isVariableSymbol(value)) {
+      return this.variable(value);
+    }
+    const piece = SYMBOLS[value];
+    if (piece === undefined) {
+      throw new UnsupportedFormulaError(`Unsupported symbol: ${value}`);
+    }
+    return piece;
+  }
+
+  script(node: Extract<AugmentedFormulaNode, { type: "script" }>): Piece[] {
+    const { base, sub, sup } = node;
+    if (base.type === "brace") {
+      // Annotated braces carry their caption as a script, which isn't math
+      return this.node(base.base);
+    }
+    if (base.type === "op" && base.operator in SERIES) {
+      return [this.series(SERIES[base.operator], sub, sup)];
+    }
+
+    const symbol = variableSymbol(base);
+    let pieces: Piece[];
+    if (!sub) {
+      pieces = this.node(base);
+    } else if (symbol !== null) {
+      pieces = [this.variable(scriptedSymbol(symbol, sub))];
+    } else if (base.type === "op" && base.operator === "\\log") {
+      const logBase = this.operand([sub]);
+      pieces = [
+        {
+          type: "function",
+          apply: (x) => `log(${x}, ${logBase.code})`,
+          variables: logBase.variables,
+        },
+      ];
+    } else {
+      throw new UnsupportedFormulaError(
+        "Subscripts are only supported on variables and logarithms"
+      );
+    }
+    if (!sup) {
+      return pieces;
+    }
+
+    const power = this.operand([sup]);
+    const last = pieces[pieces.length - 1];
+    // Powers of functions, like \sin^2 x, are powers of their value
+    if (last?.type === "function") {
+      return [
+        ...pieces.slice(0, -1),
+        { ...last, apply: (x) => `${last.apply(x)}^${power.code}` },
+      ];
+    }
+    return [...pieces, { type: "postfix", code: `^${power.code}` }];
+  }
+
+  // Sums and products over a range, like \sum_{i=1}^{n}
+  series(
+    name: string,
+    sub: AugmentedFormulaNode | undefined,
+    sup: AugmentedFormulaNode | undefined
+  ): Piece {
+    const lower =
+      sub?.type === "group" ? this.nodes(sub.body) : sub ? this.node(sub) : [];
+    const [index, equals] = lower;
+    if (
+      !sup ||
+      index?.type !== "operand" ||
+      index.variables.size !== 1 ||
+      equals?.type !== "relation" ||
+      equals.code !== "=="
+    ) {
+      throw new UnsupportedFormulaError(
+        `Only ${name}s from a lower to an upper limit can be evaluated`
+      );
+    }
+    const from = lower.slice(2);
+    const to = this.operand([sup]);
+    return {
+      type: "function",
+      isSeries: true,
+      apply: (term) =>
+        `${name}(map((${join(from)}):${to.code}, term(${index.code}) = ${term}))`,
+      variables: variablesOf([...from, to]),
+    };
+  }
+
+  // Each value applies if its condition holds, with text like "otherwise"
+  // always holding
+  cases(node: Cases): Piece {
+    const rows = node.body.map(([value, condition]) => ({
+      value: this.node(value),
+      condition:
+        !condition || condition.type === "text" ? [] : this.node(condition),
+    }));
+    const code = rows.reduceRight(
+      (rest, { value, condition }) =>
+        `((${condition.length > 0 ? join(condition) : "true"}) ? (${join(value)}) : ${rest})`,
+      "NaN"
+    );
+    return {
+      type: "operand",
+      code,
+      variables: variablesOf(rows.flatMap(({ value }) => value)),
+    };
+  }
+}
+
+const variablesOf = (pieces: Piece[]) =>
+  new Set(
+    pieces.flatMap((piece) =>
+      piece.type === "operand" || piece.type === "function"
+        ? Array.from(piece.variables)
+        : []
+    )
+  );
+
+// Where the argument of a function starting at `start` ends: at the next
+// operator, relation or other function outside of any parentheses, the same as
+// in the local evaluator. The terms of sums and products go on up to the next
+// plus, minus or comma.
+const argumentEnd = (pieces: Piece[], start: number, isSeries = false) => {
+  let depth = 0;
+  for (let i = start; i < pieces.length; i++) {
+    const piece = pieces[i];
+    if (piece.type === "open") {
+      depth++;
+    } else if (piece.type === "close") {
+      if (depth === 0) {
+        return i;
+      }
+      depth--;
+    } else if (
+      depth === 0 &&
+      i > start &&
+      (piece.type === "relation" ||
+        (piece.type === "function" && !isSeries) ||
+        (piece.type === "operator" &&
+          (["+", "-", ","].includes(piece.code) || !isSeries)))
+    ) {
+      return i;
+    }
+  }
+  return pieces.length;
+};
+
+const matchingClose = (pieces: Piece[], open: number) => {
+  let depth = 0;
+  for (let i = open; i < pieces.length; i++) {
+    depth +=
+      pieces[i].type === "open" ? 1 : pieces[i].type === "close" ? -1 : 0;
+    if (depth === 0) {
+      return i;
+    }
+  }
+  return -1;
+};
+
+// Bars open an absolute value where a value is expected, and otherwise close
+// the innermost one that's open
+const pairBars = (pieces: Piece[]): Piece[] => {
+  let open = 0;
+  return pieces.map((piece, i) => {
+    if (piece.type !== "bar") {
+      return piece;
+    }
+    if (open > 0 && endsOperand(pieces[i - 1])) {
+      open--;
+      return { type: "close" };
+    }
+    open++;
+    return { type: "open", code: "abs(" };
+  });
+};
+
+// Adjacent digits are separate symbols in the tree, so join them into numbers
+const joinDigits = (pieces: Piece[]): Piece[] =>
+  pieces.reduce<Piece[]>((joined, piece) => {
+    const last = joined[joined.length - 1];
+    if (piece.type === "digit" && last?.type === "digit") {
+      joined[joined.length - 1] = {
+        type: "digit",
+        text: last.text + piece.text,
+      };
+    } else {
+      joined.push(piece);
+    }
+    return joined;
+  }, []);
+
+const joinPieces = (pieces: Piece[]): string => {
+  const code: string[] = [];
+  for (let i = 0; i < pieces.length; i++) {
+    const piece = pieces[i];
+    // Writing values next to each other multiplies them
+    if (startsOperand(piece) && endsOperand(pieces[i - 1])) {
+      code.push("*");
+    }
+    switch (piece.type) {
+      case "operand":
+      case "operator":
+      case "relation":
+      case "open":
+      case "postfix":
+        code.push(piece.code);
+        break;
+      case "digit":
+        code.push(piece.text);
+        break;
+      case "close":
+        code.push(")");
+        break;
+      case "bar":
+        throw new UnsupportedFormulaError("Unbalanced absolute value bars");
+      case "function": {
+        // Parentheses right after a function hold all of its arguments
+        const close =
+          !piece.isSeries && pieces[i + 1]?.type === "open"
+            ? matchingClose(pieces, i + 1)
+            : -1;
+        const end =
+          close !== -1 ? close + 1 : argumentEnd(pieces, i + 1, piece.isSeries);
+        const argument =
+          close !== -1 ? pieces.slice(i + 2, close) : pieces.slice(i + 1, end);
+        if (argument.length === 0) {
+          throw new UnsupportedFormulaError(
+            "A function is missing its argument"
+          );
+        }
+        code.push(piece.apply(joinPieces(argument)));
+        // The function's value ends an operand like a closing parenthesis
+        pieces = [
+          ...pieces.slice(0, i),
+          { type: "close" },
+          ...pieces.slice(end),
+        ];
+        break;
+      }
+    }
+  }
+  return code.join(" ");
+};
+
+const join = (pieces: Piece[]) => joinPieces(pairBars(joinDigits(pieces)));
+
+// Values of mathjs results, with anything that isn't a real number being NaN
+const toNumbers = (result: unknown): number[] => {
+  if (typeof result === "number") {
+    return [result];
+  }
+  if (math.isMatrix(result)) {
+    return (result.toArray().flat(Infinity) as unknown[]).flatMap(toNumbers);
+  }
+  return [NaN];
+};
+
+const compileSide = (
+  pieces: Piece[],
+  names: Map<string, string>
+): MathjsSide => {
+  const code = join(pieces);
+  let compiled: EvalFunction;
+  try {
+    compiled = math.compile(code);
+  } catch (error) {
+    throw new UnsupportedFormulaError(
+      `mathjs couldn't parse ${code}: ${error}`
+    );
+  }
+  return {
+    evaluate: (variables) => {
+      const scope: Record<string, number> = {};
+      names.forEach((name, symbol) => {
+        if (symbol in variables) {
+          scope[name] = variables[symbol];
+        }
+      });
+      try {
+        return toNumbers(compiled.evaluate(scope));
+      } catch {
+        return [NaN];
+      }
+    },
+    variables: variablesOf(pieces),
+  };
+};
+
+/**
+ * Compiles each equation of a formula with mathjs, separately from the local
+ * evaluator, so that it can check code from either. A top-level array
+ * environment is one equation per row, and rows without an equals sign are
+ * skipped.
+ *
+ * @throws UnsupportedFormulaError when the formula uses constructs that
+ * mathjs can't evaluate either
+ */
+export const compileMathjsEquations = (latex: string): MathjsSide[][] => {
+  let children: AugmentedFormulaNode[];
+  try {
+    children = deriveAugmentedFormula(latex).children;
+  } catch (error) {
+    throw new UnsupportedFormulaError(`Failed to parse formula: ${error}`);
+  }
+  const rows =
+    children.length === 1 && children[0].type === "array"
+      ? children[0].body.map((row) =>
+          row.flatMap((cell) => (cell.type === "group" ? cell.body : [cell]))
+        )
+      : [children];
+
+  const translation = new Translation();
+  return rows.flatMap((row) => {
+    const sides: Piece[][] = [[]];
+    for (const piece of translation.nodes(row)) {
+      if (piece.type === "relation") {
+        if (piece.code !== "==") {
+          throw new UnsupportedFormulaError("Inequalities can't be checked");
+        }
+        sides.push([]);
+      } else {
+        sides[sides.length - 1].push(piece);
+      }
+    }
+    return sides.length < 2
+      ? []
+      : [sides.map((side) => compileSide(side, translation.names))];
+  });
+};
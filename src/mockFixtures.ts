@@ -0,0 +1,19 @@
+import type { MockFixture } from "../interactive-math/src/api/FunctionGenerationProvider";
+
+// Code served by the mock provider, for formulas the local evaluator can't
+// handle and so would otherwise be sent to the LLM
+export const MOCK_FIXTURES: MockFixture[] = [
+  {
+    formula: "y = \\sum_{i=1}^{n} i",
+    code: `function evaluate(variables) {
+  const n = Math.floor(variables.n);
+  return { y: n >= 1 ? (n * (n + 1)) / 2 : 0 };
+}`,
+  },
+  {
+    formula: "y = |x|",
+    code: `function evaluate(variables) {
+  return { y: Math.abs(variables.x) };
+}`,
+  },
+];
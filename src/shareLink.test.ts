@@ -0,0 +1,92 @@
+import { Blob as NodeBlob } from "node:buffer";
+import { beforeEach, describe, expect, it, vi } from "vitest";
+
+import {
+  DOCUMENT_VERSION,
+  FormulaDocument,
+  createDocument,
+  documentStore,
+} from "./document";
+import { createShareLink, restoreShareLink } from "./shareLink";
+
+// Rendering formulas in the workspace takes the page's MathJax, so here the
+// workspace only keeps the formulas it's given
+vi.mock("./store", () => ({
+  workspaceStore: {
+    latexesWithStyling: [] as string[],
+    load(latexes: string[]) {
+      this.latexesWithStyling = latexes;
+    },
+  },
+}));
+
+const DOCUMENT: FormulaDocument = {
+  format: "formula-editor",
+  version: DOCUMENT_VERSION,
+  formulas: ["E = \\textcolor{blue}{m}c^2"],
+  variables: {
+    E: { symbol: "E", type: "dependent", value: 9, unit: "J" },
+    m: { symbol: "m", type: "slidable", value: 1, min: 0, max: 5 },
+    c: { symbol: "c", type: "fixed", value: 3 },
+  },
+  generatedCode: "function evaluate(variables) { return { E: 9 }; }",
+  customCode: null,
+};
+
+const openPage = (url: string) => window.history.replaceState(null, "", url);
+
+beforeEach(() => {
+  // jsdom's blobs can't be streamed through the compression streams
+  vi.stubGlobal("Blob", NodeBlob);
+  vi.spyOn(console, "log").mockImplementation(() => {});
+  vi.spyOn(console, "error").mockImplementation(() => {});
+  documentStore.setNotice(null);
+  openPage("/formula-editor/?mode=demo");
+});
+
+describe("share links", () => {
+  it("open the document they were created from, without its code", async () => {
+    const link = await createShareLink(DOCUMENT);
+    expect(link).toMatch(
+      /^http:\/\/localhost:3000\/formula-editor\/\?mode=demo#doc=[\w-]+$/
+    );
+
+    openPage(link);
+    expect(await restoreShareLink()).toBe(true);
+    expect(createDocument()).toEqual({
+      ...DOCUMENT,
+      // Links leave the code out, so opening one compiles the formula again
+      generatedCode: expect.anything(),
+    });
+    expect(documentStore.notice).toBeNull();
+    // Reloading the page keeps the edits made after opening the link
+    expect(window.location.href).toBe(
+      "http://localhost:3000/formula-editor/?mode=demo"
+    );
+  });
+
+  it("warn about documents from a newer version", async () => {
+    openPage(
+      await createShareLink({ ...DOCUMENT, version: DOCUMENT_VERSION + 1 })
+    );
+    expect(await restoreShareLink()).toBe(true);
+    expect(documentStore.notice?.type).toBe("warning");
+  });
+
+  it("report links that are damaged", async () => {
+    const link = await createShareLink(DOCUMENT);
+    openPage(link.slice(0, -10));
+    expect(await restoreShareLink()).toBe(false);
+    expect(documentStore.notice).toEqual({
+      type: "error",
+      message: "The link is incomplete or damaged",
+    });
+  });
+
+  it("leave pages without a document alone", async () => {
+    openPage("/formula-editor/#section");
+    expect(await restoreShareLink()).toBe(false);
+    expect(documentStore.notice).toBeNull();
+    expect(window.location.hash).toBe("#section");
+  });
+});
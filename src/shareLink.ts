@@ -0,0 +1,115 @@
+import {
+  DocumentFormatError,
+  FormulaDocument,
+  createDocument,
+  documentStore,
+  parseDocument,
+} from "./document";
+
+// The document goes in the hash rather than the query so that it's never
+// sent to the server
+const HASH_PREFIX = "#doc=";
+
+const compress = async (text: string) => {
+  const stream = new Blob([text])
+    .stream()
+    .pipeThrough(new CompressionStream("deflate-raw"));
+  return new Uint8Array(await new Response(stream).arrayBuffer());
+};
+
+const decompress = async (bytes: Uint8Array) => {
+  const stream = new Blob([bytes])
+    .stream()
+    .pipeThrough(new DecompressionStream("deflate-raw"));
+  return new Response(stream).text();
+};
+
+// URL-safe base64 without padding
+const toBase64Url = (bytes: Uint8Array) =>
+  btoa(Array.from(bytes, (byte) => String.fromCharCode(byte)).join(""))
+    .replace(/\+/g, "-")
+    .replace(/\//g, "_")
+    .replace(/=+$/, "");
+
+const fromBase64Url = (text: string) =>
+  Uint8Array.from(atob(text.replace(/-/g, "+").replace(/_/g, "/")), (c) =>
+    c.charCodeAt(0)
+  );
+
+/**
+ * Link to the current page that opens the document. Generated code is left
+ * out to keep links short, since it can be generated again.
+ */
+export const createShareLink = async (document: FormulaDocument) => {
+  const payload = await compress(
+    JSON.stringify({ ...document, generatedCode: null })
+  );
+  const url = new URL(window.location.href);
+  url.hash = HASH_PREFIX + toBase64Url(payload);
+  return url.toString();
+};
+
+const hasShareHash = (hash: string) => hash.startsWith(HASH_PREFIX);
+
+/**
+ * The document in a share link's hash. Throws a DocumentFormatError if it
+ * can't be read.
+ */
+const parseShareHash = async (hash: string) => {
+  let text;
+  try {
+    text = await decompress(fromBase64Url(hash.slice(HASH_PREFIX.length)));
+  } catch (error) {
+    throw new DocumentFormatError("The link is incomplete or damaged");
+  }
+  return parseDocument(text);
+};
+
+/**
+ * Copies a link to the current workspace to the clipboard
+ */
+export const copyShareLink = async () => {
+  try {
+    await navigator.clipboard.writeText(
+      await createShareLink(createDocument())
+    );
+    documentStore.setNotice({ type: "info", message: "Link copied" });
+  } catch (error) {
+    console.error("Error copying link:", error);
+    documentStore.setNotice({
+      type: "error",
+      message: "The link couldn't be copied",
+    });
+  }
+};
+
+/**
+ * Loads the document from the page's share link, if it has one, and removes
+ * it from the URL so that reloading keeps later edits. Returns whether it did.
+ */
+export const restoreShareLink = async () => {
+  const hash = window.location.hash;
+  if (!hasShareHash(hash)) {
+    return false;
+  }
+  window.history.replaceState(
+    null,
+    "",
+    window.location.pathname + window.location.search
+  );
+
+  try {
+    documentStore.load(await parseShareHash(hash));
+    return true;
+  } catch (error) {
+    console.error("Error opening link:", error);
+    documentStore.setNotice({
+      type: "error",
+      message:
+        error instanceof DocumentFormatError
+          ? error.message
+          : "The link couldn't be opened",
+    });
+    return false;
+  }
+};
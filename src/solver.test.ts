@@ -0,0 +1,72 @@
+import { describe, expect, it } from "vitest";
+
+import { compileExpression, parseEquations } from "./evaluation";
+import { FIND_ROOT_SOURCE, findRoot, isolateVariable } from "./solver";
+
+// Isolates `symbol` from the left side of `latex` and evaluates the result
+const isolate = (
+  latex: string,
+  symbol: string,
+  variables: Record<string, number>
+) => {
+  const [[side, other]] = parseEquations(latex);
+  const expression = isolateVariable(side, other, symbol);
+  return expression && compileExpression(expression)(variables);
+};
+
+describe("isolateVariable", () => {
+  it.each([
+    ["2x + 3 = y", { y: 7 }, 2],
+    ["3 - x = y", { y: 1 }, 2],
+    ["\\frac{6}{x} = y", { y: 3 }, 2],
+    ["\\frac{x}{4} - 1 = y", { y: 1 }, 8],
+    ["x^3 = y", { y: 8 }, 2],
+    ["2^x = y", { y: 8 }, 3],
+    ["\\sqrt{x + 1} = y", { y: 3 }, 8],
+    ["\\sin(x) = y", { y: 1 }, Math.PI / 2],
+    ["\\exp(2x) = y", { y: Math.E ** 4 }, 2],
+  ])("solves %s for x", (latex, variables, expected) => {
+    expect(isolate(latex, "x", variables)).toBeCloseTo(expected);
+  });
+
+  it("gives up when the variable appears more than once", () => {
+    expect(isolate("x^2 + x = y", "x", { y: 2 })).toBeNull();
+  });
+
+  it("gives up when the variable is on the other side too", () => {
+    expect(isolate("2x = x + y", "x", { y: 2 })).toBeNull();
+  });
+});
+
+describe("findRoot", () => {
+  it("finds a root from a nearby guess", () => {
+    expect(findRoot((x) => x * x - 2, 0, 10, 1)).toBeCloseTo(Math.SQRT2);
+  });
+
+  it("finds a root within the range when Newton's method leaves it", () => {
+    const root = findRoot((x) => Math.atan(x - 3), -100, 100, -50);
+    expect(root).toBeCloseTo(3);
+  });
+
+  it("gives NaN without a root in the range", () => {
+    expect(findRoot((x) => x * x + 1, -10, 10, 0)).toBeNaN();
+  });
+
+  // The embedded source runs in generated code instead of findRoot
+  const embeddedFindRoot = new Function(
+    `${FIND_ROOT_SOURCE}\nreturn findRoot;`
+  )() as typeof findRoot;
+
+  it.each([
+    ["a polynomial", (x: number) => x ** 3 - 2 * x - 5, -10, 10, 0],
+    ["a steep function", (x: number) => Math.atan(x - 3), -100, 100, -50],
+    ["a function without roots", (x: number) => x * x + 1, -10, 10, 0],
+    ["a guess outside the range", (x: number) => Math.cos(x), 0, 3, 100],
+    ["no guess", (x: number) => Math.log(x), 0.1, 10, NaN],
+    ["a discontinuity", (x: number) => 1 / x, -1, 1, 0.5],
+  ])("agrees with its embedded source for %s", (_, f, min, max, guess) => {
+    expect(embeddedFindRoot(f, min, max, guess)).toBe(
+      findRoot(f, min, max, guess)
+    );
+  });
+});
@@ -0,0 +1,216 @@
+import type { Expression } from "./evaluation";
+
+const countOccurrences = (expression: Expression, symbol: string): number => {
+  switch (expression.type) {
+    case "number":
+      return 0;
+    case "variable":
+      return expression.symbol === symbol ? 1 : 0;
+    case "negate":
+      return countOccurrences(expression.operand, symbol);
+    case "binary":
+      return (
+        countOccurrences(expression.left, symbol) +
+        countOccurrences(expression.right, symbol)
+      );
+    case "call":
+      return countOccurrences(expression.argument, symbol);
+  }
+};
+
+export const containsVariable = (expression: Expression, symbol: string) =>
+  countOccurrences(expression, symbol) > 0;
+
+const binary = (
+  operator: "+" | "-" | "*" | "/" | "^",
+  left: Expression,
+  right: Expression
+): Expression => ({ type: "binary", operator, left, right });
+
+const INVERSE_FUNCTIONS: {
+  [name: string]: (argument: Expression) => Expression;
+} = {
+  sin: (argument) => ({ type: "call", name: "asin", argument }),
+  cos: (argument) => ({ type: "call", name: "acos", argument }),
+  tan: (argument) => ({ type: "call", name: "atan", argument }),
+  asin: (argument) => ({ type: "call", name: "sin", argument }),
+  acos: (argument) => ({ type: "call", name: "cos", argument }),
+  atan: (argument) => ({ type: "call", name: "tan", argument }),
+  exp: (argument) => ({ type: "call", name: "log", argument }),
+  log: (argument) => ({ type: "call", name: "exp", argument }),
+  log10: (argument) => binary("^", { type: "number", value: 10 }, argument),
+  sqrt: (argument) => binary("^", argument, { type: "number", value: 2 }),
+};
+
+/**
+ * Symbolically solves `side = other` for `symbol` by undoing the operations
+ * around it one at a time. Only works when the symbol occurs exactly once in
+ * `side` and not at all in `other`; returns null otherwise.
+ *
+ * Even powers and periodic functions are inverted to their principal branch.
+ */
+export const isolateVariable = (
+  side: Expression,
+  other: Expression,
+  symbol: string
+): Expression | null => {
+  if (
+    countOccurrences(side, symbol) !== 1 ||
+    countOccurrences(other, symbol) !== 0
+  ) {
+    return null;
+  }
+
+  let current = side;
+  let result = other;
+  while (current.type !== "variable") {
+    switch (current.type) {
+      case "negate":
+        result = { type: "negate", operand: result };
+        current = current.operand;
+        break;
+      case "call": {
+        const inverse = INVERSE_FUNCTIONS[current.name];
+        if (inverse === undefined) {
+          return null;
+        }
+        result = inverse(result);
+        current = current.argument;
+        break;
+      }
+      case "binary": {
+        const { left, right } = current;
+        const inLeft = containsVariable(left, symbol);
+        switch (current.operator) {
+          case "+":
+            result = binary("-", result, inLeft ? right : left);
+            break;
+          case "-":
+            result = inLeft
+              ? binary("+", result, right)
+              : binary("-", left, result);
+            break;
+          case "*":
+            result = binary("/", result, inLeft ? right : left);
+            break;
+          case "/":
+            result = inLeft
+              ? binary("*", result, right)
+              : binary("/", left, result);
+            break;
+          case "^":
+            result = inLeft
+              ? binary(
+                  "^",
+                  result,
+                  binary("/", { type: "number", value: 1 }, right)
+                )
+              : binary(
+                  "/",
+                  { type: "call", name: "log", argument: result },
+                  { type: "call", name: "log", argument: left }
+                );
+            break;
+        }
+        current = inLeft ? left : right;
+        break;
+      }
+      case "number":
+        // Unreachable since the symbol occurs in `current`
+        return null;
+    }
+  }
+  return result;
+};
+
+const NEWTON_ITERATIONS = 50;
+const BISECTION_SAMPLES = 200;
+const BISECTION_ITERATIONS = 100;
+const TOLERANCE = 1e-12;
+
+/**
+ * Finds a root of `f` within [min, max], starting from `guess`. Newton's method
+ * is tried first since it converges quickly from the previous value while a
+ * slider is dragged; if it leaves the range or stalls, we scan the range for a
+ * sign change and bisect it. Returns NaN if no root is found.
+ *
+ * Must be kept in sync with FIND_ROOT_SOURCE below, which the tests compare
+ * it with.
+ */
+export const findRoot = (
+  f: (x: number) => number,
+  min: number,
+  max: number,
+  guess: number
+): number => {
+  let x = isFinite(guess)
+    ? Math.min(max, Math.max(min, guess))
+    : (min + max) / 2;
+  for (let i = 0; i < NEWTON_ITERATIONS; i++) {
+    const y = f(x);
+    if (Math.abs(y) < TOLERANCE) {
+      return x;
+    }
+    const h = 1e-6 * Math.max(1, Math.abs(x));
+    const slope = (f(x + h) - f(x - h)) / (2 * h);
+    const next = x - y / slope;
+    if (!isFinite(next) || next < min || next > max) {
+      break;
+    }
+    if (Math.abs(next - x) < TOLERANCE * Math.max(1, Math.abs(x))) {
+      return next;
+    }
+    x = next;
+  }
+
+  const step = (max - min) / BISECTION_SAMPLES;
+  for (let i = 0; i < BISECTION_SAMPLES; i++) {
+    let lo = min + i * step;
+    let hi = lo + step;
+    let fLo = f(lo);
+    const fHi = f(hi);
+    if (!isFinite(fLo) || !isFinite(fHi) || fLo * fHi > 0) {
+      continue;
+    }
+    for (let j = 0; j < BISECTION_ITERATIONS; j++) {
+      const mid = (lo + hi) / 2;
+      const fMid = f(mid);
+      if (fLo * fMid <= 0) {
+        hi = mid;
+      } else {
+        lo = mid;
+        fLo = fMid;
+      }
+    }
+    return (lo + hi) / 2;
+  }
+  return NaN;
+};
+
+// JavaScript source for findRoot, embedded in generated code so that it can
+// run standalone
+export const FIND_ROOT_SOURCE = `function findRoot(f, min, max, guess) {
+  let x = isFinite(guess) ? Math.min(max, Math.max(min, guess)) : (min + max) / 2;
+  for (let i = 0; i < ${NEWTON_ITERATIONS}; i++) {
+    const y = f(x);
+    if (Math.abs(y) < ${TOLERANCE}) return x;
+    const h = 1e-6 * Math.max(1, Math.abs(x));
+    const next = x - y / ((f(x + h) - f(x - h)) / (2 * h));
+    if (!isFinite(next) || next < min || next > max) break;
+    if (Math.abs(next - x) < ${TOLERANCE} * Math.max(1, Math.abs(x))) return next;
+    x = next;
+  }
+  const step = (max - min) / ${BISECTION_SAMPLES};
+  for (let i = 0; i < ${BISECTION_SAMPLES}; i++) {
+    let lo = min + i * step, hi = lo + step, fLo = f(lo);
+    const fHi = f(hi);
+    if (!isFinite(fLo) || !isFinite(fHi) || fLo * fHi > 0) continue;
+    for (let j = 0; j < ${BISECTION_ITERATIONS}; j++) {
+      const mid = (lo + hi) / 2, fMid = f(mid);
+      if (fLo * fMid <= 0) hi = mid;
+      else { lo = mid; fLo = fMid; }
+    }
+    return (lo + hi) / 2;
+  }
+  return NaN;
+}`;
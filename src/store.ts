@@ -17,7 +17,13 @@ import {
   updateFormula,
   convertLatexToMathML // NEW: importing MathML conversion
 } from "./FormulaTree";
-import { canonicalizeFormula } from "./formulaTransformations";
+import { joinFormulas } from "./evaluation";
+import {
+  TableCell,
+  canonicalizeFormula,
+  canonicalizeWithIds,
+  findTableCell,
+} from "./formulaTransformations";
 
 class FormulaStore {
   @observable
@@ -44,6 +50,23 @@ class FormulaStore {
     undoStore.checkpoint();
   }
 
+  // Applies a structural edit to the selection, which stays selected even
+  // though the edit moves it around
+  @action
+  editSelection(
+    edit: (
+      formula: AugmentedFormula,
+      siblingGroups: string[][]
+    ) => AugmentedFormula
+  ) {
+    const { formula, ids } = canonicalizeWithIds(
+      edit(this.augmentedFormula, selectionStore.siblingSelections),
+      Array.from(selectionStore.selected)
+    );
+    this.updateFormula(formula);
+    selectionStore.selected.replace(ids);
+  }
+
   /**
    *
    * @param latex
@@ -78,56 +101,60 @@ class FormulaStore {
     return this.styledRangesOverride ?? this.augmentedFormula.toStyledRanges();
   }
 
+  // Every align environment in the formula, with outer environments before
+  // the ones nested in them
   @computed
-  get alignIds(): string[][] | null {
-    if (this.augmentedFormula.children.length !== 1) {
-      return null;
-    }
-    const rootNode = this.augmentedFormula.children[0];
-    if (rootNode instanceof Aligned) {
-      return rootNode.body.map((row) => row.map((node) => node.id));
-    }
-    return null;
+  get alignEnvironments(): Aligned[] {
+    const collect = (node: AugmentedFormulaNode): Aligned[] => [
+      ...(node instanceof Aligned ? [node] : []),
+      ...node.children.flatMap(collect),
+    ];
+    return this.augmentedFormula.children.flatMap(collect);
   }
 
+  // The ids of each align environment's cells, by environment id
   @computed
-  get alignColumnIds(): string[][] | null {
-    // TODO: For now, only caring if the align environment is the root of the formula
-    if (this.augmentedFormula.children.length !== 1) {
-      return null;
-    }
-
-    const rootNode = this.augmentedFormula.children[0];
-    if (rootNode instanceof Aligned) {
-      console.log("Found align columns", rootNode.body[0].length, rootNode);
-      return [
-        ...Array(Math.max(...rootNode.body.map((row) => row.length))).keys(),
-      ].map((col) =>
-        rootNode.body.flatMap((row) => (col < row.length ? [row[col].id] : []))
-      );
-    }
-
-    return null;
+  get alignIds(): Map<string, string[][]> {
+    return new Map(
+      this.alignEnvironments.map((environment) => [
+        environment.id,
+        environment.body.map((row) => row.map((node) => node.id)),
+      ])
+    );
   }
 
   @computed
-  get alignRowInternalTargets(): { id: string; col: number }[][] | null {
-    if (this.augmentedFormula.children.length !== 1) {
-      return null;
-    }
-
-    const rootNode = this.augmentedFormula.children[0];
-    if (rootNode instanceof Aligned) {
-      return rootNode.body.map((row) =>
-        row.flatMap((node, col) =>
-          node instanceof Group
-            ? node.body.map((child) => ({ id: child.id, col }))
-            : [{ id: node.id, col }]
-        )
-      );
-    }
+  get alignColumnIds(): Map<string, string[][]> {
+    return new Map(
+      this.alignEnvironments.map((environment) => [
+        environment.id,
+        [
+          ...Array(
+            Math.max(...environment.body.map((row) => row.length))
+          ).keys(),
+        ].map((col) =>
+          environment.body.flatMap((row) =>
+            col < row.length ? [row[col].id] : []
+          )
+        ),
+      ])
+    );
+  }
 
-    return null;
+  @computed
+  get alignRowInternalTargets(): Map<string, { id: string; col: number }[][]> {
+    return new Map(
+      this.alignEnvironments.map((environment) => [
+        environment.id,
+        environment.body.map((row) =>
+          row.flatMap((node, col) =>
+            node instanceof Group
+              ? node.body.map((child) => ({ id: child.id, col }))
+              : [{ id: node.id, col }]
+          )
+        ),
+      ])
+    );
   }
 
   // NEW: MathML conversion
@@ -189,6 +216,10 @@ class SelectionStore {
   accessor zoom = 4;
   @observable
   accessor pan = { x: 0, y: 0 };
+  // Nodes highlighted from outside the workspace, e.g. by hovering a variable
+  // in the dependency graph
+  @observable
+  accessor highlighted: string[] = [];
 
   workspaceRef: Element | null = null;
   formulaRootRef: Element | null = null;
@@ -281,21 +312,33 @@ class SelectionStore {
     this.selected.clear();
   }
 
+  @action
+  setHighlighted(ids: string[]) {
+    this.highlighted = ids;
+  }
+
   @action
   selectOnly(id: string) {
-    // Walk the subtree and collect all leaf nodes
-    const node = formulaStore.augmentedFormula.findNode(id);
-    if (!node) {
-      console.error(`Node with id ${id} not found`);
-      return;
-    }
+    this.selectNodes([id]);
+  }
+
+  @action
+  selectNodes(ids: string[]) {
+    // Walk the subtrees and collect all leaf nodes
     const collectLeaves = (node: AugmentedFormulaNode): string[] => {
       if (node.children.length === 0 && this.targets.has(node.id)) {
         return [node.id];
       }
       return node.children.flatMap((child) => collectLeaves(child));
     };
-    const selectedLeaves = collectLeaves(node);
+    const selectedLeaves = ids.flatMap((id) => {
+      const node = formulaStore.augmentedFormula.findNode(id);
+      if (!node) {
+        console.error(`Node with id ${id} not found`);
+        return [];
+      }
+      return collectLeaves(node);
+    });
     this.selected.replace(selectedLeaves);
   }
 
@@ -538,6 +581,43 @@ class SelectionStore {
     return frontier;
   }
 
+  // The table cells that the selection is in, e.g. to find the rows and
+  // columns to delete
+  @computed
+  get selectedTableCells(): TableCell[] {
+    return Array.from(this.resolvedSelection).flatMap((id) => {
+      const node = formulaStore.augmentedFormula.findNode(id);
+      const cell = node && findTableCell(node);
+      return cell ? [cell] : [];
+    });
+  }
+
+  // The align environments whose guides are shown: the innermost one around
+  // each selected node, or the outermost ones in it. With nothing selected,
+  // the whole formula counts as selected.
+  @computed
+  get selectedAlignEnvironments(): string[] {
+    const outermost = (node: AugmentedFormulaNode): string[] =>
+      node instanceof Aligned ? [node.id] : node.children.flatMap(outermost);
+    const nodes =
+      this.resolvedSelection.size === 0
+        ? formulaStore.augmentedFormula.children
+        : Array.from(this.resolvedSelection).flatMap((id) => {
+            const node = formulaStore.augmentedFormula.findNode(id);
+            return node ? [node] : [];
+          });
+    return Array.from(
+      new Set(
+        nodes.flatMap((node) => {
+          const innermost = [node, ...node.ancestors].find(
+            (ancestor) => ancestor instanceof Aligned
+          );
+          return innermost ? [innermost.id] : outermost(node);
+        })
+      )
+    );
+  }
+
   @computed({
     equals: (a: string[][], b: string[][]) =>
       a.length === b.length &&
@@ -678,6 +758,24 @@ class UndoStore {
     console.log("New checkpoint:", this.history, this.currentIdx);
   }
 
+  /**
+   * Start a new history whose only checkpoint is the current formula
+   */
+  @action
+  reset() {
+    this.history = [formulaStore.augmentedFormula.toLatex("no-id")];
+    this.currentIdx = 0;
+  }
+
+  /**
+   * Switch to the history of another formula
+   */
+  @action
+  load(history: string[], currentIdx: number) {
+    this.history = history;
+    this.currentIdx = currentIdx;
+  }
+
   @action
   undo() {
     if (this.canUndo) {
@@ -729,3 +827,140 @@ class EditingStore {
 }
 
 export const editingStore = new EditingStore();
+
+// A formula in the workspace. The one being edited lives in formulaStore and
+// undoStore, and is only stored here while another formula is edited.
+type WorkspaceFormula = {
+  id: number;
+  latex: string;
+  renderSpec: RenderSpec | null;
+  history: string[];
+  currentIdx: number;
+};
+
+class WorkspaceStore {
+  @observable
+  accessor formulas: WorkspaceFormula[] = [
+    { id: 0, latex: "", renderSpec: null, history: [], currentIdx: -1 },
+  ];
+  // Index of the formula being edited
+  @observable
+  accessor activeIndex = 0;
+
+  private nextId = 1;
+
+  private createFormula(latex: string): WorkspaceFormula {
+    return {
+      id: this.nextId++,
+      latex,
+      renderSpec: updateFormula(deriveAugmentedFormula(latex)).renderSpec,
+      history: [latex],
+      currentIdx: 0,
+    };
+  }
+
+  // Stores the formula being edited, with its undo history
+  @action
+  private storeActive() {
+    this.formulas[this.activeIndex] = {
+      ...this.formulas[this.activeIndex],
+      latex: formulaStore.latexWithStyling,
+      renderSpec: formulaStore.renderSpec,
+      history: undoStore.history,
+      currentIdx: undoStore.currentIdx,
+    };
+  }
+
+  @action
+  private loadActive(index: number) {
+    const formula = this.formulas[index];
+    this.activeIndex = index;
+    formulaStore.restoreFormulaState(formula.latex);
+    undoStore.load(formula.history, formula.currentIdx);
+  }
+
+  /**
+   * Edit another formula of the workspace
+   */
+  @action
+  activate(index: number) {
+    if (index === this.activeIndex || !this.formulas[index]) {
+      return;
+    }
+    this.storeActive();
+    this.loadActive(index);
+  }
+
+  /**
+   * Add an empty formula after the others and edit it
+   */
+  @action
+  addFormula() {
+    this.storeActive();
+    this.formulas.push(this.createFormula(""));
+    this.loadActive(this.formulas.length - 1);
+  }
+
+  /**
+   * Remove a formula, editing the next one if it was being edited. The last
+   * formula can't be removed.
+   */
+  @action
+  removeFormula(index: number) {
+    if (this.formulas.length <= 1 || !this.formulas[index]) {
+      return;
+    }
+    if (index !== this.activeIndex) {
+      this.formulas.splice(index, 1);
+      if (index < this.activeIndex) {
+        this.activeIndex--;
+      }
+      return;
+    }
+    this.formulas.splice(index, 1);
+    this.loadActive(Math.min(index, this.formulas.length - 1));
+  }
+
+  /**
+   * Replace the workspace with new formulas, each with a fresh undo history,
+   * and edit the first
+   */
+  @action
+  load(latexes: string[]) {
+    this.formulas = (latexes.length > 0 ? latexes : [""]).map((latex) =>
+      this.createFormula(latex)
+    );
+    this.loadActive(0);
+  }
+
+  /**
+   * Each formula, with the one being edited as it currently is
+   */
+  @computed
+  get augmentedFormulas(): AugmentedFormula[] {
+    return this.formulas.map((formula, i) =>
+      i === this.activeIndex
+        ? formulaStore.augmentedFormula
+        : deriveAugmentedFormula(formula.latex)
+    );
+  }
+
+  @computed
+  get latexesWithStyling(): string[] {
+    return this.augmentedFormulas.map((formula) => formula.toLatex("no-id"));
+  }
+
+  /**
+   * All formulas as one, which is what variables are computed from. They
+   * share their variables, so a dependent variable of one formula can be an
+   * input of another.
+   */
+  @computed
+  get latexWithoutStyling() {
+    return joinFormulas(
+      this.augmentedFormulas.map((formula) => formula.toLatex("content-only"))
+    );
+  }
+}
+
+export const workspaceStore = new WorkspaceStore();
@@ -0,0 +1,117 @@
+import { AugmentedFormula } from "./FormulaTree";
+import {
+  cancelCommonFactors,
+  combineLikeTerms,
+  distribute,
+  expandPower,
+  factor,
+  moveAcrossEquals,
+} from "./algebraicRewrites";
+import { documentStore } from "./document";
+import {
+  RewriteError,
+  addScript,
+  swapEquationSides,
+  unwrapNodes,
+  wrapInFraction,
+  wrapInParentheses,
+  wrapInRoot,
+} from "./formulaTransformations";
+import { formulaStore, selectionStore } from "./store";
+
+export type StructuralCommand = {
+  label: string;
+  // KeyboardEvent.key of the shortcut, and how it's shown in the menu
+  key: string;
+  shortcut: string;
+  edit: (
+    formula: AugmentedFormula,
+    siblingGroups: string[][]
+  ) => AugmentedFormula;
+};
+
+export const STRUCTURAL_COMMANDS: StructuralCommand[] = [
+  {
+    label: "Fraction, as numerator",
+    key: "/",
+    shortcut: "/",
+    edit: (formula, siblingGroups) =>
+      wrapInFraction(formula, siblingGroups, "numerator"),
+  },
+  {
+    label: "Fraction, as denominator",
+    key: "?",
+    shortcut: "Shift+/",
+    edit: (formula, siblingGroups) =>
+      wrapInFraction(formula, siblingGroups, "denominator"),
+  },
+  {
+    label: "Superscript",
+    key: "^",
+    shortcut: "^",
+    edit: (formula, siblingGroups) => addScript(formula, siblingGroups, "sup"),
+  },
+  {
+    label: "Subscript",
+    key: "_",
+    shortcut: "_",
+    edit: (formula, siblingGroups) => addScript(formula, siblingGroups, "sub"),
+  },
+  { label: "Square root", key: "r", shortcut: "R", edit: wrapInRoot },
+  { label: "Parentheses", key: "(", shortcut: "(", edit: wrapInParentheses },
+  { label: "Swap sides", key: "=", shortcut: "=", edit: swapEquationSides },
+  {
+    label: "Remove, keeping contents",
+    key: "Backspace",
+    shortcut: "Backspace",
+    edit: unwrapNodes,
+  },
+];
+
+// Algebra moves for step-by-step derivations. Like any edit, each one is a
+// checkpoint in the undo history.
+export const ALGEBRAIC_COMMANDS: Pick<StructuralCommand, "label" | "edit">[] = [
+  { label: "Distribute", edit: distribute },
+  { label: "Factor", edit: factor },
+  { label: "Combine like terms", edit: combineLikeTerms },
+  { label: "Expand power", edit: expandPower },
+  { label: "Cancel common factors", edit: cancelCommonFactors },
+  { label: "Move across =", edit: moveAcrossEquals },
+];
+
+export const runStructuralCommand = ({
+  edit,
+}: Pick<StructuralCommand, "edit">) => {
+  try {
+    formulaStore.editSelection(edit);
+  } catch (error) {
+    if (!(error instanceof RewriteError)) {
+      throw error;
+    }
+    documentStore.setNotice({ type: "error", message: error.message });
+  }
+};
+
+/**
+ * Runs the command whose shortcut was pressed, if something is selected and
+ * the workspace has focus, rather than e.g. a text field or a menu button
+ */
+export const handleStructuralShortcut = (e: KeyboardEvent) => {
+  const target = e.target instanceof Element ? e.target : null;
+  if (
+    e.ctrlKey ||
+    e.metaKey ||
+    e.altKey ||
+    !target ||
+    !selectionStore.workspaceRef?.contains(target) ||
+    target.closest("input, textarea, select, [contenteditable]") ||
+    selectionStore.resolvedSelection.size === 0
+  ) {
+    return;
+  }
+  const command = STRUCTURAL_COMMANDS.find(({ key }) => key === e.key);
+  if (command) {
+    e.preventDefault();
+    runStructuralCommand(command);
+  }
+};
@@ -0,0 +1,71 @@
+/// <reference types="node" />
+import katex from "katex";
+import { Worker as NodeWorker } from "node:worker_threads";
+
+// The app loads KaTeX with a script tag, which puts it on the window
+(globalThis as any).katex = katex;
+
+// jsdom has no workers, so worker scripts, which the app creates from blobs,
+// run in Node worker threads with `self` wrapping the thread's port instead
+const workerScripts = new Map<string, Promise<string>>();
+let workerScriptCount = 0;
+
+URL.createObjectURL = (blob: Blob) => {
+  const url = `blob:test/${workerScriptCount++}`;
+  workerScripts.set(
+    url,
+    new Promise((resolve) => {
+      const reader = new FileReader();
+      reader.onload = () => resolve(reader.result as string);
+      reader.readAsText(blob);
+    })
+  );
+  return url;
+};
+URL.revokeObjectURL = (url: string) => {
+  workerScripts.delete(url);
+};
+
+const WORKER_PRELUDE = `"use strict";
+const { parentPort } = require("node:worker_threads");
+globalThis.self = globalThis;
+self.postMessage = (data) => parentPort.postMessage(data);
+self.addEventListener = (type, listener) =>
+  parentPort.on(type, (data) => listener({ data }));
+`;
+
+class TestWorker {
+  onmessage: ((event: { data: unknown }) => void) | null = null;
+  onerror:
+    | ((event: { message: string; preventDefault: () => void }) => void)
+    | null = null;
+  private terminated = false;
+  private readonly thread: Promise<NodeWorker | null>;
+
+  constructor(url: string) {
+    this.thread = workerScripts.get(url)!.then((script) => {
+      if (this.terminated) {
+        return null;
+      }
+      const thread = new NodeWorker(WORKER_PRELUDE + script, { eval: true });
+      // Tests don't always dispose of their workers
+      thread.unref();
+      thread.on("message", (data) => this.onmessage?.({ data }));
+      thread.on("error", (error) =>
+        this.onerror?.({ message: String(error), preventDefault: () => {} })
+      );
+      return thread;
+    });
+  }
+
+  postMessage(data: unknown) {
+    this.thread.then((thread) => thread?.postMessage(data));
+  }
+
+  terminate() {
+    this.terminated = true;
+    this.thread.then((thread) => thread?.terminate());
+  }
+}
+
+(globalThis as any).Worker = TestWorker;
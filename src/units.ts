@@ -0,0 +1,234 @@
+import {
+  DIMENSIONLESS,
+  Dimension,
+  formatDimension,
+  parseUnits,
+  sameDimension,
+} from "../interactive-math/src/core/Units";
+import {
+  Equation,
+  Expression,
+  collectVariables,
+  compileExpression,
+  parseEquations,
+} from "./evaluation";
+
+const EPSILON = 1e-9;
+
+/**
+ * Factor that converts values in the unit to coherent SI units, or 1 if the
+ * unit is missing or invalid
+ */
+export const unitScale = (unit: string | undefined) => {
+  if (!unit) {
+    return 1;
+  }
+  try {
+    return parseUnits(unit).scale;
+  } catch (error) {
+    return 1;
+  }
+};
+
+const describeDimension = (dimension: Dimension) =>
+  formatDimension(dimension) || "no unit";
+
+// Dimension of an expression in terms of the dimension `u` of the variable
+// being solved for, i.e. `dimension + power·u`. When not solving for a
+// variable, the power is always 0.
+type Term = { dimension: Dimension; power: number };
+
+const NONE: Term = { dimension: DIMENSIONLESS, power: 0 };
+
+const scaleTerm = ({ dimension, power }: Term, factor: number): Term => ({
+  dimension: dimension.map((n) => n * factor),
+  power: power * factor,
+});
+
+const combineTerms = (a: Term, b: Term, sign: number): Term => ({
+  dimension: a.dimension.map((n, i) => n + sign * b.dimension[i]),
+  power: a.power + sign * b.power,
+});
+
+// Called wherever two terms must have the same dimension, with a message
+// describing the problem if they don't
+type Requirement = (
+  a: Term,
+  b: Term,
+  message: (a: string, b: string) => string
+) => void;
+
+const termOf = (
+  expression: Expression,
+  lookup: (symbol: string) => Term | null,
+  require: Requirement
+): Term | null => {
+  switch (expression.type) {
+    case "number":
+      return NONE;
+    case "variable":
+      return lookup(expression.symbol);
+    case "negate":
+      return termOf(expression.operand, lookup, require);
+    case "call": {
+      const argument = termOf(expression.argument, lookup, require);
+      if (argument === null) {
+        return null;
+      }
+      if (expression.name === "sqrt") {
+        return scaleTerm(argument, 0.5);
+      }
+      require(argument, NONE, (unit) =>
+        `${expression.name} is applied to a quantity in ${unit}`);
+      return NONE;
+    }
+    case "binary": {
+      const left = termOf(expression.left, lookup, require);
+      const right = termOf(expression.right, lookup, require);
+      if (left === null || right === null) {
+        return null;
+      }
+      switch (expression.operator) {
+        case "+":
+        case "-":
+          require(left, right, (a, b) =>
+            `Quantities in ${a} and ${b} are added together`);
+          return left.power === 0 ? left : right;
+        case "*":
+          return combineTerms(left, right, 1);
+        case "/":
+          return combineTerms(left, right, -1);
+        case "^":
+          if (collectVariables(expression.right).size === 0) {
+            return scaleTerm(left, compileExpression(expression.right)({}));
+          }
+          require(right, NONE, (unit) => `An exponent is in ${unit}`);
+          require(left, NONE, (unit) =>
+            `A quantity in ${unit} is raised to a variable power`);
+          return NONE;
+      }
+    }
+  }
+};
+
+export type UnitAnalysis = {
+  // Dimensions of the dependent variables that don't have a unit of their
+  // own, derived from the units of the variables they're computed from
+  derived: Map<string, Dimension>;
+  // Problems with the units, e.g. quantities in different units being added
+  errors: string[];
+};
+
+/**
+ * Checks that the formula is dimensionally consistent given the variables'
+ * units, and derives units for dependent variables without one. Variables
+ * without a unit count as dimensionless numbers. Formulas the local evaluator
+ * can't parse aren't checked.
+ */
+export const analyzeUnits = (
+  latex: string,
+  variables: { symbol: string; unit?: string; dependent: boolean }[]
+): UnitAnalysis => {
+  const analysis: UnitAnalysis = { derived: new Map(), errors: [] };
+  if (!variables.some((variable) => variable.unit)) {
+    return analysis;
+  }
+
+  const known = new Map<string, Dimension>();
+  const pending = new Set<string>();
+  for (const { symbol, unit, dependent } of variables) {
+    if (unit) {
+      try {
+        known.set(symbol, parseUnits(unit).dimension);
+      } catch (error) {
+        analysis.errors.push(`${symbol}: ${(error as Error).message}`);
+        known.set(symbol, DIMENSIONLESS);
+      }
+    } else if (dependent) {
+      pending.add(symbol);
+    }
+  }
+
+  let equations: Equation[];
+  try {
+    equations = parseEquations(latex);
+  } catch (error) {
+    return analysis;
+  }
+
+  const lookup = (symbol: string): Term | null => {
+    if (pending.has(symbol)) {
+      return null;
+    }
+    return { dimension: known.get(symbol) ?? DIMENSIONLESS, power: 0 };
+  };
+
+  // Solves for one pending dependent at a time, from the first equation that
+  // relates it to variables with known units, until no more can be derived
+  const solve = (symbol: string): Dimension | null => {
+    for (const sides of equations) {
+      let solution: Dimension | null = null;
+      const require: Requirement = (a, b) => {
+        if (solution === null && Math.abs(a.power - b.power) > EPSILON) {
+          solution = b.dimension.map(
+            (n, i) => (n - a.dimension[i]) / (a.power - b.power)
+          );
+        }
+      };
+      const terms = sides.map((side) =>
+        termOf(
+          side,
+          (s) =>
+            s === symbol ? { dimension: DIMENSIONLESS, power: 1 } : lookup(s),
+          require
+        )
+      );
+      if (terms.every((term): term is Term => term !== null)) {
+        terms.slice(1).forEach((term) => require(terms[0], term, () => ""));
+      }
+      if (solution !== null) {
+        return solution;
+      }
+    }
+    return null;
+  };
+
+  let progress = true;
+  while (progress) {
+    progress = false;
+    for (const symbol of pending) {
+      const dimension = solve(symbol);
+      if (dimension !== null) {
+        pending.delete(symbol);
+        known.set(symbol, dimension);
+        analysis.derived.set(symbol, dimension);
+        progress = true;
+      }
+    }
+  }
+
+  const errors = new Set<string>();
+  const check: Requirement = (a, b, message) => {
+    if (!sameDimension(a.dimension, b.dimension)) {
+      errors.add(
+        message(describeDimension(a.dimension), describeDimension(b.dimension))
+      );
+    }
+  };
+  for (const sides of equations) {
+    const terms = sides.map((side) => termOf(side, lookup, check));
+    if (terms.every((term): term is Term => term !== null)) {
+      terms
+        .slice(1)
+        .forEach((term) =>
+          check(
+            terms[0],
+            term,
+            (a, b) => `The sides of an equation are in ${a} and ${b}`
+          )
+        );
+    }
+  }
+  analysis.errors.push(...errors);
+  return analysis;
+};
@@ -0,0 +1,25 @@
+import { describe, expect, it } from "vitest";
+
+import { deriveAugmentedFormula } from "./FormulaTree";
+import { findVariables } from "./variables";
+
+describe("findVariables", () => {
+  it("gives decorated symbols their own symbol and id", () => {
+    const variables = findVariables(
+      deriveAugmentedFormula("\\bar{x} + \\hat{x} + \\overline{x} + x")
+    );
+    expect(variables.map(({ symbol }) => symbol)).toEqual([
+      "\\bar{x}",
+      "\\hat{x}",
+      "\\overline{x}",
+      "x",
+    ]);
+    expect(new Set(variables.map(({ id }) => id)).size).toBe(4);
+    variables.forEach(({ id }) => expect(id).toMatch(/^[a-zA-Z0-9_-]+$/));
+  });
+
+  it("finds the letters of a font around several of them", () => {
+    const variables = findVariables(deriveAugmentedFormula("\\mathrm{ab}"));
+    expect(variables.map(({ symbol }) => symbol)).toEqual(["a", "b"]);
+  });
+});
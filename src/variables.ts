@@ -0,0 +1,134 @@
+import {
+  AugmentedFormula,
+  AugmentedFormulaNode,
+  MathSymbol,
+  Script,
+} from "./FormulaTree";
+import { scriptedSymbol, variableSymbol } from "./evaluation";
+import { replaceNodes } from "./formulaTransformations";
+
+export type FormulaVariable = {
+  // Id shared by the computation store and the rendered interactive element
+  id: string;
+  // Name of the variable as used by evaluation, e.g. `x`, `\alpha`, `v_0` or
+  // `\bar{x}`
+  symbol: string;
+  // The symbol node, or the font, accent or line around a decorated symbol, or
+  // the script node for subscripted variables
+  node: AugmentedFormulaNode;
+};
+
+/**
+ * Id for a variable that is safe to use in `\cssId` and as an HTML id.
+ * Characters other than letters, digits and underscores are escaped by their
+ * character code so that distinct symbols never share an id.
+ */
+export const variableId = (symbol: string) =>
+  `var-${symbol.replace(/[^a-zA-Z0-9_]/g, (c) => `-${c.charCodeAt(0).toString(16)}-`)}`;
+
+// A variable with a subscript, e.g. `v_0`, `v_{max}` or `m_{\text{car}}`, is a
+// single variable. The superscript, if any, stays an exponent.
+const scriptedVariableSymbol = (node: Script) => {
+  const base = variableSymbol(node.base);
+  return node.sub && base !== null ? scriptedSymbol(base, node.sub) : null;
+};
+
+const collectVariables = (
+  node: AugmentedFormulaNode,
+  variables: FormulaVariable[]
+) => {
+  switch (node.type) {
+    case "symbol":
+    case "font":
+    case "accent":
+    case "line": {
+      // Decorated symbols are variables of their own, like `\bar{x}`
+      const symbol = variableSymbol(node);
+      if (symbol !== null) {
+        variables.push({ id: variableId(symbol), symbol, node });
+        return;
+      }
+      break;
+    }
+    case "script": {
+      if (node.base.type === "brace") {
+        // The script of an annotated brace is its caption
+        collectVariables(node.base, variables);
+        return;
+      }
+      const symbol = scriptedVariableSymbol(node);
+      if (symbol !== null) {
+        variables.push({ id: variableId(symbol), symbol, node });
+        if (node.sup) {
+          collectVariables(node.sup, variables);
+        }
+        return;
+      }
+      break;
+    }
+    case "text":
+      // Letters in text are words, not variables
+      return;
+    case "phantom":
+      // Phantoms are invisible, so there's nothing to interact with
+      return;
+  }
+  node.children.forEach((child) => collectVariables(child, variables));
+};
+
+/**
+ * Every occurrence of a variable in the formula, in document order. The same
+ * variable appears once per occurrence.
+ */
+export const findVariables = (formula: AugmentedFormula): FormulaVariable[] => {
+  const variables: FormulaVariable[] = [];
+  formula.children.forEach((node) => collectVariables(node, variables));
+  return variables;
+};
+
+/**
+ * The variable that a node is part of, so that selecting the base or the
+ * subscript of `v_0` selects the variable `v_0`.
+ */
+export const findVariableForNode = (
+  formula: AugmentedFormula,
+  nodeId: string
+): FormulaVariable | null => {
+  const variables = findVariables(formula);
+  let node = formula.findNode(nodeId);
+  while (node !== null) {
+    const current = node;
+    const variable = variables.find((v) => v.node.id === current.id);
+    if (variable) {
+      return variable;
+    }
+    // Only look through the base and subscript of a script, so that a
+    // variable in an exponent doesn't resolve to the variable it's raised to
+    const parent: AugmentedFormulaNode | null = node._parent;
+    if (parent?.type === "script" && parent.sup?.id === node.id) {
+      return null;
+    }
+    node = parent;
+  }
+  return null;
+};
+
+/**
+ * LaTeX for the formula with every variable replaced by `render(variable)`
+ */
+export const replaceVariables = (
+  formula: AugmentedFormula,
+  render: (variable: FormulaVariable) => string
+): string => {
+  const variables = new Map(findVariables(formula).map((v) => [v.node.id, v]));
+  return replaceNodes(formula, (node) => {
+    const variable = variables.get(node.id);
+    if (!variable) {
+      return node;
+    }
+    const replacement = new MathSymbol(node.id, render(variable));
+    return node.type === "script" && node.sup
+      ? new Script(node.id, replacement, undefined, node.sup)
+      : replacement;
+  }).toLatex("content-only");
+};
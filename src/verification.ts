@@ -0,0 +1,169 @@
+import { Sandbox } from "../interactive-math/src/computation/Sandbox";
+import { UnsupportedFormulaError } from "./evaluation";
+import { MathjsSide } from "./mathjsEquations";
+
+const SAMPLE_COUNT = 5;
+const TOLERANCE = 1e-6;
+
+export type VerificationInput = {
+  symbol: string;
+  value: number;
+  min?: number;
+  max?: number;
+};
+
+export type VerificationCase = {
+  inputs: Record<string, number>;
+  outputs: Record<string, number>;
+  // Value of each side of each equation with the outputs substituted in, with
+  // an equation for each entry of a matrix equation
+  sides: number[][];
+  passed: boolean;
+  error?: string;
+};
+
+export type VerificationReport =
+  | { status: "passed" | "failed"; cases: VerificationCase[] }
+  // mathjs couldn't evaluate the formula either, so there's nothing to
+  // compare against
+  | { status: "skipped"; reason: string };
+
+// Deterministic so that the same formula always gets the same report
+const seededRandom = (seed: number) => () => {
+  seed = (seed + 0x6d2b79f5) | 0;
+  let t = Math.imul(seed ^ (seed >>> 15), 1 | seed);
+  t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+  return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+};
+
+// The first sample uses the current values; the rest pick values within each
+// variable's min/max. Variables without a range keep their current value.
+const sampleInputs = (inputs: VerificationInput[]) => {
+  const random = seededRandom(SAMPLE_COUNT);
+  const samples = Array.from({ length: SAMPLE_COUNT }, (_, i) =>
+    Object.fromEntries(
+      inputs.map(({ symbol, value, min, max }) => [
+        symbol,
+        i > 0 && min !== undefined && max !== undefined
+          ? min + random() * (max - min)
+          : value,
+      ])
+    )
+  );
+  return Array.from(
+    new Map(samples.map((sample) => [JSON.stringify(sample), sample])).values()
+  );
+};
+
+const approximatelyEqual = (a: number, b: number) =>
+  Math.abs(a - b) <= TOLERANCE * Math.max(1, Math.abs(a), Math.abs(b));
+
+// Each side's values, one equation per entry of matrices
+const evaluateEquation = (
+  sides: MathjsSide[],
+  variables: Record<string, number>
+) => {
+  const values = sides.map((side) => side.evaluate(variables));
+  const entries = Math.max(...values.map((value) => value.length));
+  return Array.from({ length: entries }, (_, i) =>
+    values.map((value) => value[i] ?? NaN)
+  );
+};
+
+/**
+ * Checks generated code against the formula itself: for sampled inputs, the
+ * generated outputs are substituted back into each equation, whose sides must
+ * then agree. Unlike comparing against a single expected value, this accepts
+ * any valid solution (e.g. either root of a quadratic).
+ *
+ * The equations are evaluated with mathjs rather than the local evaluator,
+ * since code only comes from the LLM for formulas that the local evaluator
+ * can't handle.
+ *
+ * Samples where the formula is undefined (e.g. a logarithm of a negative
+ * number), or where the generated code returns no value because there may be
+ * no solution, don't count towards the result.
+ */
+export const verifyGeneratedCode = async (
+  code: string,
+  formula: string,
+  inputs: VerificationInput[],
+  dependentVars: string[]
+): Promise<VerificationReport> => {
+  let equations: MathjsSide[][];
+  try {
+    // mathjs is only loaded for formulas that need it
+    const { compileMathjsEquations } = await import("./mathjsEquations");
+    equations = compileMathjsEquations(formula);
+  } catch (error) {
+    if (error instanceof UnsupportedFormulaError) {
+      return { status: "skipped", reason: error.message };
+    }
+    throw error;
+  }
+  // Sides that only depend on the inputs tell us whether the formula is
+  // defined at a sample at all
+  const inputSides = equations
+    .flat()
+    .filter((side) =>
+      dependentVars.every((symbol) => !side.variables.has(symbol))
+    );
+
+  const sandbox = new Sandbox(code);
+  const cases: VerificationCase[] = [];
+  try {
+    for (const sample of sampleInputs(inputs)) {
+      if (
+        inputSides.some((side) =>
+          side.evaluate(sample).some((value) => !isFinite(value))
+        )
+      ) {
+        continue;
+      }
+
+      let outputs: Record<string, number>;
+      try {
+        outputs = await sandbox.evaluate(sample);
+      } catch (error) {
+        cases.push({
+          inputs: sample,
+          outputs: {},
+          sides: [],
+          passed: false,
+          error: String(error),
+        });
+        continue;
+      }
+
+      if (dependentVars.some((symbol) => !isFinite(outputs[symbol]))) {
+        continue;
+      }
+
+      const scope = { ...sample, ...outputs };
+      const values = equations.flatMap((sides) =>
+        evaluateEquation(sides, scope)
+      );
+      cases.push({
+        inputs: sample,
+        outputs,
+        sides: values,
+        passed: values.every((sides) =>
+          sides.every((value) => approximatelyEqual(value, sides[0]))
+        ),
+      });
+    }
+  } finally {
+    sandbox.dispose();
+  }
+
+  if (cases.length === 0) {
+    return {
+      status: "skipped",
+      reason: "No sampled point has a value to check",
+    };
+  }
+  return {
+    status: cases.every((c) => c.passed) ? "passed" : "failed",
+    cases,
+  };
+};
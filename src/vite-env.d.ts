@@ -1,9 +1,19 @@
 /// <reference types="vite/client" />
 
 interface ImportMetaEnv {
-    readonly VITE_OPENAI_API_KEY: string;
+    readonly VITE_OPENAI_API_KEY?: string;
+    // Which LLM generates evaluation code, see createFunctionGenerationProvider
+    readonly VITE_LLM_PROVIDER?: string;
+    readonly VITE_LLM_ENDPOINT?: string;
+    readonly VITE_LLM_MODEL?: string;
+    readonly VITE_LLM_API_KEY?: string;
 }
 
 interface ImportMeta {
     readonly env: ImportMetaEnv;
-}
\ No newline at end of file
+}
+
+declare module "virtual:interactive-math" {
+    const source: string;
+    export default source;
+}
@@ -1,5 +1,43 @@
+/// <reference types="vitest" />
 import react from "@vitejs/plugin-react";
-import { defineConfig } from "vite";
+import { build } from "esbuild";
+import { Plugin, defineConfig } from "vite";
+
+const INTERACTIVE_MATH_MODULE = "virtual:interactive-math";
+
+// Exports the interactive-math library, bundled into a script that defines an
+// `InteractiveMath` global, as a string to put into exported HTML
+const interactiveMathBundle = (): Plugin => {
+  let root = "";
+  return {
+    name: "interactive-math-bundle",
+    configResolved: (config) => {
+      root = config.root;
+    },
+    resolveId: (id) =>
+      id === INTERACTIVE_MATH_MODULE ? `\0${INTERACTIVE_MATH_MODULE}` : null,
+    async load(id) {
+      if (id !== `\0${INTERACTIVE_MATH_MODULE}`) {
+        return null;
+      }
+      const result = await build({
+        absWorkingDir: root,
+        entryPoints: ["interactive-math/src/index.ts"],
+        bundle: true,
+        format: "iife",
+        globalName: "InteractiveMath",
+        minify: true,
+        target: "es2020",
+        write: false,
+        metafile: true,
+      });
+      Object.keys(result.metafile.inputs).forEach((input) =>
+        this.addWatchFile(`${root}/${input}`)
+      );
+      return `export default ${JSON.stringify(result.outputFiles[0].text)};`;
+    },
+  };
+};
 
 // https://vitejs.dev/config/
 export default defineConfig({
@@ -14,8 +52,13 @@ export default defineConfig({
         ],
       },
     }),
+    interactiveMathBundle(),
   ],
   css: {
     postcss: "./postcss.config.js",
   },
+  test: {
+    environment: "jsdom",
+    setupFiles: ["./src/testSetup.ts"],
+  },
 });